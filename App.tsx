@@ -1,5 +1,5 @@
 import 'react-native-get-random-values';
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { Provider } from 'react-redux';
@@ -12,15 +12,27 @@ import { initializeApp } from 'firebase/app'; // NEW: For Firebase init
 import { store } from '@/store';
 import AppNavigator from '@/navigation/AppNavigator';
 import GlobalStatusBar from '@/components/GlobalStatusBar';
+import AppLockOverlay from '@/components/AppLockOverlay';
 import websocketService from '@/services/websocket';
 import apiService from '@/services/api';
 import encryptionService from '@/services/encryptionService';
+import prekeyService from '@/services/prekeyService';
+import sessionManager, { E2ESession } from '@/services/sessionManager';
+import keyRotationService from '@/services/keyRotationService';
+import disappearingMessagesService from '@/services/disappearingMessagesService';
+import appLockService from '@/services/appLockService';
+import panicWipeService from '@/services/panicWipeService';
+import outboxService from '@/services/outboxService';
+import receiptService from '@/services/receiptService';
+import messageRequestService from '@/services/messageRequestService';
+import searchIndexService from '@/services/searchIndexService';
 import { useAppSelector } from '@/store';
 import { requestNotificationPermissions, showNotification, setBadgeCount } from '@/utils/notifications';
 import { NavigationService } from '@/services/navigationService';
 import { NativeModules } from 'react-native';
 // NEW: Import moments actions for syncing notification count
 import { setMomentNotifications } from '@/store/slices/momentsSlice';
+import { updateSession, toChatSession, rotateOldSessions } from '@/store/slices/chatSlice';
 
 // Import test function if in development
 let runDetailedCryptoTest: any;
@@ -81,6 +93,18 @@ Notifications.setNotificationHandler({
     const appState = AppState.currentState;
     const data = notification.request.content.data;
     
+    // App lock and decoy mode: chat notifications stay hidden
+    if (
+      (data?.type === 'chat' || data?.type === 'message') &&
+      (appLockService.shouldHideNotifications() || await panicWipeService.isDecoyActive())
+    ) {
+      return {
+        shouldShowAlert: false,
+        shouldPlaySound: false,
+        shouldSetBadge: true,
+      };
+    }
+    
     // Show notification only if:
     // 1. App is in background/inactive
     // 2. OR it's a chat message and user is not in that chat screen
@@ -128,6 +152,7 @@ function AppContent() {
   const isAuthenticated = useAppSelector(state => state.auth?.isAuthenticated ?? false);
   const userId = useAppSelector(state => state.auth?.user?.user_id);
   const appStateRef = useRef(AppState.currentState);
+  const [appActive, setAppActive] = useState(AppState.currentState === 'active');
   const notificationListenerRef = useRef<any>();
   const responseListenerRef = useRef<any>();
   const unreadCountRef = useRef(0);
@@ -305,11 +330,21 @@ function AppContent() {
   };
 
   const handleAppStateChange = async (nextAppState: AppStateStatus) => {
+    // Privacy cover whenever the app is not in front (app switcher included)
+    setAppActive(nextAppState === 'active');
+    
+    if (nextAppState === 'background') {
+      await appLockService.handleBackground();
+    }
+    
     if (appStateRef.current.match(/inactive|background/) && nextAppState === 'active') {
       if (__DEV__) {
         console.log('📱 App came to foreground');
       }
       
+      // Lock before anything else if the app was away too long
+      await appLockService.handleForeground();
+      
       // Refresh WebSocket connection if needed
       if (isAuthenticated && userId && !websocketService.isConnected()) {
         await websocketService.connect(userId);
@@ -320,6 +355,13 @@ function AppContent() {
         await registerFCMToken(userId);
       }
       
+      // Timers don't run in background: expire what is due now
+      // and retry queued sends without waiting for their backoff
+      if (isAuthenticated) {
+        disappearingMessagesService.sweep().catch(() => undefined);
+        outboxService.flush().catch(() => undefined);
+      }
+      
       // Reload counts when app comes to foreground
       await loadInitialCounts();
     }
@@ -332,14 +374,18 @@ function AppContent() {
     try {
       if (!isAuthenticated || !userId) return;
       
-      // Get unread messages count
-      const conversationsResponse = await apiService.getConversations(20);
-      if (!conversationsResponse.error && conversationsResponse.conversations) {
-        const totalUnread = conversationsResponse.conversations.reduce(
-          (sum: number, conv: any) => sum + (conv.unread_count || 0),
-          0
-        );
-        unreadCountRef.current = totalUnread;
+      // Get unread messages count (none to show in decoy mode)
+      if (await panicWipeService.isDecoyActive()) {
+        unreadCountRef.current = 0;
+      } else {
+        const conversationsResponse = await apiService.getConversations(20);
+        if (!conversationsResponse.error && conversationsResponse.conversations) {
+          const totalUnread = conversationsResponse.conversations.reduce(
+            (sum: number, conv: any) => sum + (conv.unread_count || 0),
+            0
+          );
+          unreadCountRef.current = totalUnread;
+        }
       }
       
       // ✅ NEW: Get moment notifications count and sync with Redux
@@ -438,6 +484,28 @@ function AppContent() {
         // Connect with proper user ID
         await websocketService.connect(userId);
         
+        // Keep our prekey bundle stocked so matches can message us while offline
+        prekeyService.syncPrekeys().catch(() => undefined);
+        
+        // Key rotation: listen for partner offers, rotate keys that are due
+        keyRotationService.attach();
+        store.dispatch(rotateOldSessions());
+        
+        // Disappearing messages that expired while the app was closed
+        disappearingMessagesService.sweep().catch(() => undefined);
+        
+        // Send what was queued offline, and again on every reconnect
+        outboxService.start().catch(() => undefined);
+        
+        // Strangers' first messages wait in Requests
+        messageRequestService.attach(userId);
+        
+        // Delivery and read receipts, both ways
+        receiptService.attach(userId);
+        
+        // On-device search over decrypted messages
+        searchIndexService.start().catch(() => undefined);
+        
         // Subscribe to WebSocket messages for notifications
         const checkForMessages = setInterval(() => {
           const state = store.getState();
@@ -527,6 +595,19 @@ function AppContent() {
     };
   }, [isAuthenticated, userId]);
 
+  // Mirror E2E session changes into Redux
+  useEffect(() => {
+    const handleSessionChange = (session: E2ESession) => {
+      store.dispatch(updateSession({
+        conversationKey: session.conversationKey,
+        session: toChatSession(session),
+      }));
+    };
+
+    sessionManager.on(handleSessionChange);
+    return () => sessionManager.off(handleSessionChange);
+  }, []);
+
   // Monitor WebSocket connection health
   useEffect(() => {
     if (!isAuthenticated || !userId) return;
@@ -590,6 +671,7 @@ function AppContent() {
   return (
     <SafeAreaProvider>
       <AppNavigator />
+      <AppLockOverlay appActive={appActive} />
       <StatusBar style="light" />
     </SafeAreaProvider>
   );
@@ -0,0 +1,174 @@
+// src/__tests__/crypto/aesGcm.test.ts
+import { createCipheriv } from 'crypto';
+import { aesGcmEncrypt, aesGcmDecrypt } from '../../utils/aesGcm';
+
+const hex = (value: string): Uint8Array => new Uint8Array(Buffer.from(value, 'hex'));
+const toHex = (bytes: Uint8Array): string => Buffer.from(bytes).toString('hex');
+
+interface Vector {
+  name: string;
+  key: string;
+  iv: string;
+  plaintext: string;
+  aad: string;
+  ciphertext: string;
+  tag: string;
+}
+
+// AES-256 test cases 13-18 from "The Galois/Counter Mode of Operation (GCM)", McGrew & Viega
+const K = 'feffe9928665731c6d6a8f9467308308feffe9928665731c6d6a8f9467308308';
+const P =
+  'd9313225f88406e5a55909c5aff5269a86a7a9531534f7da2e4c303d8a318a72' +
+  '1c3c0c95956809532fcf0e2449a6b525b16aedf5aa0de657ba637b391aafd255';
+const P60 = P.slice(0, 120);
+const A = 'feedfacedeadbeeffeedfacedeadbeefabaddad2';
+
+const VECTORS: Vector[] = [
+  {
+    name: 'test case 13: empty plaintext',
+    key: '00'.repeat(32),
+    iv: '00'.repeat(12),
+    plaintext: '',
+    aad: '',
+    ciphertext: '',
+    tag: '530f8afbc74536b9a963b4f1c4cb738b',
+  },
+  {
+    name: 'test case 14: one zero block',
+    key: '00'.repeat(32),
+    iv: '00'.repeat(12),
+    plaintext: '00'.repeat(16),
+    aad: '',
+    ciphertext: 'cea7403d4d606b6e074ec5d3baf39d18',
+    tag: 'd0d1c8a799996bf0265b98b5d48ab919',
+  },
+  {
+    name: 'test case 15: four blocks',
+    key: K,
+    iv: 'cafebabefacedbaddecaf888',
+    plaintext: P,
+    aad: '',
+    ciphertext:
+      '522dc1f099567d07f47f37a32a84427d643a8cdcbfe5c0c97598a2bd2555d1aa' +
+      '8cb08e48590dbb3da7b08b1056828838c5f61e6393ba7a0abcc9f662898015ad',
+    tag: 'b094dac5d93471bdec1a502270e3cc6c',
+  },
+  {
+    name: 'test case 16: partial block with AAD',
+    key: K,
+    iv: 'cafebabefacedbaddecaf888',
+    plaintext: P60,
+    aad: A,
+    ciphertext:
+      '522dc1f099567d07f47f37a32a84427d643a8cdcbfe5c0c97598a2bd2555d1aa' +
+      '8cb08e48590dbb3da7b08b1056828838c5f61e6393ba7a0abcc9f662',
+    tag: '76fc6ece0f4e1768cddf8853bb2d551b',
+  },
+  {
+    name: 'test case 17: 64-bit IV',
+    key: K,
+    iv: 'cafebabefacedbad',
+    plaintext: P60,
+    aad: A,
+    ciphertext:
+      'c3762df1ca787d32ae47c13bf19844cbaf1ae14d0b976afac52ff7d79bba9de0' +
+      'feb582d33934a4f0954cc2363bc73f7862ac430e64abe499f47c9b1f',
+    tag: '3a337dbf46a792c45e454913fe2ea8f2',
+  },
+  {
+    name: 'test case 18: 480-bit IV',
+    key: K,
+    iv:
+      '9313225df88406e555909c5aff5269aa6a7a9538534f7da1e4c303d2a318a728' +
+      'c3c0c95156809539fcf0e2429a6b525416aedbf5a0de6a57a637b39b',
+    plaintext: P60,
+    aad: A,
+    ciphertext:
+      '5a8def2f0c9e53f1f75d7853659e2a20eeb2b22aafde6419a058ab4f6f746bf4' +
+      '0fc0c3b780f244452da3ebf1c5d82cdea2418997200ef82e44ae7e3f',
+    tag: 'a44a8266ee1c8eb0c8b5d4cf5ae9f19a',
+  },
+];
+
+describe('aesGcm', () => {
+  describe('known-answer vectors', () => {
+    it.each(VECTORS)('encrypts $name', vector => {
+      const { ciphertext, tag } = aesGcmEncrypt(
+        hex(vector.key),
+        hex(vector.iv),
+        hex(vector.plaintext),
+        hex(vector.aad)
+      );
+
+      expect(toHex(ciphertext)).toBe(vector.ciphertext);
+      expect(toHex(tag)).toBe(vector.tag);
+    });
+
+    it.each(VECTORS)('decrypts $name', vector => {
+      const plaintext = aesGcmDecrypt(
+        hex(vector.key),
+        hex(vector.iv),
+        hex(vector.ciphertext),
+        hex(vector.tag),
+        hex(vector.aad)
+      );
+
+      expect(plaintext).not.toBeNull();
+      expect(toHex(plaintext!)).toBe(vector.plaintext);
+    });
+  });
+
+  describe('interoperability', () => {
+    // OpenSSL is what the native module and server-side tooling produce
+    it('matches OpenSSL for every length across block boundaries', () => {
+      const key = hex(K);
+      const iv = hex('cafebabefacedbaddecaf888');
+
+      for (let length = 0; length <= 80; length++) {
+        const plaintext = new Uint8Array(length).map((_, i) => (i * 31 + length) & 0xff);
+        const aad = plaintext.slice(0, length % 20);
+
+        const cipher = createCipheriv('aes-256-gcm', key, iv);
+        cipher.setAAD(aad);
+        const expected = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+        const { ciphertext, tag } = aesGcmEncrypt(key, iv, plaintext, aad);
+        expect(toHex(ciphertext)).toBe(expected.toString('hex'));
+        expect(toHex(tag)).toBe(cipher.getAuthTag().toString('hex'));
+      }
+    });
+  });
+
+  describe('authentication', () => {
+    const vector = VECTORS[3];
+
+    const decryptWith = (changes: Partial<Vector>) => {
+      const v = { ...vector, ...changes };
+      return aesGcmDecrypt(hex(v.key), hex(v.iv), hex(v.ciphertext), hex(v.tag), hex(v.aad));
+    };
+
+    it('rejects a modified ciphertext', () => {
+      expect(decryptWith({ ciphertext: 'ff' + vector.ciphertext.slice(2) })).toBeNull();
+    });
+
+    it('rejects a modified tag', () => {
+      expect(decryptWith({ tag: vector.tag.slice(0, -2) + '00' })).toBeNull();
+    });
+
+    it('rejects a truncated tag', () => {
+      expect(decryptWith({ tag: vector.tag.slice(0, 24) })).toBeNull();
+    });
+
+    it('rejects different AAD', () => {
+      expect(decryptWith({ aad: '' })).toBeNull();
+    });
+
+    it('rejects the wrong key', () => {
+      expect(decryptWith({ key: '00'.repeat(32) })).toBeNull();
+    });
+  });
+
+  it('requires a 32-byte key', () => {
+    expect(() => aesGcmEncrypt(new Uint8Array(16), new Uint8Array(12), new Uint8Array(0))).toThrow();
+  });
+});
@@ -0,0 +1,76 @@
+// src/__tests__/crypto/franking.test.ts
+import util from 'tweetnacl-util';
+import {
+  computeFrankingCommitment,
+  verifyFrankingCommitment,
+  frameFrankedPlaintext,
+  openFrankedPlaintext,
+  frankingReceipt,
+} from '../../utils/franking';
+import { ENVELOPE_VERSION, EnvelopeContext, buildEnvelopeAad } from '../../utils/messageEnvelope';
+
+const KEY = util.encodeBase64(new Uint8Array(32).fill(9));
+const OTHER_KEY = util.encodeBase64(new Uint8Array(32).fill(3));
+const BODY = 'see you at 8 🍕';
+
+describe('franking', () => {
+  const commitment = computeFrankingCommitment(KEY, BODY);
+
+  describe('commitment', () => {
+    it('opens with the right key and body', () => {
+      expect(verifyFrankingCommitment({ key: KEY, commitment }, BODY)).toBe(true);
+    });
+
+    it('does not open for another body or key', () => {
+      expect(verifyFrankingCommitment({ key: KEY, commitment }, 'see you at 9 🍕')).toBe(false);
+      expect(verifyFrankingCommitment({ key: OTHER_KEY, commitment }, BODY)).toBe(false);
+    });
+
+    it('rejects malformed openings', () => {
+      expect(verifyFrankingCommitment({ key: 'not base64!', commitment }, BODY)).toBe(false);
+    });
+  });
+
+  describe('framing', () => {
+    it('round-trips the body and the opening', () => {
+      const opened = openFrankedPlaintext(frameFrankedPlaintext(KEY, BODY), commitment);
+      expect(opened).toEqual({ body: BODY, franking: { key: KEY, commitment } });
+    });
+
+    it('round-trips an empty body', () => {
+      const empty = computeFrankingCommitment(KEY, '');
+      expect(openFrankedPlaintext(frameFrankedPlaintext(KEY, ''), empty)?.body).toBe('');
+    });
+
+    it('rejects a body that does not match the commitment', () => {
+      expect(openFrankedPlaintext(frameFrankedPlaintext(KEY, 'something else'), commitment)).toBeNull();
+      expect(openFrankedPlaintext('short', commitment)).toBeNull();
+    });
+
+    it('refuses keys of the wrong size', () => {
+      expect(() => frameFrankedPlaintext('abc', BODY)).toThrow();
+    });
+  });
+
+  describe('receipt', () => {
+    const opening = { key: KEY, commitment };
+
+    it('needs the server tag over the same commitment', () => {
+      expect(frankingReceipt(opening, { franking_commitment: commitment, franking_tag: 'tag' }))
+        .toEqual({ ...opening, tag: 'tag' });
+      expect(frankingReceipt(opening, { franking_commitment: 'other', franking_tag: 'tag' })).toBeUndefined();
+      expect(frankingReceipt(opening, { franking_commitment: commitment })).toBeUndefined();
+      expect(frankingReceipt(undefined, { franking_commitment: commitment, franking_tag: 'tag' })).toBeUndefined();
+    });
+  });
+
+  it('binds the commitment into the envelope AAD', () => {
+    const context: EnvelopeContext = { senderId: 'alice', recipientId: 'bob' };
+    const franked = buildEnvelopeAad(ENVELOPE_VERSION, context, 'session-1', 1, commitment);
+    const swapped = buildEnvelopeAad(ENVELOPE_VERSION, context, 'session-1', 1, computeFrankingCommitment(KEY, 'x'));
+    const plain = buildEnvelopeAad(ENVELOPE_VERSION, context, 'session-1', 1);
+
+    expect(franked).not.toEqual(swapped);
+    expect(franked).not.toEqual(plain);
+  });
+});
@@ -0,0 +1,115 @@
+// src/__tests__/crypto/messageEnvelope.test.ts
+import { aesGcmEncrypt, aesGcmDecrypt } from '../../utils/aesGcm';
+import {
+  ENVELOPE_VERSION,
+  REPLAY_WINDOW_SIZE,
+  EnvelopeContext,
+  buildEnvelopeAad,
+  emptyReplayWindow,
+  isFreshCounter,
+  acceptCounter,
+  paddedLength,
+  padPlaintext,
+  unpadPlaintext,
+} from '../../utils/messageEnvelope';
+
+const CONTEXT: EnvelopeContext = { senderId: 'alice', recipientId: 'bob' };
+const SESSION = 'session-1';
+
+describe('messageEnvelope', () => {
+  describe('associated data', () => {
+    const key = new Uint8Array(32).fill(7);
+    const iv = new Uint8Array(12).fill(1);
+    const plaintext = new Uint8Array([1, 2, 3, 4]);
+    const sealed = aesGcmEncrypt(key, iv, plaintext, buildEnvelopeAad(ENVELOPE_VERSION, CONTEXT, SESSION, 5));
+
+    const openWith = (aad: Uint8Array) => aesGcmDecrypt(key, iv, sealed.ciphertext, sealed.tag, aad);
+
+    it('opens in the context it was sealed for', () => {
+      expect(openWith(buildEnvelopeAad(ENVELOPE_VERSION, CONTEXT, SESSION, 5))).toEqual(plaintext);
+    });
+
+    it.each([
+      ['swapped sender and recipient', { senderId: 'bob', recipientId: 'alice' }, SESSION, 5],
+      ['another recipient', { senderId: 'alice', recipientId: 'carol' }, SESSION, 5],
+      ['another session', CONTEXT, 'session-2', 5],
+      ['another counter', CONTEXT, SESSION, 6],
+    ] as const)('rejects %s', (_name, context, sessionId, counter) => {
+      expect(openWith(buildEnvelopeAad(ENVELOPE_VERSION, context, sessionId, counter))).toBeNull();
+    });
+
+    it('keeps field boundaries unambiguous', () => {
+      const a = buildEnvelopeAad(ENVELOPE_VERSION, { senderId: 'ab', recipientId: 'c' }, SESSION, 1);
+      const b = buildEnvelopeAad(ENVELOPE_VERSION, { senderId: 'a', recipientId: 'bc' }, SESSION, 1);
+      expect(Buffer.from(a).equals(Buffer.from(b))).toBe(false);
+    });
+  });
+
+  describe('padding', () => {
+    it('hides the length of short messages', () => {
+      expect(paddedLength(0)).toBe(64);
+      expect(paddedLength(2)).toBe(64);
+      expect(paddedLength(63)).toBe(64);
+      expect(paddedLength(64)).toBe(128);
+    });
+
+    it('uses power-of-two buckets, then multiples of 4096', () => {
+      expect(paddedLength(200)).toBe(256);
+      expect(paddedLength(4095)).toBe(4096);
+      expect(paddedLength(4096)).toBe(8192);
+      expect(paddedLength(9000)).toBe(12288);
+    });
+
+    it('round-trips every length, including trailing zero bytes', () => {
+      for (let length = 0; length <= 300; length++) {
+        const plaintext = new Uint8Array(length).map((_, i) => (i % 3 === 0 ? 0 : i & 0xff));
+        const padded = padPlaintext(plaintext);
+        expect(padded.length).toBe(paddedLength(length));
+        expect(unpadPlaintext(padded)).toEqual(plaintext);
+      }
+    });
+
+    it('rejects malformed padding', () => {
+      expect(unpadPlaintext(new Uint8Array(64))).toBeNull();
+      expect(unpadPlaintext(new Uint8Array([1, 2, 3, 0]))).toBeNull();
+    });
+  });
+
+  describe('replay window', () => {
+    it('accepts increasing counters and rejects duplicates', () => {
+      let window = emptyReplayWindow();
+      for (const counter of [1, 2, 3]) {
+        expect(isFreshCounter(window, counter)).toBe(true);
+        window = acceptCounter(window, counter);
+      }
+      expect(isFreshCounter(window, 2)).toBe(false);
+      expect(isFreshCounter(window, 4)).toBe(true);
+    });
+
+    it('accepts late messages inside the window once', () => {
+      let window = acceptCounter(emptyReplayWindow(), 10);
+      expect(isFreshCounter(window, 7)).toBe(true);
+      window = acceptCounter(window, 7);
+      expect(isFreshCounter(window, 7)).toBe(false);
+      expect(isFreshCounter(window, 8)).toBe(true);
+    });
+
+    it('rejects counters older than the window', () => {
+      const window = acceptCounter(emptyReplayWindow(), REPLAY_WINDOW_SIZE + 10);
+      expect(isFreshCounter(window, 10)).toBe(false);
+      expect(isFreshCounter(window, 11)).toBe(true);
+    });
+
+    it('only keeps counters inside the window', () => {
+      let window = emptyReplayWindow();
+      for (let counter = 1; counter <= REPLAY_WINDOW_SIZE * 2; counter++) {
+        window = acceptCounter(window, counter);
+      }
+      expect(window.seen).toHaveLength(REPLAY_WINDOW_SIZE);
+    });
+
+    it.each([0, -1, 1.5, NaN])('rejects invalid counter %p', counter => {
+      expect(isFreshCounter(emptyReplayWindow(), counter)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,207 @@
+// src/__tests__/crypto/prekeys.test.ts
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import type prekeyServiceType from '../../services/prekeyService';
+import type ratchetServiceType from '../../services/ratchetService';
+import { PrekeyBundle, PrekeyUploadRequest } from '../../types/api';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../../services/secureKeyService', () => {
+  const keys = new Map<string, string>();
+  return {
+    __esModule: true,
+    default: {
+      getKey: jest.fn(async (id: string) => keys.get(id) ?? null),
+      storeKey: jest.fn(async (id: string, value: string) => {
+        keys.set(id, value);
+        return true;
+      }),
+      deleteKey: jest.fn(async (id: string) => keys.delete(id)),
+    },
+  };
+});
+
+// The server: the last upload of each device, handed out as its bundle
+const mockUploads: PrekeyUploadRequest[] = [];
+const mockBundles: Record<string, PrekeyBundle> = {};
+
+jest.mock('../../services/api', () => ({
+  __esModule: true,
+  default: {
+    uploadPrekeys: jest.fn(async (upload: PrekeyUploadRequest) => {
+      mockUploads.push(upload);
+      return { success: true };
+    }),
+    getPrekeyCount: jest.fn(async () => ({ one_time_prekeys: 100 })),
+    getPrekeyBundle: jest.fn(async (userId: string) =>
+      mockBundles[userId] || { error: true, status: 404, detail: 'Not found' }
+    ),
+  },
+}));
+
+interface Device {
+  prekeys: typeof prekeyServiceType;
+  ratchet: typeof ratchetServiceType;
+}
+
+// Each device gets its own key store
+const createDevice = (): Device => {
+  let device!: Device;
+  jest.isolateModules(() => {
+    device = {
+      prekeys: require('../../services/prekeyService').default,
+      ratchet: require('../../services/ratchetService').default,
+    };
+  });
+  return device;
+};
+
+const publish = async (device: Device): Promise<PrekeyUploadRequest> => {
+  expect(await device.prekeys.syncPrekeys()).toBe(true);
+  return mockUploads[mockUploads.length - 1];
+};
+
+// Like the server, hand out each one-time prekey once
+const bundleOf = (userId: string, upload: PrekeyUploadRequest, oneTimePrekeyIndex?: number): PrekeyBundle => ({
+  user_id: userId,
+  identity_key: upload.identity_key,
+  signing_key: upload.signing_key,
+  signed_prekey: upload.signed_prekey!,
+  one_time_prekey: oneTimePrekeyIndex === undefined ? undefined : upload.one_time_prekeys[oneTimePrekeyIndex],
+  cipher_suites: upload.cipher_suites,
+});
+
+const NONCE = new Uint8Array(nacl.secretbox.nonceLength);
+
+describe('prekeyService', () => {
+  let alice: Device;
+  let bob: Device;
+  let bobUpload: PrekeyUploadRequest;
+  let handedOut = 0;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    alice = createDevice();
+    bob = createDevice();
+    bobUpload = await publish(bob);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    mockBundles.bob = bundleOf('bob', bobUpload, handedOut++);
+  });
+
+  describe('bundle', () => {
+    it('uploads a signed prekey that verifies', () => {
+      expect(bob.prekeys.verifyBundle(mockBundles.bob)).toBe(true);
+      expect(bobUpload.one_time_prekeys.length).toBeGreaterThan(0);
+    });
+
+    it('is refused when the signature does not match', async () => {
+      const forged = nacl.box.keyPair();
+      mockBundles.bob = {
+        ...mockBundles.bob,
+        signed_prekey: { ...mockBundles.bob.signed_prekey, public_key: util.encodeBase64(forged.publicKey) },
+      };
+
+      expect(alice.prekeys.verifyBundle(mockBundles.bob)).toBe(false);
+      expect(await alice.prekeys.initiateSession('bob')).toBeNull();
+    });
+
+    it('is refused when it does not advertise the ratchet', async () => {
+      mockBundles.bob = { ...mockBundles.bob, cipher_suites: ['x25519-aes256gcm'] };
+      expect(await alice.prekeys.initiateSession('bob')).toBeNull();
+    });
+
+    it('is missing for users who never uploaded one', async () => {
+      expect(await alice.prekeys.initiateSession('carol')).toBeNull();
+    });
+  });
+
+  describe('key agreement', () => {
+    it('derives the same secret on both sides', async () => {
+      const initiated = (await alice.prekeys.initiateSession('bob'))!;
+      const accepted = await bob.prekeys.acceptSession(initiated.header);
+
+      expect(accepted.sharedSecret).toBe(initiated.sharedSecret);
+      expect(accepted.theirIdentityKey).toBe(await alice.prekeys.getIdentityPublicKey());
+      expect(accepted.ratchetKeyPair.publicKey).toBe(initiated.theirRatchetKey);
+      expect(accepted.oneTimePrekeyId).toBe(mockBundles.bob.one_time_prekey!.key_id);
+    });
+
+    it('works without a one-time prekey', async () => {
+      mockBundles.bob = bundleOf('bob', bobUpload);
+      const initiated = (await alice.prekeys.initiateSession('bob'))!;
+      const accepted = await bob.prekeys.acceptSession(initiated.header);
+
+      expect(initiated.header.one_time_prekey_id).toBeUndefined();
+      expect(accepted.sharedSecret).toBe(initiated.sharedSecret);
+      expect(accepted.oneTimePrekeyId).toBeUndefined();
+    });
+
+    it('derives another secret for another identity', async () => {
+      const initiated = (await alice.prekeys.initiateSession('bob'))!;
+      const mallory = createDevice();
+      const impostor = {
+        ...initiated.header,
+        identity_key: await mallory.prekeys.getIdentityPublicKey(),
+      };
+
+      expect((await bob.prekeys.acceptSession(impostor)).sharedSecret).not.toBe(initiated.sharedSecret);
+    });
+
+    it('refuses an unknown signed prekey', async () => {
+      const initiated = (await alice.prekeys.initiateSession('bob'))!;
+      await expect(
+        bob.prekeys.acceptSession({ ...initiated.header, signed_prekey_id: 999 })
+      ).rejects.toThrow('Unknown signed prekey');
+    });
+  });
+
+  describe('one-time prekeys', () => {
+    it('are kept until consumed', async () => {
+      const initiated = (await alice.prekeys.initiateSession('bob'))!;
+      const first = await bob.prekeys.acceptSession(initiated.header);
+      const again = await bob.prekeys.acceptSession(initiated.header);
+      expect(again.sharedSecret).toBe(first.sharedSecret);
+
+      await bob.prekeys.consumeOneTimePrekey(first.oneTimePrekeyId!);
+      await expect(bob.prekeys.acceptSession(initiated.header)).rejects.toThrow('One-time prekey already used');
+    });
+  });
+
+  describe('first message', () => {
+    it('opens through the ratchet on the responder side', async () => {
+      const initiated = (await alice.prekeys.initiateSession('bob'))!;
+      await alice.ratchet.initializeAsInitiator('s1', initiated.sharedSecret, initiated.theirRatchetKey);
+      const { header, sealed } = await alice.ratchet.encrypt('s1', async key =>
+        nacl.secretbox(util.decodeUTF8('hello offline bob'), NONCE, util.decodeBase64(key))
+      );
+
+      const accepted = await bob.prekeys.acceptSession(initiated.header);
+      const text = await bob.ratchet.decryptAsResponder(
+        's1', accepted.sharedSecret, accepted.ratchetKeyPair, header,
+        async key => util.encodeUTF8(nacl.secretbox.open(sealed, NONCE, util.decodeBase64(key))!)
+      );
+
+      expect(text).toBe('hello offline bob');
+    });
+  });
+
+  describe('backup material', () => {
+    it('covers identity and prekeys only', () => {
+      expect(bob.prekeys.isPrekeyMaterial('identity_dh')).toBe(true);
+      expect(bob.prekeys.isPrekeyMaterial('identity_sign')).toBe(true);
+      expect(bob.prekeys.isPrekeyMaterial('spk_1')).toBe(true);
+      expect(bob.prekeys.isPrekeyMaterial('opk_42')).toBe(true);
+      expect(bob.prekeys.isPrekeyMaterial('ratchet_s1')).toBe(false);
+      expect(bob.prekeys.isPrekeyMaterial('message_store')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+// src/__tests__/crypto/ratchet.test.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import ratchetService, { RatchetHeader } from '../../services/ratchetService';
+import secureKeyService from '../../services/secureKeyService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../../services/secureKeyService', () => {
+  const keys = new Map<string, string>();
+  return {
+    __esModule: true,
+    default: {
+      getKey: jest.fn(async (id: string) => keys.get(id) ?? null),
+      storeKey: jest.fn(async (id: string, value: string) => {
+        keys.set(id, value);
+        return true;
+      }),
+      deleteKey: jest.fn(async (id: string) => keys.delete(id)),
+    },
+  };
+});
+
+// Both parties share one key store: each side has its own session id
+const ALICE = 'alice-session';
+const BOB = 'bob-session';
+const NONCE = new Uint8Array(nacl.secretbox.nonceLength); // Every message key is used once
+
+interface Sent {
+  header: RatchetHeader;
+  sealed: Uint8Array;
+}
+
+const keyPair = () => {
+  const pair = nacl.box.keyPair();
+  return { publicKey: util.encodeBase64(pair.publicKey), privateKey: util.encodeBase64(pair.secretKey) };
+};
+
+const send = async (sessionId: string, text: string): Promise<Sent> =>
+  ratchetService.encrypt(sessionId, async messageKey =>
+    nacl.secretbox(util.decodeUTF8(text), NONCE, util.decodeBase64(messageKey))
+  );
+
+const receive = (sessionId: string, { header, sealed }: Sent): Promise<string> =>
+  ratchetService.decrypt(sessionId, header, async messageKey => {
+    const opened = nacl.secretbox.open(sealed, NONCE, util.decodeBase64(messageKey));
+    if (!opened) throw new Error('Decryption failed');
+    return util.encodeUTF8(opened);
+  });
+
+const tampered = ({ header, sealed }: Sent): Sent => {
+  const copy = sealed.slice();
+  copy[copy.length - 1] ^= 1;
+  return { header, sealed: copy };
+};
+
+describe('ratchetService', () => {
+  let bobRatchetKey: ReturnType<typeof keyPair>;
+
+  beforeEach(async () => {
+    const sharedSecret = util.encodeBase64(nacl.randomBytes(32));
+    bobRatchetKey = keyPair();
+
+    await ratchetService.initializeAsInitiator(ALICE, sharedSecret, bobRatchetKey.publicKey);
+    await ratchetService.initializeAsResponder(BOB, sharedSecret, bobRatchetKey);
+  });
+
+  afterEach(async () => {
+    await ratchetService.deleteSession(ALICE);
+    await ratchetService.deleteSession(BOB);
+  });
+
+  describe('round trip', () => {
+    it('carries a conversation over several turns', async () => {
+      expect(await receive(BOB, await send(ALICE, 'hi bob'))).toBe('hi bob');
+      expect(await receive(ALICE, await send(BOB, 'hi alice'))).toBe('hi alice');
+      expect(await receive(BOB, await send(ALICE, 'how are you?'))).toBe('how are you?');
+      expect(await receive(BOB, await send(ALICE, 'still there?'))).toBe('still there?');
+      expect(await receive(ALICE, await send(BOB, 'yes 👋'))).toBe('yes 👋');
+    });
+
+    it('lets the responder speak first', async () => {
+      expect(await receive(ALICE, await send(BOB, 'first!'))).toBe('first!');
+      expect(await receive(BOB, await send(ALICE, 'reply'))).toBe('reply');
+    });
+
+    it('uses a new ratchet key on each turn', async () => {
+      const first = await send(ALICE, 'one');
+      await receive(BOB, first);
+      await receive(ALICE, await send(BOB, 'two'));
+      const third = await send(ALICE, 'three');
+
+      expect(third.header.dh).not.toBe(first.header.dh);
+      expect(third.header).toMatchObject({ n: 0, pn: 1 });
+    });
+  });
+
+  describe('out of order delivery', () => {
+    it('opens messages of the same chain in any order', async () => {
+      const messages = [await send(ALICE, 'a'), await send(ALICE, 'b'), await send(ALICE, 'c')];
+
+      expect(await receive(BOB, messages[2])).toBe('c');
+      expect(await receive(BOB, messages[0])).toBe('a');
+      expect(await receive(BOB, messages[1])).toBe('b');
+    });
+
+    it('opens late messages of a previous chain after a ratchet step', async () => {
+      await receive(BOB, await send(ALICE, 'hello'));
+      await receive(ALICE, await send(BOB, 'hey'));
+
+      const late = await send(ALICE, 'late');
+      await receive(ALICE, await send(BOB, 'sorry'));
+      await receive(BOB, await send(ALICE, 'anyway'));
+
+      expect(await receive(BOB, late)).toBe('late');
+    });
+  });
+
+  describe('rejection', () => {
+    it('refuses a replayed message', async () => {
+      const message = await send(ALICE, 'once');
+      await receive(BOB, message);
+
+      await expect(receive(BOB, message)).rejects.toThrow();
+    });
+
+    it('refuses a replayed skipped message', async () => {
+      const skipped = await send(ALICE, 'skipped');
+      await receive(BOB, await send(ALICE, 'next'));
+      await receive(BOB, skipped);
+
+      await expect(receive(BOB, skipped)).rejects.toThrow();
+    });
+
+    it('does not advance the session when a message fails to open', async () => {
+      const message = await send(ALICE, 'intact');
+
+      await expect(receive(BOB, tampered(message))).rejects.toThrow('Decryption failed');
+      expect(await receive(BOB, message)).toBe('intact');
+    });
+
+    it('rejects malformed headers', async () => {
+      const message = await send(ALICE, 'x');
+
+      await expect(receive(BOB, { ...message, header: { ...message.header, n: -1 } })).rejects.toThrow();
+      await expect(receive(BOB, { ...message, header: { ...message.header, dh: 'short' } })).rejects.toThrow();
+    });
+
+    it('refuses to skip past the limit', async () => {
+      const message = await send(ALICE, 'far');
+
+      await expect(receive(BOB, { ...message, header: { ...message.header, n: 5000 } })).rejects.toThrow();
+    });
+  });
+
+  describe('first message as responder', () => {
+    const FRESH = 'fresh-session';
+
+    afterEach(async () => {
+      await ratchetService.deleteSession(FRESH);
+    });
+
+    it('saves the session only once the first message opens', async () => {
+      const sharedSecret = util.encodeBase64(nacl.randomBytes(32));
+      const ratchetKey = keyPair();
+      await ratchetService.initializeAsInitiator(ALICE, sharedSecret, ratchetKey.publicKey);
+
+      const message = await send(ALICE, 'prekey message');
+      const openWith = ({ header, sealed }: Sent) =>
+        ratchetService.decryptAsResponder(FRESH, sharedSecret, ratchetKey, header, async messageKey => {
+          const opened = nacl.secretbox.open(sealed, NONCE, util.decodeBase64(messageKey));
+          if (!opened) throw new Error('Decryption failed');
+          return util.encodeUTF8(opened);
+        });
+
+      await expect(openWith(tampered(message))).rejects.toThrow();
+      expect(await ratchetService.hasSession(FRESH)).toBe(false);
+
+      expect(await openWith(message)).toBe('prekey message');
+      expect(await ratchetService.hasSession(FRESH)).toBe(true);
+      expect(await receive(ALICE, await send(FRESH, 'got it'))).toBe('got it');
+    });
+  });
+
+  describe('storage', () => {
+    const readState = async (sessionId: string) =>
+      JSON.parse(util.encodeUTF8(util.decodeBase64((await secureKeyService.getKey(`ratchet_${sessionId}`))!)));
+
+    it('keeps skipped keys out of the secure store', async () => {
+      const messages: Sent[] = [];
+      for (let i = 0; i < 300; i++) {
+        messages.push(await send(ALICE, `message ${i}`));
+      }
+      await receive(BOB, messages[299]);
+
+      // A couple of KB per item is all the Android secure store takes
+      expect((await secureKeyService.getKey(`ratchet_${BOB}`))!.length).toBeLessThan(2048);
+      expect((await readState(BOB)).skipped).toBeUndefined();
+
+      const stored = (await AsyncStorage.getItem(`@ratchet_skipped_${BOB}`))!;
+      expect(stored).not.toContain(messages[0].header.dh);
+
+      expect(await receive(BOB, messages[0])).toBe('message 0');
+    });
+
+    it('moves skipped keys out of a state saved before the split', async () => {
+      const early = await send(ALICE, 'early');
+      await receive(BOB, await send(ALICE, 'later'));
+
+      // The old layout: skipped keys inside the secure store blob
+      const state = await (ratchetService as any).loadState(BOB);
+      await ratchetService.clearAll();
+      await secureKeyService.storeKey(`ratchet_${BOB}`, util.encodeBase64(util.decodeUTF8(JSON.stringify(state))));
+      expect(Object.keys((await readState(BOB)).skipped)).toHaveLength(1);
+
+      expect(await receive(BOB, early)).toBe('early');
+      expect((await readState(BOB)).skipped).toBeUndefined();
+    });
+
+    it('deletes the skipped keys with the session', async () => {
+      await send(ALICE, 'skipped');
+      await receive(BOB, await send(ALICE, 'later'));
+      expect(await AsyncStorage.getItem(`@ratchet_skipped_${BOB}`)).not.toBeNull();
+
+      await ratchetService.deleteSession(BOB);
+      expect(await AsyncStorage.getItem(`@ratchet_skipped_${BOB}`)).toBeNull();
+    });
+  });
+
+  describe('symmetric exchange', () => {
+    it('assigns opposite roles on the two sides', async () => {
+      const sharedSecret = util.encodeBase64(nacl.randomBytes(32));
+      const alice = keyPair();
+      const bob = keyPair();
+
+      await ratchetService.initializeFromExchange(ALICE, sharedSecret, alice, bob.publicKey);
+      await ratchetService.initializeFromExchange(BOB, sharedSecret, bob, alice.publicKey);
+
+      const [initiator, responder] = alice.publicKey < bob.publicKey ? [ALICE, BOB] : [BOB, ALICE];
+      expect(await receive(responder, await send(initiator, 'ping'))).toBe('ping');
+      expect(await receive(initiator, await send(responder, 'pong'))).toBe('pong');
+    });
+  });
+});
@@ -0,0 +1,166 @@
+// src/__tests__/services/appLockService.test.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import appLockService from '../../services/appLockService';
+import panicWipeService from '../../services/panicWipeService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-secure-store', () => {
+  const items = new Map<string, string>();
+  return {
+    WHEN_UNLOCKED_THIS_DEVICE_ONLY: 'WHEN_UNLOCKED_THIS_DEVICE_ONLY',
+    getItemAsync: jest.fn(async (key: string) => items.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => {
+      items.set(key, value);
+    }),
+    deleteItemAsync: jest.fn(async (key: string) => {
+      items.delete(key);
+    }),
+  };
+});
+
+jest.mock('expo-local-authentication', () => ({}));
+
+jest.mock('expo-crypto', () => {
+  const nacl = require('tweetnacl');
+  return {
+    getRandomBytesAsync: async (length: number) => nacl.randomBytes(length),
+  };
+});
+
+jest.mock('react-native', () => ({
+  AppState: { currentState: 'active' },
+}));
+
+jest.mock('../../services/panicWipeService', () => ({
+  __esModule: true,
+  default: {
+    wipe: jest.fn(async () => undefined),
+    endDecoy: jest.fn(async () => undefined),
+  },
+}));
+
+const panicWipe = jest.mocked(panicWipeService);
+
+const PIN = '2468';
+const DURESS_PIN = '1357';
+
+describe('appLockService', () => {
+  let now: number;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    now = 1_000_000;
+    await appLockService.reset();
+    await AsyncStorage.clear();
+    await appLockService.enable(PIN);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('starts locked and unlocks with the PIN', async () => {
+    expect(await appLockService.initialize()).toBe(true);
+
+    expect(await appLockService.unlockWithPin('9999')).toEqual({ success: false, retryAfter: 0 });
+    expect(appLockService.isLocked()).toBe(true);
+
+    expect(await appLockService.unlockWithPin(PIN)).toEqual({ success: true });
+    expect(appLockService.isLocked()).toBe(false);
+  });
+
+  it('refuses a PIN that is not 4 to 8 digits', async () => {
+    await expect(appLockService.enable('12a4')).rejects.toThrow('4 to 8 digits');
+    await expect(appLockService.enable('123')).rejects.toThrow('4 to 8 digits');
+  });
+
+  describe('back-off', () => {
+    const failTimes = async (count: number) => {
+      for (let i = 0; i < count; i++) {
+        await appLockService.checkPin('0000');
+      }
+    };
+
+    it('waits 30s after the free attempts, then doubles', async () => {
+      await failTimes(4);
+      expect(await appLockService.getRetryDelay()).toBe(0);
+
+      expect(await appLockService.checkPin('0000')).toEqual({ success: false, retryAfter: 30000 });
+
+      now += 30000;
+      expect(await appLockService.checkPin('0000')).toEqual({ success: false, retryAfter: 60000 });
+    });
+
+    it('does not check the PIN while waiting', async () => {
+      await failTimes(5);
+
+      now += 10000;
+      expect(await appLockService.checkPin(PIN)).toEqual({ success: false, retryAfter: 20000 });
+
+      now += 20000;
+      expect(await appLockService.checkPin(PIN)).toEqual({ success: true });
+      expect(await appLockService.getRetryDelay()).toBe(0);
+    });
+
+    it('is capped at one hour', async () => {
+      await AsyncStorage.setItem('@app_lock_attempts', JSON.stringify({ count: 40, lastAt: now }));
+      expect(await appLockService.getRetryDelay()).toBe(60 * 60 * 1000);
+    });
+  });
+
+  describe('duress PIN', () => {
+    beforeEach(async () => {
+      await appLockService.setDuressPin(DURESS_PIN);
+      await appLockService.initialize();
+    });
+
+    it('wipes, then unlocks like the real one', async () => {
+      expect(await appLockService.unlockWithPin(DURESS_PIN)).toEqual({ success: true, duress: true });
+      expect(panicWipe.wipe).toHaveBeenCalled();
+      expect(appLockService.isLocked()).toBe(false);
+    });
+
+    it('is not wiped by the real PIN, which ends the decoy', async () => {
+      expect(await appLockService.unlockWithPin(PIN)).toEqual({ success: true });
+      expect(panicWipe.wipe).not.toHaveBeenCalled();
+      expect(panicWipe.endDecoy).toHaveBeenCalled();
+    });
+
+    it('cannot turn the lock off', async () => {
+      expect(await appLockService.disable(DURESS_PIN)).toEqual({ success: false, retryAfter: 0 });
+      expect((await appLockService.getSettings()).enabled).toBe(true);
+    });
+
+    it('must differ from the real PIN', async () => {
+      await expect(appLockService.setDuressPin(PIN)).rejects.toThrow('different');
+    });
+  });
+
+  describe('background', () => {
+    it('locks once the timeout has passed', async () => {
+      await appLockService.handleBackground();
+      now += 30 * 1000;
+      await appLockService.handleForeground();
+      expect(appLockService.isLocked()).toBe(false);
+
+      await appLockService.handleBackground();
+      now += 60 * 1000;
+      await appLockService.handleForeground();
+      expect(appLockService.isLocked()).toBe(true);
+    });
+
+    it('locks on leaving when the timeout is immediate', async () => {
+      await appLockService.updateSettings({ timeout: 0 });
+      await appLockService.handleBackground();
+      expect(appLockService.isLocked()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+// src/__tests__/services/identityKeyService.test.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import identityKeyService from '../../services/identityKeyService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('identityKeyService', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('recordIdentityKey', () => {
+    it('trusts the first key seen', async () => {
+      expect(await identityKeyService.recordIdentityKey('bob', 'key-1')).toBeNull();
+      expect(await identityKeyService.recordIdentityKey('bob', 'key-1')).toBeNull();
+    });
+
+    it('returns the previous key when it changes, once', async () => {
+      await identityKeyService.recordIdentityKey('bob', 'key-1');
+
+      expect(await identityKeyService.recordIdentityKey('bob', 'key-2')).toBe('key-1');
+      expect(await identityKeyService.recordIdentityKey('bob', 'key-2')).toBeNull();
+    });
+
+    it('keeps contacts apart', async () => {
+      await identityKeyService.recordIdentityKey('bob', 'key-1');
+      expect(await identityKeyService.recordIdentityKey('carol', 'key-2')).toBeNull();
+    });
+  });
+
+  describe('notices', () => {
+    it('are kept per conversation, newest last', async () => {
+      const first = await identityKeyService.addKeyChangeNotice('alice_bob', 'bob');
+      const second = await identityKeyService.addKeyChangeNotice('alice_bob', 'bob');
+
+      expect(await identityKeyService.getKeyChangeNotices('alice_bob')).toEqual([first, second]);
+      expect(await identityKeyService.getKeyChangeNotices('alice_carol')).toEqual([]);
+    });
+
+    it('are capped', async () => {
+      for (let i = 0; i < 25; i++) {
+        await identityKeyService.addKeyChangeNotice('alice_bob', 'bob');
+      }
+      expect(await identityKeyService.getKeyChangeNotices('alice_bob')).toHaveLength(20);
+    });
+  });
+
+  it('forgets keys and notices on clearAll', async () => {
+    await identityKeyService.recordIdentityKey('bob', 'key-1');
+    await identityKeyService.addKeyChangeNotice('alice_bob', 'bob');
+    await AsyncStorage.setItem('unrelated', 'kept');
+
+    await identityKeyService.clearAll();
+
+    expect(await identityKeyService.recordIdentityKey('bob', 'key-2')).toBeNull();
+    expect(await identityKeyService.getKeyChangeNotices('alice_bob')).toEqual([]);
+    expect(await AsyncStorage.getItem('unrelated')).toBe('kept');
+  });
+});
@@ -0,0 +1,111 @@
+// src/__tests__/services/incomingMessageService.test.ts
+import incomingMessageService from '../../services/incomingMessageService';
+import sessionManager from '../../services/sessionManager';
+import messageStoreService, { StoredMessage } from '../../services/messageStoreService';
+import disappearingMessagesService from '../../services/disappearingMessagesService';
+import { encodeMessageBody, MessageBody } from '../../utils/messageBody';
+
+jest.mock('expo/virtual/env', () => ({ env: process.env }));
+
+jest.mock('../../services/sessionManager', () => ({
+  __esModule: true,
+  default: {
+    getConversationKey: jest.fn((a: string, b: string) => [a, b].sort().join('_')),
+    decryptMessage: jest.fn(),
+  },
+}));
+
+jest.mock('../../services/messageStoreService', () => ({
+  __esModule: true,
+  default: {
+    saveMessages: jest.fn(async () => undefined),
+    updateMessages: jest.fn(async () => undefined),
+  },
+}));
+
+jest.mock('../../services/disappearingMessagesService', () => ({
+  __esModule: true,
+  default: {
+    setTimer: jest.fn(async () => true),
+    schedule: jest.fn(async () => undefined),
+  },
+}));
+
+const sessions = jest.mocked(sessionManager);
+const messageStore = jest.mocked(messageStoreService);
+const disappearing = jest.mocked(disappearingMessagesService);
+
+const ME = 'alice';
+const PARTNER = 'bob';
+const KEY = 'alice_bob';
+const NOW = 1_700_000_000;
+
+const socketMessage = (id = 'm2') => ({
+  message_id: id,
+  sender_id: PARTNER,
+  recipient_id: ME,
+  encrypted_content: 'ciphertext',
+  session_id: 's1',
+  timestamp: NOW,
+});
+
+const receive = (body: MessageBody) => {
+  sessions.decryptMessage.mockResolvedValueOnce({ plaintext: encodeMessageBody(body) } as any);
+  return incomingMessageService.receive(ME, socketMessage());
+};
+
+describe('incomingMessageService', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stores what it opens: the ratchet key is gone afterwards', async () => {
+    expect(await receive({ type: 'text', text: 'hi' })).toBe(true);
+
+    expect(sessions.decryptMessage).toHaveBeenCalledWith(KEY, PARTNER, socketMessage());
+    expect(messageStore.saveMessages).toHaveBeenCalledWith(KEY, [
+      expect.objectContaining({ id: 'm2', sender_id: PARTNER, content: 'hi', is_encrypted: true }),
+    ]);
+  });
+
+  it('does not notify control messages', async () => {
+    expect(await receive({ type: 'reaction', target: 'm1', emoji: '👍' })).toBe(false);
+    expect(await receive({ type: 'edit', target: 'm1', text: 'fixed' })).toBe(false);
+    expect(await receive({ type: 'unsend', target: 'm1' })).toBe(false);
+    expect(await receive({ type: 'timer', seconds: 300 })).toBe(false);
+  });
+
+  it('applies edits to the stored target', async () => {
+    await receive({ type: 'edit', target: 'm1', text: 'fixed' });
+
+    const [conversationKey, ids, update] = messageStore.updateMessages.mock.calls[0];
+    expect(conversationKey).toBe(KEY);
+    expect(ids).toEqual(['m1']);
+
+    const target = { id: 'm1', sender_id: PARTNER, content: 'typo', timestamp: NOW - 60 } as StoredMessage;
+    expect(update(target)).toMatchObject({ content: 'fixed', edited_at: NOW });
+  });
+
+  it('applies timers and schedules messages that carry one', async () => {
+    await receive({ type: 'timer', seconds: 300 });
+    expect(disappearing.setTimer).toHaveBeenCalledWith(KEY, 300, NOW);
+
+    await receive({ type: 'text', text: 'soon gone', expiresIn: 300 });
+    expect(disappearing.schedule).toHaveBeenCalledWith(KEY, [{ id: 'm2', timestamp: NOW, expiresIn: 300 }]);
+  });
+
+  it('notifies a message it cannot open, and stores nothing', async () => {
+    sessions.decryptMessage.mockRejectedValueOnce(new Error('No session for message'));
+
+    expect(await incomingMessageService.receive(ME, socketMessage())).toBe(true);
+    expect(messageStore.saveMessages).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,135 @@
+// src/__tests__/services/keyBackupService.test.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import util from 'tweetnacl-util';
+import keyBackupService from '../../services/keyBackupService';
+import secureKeyService from '../../services/secureKeyService';
+import sessionManager from '../../services/sessionManager';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-crypto', () => {
+  const nacl = require('tweetnacl');
+  return {
+    getRandomBytesAsync: async (length: number) => nacl.randomBytes(length),
+  };
+});
+
+jest.mock('expo-file-system', () => ({}));
+jest.mock('expo-sharing', () => ({}));
+jest.mock('expo-document-picker', () => ({}));
+
+jest.mock('../../services/secureKeyService', () => ({
+  __esModule: true,
+  default: {
+    exportKeys: jest.fn(),
+    importKeys: jest.fn(async (keys: unknown[]) => keys.length),
+    getDeviceId: jest.fn(async () => 'device-1'),
+    recordBackup: jest.fn(async () => undefined),
+  },
+}));
+
+jest.mock('../../services/prekeyService', () => ({
+  __esModule: true,
+  default: { isPrekeyMaterial: jest.fn((keyId: string) => keyId.startsWith('identity_')) },
+}));
+
+jest.mock('../../services/sessionManager', () => ({
+  __esModule: true,
+  default: {
+    getAllSessions: jest.fn(async () => [{ conversationKey: 'alice_bob' }]),
+    expire: jest.fn(async () => null),
+  },
+}));
+
+const secureKeys = jest.mocked(secureKeyService);
+const sessions = jest.mocked(sessionManager);
+
+const PASSPHRASE = 'correct horse battery';
+
+const KEYS = [
+  { sessionId: 'identity_dh', key: 'dh-secret', timestamp: 1 },
+  { sessionId: 'identity_sign', key: 'sign-secret', timestamp: 1 },
+];
+
+const RATCHET = { sessionId: 'ratchet_s1', key: 'chain-state', timestamp: 1 };
+
+describe('keyBackupService', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    secureKeys.exportKeys.mockResolvedValue([...KEYS, RATCHET]);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('restores what it backed up', async () => {
+    await AsyncStorage.setItem('@prekeys_meta', '{"signedPrekeyId":1}');
+    await AsyncStorage.setItem('verified_alice_bob', 'true');
+
+    const contents = await keyBackupService.createBackup('alice', PASSPHRASE);
+    expect(contents).not.toContain('dh-secret');
+
+    await AsyncStorage.clear();
+    const backup = await keyBackupService.verifyBackup(contents!, PASSPHRASE);
+    expect(backup).toMatchObject({ userId: 'alice', keysCount: 2 });
+
+    expect(await keyBackupService.restoreBackup(backup)).toBe(2);
+    expect(secureKeys.importKeys).toHaveBeenCalledWith(KEYS);
+    expect(await AsyncStorage.getItem('@prekeys_meta')).toBe('{"signedPrekeyId":1}');
+    expect(await AsyncStorage.getItem('verified_alice_bob')).toBe('true');
+  });
+
+  it('leaves session state out and re-keys chats after a restore', async () => {
+    await AsyncStorage.setItem('@chat_session_alice_bob', '{}');
+    const backup = await keyBackupService.verifyBackup(
+      (await keyBackupService.createBackup('alice', PASSPHRASE))!,
+      PASSPHRASE
+    );
+
+    expect(backup.payload.keys).toEqual(KEYS);
+    expect(backup.payload.records).toEqual([]);
+
+    await keyBackupService.restoreBackup(backup);
+    expect(sessions.expire).toHaveBeenCalledWith('alice_bob');
+  });
+
+  it('rejects a modified file', async () => {
+    const file = JSON.parse((await keyBackupService.createBackup('alice', PASSPHRASE))!);
+    const ciphertext = util.decodeBase64(file.ciphertext);
+    ciphertext[0] ^= 1;
+    file.ciphertext = util.encodeBase64(ciphertext);
+
+    await expect(keyBackupService.verifyBackup(JSON.stringify(file), PASSPHRASE))
+      .rejects.toThrow('Wrong passphrase, or the backup file has been modified');
+  });
+
+  it('rejects a modified header', async () => {
+    const file = JSON.parse((await keyBackupService.createBackup('alice', PASSPHRASE))!);
+    file.created += 1;
+
+    await expect(keyBackupService.verifyBackup(JSON.stringify(file), PASSPHRASE))
+      .rejects.toThrow('Wrong passphrase, or the backup file has been modified');
+  });
+
+  it('rejects the wrong passphrase', async () => {
+    const contents = await keyBackupService.createBackup('alice', PASSPHRASE);
+
+    await expect(keyBackupService.verifyBackup(contents!, 'incorrect horse battery'))
+      .rejects.toThrow('Wrong passphrase, or the backup file has been modified');
+  });
+
+  it('refuses a short passphrase and an empty key store', async () => {
+    await expect(keyBackupService.createBackup('alice', 'short')).rejects.toThrow('at least');
+
+    secureKeys.exportKeys.mockResolvedValue([RATCHET]);
+    expect(await keyBackupService.createBackup('alice', PASSPHRASE)).toBeNull();
+  });
+});
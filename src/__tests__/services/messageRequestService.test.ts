@@ -0,0 +1,204 @@
+// src/__tests__/services/messageRequestService.test.ts
+import type { Conversation } from '../../types/api';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo/virtual/env', () => ({ env: process.env }));
+
+let mockUser: Record<string, any> = {};
+
+jest.mock('../../store', () => ({
+  store: {
+    getState: () => ({ auth: { user: mockUser } }),
+    dispatch: jest.fn(),
+  },
+}));
+
+jest.mock('../../store/slices/profileSlice', () => ({
+  blockProfile: jest.fn((userId: string) => ({ type: 'profile/block', payload: userId })),
+}));
+
+jest.mock('../../services/api', () => ({
+  __esModule: true,
+  default: {
+    getConversations: jest.fn(async () => ({ conversations: [] })),
+    reportUser: jest.fn(async () => ({})),
+  },
+}));
+
+jest.mock('../../services/websocket', () => ({
+  __esModule: true,
+  default: { on: jest.fn(), off: jest.fn() },
+}));
+
+jest.mock('../../services/messageStoreService', () => ({
+  __esModule: true,
+  default: {
+    getMessages: jest.fn(async () => []),
+    getConversationKeys: jest.fn(async () => []),
+  },
+}));
+
+jest.mock('../../services/sessionManager', () => ({
+  __esModule: true,
+  default: { getAllSessions: jest.fn(async () => []) },
+}));
+
+const ME = 'alice';
+
+const conversation = (partnerId: string, lastSenderId?: string): Conversation => ({
+  conversation_id: `${ME}_${partnerId}`,
+  other_user: { user_id: partnerId } as Conversation['other_user'],
+  last_sender_id: lastSenderId,
+  unread_count: 0,
+});
+
+describe('messageRequestService', () => {
+  // A fresh service and storage for each test: the first load runs the baseline
+  let service: typeof import('../../services/messageRequestService').default;
+  let api: jest.Mocked<typeof import('../../services/api').default>;
+  let messageStore: jest.Mocked<typeof import('../../services/messageStoreService').default>;
+  let sessions: jest.Mocked<typeof import('../../services/sessionManager').default>;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    mockUser = { user_id: ME };
+    jest.isolateModules(() => {
+      service = require('../../services/messageRequestService').default;
+      api = require('../../services/api').default;
+      messageStore = require('../../services/messageStoreService').default;
+      sessions = require('../../services/sessionManager').default;
+    });
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('baseline', () => {
+    it('accepts the conversations that existed before requests', async () => {
+      api.getConversations.mockResolvedValueOnce({ conversations: [conversation('bob', 'bob')] } as any);
+      await service.load();
+
+      expect(service.isAccepted('bob')).toBe(true);
+      expect(service.folderOf(conversation('bob', 'bob'))).toBe('inbox');
+      expect(service.folderOf(conversation('carol', 'carol'))).toBe('request');
+    });
+
+    it('also accepts chats with history or a session on this device', async () => {
+      messageStore.getConversationKeys.mockResolvedValueOnce(['alice_carol', 'bob_dave']);
+      sessions.getAllSessions.mockResolvedValueOnce([
+        { conversationKey: 'alice_erin', recipientId: '' },
+        { conversationKey: 'alice_zed', recipientId: 'zed' },
+      ] as any);
+      await service.load();
+
+      expect(service.isAccepted('carol')).toBe(true);
+      expect(service.isAccepted('erin')).toBe(true);
+      expect(service.isAccepted('zed')).toBe(true);
+      expect(service.isAccepted('dave')).toBe(false);
+    });
+
+    it('is retried when the server is not reachable', async () => {
+      api.getConversations.mockResolvedValueOnce({ error: 'offline' } as any);
+      await service.load();
+      expect(service.isAccepted('bob')).toBe(false);
+
+      api.getConversations.mockResolvedValueOnce({ conversations: [conversation('bob')] } as any);
+      await service.load();
+      expect(service.isAccepted('bob')).toBe(true);
+    });
+
+    it('runs once', async () => {
+      await service.load();
+      await service.load();
+      expect(api.getConversations).toHaveBeenCalledTimes(1);
+    });
+
+    it('runs again after signing out', async () => {
+      await service.load();
+      await service.clearAll();
+
+      api.getConversations.mockResolvedValueOnce({ conversations: [conversation('bob', 'bob')] } as any);
+      await service.load();
+      expect(service.isAccepted('bob')).toBe(true);
+    });
+
+    it('does not run after a panic wipe', async () => {
+      await service.load();
+      await service.clearAll({ acceptExisting: false });
+
+      api.getConversations.mockResolvedValueOnce({ conversations: [conversation('bob', 'bob')] } as any);
+      await service.load();
+      expect(api.getConversations).toHaveBeenCalledTimes(1);
+      expect(service.isAccepted('bob')).toBe(false);
+    });
+  });
+
+  describe('isAccepted', () => {
+    beforeEach(async () => {
+      await service.load();
+    });
+
+    it('refuses strangers', () => {
+      expect(service.isAccepted('carol')).toBe(false);
+    });
+
+    it('lets mutual notes and moment matches through', async () => {
+      mockUser = { user_id: ME, notes: { mutual: ['dave'] } };
+      await service.addConnection('erin');
+
+      expect(service.isAccepted('dave')).toBe(true);
+      expect(service.isAccepted('erin')).toBe(true);
+    });
+
+    it('lets everyone through with allow_strangers, except who was blocked or ignored', async () => {
+      mockUser = { user_id: ME, chat_preferences: { allow_strangers: true } };
+      await service.block('mallory');
+      await service.ignore('oscar');
+
+      expect(service.isAccepted('carol')).toBe(true);
+      expect(service.isAccepted('mallory')).toBe(false);
+      expect(service.isAccepted('oscar')).toBe(false);
+    });
+  });
+
+  describe('folderOf', () => {
+    beforeEach(async () => {
+      await service.load();
+    });
+
+    it('files a stranger who wrote first as a request until accepted', async () => {
+      await service.noteRequest('carol');
+      expect(await service.isRequest('carol')).toBe(true);
+      expect(service.folderOf(conversation('carol'))).toBe('request');
+
+      await service.accept('carol');
+      expect(await service.isRequest('carol')).toBe(false);
+      expect(service.folderOf(conversation('carol'))).toBe('inbox');
+    });
+
+    it('keeps chats we started in the inbox', async () => {
+      expect(service.folderOf(conversation('carol', ME))).toBe('inbox');
+
+      await service.acceptOnSend('dave');
+      expect(service.folderOf(conversation('dave', 'dave'))).toBe('inbox');
+    });
+
+    it('hides ignored and blocked users, and sending does not unblock', async () => {
+      await service.ignore('carol');
+      await service.block('mallory');
+      await service.acceptOnSend('mallory');
+
+      expect(service.folderOf(conversation('carol', 'carol'))).toBe('hidden');
+      expect(service.folderOf(conversation('mallory', 'mallory'))).toBe('hidden');
+      expect(service.isBlocked('mallory')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+// src/__tests__/services/outboxService.test.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import outboxService, { OutboxMessagePayload } from '../../services/outboxService';
+import apiService from '../../services/api';
+import messageStoreService from '../../services/messageStoreService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo/virtual/env', () => ({ env: process.env }));
+
+jest.mock('expo-crypto', () => {
+  const nacl = require('tweetnacl');
+  let counter = 0;
+  return {
+    randomUUID: () => `item-${++counter}`,
+    getRandomBytesAsync: async (length: number) => nacl.randomBytes(length),
+  };
+});
+
+jest.mock('../../services/secureKeyService', () => {
+  const keys = new Map<string, string>();
+  return {
+    __esModule: true,
+    default: {
+      getKey: jest.fn(async (id: string) => keys.get(id) ?? null),
+      storeKey: jest.fn(async (id: string, value: string) => {
+        keys.set(id, value);
+        return true;
+      }),
+      deleteKey: jest.fn(async (id: string) => keys.delete(id)),
+    },
+  };
+});
+
+jest.mock('../../services/api', () => ({
+  __esModule: true,
+  default: {
+    sendMessage: jest.fn(),
+    sendNote: jest.fn(),
+    sendStar: jest.fn(),
+    deleteMessage: jest.fn(),
+  },
+}));
+
+jest.mock('../../services/websocket', () => ({
+  __esModule: true,
+  default: { on: jest.fn(), off: jest.fn() },
+}));
+
+jest.mock('../../services/messageStoreService', () => ({
+  __esModule: true,
+  default: {
+    renameMessage: jest.fn(async () => null),
+    updateMessage: jest.fn(async () => undefined),
+    updateMessages: jest.fn(async () => undefined),
+  },
+}));
+
+jest.mock('../../services/disappearingMessagesService', () => ({
+  __esModule: true,
+  default: { setTimer: jest.fn(), schedule: jest.fn() },
+}));
+
+jest.mock('../../store', () => ({ store: { dispatch: jest.fn() } }));
+jest.mock('../../store/slices/chatSlice', () => ({ addMessage: jest.fn() }));
+
+const api = jest.mocked(apiService);
+
+const payload = (content: string): OutboxMessagePayload => ({
+  recipient_id: 'bob',
+  content,
+  encrypted_content: content,
+  is_encrypted: true,
+  session_id: 's1',
+  metadata: {},
+});
+
+const message = (conversationKey: string, content: string) =>
+  outboxService.enqueue({ kind: 'message', conversationKey, payload: payload(content) });
+
+// Let the fire-and-forget processing loop run
+const settle = async () => {
+  for (let i = 0; i < 50; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+};
+
+const sent = () => api.sendMessage.mock.calls.map(([sentPayload]) => sentPayload.content);
+
+describe('outboxService', () => {
+  let failing: Set<string>;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await outboxService.clearAll();
+    await AsyncStorage.clear();
+
+    failing = new Set();
+    api.sendMessage.mockImplementation(async (sentPayload: any) =>
+      failing.has(sentPayload.content)
+        ? { error: 'Rejected', status: 400 }
+        : { error: null, message: { id: `srv-${sentPayload.content}` } as any }
+    );
+  });
+
+  afterAll(async () => {
+    await outboxService.clearAll();
+    jest.restoreAllMocks();
+  });
+
+  describe('ordering', () => {
+    it('sends one item at a time, in the order queued', async () => {
+      let release!: () => void;
+      api.sendMessage.mockImplementationOnce(async () => {
+        await new Promise<void>(resolve => { release = resolve; });
+        return { error: null, message: { id: 'srv-first' } } as any;
+      });
+
+      await message('alice_bob', 'first');
+      await message('alice_carol', 'elsewhere');
+      await message('alice_bob', 'second');
+      await settle();
+
+      expect(sent()).toEqual(['first']);
+
+      release();
+      await settle();
+      expect(sent()).toEqual(['first', 'elsewhere', 'second']);
+    });
+
+    it('uses the item id as idempotency key', async () => {
+      const item = await message('alice_bob', 'hello');
+      await settle();
+
+      expect(api.sendMessage).toHaveBeenCalledWith(expect.anything(), { idempotencyKey: item.id });
+      expect(await outboxService.has(item.id)).toBe(false);
+    });
+  });
+
+  describe('failed messages', () => {
+    it('hold their conversation until retried', async () => {
+      failing.add('first');
+      const first = await message('alice_bob', 'first');
+      await message('alice_bob', 'second');
+      await message('alice_carol', 'elsewhere');
+      await settle();
+
+      expect(sent()).toEqual(['first', 'elsewhere']);
+      expect(messageStoreService.updateMessage).toHaveBeenCalledWith('alice_bob', first.id, { status: 'failed' });
+
+      failing.delete('first');
+      await outboxService.retry(first.id);
+      await settle();
+
+      expect(sent()).toEqual(['first', 'elsewhere', 'first', 'second']);
+      expect(await outboxService.has(first.id)).toBe(false);
+    });
+
+    it('release their conversation when discarded', async () => {
+      failing.add('first');
+      const first = await message('alice_bob', 'first');
+      await message('alice_bob', 'second');
+      await settle();
+      expect(sent()).toEqual(['first']);
+
+      await outboxService.discard(first.id);
+      await settle();
+
+      expect(sent()).toEqual(['first', 'second']);
+      expect(await outboxService.has(first.id)).toBe(false);
+    });
+  });
+
+  describe('other actions', () => {
+    it('are dropped when they fail for good', async () => {
+      api.sendNote.mockResolvedValue({ error: true, status: 403, detail: 'Forbidden' } as any);
+      const note = await outboxService.enqueue({ kind: 'note', targetUserId: 'bob' });
+      await settle();
+
+      expect(api.sendNote).toHaveBeenCalledTimes(1);
+      expect(await outboxService.has(note.id)).toBe(false);
+    });
+  });
+
+  describe('storage', () => {
+    it('keeps the queue encrypted at rest', async () => {
+      failing.add('a secret plan');
+      await message('alice_bob', 'a secret plan');
+      await settle();
+
+      const stored = await AsyncStorage.getItem('@outbox');
+      expect(stored).toBeTruthy();
+      expect(stored).not.toContain('secret');
+      expect(stored).not.toContain('alice_bob');
+    });
+  });
+});
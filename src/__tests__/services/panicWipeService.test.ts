@@ -0,0 +1,166 @@
+// src/__tests__/services/panicWipeService.test.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import panicWipeService from '../../services/panicWipeService';
+import secureKeyService from '../../services/secureKeyService';
+import encryptionService from '../../services/encryptionService';
+import ratchetService from '../../services/ratchetService';
+import sessionManager from '../../services/sessionManager';
+import messageStoreService from '../../services/messageStoreService';
+import outboxService from '../../services/outboxService';
+import messageRequestService from '../../services/messageRequestService';
+import { store } from '../../store';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-notifications', () => ({
+  dismissAllNotificationsAsync: jest.fn(async () => undefined),
+  setBadgeCountAsync: jest.fn(async () => true),
+}));
+
+jest.mock('../../store', () => ({
+  store: { dispatch: jest.fn() },
+  resetAppState: jest.fn(() => ({ type: 'app/reset' })),
+}));
+
+jest.mock('../../services/navigationService', () => ({
+  NavigationService: { resetToMain: jest.fn() },
+}));
+
+jest.mock('../../services/secureKeyService', () => ({
+  __esModule: true,
+  default: { clearAll: jest.fn(async () => undefined) },
+}));
+
+jest.mock('../../services/encryptionService', () => ({
+  __esModule: true,
+  default: { deleteAllStoredKeys: jest.fn(async () => undefined) },
+}));
+
+jest.mock('../../services/ratchetService', () => ({
+  __esModule: true,
+  default: { clearAll: jest.fn(async () => undefined) },
+}));
+
+jest.mock('../../services/sessionManager', () => ({
+  __esModule: true,
+  default: { clearAll: jest.fn(async () => undefined) },
+}));
+
+jest.mock('../../services/identityKeyService', () => ({
+  __esModule: true,
+  default: { clearAll: jest.fn(async () => undefined) },
+}));
+
+jest.mock('../../services/messageStoreService', () => ({
+  __esModule: true,
+  default: { clearAll: jest.fn(async () => undefined) },
+}));
+
+jest.mock('../../services/outboxService', () => ({
+  __esModule: true,
+  default: { clearAll: jest.fn(async () => undefined) },
+}));
+
+jest.mock('../../services/searchIndexService', () => ({
+  __esModule: true,
+  default: { clearAll: jest.fn(async () => undefined) },
+}));
+
+jest.mock('../../services/messageRequestService', () => ({
+  __esModule: true,
+  default: { clearAll: jest.fn(async () => undefined) },
+}));
+
+jest.mock('../../services/attachmentService', () => ({
+  __esModule: true,
+  default: { clearCache: jest.fn(async () => undefined) },
+}));
+
+jest.mock('../../services/disappearingMessagesService', () => ({
+  __esModule: true,
+  default: { clearAll: jest.fn(async () => undefined) },
+}));
+
+const secureKeys = jest.mocked(secureKeyService);
+const encryption = jest.mocked(encryptionService);
+const ratchets = jest.mocked(ratchetService);
+const sessions = jest.mocked(sessionManager);
+const messages = jest.mocked(messageStoreService);
+const outbox = jest.mocked(outboxService);
+const requests = jest.mocked(messageRequestService);
+
+describe('panicWipeService', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    await panicWipeService.reset();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('removes chat keys and leaves the account alone', async () => {
+    await AsyncStorage.multiSet([
+      ['@chat_meta_alice_bob', '{}'],
+      ['chat_alice_bob', 'server-key'],
+      ['@pending_exchange_alice_bob', '{}'],
+      ['user_bob', '{}'],
+      ['@app_lock_settings', '{}'],
+      ['auth_token', 'token'],
+    ]);
+
+    await panicWipeService.wipe();
+
+    expect([...(await AsyncStorage.getAllKeys())].sort()).toEqual(['@app_lock_settings', 'auth_token']);
+  });
+
+  it('clears every service and resets the app state', async () => {
+    await panicWipeService.wipe();
+
+    expect(secureKeys.clearAll).toHaveBeenCalled();
+    expect(encryption.deleteAllStoredKeys).toHaveBeenCalled();
+    expect(ratchets.clearAll).toHaveBeenCalled();
+    expect(sessions.clearAll).toHaveBeenCalled();
+    expect(messages.clearAll).toHaveBeenCalled();
+    expect(outbox.clearAll).toHaveBeenCalled();
+    expect(requests.clearAll).toHaveBeenCalledWith({ acceptExisting: false });
+    expect(store.dispatch).toHaveBeenCalledWith({ type: 'app/reset' });
+  });
+
+  it('keeps going when a step fails', async () => {
+    secureKeys.clearAll.mockRejectedValueOnce(new Error('keychain'));
+
+    await panicWipeService.wipe();
+
+    expect(messages.clearAll).toHaveBeenCalled();
+  });
+
+  it('shares one wipe between concurrent calls', async () => {
+    await Promise.all([panicWipeService.wipe(), panicWipeService.wipe()]);
+    expect(secureKeys.clearAll).toHaveBeenCalledTimes(1);
+  });
+
+  describe('decoy', () => {
+    it('stays off unless enabled', async () => {
+      await panicWipeService.wipe();
+      expect(await panicWipeService.isDecoyActive()).toBe(false);
+    });
+
+    it('starts with the wipe and ends on request', async () => {
+      await panicWipeService.updateSettings({ decoy: true });
+      await panicWipeService.wipe();
+      expect(await panicWipeService.isDecoyActive()).toBe(true);
+
+      await panicWipeService.endDecoy();
+      expect(await panicWipeService.isDecoyActive()).toBe(false);
+    });
+  });
+});
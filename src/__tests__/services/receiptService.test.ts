@@ -0,0 +1,145 @@
+// src/__tests__/services/receiptService.test.ts
+import receiptService, { isStatusUpgrade } from '../../services/receiptService';
+import websocketService from '../../services/websocket';
+import messageStoreService, { StoredMessage } from '../../services/messageStoreService';
+import privacySettingsService from '../../services/privacySettingsService';
+import messageRequestService from '../../services/messageRequestService';
+
+jest.mock('../../services/websocket', () => ({
+  __esModule: true,
+  default: {
+    on: jest.fn(),
+    off: jest.fn(),
+    send: jest.fn(),
+    isConnected: jest.fn(() => true),
+  },
+}));
+
+jest.mock('../../services/messageStoreService', () => ({
+  __esModule: true,
+  default: { updateMessages: jest.fn(async () => undefined) },
+}));
+
+jest.mock('../../services/privacySettingsService', () => ({
+  __esModule: true,
+  default: { getSettings: jest.fn(async () => ({ readReceipts: true })) },
+}));
+
+jest.mock('../../services/messageRequestService', () => ({
+  __esModule: true,
+  default: { canShareActivity: jest.fn(async () => true) },
+}));
+
+const socket = jest.mocked(websocketService);
+const messageStore = jest.mocked(messageStoreService);
+const privacy = jest.mocked(privacySettingsService);
+const requests = jest.mocked(messageRequestService);
+
+const ME = 'alice';
+const PARTNER = 'bob';
+
+const handler = (event: string) =>
+  socket.on.mock.calls.filter(([name]) => name === event).pop()![1] as (data: any) => Promise<void>;
+
+// Status the store would end up with for one of our messages
+const applyReceipt = async (status: StoredMessage['status'], receipt: 'delivered' | 'read') => {
+  await handler('message_receipt')({ status: receipt, reader_id: PARTNER, message_ids: ['m1'] });
+  const update = messageStore.updateMessages.mock.calls.pop()![2];
+  return update({ id: 'm1', sender_id: ME, status } as StoredMessage);
+};
+
+describe('receiptService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    receiptService.reset();
+    receiptService.attach(ME);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('status', () => {
+    it('only moves up', () => {
+      expect(isStatusUpgrade('sent', 'delivered')).toBe(true);
+      expect(isStatusUpgrade('sent', 'read')).toBe(true);
+      expect(isStatusUpgrade('delivered', 'read')).toBe(true);
+
+      expect(isStatusUpgrade('delivered', 'delivered')).toBe(false);
+      expect(isStatusUpgrade('read', 'delivered')).toBe(false);
+      expect(isStatusUpgrade('read', 'read')).toBe(false);
+    });
+
+    it('does not move before the message is sent', () => {
+      expect(isStatusUpgrade('sending', 'read')).toBe(false);
+      expect(isStatusUpgrade('failed', 'delivered')).toBe(false);
+      expect(isStatusUpgrade(undefined, 'delivered')).toBe(true);
+    });
+
+    it('is applied to our messages only', async () => {
+      expect(await applyReceipt('sent', 'read')).toEqual({ status: 'read' });
+      expect(await applyReceipt('read', 'delivered')).toBeNull();
+
+      await handler('message_receipt')({ status: 'read', reader_id: PARTNER, message_ids: ['m2'] });
+      const [conversationKey, , update] = messageStore.updateMessages.mock.calls[0];
+      expect(conversationKey).toBe('alice_bob');
+      expect(update({ id: 'm2', sender_id: PARTNER, status: 'sent' } as StoredMessage)).toBeNull();
+    });
+
+    it('counts read as delivered with read receipts off', async () => {
+      privacy.getSettings.mockResolvedValueOnce({ readReceipts: false } as any);
+      expect(await applyReceipt('sent', 'read')).toEqual({ status: 'delivered' });
+    });
+  });
+
+  describe('sending', () => {
+    it('batches receipts per conversation', async () => {
+      receiptService.markDelivered(PARTNER, ['m1']);
+      receiptService.markDelivered(PARTNER, ['m2']);
+      expect(socket.send).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1000);
+
+      expect(socket.send).toHaveBeenCalledTimes(1);
+      expect(socket.send).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'message_delivered',
+        recipient_id: PARTNER,
+        message_ids: ['m1', 'm2'],
+      }));
+    });
+
+    it('does not confirm the same message twice', async () => {
+      await receiptService.markRead(PARTNER, ['m1']);
+      jest.advanceTimersByTime(1000);
+
+      receiptService.markDelivered(PARTNER, ['m1']);
+      await receiptService.markRead(PARTNER, ['m1']);
+      jest.advanceTimersByTime(1000);
+
+      expect(socket.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('stays silent to strangers', async () => {
+      requests.canShareActivity.mockResolvedValue(false);
+
+      await handler('new_message')({ sender_id: PARTNER, message_id: 'm1' });
+      await receiptService.markRead(PARTNER, ['m1']);
+      jest.advanceTimersByTime(1000);
+
+      expect(socket.send).not.toHaveBeenCalled();
+      requests.canShareActivity.mockResolvedValue(true);
+    });
+
+    it('waits for the socket', async () => {
+      socket.isConnected.mockReturnValue(false);
+      receiptService.markDelivered(PARTNER, ['m1']);
+      jest.advanceTimersByTime(1000);
+      expect(socket.send).not.toHaveBeenCalled();
+
+      socket.isConnected.mockReturnValue(true);
+      handler('connected')({});
+      expect(socket.send).toHaveBeenCalledTimes(1);
+    });
+  });
+});
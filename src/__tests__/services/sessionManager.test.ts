@@ -0,0 +1,429 @@
+// src/__tests__/services/sessionManager.test.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import sessionManager from '../../services/sessionManager';
+import encryptionService from '../../services/encryptionService';
+import secureKeyService from '../../services/secureKeyService';
+import identityKeyService from '../../services/identityKeyService';
+import apiService from '../../services/api';
+import { CIPHER_SUITE_DOUBLE_RATCHET } from '../../utils/cipherSuites';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../../services/secureKeyService', () => {
+  const keys = new Map<string, string>();
+  return {
+    __esModule: true,
+    default: {
+      getKey: jest.fn(async (id: string) => keys.get(id) ?? null),
+      storeKey: jest.fn(async (id: string, value: string) => {
+        keys.set(id, value);
+        return true;
+      }),
+      deleteKey: jest.fn(async (id: string) => keys.delete(id)),
+    },
+  };
+});
+
+jest.mock('../../services/encryptionService', () => ({
+  __esModule: true,
+  default: {
+    canEncrypt: jest.fn(() => true),
+    isSessionValid: jest.fn(async () => true),
+    startPrekeySession: jest.fn(),
+    getSessionInfo: jest.fn(),
+    generateKeyPair: jest.fn(async () => ({ publicKey: 'my-public', privateKey: 'my-private' })),
+    deriveSharedSecret: jest.fn(async () => 'shared'),
+    storeKey: jest.fn(async () => undefined),
+    initializeRatchet: jest.fn(async () => undefined),
+    encryptForSession: jest.fn(async () => ({ encrypted: 'ciphertext' })),
+    decryptForSession: jest.fn(async () => ({ plaintext: 'hello' })),
+  },
+}));
+
+jest.mock('../../services/identityKeyService', () => ({
+  __esModule: true,
+  default: {
+    recordIdentityKey: jest.fn(async () => null),
+    addKeyChangeNotice: jest.fn(async () => undefined),
+  },
+}));
+
+jest.mock('../../services/prekeyService', () => ({
+  __esModule: true,
+  default: {
+    getIdentityPublicKey: jest.fn(async () => 'alice-identity'),
+  },
+}));
+
+jest.mock('../../services/api', () => ({
+  __esModule: true,
+  default: {
+    exchangeKeys: jest.fn(),
+  },
+}));
+
+(globalThis as any).__DEV__ = false;
+
+const encryption = jest.mocked(encryptionService);
+const identityKeys = jest.mocked(identityKeyService);
+const api = jest.mocked(apiService);
+
+const ME = 'alice';
+const PARTNER = 'bob';
+const KEY = 'alice_bob';
+
+const prekeySession = (sessionId: string, theirs = 'bob-identity') => ({
+  sessionId,
+  myIdentityKey: 'alice-identity',
+  theirIdentityKey: theirs,
+  created: Date.now(),
+});
+
+describe('sessionManager', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await sessionManager.clearAll();
+    await AsyncStorage.clear();
+    encryption.startPrekeySession.mockResolvedValue(prekeySession('s1') as any);
+  });
+
+  afterAll(async () => {
+    await sessionManager.clearAll();
+    jest.restoreAllMocks();
+  });
+
+  describe('reading', () => {
+    it('reports unknown conversations as none', async () => {
+      const session = await sessionManager.getSession(KEY, PARTNER);
+      expect(session).toMatchObject({ conversationKey: KEY, recipientId: PARTNER, state: 'none', sessionId: null });
+      expect(sessionManager.isUsable(session)).toBe(false);
+    });
+
+    it('builds the same key on both sides', () => {
+      expect(sessionManager.getConversationKey(ME, PARTNER)).toBe(KEY);
+      expect(sessionManager.getConversationKey(PARTNER, ME)).toBe(KEY);
+    });
+  });
+
+  describe('establishing', () => {
+    it('goes from none to established through the prekey bundle', async () => {
+      const session = await sessionManager.ensureSession(ME, PARTNER);
+
+      expect(session).toMatchObject({
+        state: 'established',
+        sessionId: 's1',
+        recipientId: PARTNER,
+        keyExchangeType: 'x3dh',
+        cipherSuite: CIPHER_SUITE_DOUBLE_RATCHET,
+      });
+      expect(sessionManager.isUsable(session)).toBe(true);
+      expect(await sessionManager.getSession(KEY)).toEqual(session);
+    });
+
+    it('shares one attempt between concurrent callers', async () => {
+      const [first, second] = await Promise.all([
+        sessionManager.ensureSession(ME, PARTNER),
+        sessionManager.ensureSession(PARTNER, ME),
+      ]);
+
+      expect(first).toEqual(second);
+      expect(encryption.startPrekeySession).toHaveBeenCalledTimes(1);
+    });
+
+    it('waits in pending when the partner has no bundle and has not answered', async () => {
+      encryption.startPrekeySession.mockResolvedValue(null as any);
+      api.exchangeKeys.mockResolvedValue({ session_id: 's2', status: 'pending' } as any);
+
+      const session = await sessionManager.ensureSession(ME, PARTNER);
+
+      expect(session).toMatchObject({ state: 'pending', sessionId: 's2', pendingPublicKey: 'my-public' });
+      expect(await secureKeyService.getKey(`pending_${KEY}`)).toBe('my-private');
+    });
+
+    it('completes an interactive exchange the partner already answered', async () => {
+      encryption.startPrekeySession.mockResolvedValue(null as any);
+      api.exchangeKeys.mockResolvedValue({
+        session_id: 's2',
+        status: 'ready',
+        recipient_public_key: 'bob-public',
+        metadata: { cipher_suites: CIPHER_SUITE_DOUBLE_RATCHET },
+      } as any);
+
+      const session = await sessionManager.ensureSession(ME, PARTNER);
+
+      expect(session).toMatchObject({ state: 'established', sessionId: 's2', keyExchangeType: 'x25519-client' });
+      expect(encryption.initializeRatchet).toHaveBeenCalledWith('s2', 'shared', expect.anything(), 'bob-public');
+      expect(api.exchangeKeys).toHaveBeenCalledWith(PARTNER, expect.objectContaining({
+        publicKey: 'my-public',
+        identityKey: 'alice-identity',
+      }));
+    });
+
+    it('records a failure and stays unusable when setup throws', async () => {
+      encryption.startPrekeySession.mockRejectedValue(new Error('offline'));
+
+      const session = await sessionManager.ensureSession(ME, PARTNER);
+
+      expect(session).toMatchObject({ state: 'none', retryCount: 1, lastError: 'offline' });
+    });
+  });
+
+  describe('transitions', () => {
+    it('expires a key that is no longer valid', async () => {
+      await sessionManager.ensureSession(ME, PARTNER);
+      encryption.isSessionValid.mockResolvedValueOnce(false);
+
+      expect((await sessionManager.getSession(KEY)).state).toBe('expired');
+    });
+
+    it('negotiates a new session after expiring', async () => {
+      await sessionManager.ensureSession(ME, PARTNER);
+      expect((await sessionManager.expire(KEY))?.state).toBe('expired');
+
+      encryption.startPrekeySession.mockResolvedValue(prekeySession('s3') as any);
+      const session = await sessionManager.ensureSession(ME, PARTNER);
+      expect(session).toMatchObject({ state: 'established', sessionId: 's3' });
+    });
+
+    it('rotates and keeps the previous key for the overlap window', async () => {
+      await sessionManager.ensureSession(ME, PARTNER);
+
+      const rotating = await sessionManager.beginRotation(KEY, { newSessionId: 's4', publicKey: 'offer' });
+      expect(rotating?.state).toBe('rotating');
+      expect(sessionManager.isUsable(rotating)).toBe(true);
+
+      const rotated = await sessionManager.completeRotation(KEY, 's4', 60000);
+      expect(rotated).toMatchObject({ state: 'established', sessionId: 's4', previousSessionId: 's1', messageCount: 0 });
+      expect(rotated?.rotation).toBeUndefined();
+
+      const cleared = await sessionManager.clearPreviousSession(KEY);
+      expect(cleared?.previousSessionId).toBeUndefined();
+    });
+
+    it('goes back to established when a rotation is aborted', async () => {
+      await sessionManager.ensureSession(ME, PARTNER);
+      await sessionManager.beginRotation(KEY, { newSessionId: 's4', publicKey: 'offer' });
+
+      const aborted = await sessionManager.abortRotation(KEY);
+      expect(aborted).toMatchObject({ state: 'established', sessionId: 's1' });
+      expect(aborted?.rotation).toBeUndefined();
+    });
+
+    it('refuses to rotate a session that is not established', async () => {
+      expect(await sessionManager.beginRotation(KEY, { newSessionId: 's4', publicKey: 'offer' })).toBeNull();
+
+      await sessionManager.ensureSession(ME, PARTNER);
+      await sessionManager.expire(KEY);
+      expect(await sessionManager.beginRotation(KEY, { newSessionId: 's4', publicKey: 'offer' })).toBeNull();
+    });
+
+    it('notifies listeners of each change', async () => {
+      const listener = jest.fn();
+      sessionManager.on(listener);
+      await sessionManager.ensureSession(ME, PARTNER);
+      sessionManager.off(listener);
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ state: 'established' }));
+    });
+  });
+
+  describe('key changes', () => {
+    it('flags a new partner key and drops the verification', async () => {
+      await AsyncStorage.setItem(`verified_${KEY}`, 'true');
+      identityKeys.recordIdentityKey.mockResolvedValueOnce('old-identity' as any);
+
+      const session = await sessionManager.ensureSession(ME, PARTNER);
+
+      expect(session.keyChange).toMatchObject({ previousKey: 'old-identity', acknowledged: false });
+      expect(await AsyncStorage.getItem(`verified_${KEY}`)).toBeNull();
+      expect(identityKeys.addKeyChangeNotice).toHaveBeenCalledWith(KEY, PARTNER);
+
+      expect((await sessionManager.acknowledgeKeyChange(KEY))?.keyChange?.acknowledged).toBe(true);
+    });
+
+    it('tracks the identity key, not the per-exchange key, of an interactive exchange', async () => {
+      encryption.startPrekeySession.mockResolvedValue(null as any);
+      api.exchangeKeys.mockResolvedValue({
+        session_id: 's2',
+        status: 'ready',
+        recipient_public_key: 'bob-public',
+        metadata: { identity_key: 'bob-identity' },
+      } as any);
+
+      const session = await sessionManager.ensureSession(ME, PARTNER);
+
+      expect(session.identityKeys).toEqual({ mine: 'alice-identity', theirs: 'bob-identity' });
+      expect(identityKeys.recordIdentityKey).toHaveBeenCalledWith(PARTNER, 'bob-identity');
+      expect(identityKeys.recordIdentityKey).not.toHaveBeenCalledWith(PARTNER, 'bob-public');
+    });
+
+    it('does not compare anything when the partner sent no identity key', async () => {
+      encryption.startPrekeySession.mockResolvedValue(null as any);
+      api.exchangeKeys.mockResolvedValue({
+        session_id: 's2',
+        status: 'ready',
+        recipient_public_key: 'bob-public',
+      } as any);
+
+      const session = await sessionManager.ensureSession(ME, PARTNER);
+
+      expect(session.identityKeys).toBeUndefined();
+      expect(identityKeys.recordIdentityKey).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('messages', () => {
+    it('binds outgoing and incoming envelopes to both participants', async () => {
+      await sessionManager.ensureSession(ME, PARTNER);
+
+      await sessionManager.encryptMessage(KEY, PARTNER, 'hi');
+      expect(encryption.encryptForSession).toHaveBeenCalledWith('s1', 'hi', { senderId: ME, recipientId: PARTNER });
+
+      await sessionManager.decryptMessage(KEY, PARTNER, { session_id: 's1', encrypted_content: 'ciphertext' });
+      expect(encryption.decryptForSession).toHaveBeenCalledWith('s1', 'ciphertext', { senderId: PARTNER, recipientId: ME });
+
+      expect((await sessionManager.getSession(KEY)).messageCount).toBe(2);
+    });
+
+    it('opens each message once for every caller', async () => {
+      await sessionManager.ensureSession(ME, PARTNER);
+      const message = { id: 'm1', session_id: 's1', encrypted_content: 'ciphertext' };
+
+      const [first, second] = await Promise.all([
+        sessionManager.decryptMessage(KEY, PARTNER, message),
+        sessionManager.decryptMessage(KEY, PARTNER, message),
+      ]);
+      expect(await sessionManager.decryptMessage(KEY, PARTNER, message)).toBe(first);
+
+      expect(second).toBe(first);
+      expect(encryption.decryptForSession).toHaveBeenCalledTimes(1);
+    });
+
+    it('tries a message again after a failure', async () => {
+      await sessionManager.ensureSession(ME, PARTNER);
+      const message = { id: 'm1', session_id: 's1', encrypted_content: 'ciphertext' };
+      encryption.decryptForSession.mockRejectedValueOnce(new Error('not yet'));
+
+      await expect(sessionManager.decryptMessage(KEY, PARTNER, message)).rejects.toThrow('not yet');
+      expect(await sessionManager.decryptMessage(KEY, PARTNER, message)).toEqual({ plaintext: 'hello' });
+    });
+
+    it('does not encrypt without a usable session', async () => {
+      expect(await sessionManager.encryptMessage(KEY, PARTNER, 'hi')).toBeNull();
+      expect(encryption.encryptForSession).not.toHaveBeenCalled();
+    });
+
+    it('adopts a prekey session the partner started', async () => {
+      encryption.getSessionInfo.mockResolvedValue(prekeySession('s0') as any);
+
+      await sessionManager.decryptMessage(KEY, PARTNER, { session_id: 's0', encrypted_content: 'ciphertext' });
+      expect(await sessionManager.getSession(KEY)).toMatchObject({ state: 'established', sessionId: 's0' });
+    });
+
+    describe('with a session of our own', () => {
+      const receive = (sessionId: string) =>
+        sessionManager.decryptMessage(KEY, PARTNER, { session_id: sessionId, encrypted_content: 'ciphertext' });
+
+      beforeEach(async () => {
+        await sessionManager.ensureSession(ME, PARTNER);
+      });
+
+      it('adopts the partner session when we never heard from them', async () => {
+        encryption.getSessionInfo.mockResolvedValue(prekeySession('s9') as any);
+
+        await receive('s9');
+        expect((await sessionManager.getSession(KEY)).sessionId).toBe('s9');
+      });
+
+      it('keeps ours once the partner wrote on it', async () => {
+        await receive('s1');
+        encryption.getSessionInfo.mockResolvedValue(prekeySession('s0') as any);
+
+        await receive('s0');
+        expect((await sessionManager.getSession(KEY)).sessionId).toBe('s1');
+      });
+
+      it('adopts the partner session when their identity key changed', async () => {
+        await receive('s1');
+        encryption.getSessionInfo.mockResolvedValue(prekeySession('s9', 'bob-new-identity') as any);
+
+        await receive('s9');
+        expect((await sessionManager.getSession(KEY)).sessionId).toBe('s9');
+      });
+
+      it('keeps the lower id when both sides started a session at the same time', async () => {
+        await sessionManager.encryptMessage(KEY, PARTNER, 'hi');
+        encryption.getSessionInfo.mockResolvedValue(prekeySession('s9') as any);
+
+        await receive('s9');
+        expect((await sessionManager.getSession(KEY)).sessionId).toBe('s1');
+
+        encryption.getSessionInfo.mockResolvedValue(prekeySession('s0') as any);
+        await receive('s0');
+        expect((await sessionManager.getSession(KEY)).sessionId).toBe('s0');
+      });
+    });
+  });
+
+  describe('migration', () => {
+    it('upgrades legacy metadata and drops the server-issued key', async () => {
+      await AsyncStorage.setItem(`@chat_meta_${KEY}`, JSON.stringify({ sessionId: 'legacy', publicKeys: { mine: 'a', theirs: 'b' } }));
+      await AsyncStorage.setItem(`chat_${KEY}`, 'server-key');
+
+      const session = await sessionManager.getSession(KEY);
+
+      expect(session).toMatchObject({ state: 'established', sessionId: 'legacy', recipientId: '' });
+      expect(await AsyncStorage.getItem(`chat_${KEY}`)).toBeNull();
+    });
+
+    it('reads the identity keys of an x3dh session stored before they were kept apart', async () => {
+      await AsyncStorage.setItem(`@chat_meta_${KEY}`, JSON.stringify({
+        state: 'established',
+        sessionId: 's1',
+        keyExchangeType: 'x3dh',
+        publicKeys: { mine: 'alice-identity', theirs: 'bob-identity' },
+      }));
+
+      const session = await sessionManager.getSession(KEY);
+      expect(session.identityKeys).toEqual({ mine: 'alice-identity', theirs: 'bob-identity' });
+    });
+
+    it('learns the partner of a migrated session from the first caller that knows it', async () => {
+      await AsyncStorage.setItem(`@chat_meta_${KEY}`, JSON.stringify({ sessionId: 'legacy' }));
+
+      await sessionManager.getSession(KEY, 'mallory');
+      expect((await sessionManager.getSession(KEY)).recipientId).toBe('');
+
+      await sessionManager.encryptMessage(KEY, PARTNER, 'hi');
+      expect(encryption.encryptForSession).toHaveBeenCalledWith('legacy', 'hi', { senderId: ME, recipientId: PARTNER });
+      expect((await sessionManager.getSession(KEY)).recipientId).toBe(PARTNER);
+    });
+
+    it('moves a legacy pending private key to secure storage', async () => {
+      await AsyncStorage.setItem(
+        `@pending_exchange_${KEY}`,
+        JSON.stringify({ publicKey: 'old-public', privateKey: 'old-private', timestamp: 1 })
+      );
+
+      const session = await sessionManager.getSession(KEY);
+
+      expect(session).toMatchObject({ state: 'pending', pendingPublicKey: 'old-public', created: 1 });
+      expect(await secureKeyService.getKey(`pending_${KEY}`)).toBe('old-private');
+      expect(await AsyncStorage.getItem(`@pending_exchange_${KEY}`)).toBeNull();
+    });
+
+    it('drops a legacy pending exchange whose private key is gone', async () => {
+      await AsyncStorage.setItem(`@pending_exchange_${KEY}`, JSON.stringify({ publicKey: 'old-public' }));
+      await secureKeyService.deleteKey(`pending_${KEY}`);
+
+      expect((await sessionManager.getSession(KEY, PARTNER)).state).toBe('none');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+// src/__tests__/utils/messageBody.test.ts
+import {
+  MessageBody,
+  ImageAttachment,
+  encodeMessageBody,
+  parseMessageBody,
+  messageExpiresIn,
+  isSilentControl,
+  quoteMessage,
+} from '../../utils/messageBody';
+
+const IMAGE: ImageAttachment = {
+  id: 'blob-1',
+  key: 'a2V5',
+  digest: 'ab'.repeat(32),
+  size: 1234,
+  mime: 'image/jpeg',
+  width: 1600,
+  height: 1200,
+  thumbnail: 'dGh1bWI=',
+};
+
+const roundTrip = (body: MessageBody) => parseMessageBody(encodeMessageBody(body));
+
+describe('messageBody', () => {
+  describe('plain text', () => {
+    it('stays a bare string for older clients', () => {
+      expect(encodeMessageBody({ type: 'text', text: 'ciao' })).toBe('ciao');
+      expect(parseMessageBody('ciao')).toEqual({ type: 'text', text: 'ciao' });
+    });
+
+    it('is wrapped when it starts with a brace', () => {
+      const typed = '{"notamy":1,"type":"unsend","target":"m1"}';
+      const encoded = encodeMessageBody({ type: 'text', text: typed });
+
+      expect(encoded).not.toBe(typed);
+      expect(parseMessageBody(encoded)).toEqual({ type: 'text', text: typed });
+      expect(roundTrip({ type: 'text', text: '{ just braces }' })).toEqual({ type: 'text', text: '{ just braces }' });
+    });
+
+    it('is wrapped when it carries a timer or a quote', () => {
+      const replyTo = { id: 'm1', sender: 'bob', excerpt: 'hello' };
+
+      expect(roundTrip({ type: 'text', text: 'hi', expiresIn: 60 })).toEqual({ type: 'text', text: 'hi', expiresIn: 60 });
+      expect(roundTrip({ type: 'text', text: 'hi', replyTo })).toEqual({ type: 'text', text: 'hi', replyTo });
+    });
+  });
+
+  describe('structured bodies', () => {
+    it('round-trip every type', () => {
+      const bodies: MessageBody[] = [
+        { type: 'image', image: IMAGE, expiresIn: 300 },
+        { type: 'timer', seconds: 0 },
+        { type: 'reaction', target: 'm1', emoji: '👍🏽' },
+        { type: 'reaction', target: 'm1', emoji: null },
+        { type: 'edit', target: 'm1', text: 'fixed typo' },
+        { type: 'unsend', target: 'm1' },
+      ];
+
+      bodies.forEach(body => expect(roundTrip(body)).toEqual(body));
+    });
+
+    it('fall back to text when malformed', () => {
+      const malformed = [
+        '{"notamy":1,"type":"image","image":{"id":"x"}}',
+        '{"notamy":2,"type":"timer","seconds":5}',
+        '{"notamy":1,"type":"timer","seconds":-1}',
+        '{"notamy":1,"type":"reaction","target":"m1","emoji":""}',
+        '{"notamy":1,"type":"reaction","target":"","emoji":"👍"}',
+        '{"notamy":1,"type":"unknown"}',
+        '{"notamy":1,',
+      ];
+
+      malformed.forEach(content => expect(parseMessageBody(content)).toEqual({ type: 'text', text: content }));
+    });
+
+    it('drop an oversized thumbnail', () => {
+      const content = encodeMessageBody({ type: 'image', image: { ...IMAGE, thumbnail: 'x'.repeat(5000) } });
+      expect(parseMessageBody(content).type).toBe('text');
+    });
+
+    it('ignore an invalid timer or quote', () => {
+      const content = JSON.stringify({
+        notamy: 1,
+        type: 'text',
+        text: 'hi',
+        expiresIn: -5,
+        replyTo: { id: 'm1', sender: 'bob', excerpt: 'x'.repeat(500) },
+      });
+      expect(parseMessageBody(content)).toEqual({ type: 'text', text: 'hi' });
+    });
+  });
+
+  describe('helpers', () => {
+    it('read the timer a message was sent with', () => {
+      expect(messageExpiresIn({ type: 'text', text: 'hi', expiresIn: 60 })).toBe(60);
+      expect(messageExpiresIn({ type: 'timer', seconds: 60 })).toBeUndefined();
+    });
+
+    it('tell silent controls apart', () => {
+      expect(isSilentControl({ type: 'reaction', target: 'm1', emoji: '🔥' })).toBe(true);
+      expect(isSilentControl({ type: 'edit', target: 'm1', text: 'x' })).toBe(true);
+      expect(isSilentControl({ type: 'unsend', target: 'm1' })).toBe(true);
+      expect(isSilentControl({ type: 'timer', seconds: 60 })).toBe(false);
+      expect(isSilentControl({ type: 'text', text: 'x' })).toBe(false);
+    });
+
+    it('quote a short excerpt of the message', () => {
+      const long = `${'word '.repeat(40)}\n end`;
+      const quote = quoteMessage({ id: 'm1', sender_id: 'bob', content: long });
+
+      expect(quote.id).toBe('m1');
+      expect(quote.sender).toBe('bob');
+      expect(quote.excerpt.endsWith('…')).toBe(true);
+      expect(quote.excerpt).not.toContain('\n');
+      expect(roundTrip({ type: 'text', text: 'reply', replyTo: quote })).toEqual({ type: 'text', text: 'reply', replyTo: quote });
+    });
+
+    it('quote photos by label', () => {
+      const content = encodeMessageBody({ type: 'image', image: IMAGE });
+      expect(quoteMessage({ id: 'm2', sender_id: 'bob', content }).excerpt).toBe('📷 Photo');
+    });
+  });
+});
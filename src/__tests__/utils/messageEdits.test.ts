@@ -0,0 +1,127 @@
+// src/__tests__/utils/messageEdits.test.ts
+import util from 'tweetnacl-util';
+import { encodeMessageBody, parseMessageBody } from '../../utils/messageBody';
+import { computeFrankingCommitment, verifyFrankingCommitment } from '../../utils/franking';
+import {
+  EDIT_WINDOW_SECONDS,
+  canModifyMessage,
+  controlChanges,
+  frankedBody,
+  applyControlMessages,
+} from '../../utils/messageEdits';
+
+// babel-preset-expo reads EXPO_PUBLIC_* variables through this ESM module
+jest.mock('expo/virtual/env', () => ({ env: process.env }));
+
+const SENT_AT = 1_700_000_000;
+const ORIGINAL = encodeMessageBody({ type: 'text', text: 'see you at 8', replyTo: { id: 'm0', sender: 'bob', excerpt: 'when?' } });
+
+const message: Parameters<typeof canModifyMessage>[0] = {
+  id: 'm1',
+  sender_id: 'alice',
+  content: ORIGINAL,
+  timestamp: SENT_AT,
+};
+
+const edit = (text: string, delay: number, sender_id = 'alice') => ({
+  sender_id,
+  timestamp: SENT_AT + delay,
+  content: encodeMessageBody({ type: 'edit', target: 'm1', text }),
+});
+
+const unsend = (delay: number, sender_id = 'alice') => ({
+  sender_id,
+  timestamp: SENT_AT + delay,
+  content: encodeMessageBody({ type: 'unsend', target: 'm1' }),
+});
+
+const textOf = (content: string) => {
+  const body = parseMessageBody(content);
+  return body.type === 'text' ? body.text : null;
+};
+
+describe('messageEdits', () => {
+  describe('canModifyMessage', () => {
+    it('allows our own sent messages within the window', () => {
+      expect(canModifyMessage(message, 'alice', SENT_AT + 60)).toBe(true);
+      expect(canModifyMessage(message, 'alice', SENT_AT + EDIT_WINDOW_SECONDS + 1)).toBe(false);
+    });
+
+    it('refuses other people, unsent and undelivered messages', () => {
+      expect(canModifyMessage(message, 'bob', SENT_AT)).toBe(false);
+      expect(canModifyMessage(message, undefined, SENT_AT)).toBe(false);
+      expect(canModifyMessage({ ...message, deleted: true }, 'alice', SENT_AT)).toBe(false);
+      expect(canModifyMessage({ ...message, status: 'failed' }, 'alice', SENT_AT)).toBe(false);
+    });
+  });
+
+  describe('controlChanges', () => {
+    it('replaces the text and keeps the rest of the body', () => {
+      const changes = controlChanges(message, edit('see you at 9', 30), { type: 'edit', target: 'm1', text: 'see you at 9' })!;
+      const body = parseMessageBody(changes.content);
+
+      expect(body).toMatchObject({ type: 'text', text: 'see you at 9', replyTo: { id: 'm0' } });
+      expect(changes.edited_at).toBe(SENT_AT + 30);
+      expect(changes.edit_history).toEqual([{ text: 'see you at 8', timestamp: SENT_AT, body: ORIGINAL }]);
+    });
+
+    it('ignores edits from someone else or outside the window', () => {
+      const body = { type: 'edit' as const, target: 'm1', text: 'hacked' };
+      expect(controlChanges(message, edit('hacked', 30, 'bob'), body)).toBeNull();
+      expect(controlChanges(message, edit('late', EDIT_WINDOW_SECONDS + 120), body)).toBeNull();
+    });
+
+    it('ignores a stale edit', () => {
+      const edited = { ...message, edited_at: SENT_AT + 60 };
+      expect(controlChanges(edited, edit('older', 30), { type: 'edit', target: 'm1', text: 'older' })).toBeNull();
+    });
+
+    it('leaves a tombstone on unsend', () => {
+      expect(controlChanges(message, unsend(10), { type: 'unsend', target: 'm1' }))
+        .toEqual({ content: '', deleted: true, edited_at: undefined, edit_history: undefined });
+      expect(controlChanges({ ...message, deleted: true }, edit('x', 20), { type: 'edit', target: 'm1', text: 'x' })).toBeNull();
+    });
+  });
+
+  describe('applyControlMessages', () => {
+    it('applies edits in time order whatever the delivery order', () => {
+      const [result] = applyControlMessages([message], [edit('third', 90), edit('second', 30)]);
+
+      expect(textOf(result.content)).toBe('third');
+      expect(result.edit_history?.map(entry => entry.text)).toEqual(['see you at 8', 'second']);
+    });
+
+    it('returns the same array when nothing applies', () => {
+      const messages = [message];
+      expect(applyControlMessages(messages, [edit('x', 10, 'bob')])).toBe(messages);
+      expect(applyControlMessages(messages, [{ sender_id: 'alice', timestamp: SENT_AT, content: 'plain' }])).toBe(messages);
+    });
+
+    it('does not bring an unsent message back', () => {
+      const [result] = applyControlMessages([message], [unsend(10), edit('again', 20)]);
+      expect(result).toMatchObject({ deleted: true, content: '' });
+    });
+  });
+
+  describe('frankedBody', () => {
+    it('is the body as first sent, across edits', () => {
+      const [edited] = applyControlMessages([message], [edit('second', 30), edit('third', 60)]);
+
+      expect(frankedBody(message)).toBe(ORIGINAL);
+      expect(frankedBody(edited)).toBe(ORIGINAL);
+    });
+
+    it('still opens the franking commitment after an edit', () => {
+      const key = util.encodeBase64(new Uint8Array(32).fill(9));
+      const commitment = computeFrankingCommitment(key, ORIGINAL);
+      const [edited] = applyControlMessages([message], [edit('see you at 9', 30)]);
+
+      expect(verifyFrankingCommitment({ key, commitment }, edited.content)).toBe(false);
+      expect(verifyFrankingCommitment({ key, commitment }, frankedBody(edited)!)).toBe(true);
+    });
+
+    it('is unknown for history kept without bodies', () => {
+      expect(frankedBody({ content: 'new', edit_history: [{ text: 'old', timestamp: SENT_AT }] })).toBeNull();
+    });
+  });
+});
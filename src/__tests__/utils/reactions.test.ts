@@ -0,0 +1,51 @@
+// src/__tests__/utils/reactions.test.ts
+import { encodeMessageBody } from '../../utils/messageBody';
+import { aggregateReactions } from '../../utils/reactions';
+
+let clock = 0;
+const react = (sender_id: string, target: string, emoji: string | null, status?: string) => ({
+  id: `r${++clock}`,
+  sender_id,
+  timestamp: clock,
+  status,
+  content: encodeMessageBody({ type: 'reaction', target, emoji }),
+});
+
+describe('aggregateReactions', () => {
+  it('counts one reaction per person, most used first', () => {
+    const chips = aggregateReactions([
+      react('alice', 'm1', '🔥'),
+      react('bob', 'm1', '❤️'),
+      react('carol', 'm1', '❤️'),
+      react('bob', 'm2', '😂'),
+    ], 'alice');
+
+    expect(chips.get('m1')).toEqual([
+      { emoji: '❤️', count: 2, mine: false },
+      { emoji: '🔥', count: 1, mine: true },
+    ]);
+    expect(chips.get('m2')).toEqual([{ emoji: '😂', count: 1, mine: false }]);
+  });
+
+  it('keeps the latest reaction of each person', () => {
+    const first = react('bob', 'm1', '👍');
+    const second = react('bob', 'm1', '😮');
+
+    // Delivery order does not matter: timestamps do
+    expect(aggregateReactions([second, first]).get('m1')).toEqual([{ emoji: '😮', count: 1, mine: false }]);
+  });
+
+  it('removes a reaction taken back', () => {
+    const chips = aggregateReactions([react('bob', 'm1', '👍'), react('bob', 'm1', null)]);
+    expect(chips.has('m1')).toBe(false);
+  });
+
+  it('ignores failed sends and ordinary messages', () => {
+    const chips = aggregateReactions([
+      react('alice', 'm1', '👍', 'failed'),
+      { id: 'm1', sender_id: 'bob', timestamp: ++clock, content: 'hello' },
+    ], 'alice');
+
+    expect(chips.size).toBe(0);
+  });
+});
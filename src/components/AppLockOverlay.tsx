@@ -0,0 +1,271 @@
+// src/components/AppLockOverlay.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { theme } from '@/config/theme';
+import appLockService, { AppLockEvent, BiometricSupport } from '@/services/appLockService';
+
+interface Props {
+  appActive: boolean;
+}
+
+const KEYPAD = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+/**
+ * Covers the app while it is locked or away from the foreground
+ * - Privacy cover: the app switcher never shows a chat
+ * - Lock screen: biometrics first (if enabled), PIN always available
+ * - Wrong PINs are throttled by the service; the wait is shown here
+ */
+export default function AppLockOverlay({ appActive }: Props) {
+  const [ready, setReady] = useState(false);
+  const [enabled, setEnabled] = useState(false);
+  const [locked, setLocked] = useState(false);
+  const [biometrics, setBiometrics] = useState<BiometricSupport | null>(null);
+  const [pin, setPin] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const promptedRef = useRef(false);
+
+  useEffect(() => {
+    const handleLockEvent = (event: AppLockEvent) => {
+      if (event.type === 'locked') {
+        promptedRef.current = false;
+        setLocked(true);
+      } else if (event.type === 'unlocked') {
+        setLocked(false);
+        setPin('');
+        setError(null);
+      } else {
+        setEnabled(event.settings.enabled);
+        loadBiometrics();
+      }
+    };
+
+    appLockService.on(handleLockEvent);
+    appLockService.initialize().then(async isLocked => {
+      setLocked(isLocked);
+      setEnabled((await appLockService.getSettings()).enabled);
+      await loadBiometrics();
+      setReady(true);
+    });
+
+    return () => appLockService.off(handleLockEvent);
+  }, []);
+
+  // Offer biometrics once per lock, when the app is actually in front
+  useEffect(() => {
+    if (locked && appActive && biometrics?.available && !promptedRef.current) {
+      promptedRef.current = true;
+      appLockService.unlockWithBiometrics();
+    }
+  }, [locked, appActive, biometrics]);
+
+  const loadBiometrics = async () => {
+    const [support, settings] = await Promise.all([
+      appLockService.getBiometricSupport(),
+      appLockService.getSettings(),
+    ]);
+    setBiometrics({ ...support, available: support.available && settings.biometrics });
+  };
+
+  const submitPin = async () => {
+    if (checking || pin.length < appLockService.minPinLength) return;
+    setChecking(true);
+
+    const result = await appLockService.unlockWithPin(pin);
+    if (!result.success) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setPin('');
+      setError(result.retryAfter > 0
+        ? `Too many attempts. Try again in ${Math.ceil(result.retryAfter / 1000)}s.`
+        : 'Wrong PIN');
+    }
+    setChecking(false);
+  };
+
+  const pressDigit = (digit: string) => {
+    if (pin.length >= appLockService.maxPinLength) return;
+    setError(null);
+    setPin(prev => prev + digit);
+  };
+
+  // Nothing to hide: the app is in front and unlocked
+  if (ready && !locked && (appActive || !enabled)) {
+    return null;
+  }
+
+  // Privacy cover (app switcher) and the blank moment before the first check
+  if (!ready || !locked || !appActive) {
+    return (
+      <View style={styles.container}>
+        <Ionicons name="lock-closed" size={40} color={theme.colors.textTertiary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Ionicons name="lock-closed" size={32} color={theme.colors.textPrimary} />
+      <Text style={styles.title}>Notamy is locked</Text>
+      <Text style={styles.subtitle}>Enter your PIN to continue</Text>
+
+      <View style={styles.dots}>
+        {Array.from({ length: Math.max(pin.length, appLockService.minPinLength) }).map((_, index) => (
+          <View key={index} style={[styles.dot, index < pin.length && styles.dotFilled]} />
+        ))}
+      </View>
+
+      <Text style={styles.error}>{error || ' '}</Text>
+
+      <View style={styles.keypad}>
+        {KEYPAD.map(digit => (
+          <TouchableOpacity
+            key={digit}
+            style={styles.key}
+            onPress={() => pressDigit(digit)}
+            disabled={checking}
+            activeOpacity={0.6}
+          >
+            <Text style={styles.keyText}>{digit}</Text>
+          </TouchableOpacity>
+        ))}
+
+        <TouchableOpacity
+          style={styles.key}
+          onPress={() => appLockService.unlockWithBiometrics()}
+          disabled={!biometrics?.available || checking}
+          activeOpacity={0.6}
+          accessibilityLabel={biometrics?.available ? `Unlock with ${biometrics.label}` : undefined}
+        >
+          {biometrics?.available && (
+            <Ionicons
+              name={biometrics.label === 'Face ID' ? 'scan-outline' : 'finger-print-outline'}
+              size={28}
+              color={theme.colors.textPrimary}
+            />
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.key}
+          onPress={() => pressDigit('0')}
+          disabled={checking}
+          activeOpacity={0.6}
+        >
+          <Text style={styles.keyText}>0</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.key}
+          onPress={() => setPin(prev => prev.slice(0, -1))}
+          disabled={checking || pin.length === 0}
+          activeOpacity={0.6}
+          accessibilityLabel="Delete"
+        >
+          <Ionicons name="backspace-outline" size={26} color={theme.colors.textPrimary} />
+        </TouchableOpacity>
+      </View>
+
+      <TouchableOpacity
+        style={[
+          styles.unlockButton,
+          (pin.length < appLockService.minPinLength || checking) && styles.buttonDisabled,
+        ]}
+        onPress={submitPin}
+        disabled={pin.length < appLockService.minPinLength || checking}
+        activeOpacity={0.8}
+      >
+        {checking ? (
+          <ActivityIndicator size="small" color={theme.colors.textPrimary} />
+        ) : (
+          <Text style={styles.unlockButtonText}>Unlock</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    zIndex: 1000,
+    elevation: 1000,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.black,
+  },
+  title: {
+    fontSize: theme.typography.fontSize.subtitle,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.textPrimary,
+    marginTop: theme.spacing.md,
+  },
+  subtitle: {
+    fontSize: theme.typography.fontSize.caption,
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.xs,
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: theme.spacing.md,
+    marginTop: theme.spacing.xl,
+  },
+  dot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: theme.colors.textSecondary,
+  },
+  dotFilled: {
+    backgroundColor: theme.colors.textPrimary,
+    borderColor: theme.colors.textPrimary,
+  },
+  error: {
+    fontSize: theme.typography.fontSize.caption,
+    color: theme.colors.error,
+    marginTop: theme.spacing.md,
+  },
+  keypad: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    width: 264,
+    marginTop: theme.spacing.md,
+  },
+  key: {
+    width: 88,
+    height: 72,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  keyText: {
+    fontSize: 28,
+    color: theme.colors.textPrimary,
+  },
+  unlockButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    minWidth: 200,
+    paddingVertical: theme.spacing.md,
+    marginTop: theme.spacing.lg,
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.primary,
+  },
+  unlockButtonText: {
+    fontSize: theme.typography.fontSize.body,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.textPrimary,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
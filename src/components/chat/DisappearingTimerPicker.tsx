@@ -0,0 +1,85 @@
+// src/components/chat/DisappearingTimerPicker.tsx
+import React from 'react';
+import { View, Text, Modal, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '@/config/theme';
+import { DISAPPEARING_TIMERS, formatDisappearingTimer } from '@/services/disappearingMessagesService';
+
+interface Props {
+  visible: boolean;
+  current: number;
+  onSelect: (seconds: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet to pick the disappearing-messages timer of a conversation
+ * - The choice applies to both sides and to new messages only
+ */
+export default function DisappearingTimerPicker({ visible, current, onSelect, onClose }: Props) {
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Disappearing messages</Text>
+          <Text style={styles.subtitle}>
+            New messages in this chat will disappear for both of you after the selected time.
+          </Text>
+
+          {DISAPPEARING_TIMERS.map(seconds => (
+            <TouchableOpacity
+              key={seconds}
+              style={styles.option}
+              onPress={() => onSelect(seconds)}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.optionText}>{formatDisappearingTimer(seconds)}</Text>
+              {seconds === current && (
+                <Ionicons name="checkmark" size={20} color={theme.colors.primary} />
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: theme.colors.overlay.dark,
+  },
+  sheet: {
+    backgroundColor: theme.colors.blackElevated,
+    borderTopLeftRadius: theme.borderRadius.xl,
+    borderTopRightRadius: theme.borderRadius.xl,
+    paddingHorizontal: theme.spacing.lg,
+    paddingTop: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxxl,
+  },
+  title: {
+    fontSize: theme.typography.fontSize.body,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.textPrimary,
+  },
+  subtitle: {
+    fontSize: theme.typography.fontSize.caption,
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.xs,
+    marginBottom: theme.spacing.md,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  optionText: {
+    fontSize: theme.typography.fontSize.body,
+    color: theme.colors.textPrimary,
+  },
+});
@@ -0,0 +1,149 @@
+// src/components/chat/EncryptedImage.tsx
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  View,
+  Image,
+  Text,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '@/config/theme';
+import attachmentService from '@/services/attachmentService';
+import { ImageAttachment } from '@/utils/messageBody';
+
+interface Props {
+  attachment: ImageAttachment;
+  maxWidth?: number;
+  maxHeight?: number;
+}
+
+/**
+ * Photo sent as an encrypted attachment
+ * - Placeholder with the photo's proportions while it downloads and decrypts,
+ *   showing the blurred thumbnail from the message body if there is one
+ * - Download starts only when the bubble is rendered
+ * - A blob that fails verification shows an error, tap to retry
+ * - Tap on the photo opens it full screen
+ */
+export default function EncryptedImage({ attachment, maxWidth = 220, maxHeight = 280 }: Props) {
+  const [uri, setUri] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [viewerVisible, setViewerVisible] = useState(false);
+
+  const scale = Math.min(maxWidth / attachment.width, maxHeight / attachment.height, 1);
+  const size = {
+    width: Math.round(attachment.width * scale),
+    height: Math.round(attachment.height * scale),
+  };
+
+  const load = useCallback(() => {
+    let active = true;
+    setFailed(false);
+
+    attachmentService.load(attachment)
+      .then(dataUri => {
+        if (active) setUri(dataUri);
+      })
+      .catch(error => {
+        console.warn('Failed to load photo:', error);
+        if (active) setFailed(true);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [attachment.id]);
+
+  useEffect(load, [load]);
+
+  if (!uri) {
+    return (
+      <TouchableOpacity
+        style={[styles.placeholder, size]}
+        onPress={failed ? load : undefined}
+        disabled={!failed}
+        activeOpacity={0.8}
+      >
+        {attachment.thumbnail && (
+          <Image
+            source={{ uri: `data:image/jpeg;base64,${attachment.thumbnail}` }}
+            style={StyleSheet.absoluteFill}
+            blurRadius={8}
+            resizeMode="cover"
+          />
+        )}
+        {failed ? (
+          <>
+            <Ionicons name="alert-circle-outline" size={24} color={theme.colors.textSecondary} />
+            <Text style={styles.placeholderText}>Photo unavailable. Tap to retry.</Text>
+          </>
+        ) : (
+          <>
+            <Ionicons name="image-outline" size={28} color={theme.colors.textTertiary} />
+            <ActivityIndicator size="small" color={theme.colors.textSecondary} />
+          </>
+        )}
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <>
+      <TouchableOpacity onPress={() => setViewerVisible(true)} activeOpacity={0.9}>
+        <Image source={{ uri }} style={size} resizeMode="cover" />
+      </TouchableOpacity>
+
+      <Modal
+        visible={viewerVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setViewerVisible(false)}
+      >
+        <View style={styles.viewer}>
+          <Image source={{ uri }} style={styles.viewerImage} resizeMode="contain" />
+          <TouchableOpacity
+            style={styles.viewerClose}
+            onPress={() => setViewerVisible(false)}
+            activeOpacity={0.8}
+          >
+            <Ionicons name="close" size={28} color={theme.colors.textPrimary} />
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  placeholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    padding: theme.spacing.md,
+    backgroundColor: theme.colors.blackSurface,
+    overflow: 'hidden',
+  },
+  placeholderText: {
+    fontSize: theme.typography.fontSize.caption,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+  },
+  viewer: {
+    flex: 1,
+    backgroundColor: theme.colors.black,
+    justifyContent: 'center',
+  },
+  viewerImage: {
+    width: '100%',
+    height: '100%',
+  },
+  viewerClose: {
+    position: 'absolute',
+    top: theme.spacing.huge,
+    right: theme.spacing.lg,
+    padding: theme.spacing.sm,
+  },
+});
@@ -4,31 +4,30 @@ import { TouchableOpacity, StyleSheet, View, Text } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { theme } from '@/config/theme';
 import * as Haptics from 'expo-haptics';
+import { useEncryption } from '@/hooks/useEncryption';
 
 interface Props {
-  sessionId: string;
-  recipientId: string;
-  publicKey?: string;
-  theirPublicKey?: string;
+  conversationKey: string;
   isVerified: boolean;
   onVerify: () => void;
 }
 
 /**
  * Zero-friction encryption status indicator
- * - Shows a simple lock icon in the header
- * - Green = encrypted, Gray = not encrypted
- * - Shield = verified (optional feature)
- * - No modals, no fingerprints, no interruptions
+ * - Reads the session state from the SessionManager
+ * - Lock = encrypted, Shield = verified (optional feature)
+ * - Sync = key rotation in progress, Clock = waiting for the partner
+ * - Warning = the agreed cipher suite is weaker than before (possible downgrade)
+ * - Nothing while there is no session: no modals, no interruptions
+ * - Tap opens the opt-in safety number screen
  */
 export default function EncryptionStatus({
-  sessionId,
-  recipientId,
-  publicKey,
-  theirPublicKey,
+  conversationKey,
   isVerified,
   onVerify
 }: Props) {
+  const { state, identityKeys, downgraded } = useEncryption(conversationKey);
+
   const handlePress = () => {
     // Haptic feedback
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -37,23 +36,32 @@ export default function EncryptionStatus({
     onVerify();
   };
 
-  // Determine encryption state
-  const isEncrypted = !!(publicKey && theirPublicKey && sessionId);
-  
   // Zero-friction: don't show anything if not encrypted
   // This avoids alarming users unnecessarily
-  if (!isEncrypted) {
+  if (state === 'none' || state === 'expired') {
     return null;
   }
 
   // Choose icon based on state
-  const iconName = isVerified ? 'shield-checkmark' : 'lock-closed';
-  const iconSize = isVerified ? 16 : 14;
-  const iconColor = theme.colors.success;
+  let iconName = 'lock-closed';
+  let iconColor = theme.colors.success;
+  if (state === 'pending') {
+    iconName = 'time-outline';
+    iconColor = theme.colors.textSecondary;
+  } else if (downgraded) {
+    iconName = 'warning';
+    iconColor = theme.colors.error;
+  } else if (state === 'rotating') {
+    iconName = 'sync';
+  } else if (isVerified && identityKeys) {
+    iconName = 'shield-checkmark';
+  }
+  const iconSize = iconName === 'shield-checkmark' ? 16 : 14;
 
   return (
     <TouchableOpacity
       onPress={handlePress}
+      disabled={state === 'pending'}
       style={styles.container}
       activeOpacity={0.7}
       hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
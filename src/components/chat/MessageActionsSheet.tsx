@@ -0,0 +1,129 @@
+// src/components/chat/MessageActionsSheet.tsx
+import React from 'react';
+import { View, Text, Modal, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '@/config/theme';
+import { CHAT_REACTIONS } from '@/utils/reactions';
+
+export interface MessageAction {
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  destructive?: boolean;
+  onPress: () => void;
+}
+
+interface Props {
+  visible: boolean;
+  canReact: boolean;
+  currentReaction?: string;
+  actions: MessageAction[];
+  onReact: (emoji: string | null) => void;
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet opened by a long-press on a message
+ * - Reaction row: picking the current reaction again removes it
+ * - Then the actions that apply to this message
+ */
+export default function MessageActionsSheet({
+  visible,
+  canReact,
+  currentReaction,
+  actions,
+  onReact,
+  onClose,
+}: Props) {
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose}>
+        <View style={styles.sheet}>
+          {canReact && (
+            <View style={styles.reactions}>
+              {CHAT_REACTIONS.map(emoji => (
+                <TouchableOpacity
+                  key={emoji}
+                  style={[styles.reaction, emoji === currentReaction && styles.reactionSelected]}
+                  onPress={() => onReact(emoji === currentReaction ? null : emoji)}
+                  activeOpacity={0.7}
+                  accessibilityLabel={emoji === currentReaction ? `Remove ${emoji}` : `React with ${emoji}`}
+                >
+                  <Text style={styles.reactionText}>{emoji}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          {actions.map(action => (
+            <TouchableOpacity
+              key={action.label}
+              style={styles.option}
+              onPress={action.onPress}
+              activeOpacity={0.8}
+            >
+              <Ionicons
+                name={action.icon}
+                size={20}
+                color={action.destructive ? theme.colors.error : theme.colors.textSecondary}
+              />
+              <Text style={[styles.optionText, action.destructive && styles.destructiveText]}>
+                {action.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: theme.colors.overlay.dark,
+  },
+  sheet: {
+    backgroundColor: theme.colors.blackElevated,
+    borderTopLeftRadius: theme.borderRadius.xl,
+    borderTopRightRadius: theme.borderRadius.xl,
+    paddingHorizontal: theme.spacing.lg,
+    paddingTop: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxxl,
+  },
+  reactions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingBottom: theme.spacing.md,
+  },
+  reaction: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.blackSurface,
+  },
+  reactionSelected: {
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+  },
+  reactionText: {
+    fontSize: 24,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.md,
+    paddingVertical: theme.spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+  },
+  optionText: {
+    fontSize: theme.typography.fontSize.body,
+    color: theme.colors.textPrimary,
+  },
+  destructiveText: {
+    color: theme.colors.error,
+  },
+});
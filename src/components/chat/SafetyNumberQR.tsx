@@ -0,0 +1,50 @@
+// src/components/chat/SafetyNumberQR.tsx
+import React, { useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import Svg, { Path, Rect } from 'react-native-svg';
+import QRCode from 'qrcode';
+
+interface Props {
+  value: string;
+  size?: number;
+}
+
+const QUIET_ZONE = 4; // Modules of white border required by scanners
+
+/**
+ * QR code for safety number verification
+ * - Encoded with `qrcode`, drawn as a single SVG path
+ * - Dark modules on white: scanners expect the standard contrast
+ */
+export default function SafetyNumberQR({ value, size = 220 }: Props) {
+  const { path, count } = useMemo(() => {
+    const { modules } = QRCode.create(value, { errorCorrectionLevel: 'M' });
+    const segments: string[] = [];
+
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (modules.get(row, col)) {
+          segments.push(`M${col + QUIET_ZONE} ${row + QUIET_ZONE}h1v1h-1z`);
+        }
+      }
+    }
+
+    return { path: segments.join(''), count: modules.size + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <View style={[styles.container, { width: size, height: size }]}>
+      <Svg width={size} height={size} viewBox={`0 0 ${count} ${count}`}>
+        <Rect x={0} y={0} width={count} height={count} fill="#FFFFFF" />
+        <Path d={path} fill="#000000" />
+      </Svg>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+});
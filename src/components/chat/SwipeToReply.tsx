@@ -0,0 +1,98 @@
+// src/components/chat/SwipeToReply.tsx
+import React, { useRef } from 'react';
+import { View, Animated, PanResponder, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { theme } from '@/config/theme';
+
+interface Props {
+  enabled: boolean;
+  onReply: () => void;
+  children: React.ReactNode;
+}
+
+const REPLY_THRESHOLD = 56;
+const MAX_OFFSET = 72;
+
+/**
+ * Swipe a bubble to the right to reply to it
+ * - Horizontal swipes only: vertical scrolling of the list is untouched
+ * - Past the threshold a haptic tick confirms; the bubble springs back on release
+ */
+export default function SwipeToReply({ enabled, onReply, children }: Props) {
+  const translateX = useRef(new Animated.Value(0)).current;
+  const armedRef = useRef(false);
+
+  // Latest props for the responder, which is created once
+  const enabledRef = useRef(enabled);
+  const onReplyRef = useRef(onReply);
+  enabledRef.current = enabled;
+  onReplyRef.current = onReply;
+
+  const springBack = () => {
+    Animated.spring(translateX, {
+      toValue: 0,
+      useNativeDriver: true,
+    }).start();
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onMoveShouldSetPanResponder: (_, gestureState) =>
+        enabledRef.current &&
+        gestureState.dx > 12 &&
+        Math.abs(gestureState.dx) > Math.abs(gestureState.dy) * 2,
+      onPanResponderMove: (_, gestureState) => {
+        const offset = Math.min(Math.max(gestureState.dx, 0), MAX_OFFSET);
+        translateX.setValue(offset);
+
+        const armed = offset >= REPLY_THRESHOLD;
+        if (armed && !armedRef.current) {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        }
+        armedRef.current = armed;
+      },
+      onPanResponderRelease: () => {
+        if (armedRef.current) {
+          onReplyRef.current();
+        }
+        armedRef.current = false;
+        springBack();
+      },
+      onPanResponderTerminate: () => {
+        armedRef.current = false;
+        springBack();
+      },
+    })
+  ).current;
+
+  const iconOpacity = translateX.interpolate({
+    inputRange: [0, REPLY_THRESHOLD],
+    outputRange: [0, 1],
+    extrapolate: 'clamp',
+  });
+
+  return (
+    <View>
+      <Animated.View style={[styles.icon, { opacity: iconOpacity }]}>
+        <Ionicons name="arrow-undo" size={18} color={theme.colors.textSecondary} />
+      </Animated.View>
+      <Animated.View
+        style={{ transform: [{ translateX }] }}
+        {...panResponder.panHandlers}
+      >
+        {children}
+      </Animated.View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  icon: {
+    position: 'absolute',
+    left: theme.spacing.md,
+    top: 0,
+    bottom: 0,
+    justifyContent: 'center',
+  },
+});
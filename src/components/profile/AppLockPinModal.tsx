@@ -0,0 +1,263 @@
+// src/components/profile/AppLockPinModal.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { theme } from '@/config/theme';
+import { sharedStyles } from '@/config/sharedStyles';
+import appLockService from '@/services/appLockService';
+
+export type AppLockPinMode = 'enable' | 'disable' | 'duress';
+
+const MODE_TITLES: Record<AppLockPinMode, string> = {
+  enable: 'Set Up App Lock',
+  disable: 'Turn Off App Lock',
+  duress: 'Set Duress PIN',
+};
+
+const MODE_ICONS: Record<AppLockPinMode, keyof typeof Ionicons.glyphMap> = {
+  enable: 'lock-closed-outline',
+  disable: 'lock-open-outline',
+  duress: 'warning-outline',
+};
+
+interface Props {
+  visible: boolean;
+  mode: AppLockPinMode;
+  onClose: () => void;
+}
+
+/**
+ * PIN prompt for the app lock
+ * - Enable: new PIN + confirmation
+ * - Disable: the current PIN, throttled like the lock screen
+ * - Duress: a second PIN that unlocks after wiping the chats
+ */
+export default function AppLockPinModal({ visible, mode, onClose }: Props) {
+  const [pin, setPin] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      setPin('');
+      setConfirmation('');
+      setError(null);
+      setWorking(false);
+    }
+  }, [visible]);
+
+  const { minPinLength, maxPinLength } = appLockService;
+  const isNewPin = mode !== 'disable';
+  const canSubmit = isNewPin
+    ? appLockService.isValidPin(pin) && pin === confirmation
+    : pin.length >= minPinLength;
+
+  const handleSubmit = async () => {
+    if (!canSubmit || working) return;
+    setWorking(true);
+    setError(null);
+
+    try {
+      if (mode === 'enable') {
+        await appLockService.enable(pin);
+      } else if (mode === 'duress') {
+        await appLockService.setDuressPin(pin);
+      } else {
+        const result = await appLockService.disable(pin);
+        if (!result.success) {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+          setPin('');
+          setError(result.retryAfter > 0
+            ? `Too many attempts. Try again in ${Math.ceil(result.retryAfter / 1000)}s.`
+            : 'Wrong PIN');
+          setWorking(false);
+          return;
+        }
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onClose();
+    } catch (submitError: any) {
+      console.warn('App lock update failed:', submitError);
+      setError(submitError?.message || 'Something went wrong. Please try again.');
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={working ? undefined : onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.card}>
+          <View style={styles.header}>
+            <Ionicons
+              name={MODE_ICONS[mode]}
+              size={22}
+              color={theme.colors.textPrimary}
+            />
+            <Text style={styles.title}>{MODE_TITLES[mode]}</Text>
+          </View>
+
+          <Text style={styles.description}>
+            {mode === 'enable' &&
+              `Choose a PIN of ${minPinLength} to ${maxPinLength} digits. It unlocks Notamy when biometrics are unavailable.`}
+            {mode === 'duress' &&
+              'Entering this PIN on the lock screen erases all your chats and keys on this device, then opens the app as usual.'}
+            {mode === 'disable' && 'Enter your PIN to turn off the app lock.'}
+          </Text>
+
+          <TextInput
+            style={styles.input}
+            value={pin}
+            onChangeText={text => setPin(text.replace(/\D/g, ''))}
+            placeholder={isNewPin ? 'New PIN' : 'PIN'}
+            placeholderTextColor={theme.colors.textMuted}
+            keyboardType="number-pad"
+            maxLength={maxPinLength}
+            secureTextEntry
+            editable={!working}
+          />
+
+          {isNewPin && (
+            <TextInput
+              style={styles.input}
+              value={confirmation}
+              onChangeText={text => setConfirmation(text.replace(/\D/g, ''))}
+              placeholder="Confirm PIN"
+              placeholderTextColor={theme.colors.textMuted}
+              keyboardType="number-pad"
+              maxLength={maxPinLength}
+              secureTextEntry
+              editable={!working}
+            />
+          )}
+
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          <View style={styles.buttons}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={onClose}
+              disabled={working}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.secondaryButtonText}>Cancel</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, (!canSubmit || working) && styles.buttonDisabled]}
+              onPress={handleSubmit}
+              disabled={!canSubmit || working}
+              activeOpacity={0.8}
+            >
+              {working ? (
+                <ActivityIndicator size="small" color={theme.colors.textPrimary} />
+              ) : (
+                <Text style={styles.primaryButtonText}>
+                  {mode === 'disable' ? 'Turn Off' : mode === 'duress' ? 'Save' : 'Turn On'}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: theme.spacing.xl,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  },
+  card: {
+    ...sharedStyles.card,
+    padding: theme.spacing.xl,
+    gap: theme.spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  title: {
+    fontSize: theme.typography.fontSize.subtitle,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.textPrimary,
+  },
+  description: {
+    fontSize: theme.typography.fontSize.caption,
+    color: theme.colors.textSecondary,
+    lineHeight: theme.typography.lineHeight.relaxed * theme.typography.fontSize.caption,
+  },
+  input: {
+    fontSize: theme.typography.fontSize.body,
+    color: theme.colors.textPrimary,
+    backgroundColor: theme.colors.blackSurface,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    letterSpacing: 4,
+  },
+  error: {
+    fontSize: theme.typography.fontSize.caption,
+    color: theme.colors.error,
+  },
+
+  // Buttons
+  buttons: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.xs,
+  },
+  primaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.primary,
+  },
+  primaryButtonText: {
+    fontSize: theme.typography.fontSize.body,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.textPrimary,
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  secondaryButtonText: {
+    fontSize: theme.typography.fontSize.body,
+    color: theme.colors.textSecondary,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
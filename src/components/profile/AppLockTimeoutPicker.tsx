@@ -0,0 +1,84 @@
+// src/components/profile/AppLockTimeoutPicker.tsx
+import React from 'react';
+import { View, Text, Modal, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '@/config/theme';
+import { LOCK_TIMEOUTS, formatLockTimeout } from '@/services/appLockService';
+
+interface Props {
+  visible: boolean;
+  current: number;
+  onSelect: (seconds: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet to pick how long the app may stay in background before it locks
+ */
+export default function AppLockTimeoutPicker({ visible, current, onSelect, onClose }: Props) {
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Lock the app</Text>
+          <Text style={styles.subtitle}>
+            Notamy always locks when it starts. Choose when it locks after you leave it.
+          </Text>
+
+          {LOCK_TIMEOUTS.map(seconds => (
+            <TouchableOpacity
+              key={seconds}
+              style={styles.option}
+              onPress={() => onSelect(seconds)}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.optionText}>{formatLockTimeout(seconds)}</Text>
+              {seconds === current && (
+                <Ionicons name="checkmark" size={20} color={theme.colors.primary} />
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: theme.colors.overlay.dark,
+  },
+  sheet: {
+    backgroundColor: theme.colors.blackElevated,
+    borderTopLeftRadius: theme.borderRadius.xl,
+    borderTopRightRadius: theme.borderRadius.xl,
+    paddingHorizontal: theme.spacing.lg,
+    paddingTop: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxxl,
+  },
+  title: {
+    fontSize: theme.typography.fontSize.body,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.textPrimary,
+  },
+  subtitle: {
+    fontSize: theme.typography.fontSize.caption,
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.xs,
+    marginBottom: theme.spacing.md,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  optionText: {
+    fontSize: theme.typography.fontSize.body,
+    color: theme.colors.textPrimary,
+  },
+});
@@ -0,0 +1,283 @@
+// src/components/profile/KeyBackupModal.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { theme } from '@/config/theme';
+import { sharedStyles } from '@/config/sharedStyles';
+import keyBackupService from '@/services/keyBackupService';
+
+export type KeyBackupMode = 'export' | 'restore';
+
+interface Props {
+  visible: boolean;
+  mode: KeyBackupMode;
+  userId: string;
+  backupContents?: string | null; // Restore: file picked by the caller
+  onClose: () => void;
+}
+
+/**
+ * Passphrase prompt for key backup
+ * - Export: passphrase + confirmation, then the share sheet
+ * - Restore: the backup is verified first, overwriting needs an explicit confirm
+ */
+export default function KeyBackupModal({ visible, mode, userId, backupContents, onClose }: Props) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      setPassphrase('');
+      setConfirmation('');
+      setError(null);
+      setWorking(false);
+    }
+  }, [visible]);
+
+  const minLength = keyBackupService.minPassphraseLength;
+  const canSubmit = mode === 'export'
+    ? passphrase.length >= minLength && passphrase === confirmation
+    : passphrase.length > 0;
+
+  const handleExport = async () => {
+    const exported = await keyBackupService.exportBackup(userId, passphrase);
+    if (!exported) {
+      Alert.alert('Nothing to Back Up', 'You don\'t have any encryption keys yet.');
+    }
+    onClose();
+  };
+
+  const handleRestore = async () => {
+    if (!backupContents) return;
+
+    const backup = await keyBackupService.verifyBackup(backupContents, passphrase);
+    if (backup.userId !== userId) {
+      throw new Error('This backup belongs to a different account');
+    }
+
+    Alert.alert(
+      'Restore Keys',
+      `Backup from ${new Date(backup.created).toLocaleDateString()} with ${backup.keysCount} keys. ` +
+        'Your identity keys on this device will be replaced and every chat will set up a new key.',
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => setWorking(false) },
+        {
+          text: 'Restore',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const restored = await keyBackupService.restoreBackup(backup);
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+              Alert.alert('Keys Restored', `${restored} keys restored from your backup.`);
+              onClose();
+            } catch (restoreError) {
+              console.error('Key restore failed:', restoreError);
+              setError('Failed to restore keys. Please try again.');
+              setWorking(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit || working) return;
+    setWorking(true);
+    setError(null);
+
+    try {
+      if (mode === 'export') {
+        await handleExport();
+      } else {
+        // Stays busy until the confirm alert is answered
+        await handleRestore();
+        return;
+      }
+    } catch (submitError: any) {
+      console.warn('Key backup failed:', submitError);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setError(submitError?.message || 'Something went wrong. Please try again.');
+    }
+    setWorking(false);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={working ? undefined : onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.card}>
+          <View style={styles.header}>
+            <Ionicons
+              name={mode === 'export' ? 'cloud-upload-outline' : 'cloud-download-outline'}
+              size={22}
+              color={theme.colors.textPrimary}
+            />
+            <Text style={styles.title}>
+              {mode === 'export' ? 'Back Up Keys' : 'Restore Keys'}
+            </Text>
+          </View>
+
+          <Text style={styles.description}>
+            {mode === 'export'
+              ? `Choose a passphrase of at least ${minLength} characters. You'll need it to restore, and it can't be recovered.`
+              : 'Enter the passphrase you used when creating this backup.'}
+          </Text>
+
+          <TextInput
+            style={styles.input}
+            value={passphrase}
+            onChangeText={setPassphrase}
+            placeholder="Passphrase"
+            placeholderTextColor={theme.colors.textMuted}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!working}
+          />
+
+          {mode === 'export' && (
+            <TextInput
+              style={styles.input}
+              value={confirmation}
+              onChangeText={setConfirmation}
+              placeholder="Confirm passphrase"
+              placeholderTextColor={theme.colors.textMuted}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!working}
+            />
+          )}
+
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          <View style={styles.buttons}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={onClose}
+              disabled={working}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.secondaryButtonText}>Cancel</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, (!canSubmit || working) && styles.buttonDisabled]}
+              onPress={handleSubmit}
+              disabled={!canSubmit || working}
+              activeOpacity={0.8}
+            >
+              {working ? (
+                <ActivityIndicator size="small" color={theme.colors.textPrimary} />
+              ) : (
+                <Text style={styles.primaryButtonText}>
+                  {mode === 'export' ? 'Create Backup' : 'Restore'}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: theme.spacing.xl,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  },
+  card: {
+    ...sharedStyles.card,
+    padding: theme.spacing.xl,
+    gap: theme.spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  title: {
+    fontSize: theme.typography.fontSize.subtitle,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.textPrimary,
+  },
+  description: {
+    fontSize: theme.typography.fontSize.caption,
+    color: theme.colors.textSecondary,
+    lineHeight: theme.typography.lineHeight.relaxed * theme.typography.fontSize.caption,
+  },
+  input: {
+    fontSize: theme.typography.fontSize.body,
+    color: theme.colors.textPrimary,
+    backgroundColor: theme.colors.blackSurface,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+  },
+  error: {
+    fontSize: theme.typography.fontSize.caption,
+    color: theme.colors.error,
+  },
+
+  // Buttons
+  buttons: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.xs,
+  },
+  primaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.primary,
+  },
+  primaryButtonText: {
+    fontSize: theme.typography.fontSize.body,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.textPrimary,
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  secondaryButtonText: {
+    fontSize: theme.typography.fontSize.body,
+    color: theme.colors.textSecondary,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
@@ -15,7 +15,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import encryptionService from '@/services/encryptionService';
-import secureKeyService from '@/services/secureKeyService';
+import sessionManager, { E2ESession, SessionState } from '@/services/sessionManager';
 
 interface EncryptionState {
   isReady: boolean;          // Hook ha finito di caricare lo stato
@@ -23,19 +23,24 @@ interface EncryptionState {
   isVerified: boolean;       // Utente ha verificato manualmente le chiavi
   sessionId: string | null;  // ID della sessione corrente se esiste
   canEncrypt: boolean;       // Se il servizio può crittografare ora
+  state: SessionState;       // Stato della sessione nel SessionManager
+  identityKeys: E2ESession['identityKeys'] | null; // Chiavi d'identità di entrambi (safety number)
+  keyChanged: boolean;       // La chiave del partner è cambiata e l'utente non ha ancora confermato
+  cipherSuite: E2ESession['cipherSuite'] | null; // Suite concordata nello scambio chiavi
+  downgraded: boolean;       // La suite concordata è più debole di quella precedente
 }
 
 /**
  * Hook per monitorare lo stato della crittografia di una conversazione
- * @param conversationId - ID della conversazione o del destinatario
+ * Legge dal SessionManager e si aggiorna ad ogni cambio di stato
+ * @param conversationId - chiave della conversazione (user id ordinati)
  * @returns Stato corrente della crittografia
  */
-export function useEncryption(conversationId: string): EncryptionState {
+export function useEncryption(conversationId: string): EncryptionState & { refresh: () => void } {
   // Stati iniziali ottimistici per evitare flash nell'UI
   const [isReady, setIsReady] = useState(false);
-  const [hasEncryption, setHasEncryption] = useState(false);
+  const [session, setSession] = useState<E2ESession | null>(null);
   const [isVerified, setIsVerified] = useState(false);
-  const [sessionId, setSessionId] = useState<string | null>(null);
   const [canEncrypt, setCanEncrypt] = useState(encryptionService.canEncrypt());
   
   /**
@@ -45,38 +50,17 @@ export function useEncryption(conversationId: string): EncryptionState {
   const checkEncryptionStatus = useCallback(async () => {
     try {
       // 1. Verifica se il servizio di crittografia è disponibile
-      const serviceAvailable = encryptionService.isAvailable();
-      setCanEncrypt(serviceAvailable);
+      setCanEncrypt(encryptionService.isAvailable());
       
       if (!conversationId) {
-        setIsReady(true);
+        setSession(null);
         return;
       }
       
-      // 2. Controlla se abbiamo metadati della chat salvati
-      const sessionData = await AsyncStorage.getItem(`@chat_meta_${conversationId}`);
+      // 2. Stato della sessione dal SessionManager (gestisce anche la scadenza)
+      setSession(await sessionManager.getSession(conversationId));
       
-      if (sessionData) {
-        const parsed = JSON.parse(sessionData);
-        const currentSessionId = parsed.sessionId;
-        
-        if (currentSessionId) {
-          setSessionId(currentSessionId);
-          
-          // 3. Verifica se la sessione è valida (non scaduta e con chiave)
-          const isValid = await encryptionService.isSessionValid(currentSessionId);
-          setHasEncryption(isValid);
-          
-          // Se la sessione non è più valida, potremmo volerla pulire
-          if (!isValid && parsed.sessionId) {
-            // Opzionale: pulisci i metadati non validi
-            await AsyncStorage.removeItem(`@chat_meta_${conversationId}`);
-            setSessionId(null);
-          }
-        }
-      }
-      
-      // 4. Controlla se l'utente ha verificato manualmente le chiavi
+      // 3. Controlla se l'utente ha verificato manualmente le chiavi
       // Questa è una feature opzionale per utenti security-conscious
       const verifiedStatus = await AsyncStorage.getItem(`verified_${conversationId}`);
       setIsVerified(verifiedStatus === 'true');
@@ -98,6 +82,22 @@ export function useEncryption(conversationId: string): EncryptionState {
     checkEncryptionStatus();
   }, [conversationId, checkEncryptionStatus]);
   
+  // Effect per ricevere i cambi di stato della sessione
+  useEffect(() => {
+    const handleSessionChange = (changed: E2ESession) => {
+      if (changed.conversationKey === conversationId) {
+        setSession(changed);
+        // A new partner key drops the verified flag (SessionManager clears storage)
+        if (changed.keyChange && !changed.keyChange.acknowledged) {
+          setIsVerified(false);
+        }
+      }
+    };
+    
+    sessionManager.on(handleSessionChange);
+    return () => sessionManager.off(handleSessionChange);
+  }, [conversationId]);
+  
   // Effect per monitorare cambiamenti al servizio di crittografia
   useEffect(() => {
     // Ricontrolla periodicamente se il servizio diventa disponibile
@@ -106,14 +106,14 @@ export function useEncryption(conversationId: string): EncryptionState {
       if (available !== canEncrypt) {
         setCanEncrypt(available);
         // Se il servizio è diventato disponibile, ricontrolla tutto
-        if (available && !hasEncryption) {
+        if (available) {
           checkEncryptionStatus();
         }
       }
     }, 5000); // Check ogni 5 secondi
     
     return () => clearInterval(interval);
-  }, [canEncrypt, hasEncryption, checkEncryptionStatus]);
+  }, [canEncrypt, checkEncryptionStatus]);
   
   /**
    * Metodo pubblico per forzare un refresh dello stato
@@ -126,13 +126,18 @@ export function useEncryption(conversationId: string): EncryptionState {
   
   return {
     isReady,
-    hasEncryption,
+    hasEncryption: sessionManager.isUsable(session),
     isVerified,
-    sessionId,
+    sessionId: session?.sessionId ?? null,
     canEncrypt,
+    state: session?.state ?? 'none',
+    identityKeys: session?.identityKeys ?? null,
+    keyChanged: !!session?.keyChange && !session.keyChange.acknowledged,
+    cipherSuite: session?.cipherSuite ?? null,
+    downgraded: !!session?.downgrade,
     // Esponi anche il metodo refresh per uso esterno
     refresh
-  } as EncryptionState & { refresh: () => void };
+  };
 }
 
 /**
@@ -169,11 +174,13 @@ export function useEncryptionIcon(conversationId: string) {
  * Separato perché è un'azione opzionale dell'utente
  */
 export function useKeyVerification(conversationId: string, recipientId: string) {
-  const { isVerified, refresh } = useEncryption(conversationId) as any;
+  const { isVerified, refresh } = useEncryption(conversationId);
   
   const verifyKeys = useCallback(async () => {
     try {
-      await AsyncStorage.setItem(`verified_${recipientId}`, 'true');
+      await AsyncStorage.setItem(`verified_${conversationId}`, 'true');
+      // Verifying the new key also answers a pending key-change warning
+      await sessionManager.acknowledgeKeyChange(conversationId);
       // Refresh lo stato dopo la verifica
       if (refresh) refresh();
       return true;
@@ -181,18 +188,18 @@ export function useKeyVerification(conversationId: string, recipientId: string)
       console.error('Failed to verify keys:', error);
       return false;
     }
-  }, [recipientId, refresh]);
+  }, [conversationId, refresh]);
   
   const unverifyKeys = useCallback(async () => {
     try {
-      await AsyncStorage.removeItem(`verified_${recipientId}`);
+      await AsyncStorage.removeItem(`verified_${conversationId}`);
       if (refresh) refresh();
       return true;
     } catch (error) {
       console.error('Failed to unverify keys:', error);
       return false;
     }
-  }, [recipientId, refresh]);
+  }, [conversationId, refresh]);
   
   return {
     isVerified,
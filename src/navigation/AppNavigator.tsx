@@ -30,6 +30,7 @@ import MomentsScreen from '@/screens/main/MomentsScreen';
 import ProfileScreen from '@/screens/main/ProfileScreen';
 import ChatListScreen from '@/screens/chat/ChatListScreen';
 import ChatScreen from '@/screens/chat/ChatScreen';
+import SafetyNumberScreen from '@/screens/chat/SafetyNumberScreen';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 const Tab = createBottomTabNavigator<MainTabParamList>();
@@ -652,6 +653,14 @@ export default function AppNavigator() {
                 presentation: 'card',
               }}
             />
+            <Stack.Screen 
+              name="SafetyNumber" 
+              component={SafetyNumberScreen}
+              options={{ 
+                animation: 'slide_from_right',
+                presentation: 'card',
+              }}
+            />
           </Stack.Group>
         )}
       </Stack.Navigator>
@@ -1,5 +1,5 @@
 // src/screens/chat/ChatListScreen.tsx
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -11,6 +11,10 @@ import {
   ActivityIndicator,
   Dimensions,
   Platform,
+  Pressable,
+  TextInput,
+  SectionList,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -23,6 +27,9 @@ import { RootStackScreenProps } from '@/types/navigation';
 import { useAppSelector, useAppDispatch } from '@/store';
 import { loadConversations, markConversationAsRead } from '@/store/slices/chatSlice';
 import websocketService from '@/services/websocket';
+import panicWipeService from '@/services/panicWipeService';
+import searchIndexService, { SearchHit } from '@/services/searchIndexService';
+import messageRequestService from '@/services/messageRequestService';
 import * as Haptics from 'expo-haptics';
 import { Conversation as ApiConversation } from '@/types/api';
 
@@ -36,19 +43,40 @@ interface Conversation extends ApiConversation {
 
 type Props = RootStackScreenProps<'Main'>;
 
+type SearchRow =
+  | { type: 'chat'; conversation: Conversation }
+  | { type: 'message'; hit: SearchHit };
+
 // Pre-calculate item height for better performance
 const ITEM_HEIGHT = 80;
+const SEARCH_DELAY = 250;
 
 export default function ChatListScreen({ navigation }: Props) {
   const dispatch = useAppDispatch();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [panicGesture, setPanicGesture] = useState(false);
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [showRequests, setShowRequests] = useState(false);
+  const [requestsVersion, setRequestsVersion] = useState(0);
   
   // Get data from Redux
   const conversations = useAppSelector(state => state.chat.conversations);
   const unreadCounts = useAppSelector(state => state.chat.unreadCounts);
   const currentUserId = useAppSelector(state => state.auth?.user?.user_id || state.auth?.user?.id);
   
+  // Strangers who wrote first go to Requests; ignored and blocked ones are hidden
+  const { inbox, requests } = useMemo(() => {
+    const folders = { inbox: [] as Conversation[], requests: [] as Conversation[] };
+    conversations.forEach(conversation => {
+      const folder = messageRequestService.folderOf(conversation);
+      if (folder === 'inbox') folders.inbox.push(conversation);
+      if (folder === 'request') folders.requests.push(conversation);
+    });
+    return folders;
+  }, [conversations, requestsVersion]);
+  
   // Animations
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(20)).current;
@@ -99,15 +127,60 @@ export default function ChatListScreen({ navigation }: Props) {
     };
   }, []);
 
+  useEffect(() => {
+    const handleRequestsChanged = () => setRequestsVersion(version => version + 1);
+    messageRequestService.on(handleRequestsChanged);
+    return () => messageRequestService.off(handleRequestsChanged);
+  }, []);
+
+  // Requests that arrived while we were offline: the chat must know too
+  useEffect(() => {
+    requests.forEach(conversation => {
+      messageRequestService.noteRequest(conversation.other_user.user_id).catch(() => undefined);
+    });
+  }, [requests]);
+
+  // Search runs on this device: the server only has ciphertext
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setHits([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      searchIndexService.search(trimmed)
+        .then(results => {
+          if (!cancelled) setHits(results);
+        })
+        .catch(error => console.warn('Search failed:', error));
+    }, SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
   // Reload when screen comes into focus
   useFocusEffect(
     useCallback(() => {
       loadChats();
+      panicWipeService.getSettings().then(settings => setPanicGesture(settings.gesture));
     }, [])
   );
 
+  // Panic gesture: no confirmation, it has to work in a hurry
+  const handlePanicGesture = async () => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    await panicWipeService.wipe();
+    loadChats();
+  };
+
   const loadChats = async () => {
     try {
+      await messageRequestService.load();
       await dispatch(loadConversations(20)).unwrap();
     } catch (error) {
       console.error('Failed to load conversations:', error);
@@ -160,6 +233,69 @@ export default function ChatListScreen({ navigation }: Props) {
     });
   };
 
+  const conversationWith = (hit: SearchHit) => {
+    const partnerId = hit.senderId === currentUserId ? hit.recipientId : hit.senderId;
+    return conversations.find(conversation => conversation.other_user.user_id === partnerId);
+  };
+
+  // Open the chat scrolled to the message
+  const openSearchHit = (hit: SearchHit) => {
+    const conversation = conversationWith(hit);
+    if (!conversation) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    navigation.navigate('Chat', {
+      recipientId: conversation.other_user.user_id,
+      recipientDescriptor: conversation.other_user.descriptor,
+      conversationId: conversation.conversation_id,
+      messageId: hit.messageId,
+    });
+  };
+
+  const acceptRequest = async (conversation: Conversation) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    await messageRequestService.accept(conversation.other_user.user_id);
+  };
+
+  const reportRequest = (conversation: Conversation) => {
+    const { user_id: userId, descriptor } = conversation.other_user;
+
+    const submit = async (reason: string) => {
+      if (!(await messageRequestService.report(userId, reason))) {
+        Alert.alert('Report Failed', 'Unable to send the report. Please try again.');
+        return;
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert('Report Sent', `Thanks. ${descriptor} is blocked and our moderators will review the report.`);
+    };
+
+    Alert.alert(
+      'Report and Block',
+      `The messages ${descriptor} sent you are revealed to moderators with proof that they sent them.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Harassment', onPress: () => submit('harassment'), style: 'destructive' },
+        { text: 'Spam', onPress: () => submit('spam'), style: 'destructive' },
+      ]
+    );
+  };
+
+  // Ignore hides the request; block also silences whatever they send next
+  const showRequestOptions = (conversation: Conversation) => {
+    const userId = conversation.other_user.user_id;
+
+    Alert.alert(
+      conversation.other_user.descriptor,
+      'They won\'t know what you choose.',
+      [
+        { text: 'Ignore', onPress: () => messageRequestService.ignore(userId) },
+        { text: 'Block', style: 'destructive', onPress: () => messageRequestService.block(userId) },
+        { text: 'Report', style: 'destructive', onPress: () => reportRequest(conversation) },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  };
+
   const navigateToProfile = (userId: string, descriptor: string) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     
@@ -257,6 +393,143 @@ export default function ChatListScreen({ navigation }: Props) {
     );
   };
 
+  const renderRequest = (conversation: Conversation) => (
+    <View key={conversation.conversation_id} style={styles.requestItem}>
+      <TouchableOpacity
+        style={styles.userInfo}
+        onPress={() => navigateToChat(conversation)}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.userName} numberOfLines={1}>
+          {conversation.other_user.emoji && `${conversation.other_user.emoji} `}
+          {conversation.other_user.descriptor}
+        </Text>
+        <Text style={styles.lastMessage} numberOfLines={1}>
+          Wants to message you · {formatTime(conversation.last_message_time)}
+        </Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.requestButton}
+        onPress={() => acceptRequest(conversation)}
+        activeOpacity={0.7}
+        accessibilityLabel={`Accept ${conversation.other_user.descriptor}`}
+      >
+        <Ionicons name="checkmark" size={18} color={theme.colors.primary} />
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.requestButton}
+        onPress={() => showRequestOptions(conversation)}
+        activeOpacity={0.7}
+        accessibilityLabel="More options"
+      >
+        <Ionicons name="ellipsis-horizontal" size={18} color={theme.colors.textSecondary} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  // Collapsed by default: opening a request is a choice
+  const renderRequests = () => {
+    if (requests.length === 0) return null;
+
+    return (
+      <View style={styles.requests}>
+        <TouchableOpacity
+          style={styles.requestsHeader}
+          onPress={() => setShowRequests(show => !show)}
+          activeOpacity={0.8}
+        >
+          <Ionicons name="mail-unread-outline" size={18} color={theme.colors.textSecondary} />
+          <Text style={styles.requestsTitle}>Requests</Text>
+          <Text style={styles.requestsCount}>{requests.length}</Text>
+          <Ionicons
+            name={showRequests ? 'chevron-up' : 'chevron-down'}
+            size={16}
+            color={theme.colors.textTertiary}
+          />
+        </TouchableOpacity>
+        {showRequests && requests.map(renderRequest)}
+      </View>
+    );
+  };
+
+  // Matched words in the accent color
+  const renderSnippet = (hit: SearchHit) => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    hit.highlights.forEach(([from, to], index) => {
+      if (from > cursor) {
+        parts.push(hit.snippet.slice(cursor, from));
+      }
+      parts.push(
+        <Text key={index} style={styles.snippetHighlight}>{hit.snippet.slice(from, to)}</Text>
+      );
+      cursor = to;
+    });
+    parts.push(hit.snippet.slice(cursor));
+    return parts;
+  };
+
+  const renderSearchRow = ({ item }: { item: SearchRow }) => {
+    if (item.type === 'chat') {
+      return renderChat({ item: item.conversation });
+    }
+
+    const { hit } = item;
+    const conversation = conversationWith(hit);
+    const prefix = hit.senderId === currentUserId ? 'You: ' : '';
+
+    return (
+      <TouchableOpacity
+        style={styles.searchHit}
+        activeOpacity={0.8}
+        onPress={() => openSearchHit(hit)}
+        disabled={!conversation}
+      >
+        <View style={styles.chatHeader}>
+          <Text style={styles.userName} numberOfLines={1}>
+            {conversation?.other_user.descriptor ?? 'Conversation unavailable'}
+          </Text>
+          <Text style={styles.time}>{formatTime(hit.timestamp)}</Text>
+        </View>
+        <Text style={styles.lastMessage} numberOfLines={2}>
+          {prefix}{renderSnippet(hit)}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderSearchResults = () => {
+    const folded = query.trim().toLowerCase();
+    const chats = [...inbox, ...requests].filter(conversation =>
+      conversation.other_user.descriptor.toLowerCase().includes(folded)
+    );
+    const sections = [
+      { title: 'Chats', data: chats.map((conversation): SearchRow => ({ type: 'chat', conversation })) },
+      { title: 'Messages', data: hits.map((hit): SearchRow => ({ type: 'message', hit })) },
+    ].filter(section => section.data.length > 0);
+
+    return (
+      <SectionList
+        sections={sections}
+        renderItem={renderSearchRow}
+        renderSectionHeader={({ section }) => (
+          <Text style={styles.sectionTitle}>{section.title}</Text>
+        )}
+        keyExtractor={item => item.type === 'chat'
+          ? `chat_${item.conversation.conversation_id}`
+          : `message_${item.hit.conversationKey}_${item.hit.messageId}`
+        }
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        stickySectionHeadersEnabled={false}
+        showsVerticalScrollIndicator={false}
+        ListEmptyComponent={
+          <Text style={styles.noResults}>No chats or messages match "{query.trim()}"</Text>
+        }
+      />
+    );
+  };
+
   const renderEmptyState = () => (
     <Animated.View
       style={[
@@ -297,8 +570,9 @@ export default function ChatListScreen({ navigation }: Props) {
     </Animated.View>
   );
 
+  // Requests don't count: unread there is not news until accepted
   const getTotalUnreadCount = () => {
-    return Object.values(unreadCounts).reduce((sum, count) => sum + count, 0);
+    return inbox.reduce((sum, conversation) => sum + (unreadCounts[conversation.conversation_id] || 0), 0);
   };
 
   const getItemLayout = (data: any, index: number) => ({
@@ -344,7 +618,12 @@ export default function ChatListScreen({ navigation }: Props) {
         >
           <View style={styles.headerContent}>
             <View>
-              <Text style={styles.title}>Messages</Text>
+              <Pressable
+                onLongPress={panicGesture ? handlePanicGesture : undefined}
+                delayLongPress={1500}
+              >
+                <Text style={styles.title}>Messages</Text>
+              </Pressable>
               {totalUnread > 0 && (
                 <Text style={styles.subtitle}>
                   <Text style={styles.unreadCountHighlight}>{totalUnread}</Text>
@@ -373,14 +652,39 @@ export default function ChatListScreen({ navigation }: Props) {
           </View>
         </Animated.View>
 
+        {/* Search: decrypted messages are only searchable here */}
+        <View style={styles.searchBar}>
+          <Ionicons name="search" size={18} color={theme.colors.textTertiary} />
+          <TextInput
+            style={styles.searchInput}
+            value={query}
+            onChangeText={setQuery}
+            placeholder="Search chats and messages"
+            placeholderTextColor={theme.colors.textTertiary}
+            autoCorrect={false}
+            autoCapitalize="none"
+            returnKeyType="search"
+          />
+          {query.length > 0 && (
+            <TouchableOpacity
+              onPress={() => setQuery('')}
+              activeOpacity={0.7}
+              accessibilityLabel="Clear search"
+            >
+              <Ionicons name="close-circle" size={18} color={theme.colors.textTertiary} />
+            </TouchableOpacity>
+          )}
+        </View>
+
         {/* Chat List */}
+        {query.trim() ? renderSearchResults() : (
         <FlatList
-          data={conversations}
+          data={inbox}
           renderItem={renderChat}
           keyExtractor={item => item.conversation_id}
           contentContainerStyle={[
             styles.listContent,
-            conversations.length === 0 && styles.emptyListContent
+            inbox.length === 0 && requests.length === 0 && styles.emptyListContent
           ]}
           showsVerticalScrollIndicator={false}
           refreshControl={
@@ -391,15 +695,18 @@ export default function ChatListScreen({ navigation }: Props) {
               colors={[theme.colors.primary]}
             />
           }
-          ListEmptyComponent={renderEmptyState}
+          ListHeaderComponent={renderRequests}
+          ListEmptyComponent={requests.length === 0 ? renderEmptyState : null}
           // Performance optimizations
           removeClippedSubviews={true}
           initialNumToRender={10}
           maxToRenderPerBatch={10}
           windowSize={10}
-          getItemLayout={getItemLayout}
+          // Rows sit below the requests header, whose height varies
+          getItemLayout={requests.length === 0 ? getItemLayout : undefined}
           updateCellsBatchingPeriod={50}
         />
+        )}
       </SafeAreaView>
     </View>
   );
@@ -435,6 +742,85 @@ const styles = StyleSheet.create({
     borderRadius: 24,
   },
   
+  // Search
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    marginHorizontal: theme.spacing.md,
+    marginBottom: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.md,
+    backgroundColor: theme.colors.blackElevated,
+    borderRadius: theme.borderRadius.xl,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  searchInput: {
+    flex: 1,
+    minHeight: 40,
+    fontSize: theme.typography.fontSize.body,
+    color: theme.colors.textPrimary,
+  },
+  sectionTitle: {
+    fontSize: theme.typography.fontSize.micro,
+    fontWeight: '600',
+    color: theme.colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  },
+  searchHit: {
+    ...sharedStyles.cardInteractive,
+  },
+  
+  // Message requests
+  requests: {
+    marginBottom: theme.spacing.sm,
+  },
+  requestsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.xs,
+  },
+  requestsTitle: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.body,
+    fontWeight: '600',
+    color: theme.colors.textPrimary,
+  },
+  requestsCount: {
+    fontSize: theme.typography.fontSize.caption,
+    color: theme.colors.primary,
+    fontWeight: '600',
+  },
+  requestItem: {
+    ...sharedStyles.cardInteractive,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  requestButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.blackSurface,
+  },
+  snippetHighlight: {
+    color: theme.colors.primary,
+    fontWeight: '600',
+  },
+  noResults: {
+    fontSize: theme.typography.fontSize.caption,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: theme.spacing.xl,
+  },
+  
   // List
   listContent: {
     padding: theme.spacing.md,
@@ -1,5 +1,5 @@
 // src/screens/chat/ChatScreen.tsx
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -13,6 +13,7 @@ import {
   ActivityIndicator,
   Dimensions,
   Alert,
+  AppState,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -22,17 +23,48 @@ import { useRoute, useNavigation, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '@/types/navigation';
 import { useAppSelector, useAppDispatch } from '@/store';
-import {
-  addMessage,
-  markConversationAsRead,
-} from '@/store/slices/chatSlice';
+import { markConversationAsRead } from '@/store/slices/chatSlice';
 import websocketService from '@/services/websocket';
 import apiService from '@/services/api';
 import encryptionService from '@/services/encryptionService';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import sessionManager from '@/services/sessionManager';
+import identityKeyService from '@/services/identityKeyService';
+import privacySettingsService from '@/services/privacySettingsService';
+import messageStoreService, { StoredMessage } from '@/services/messageStoreService';
+import attachmentService from '@/services/attachmentService';
+import outboxService, { OutboxEvent } from '@/services/outboxService';
+import receiptService, { ReceiptEvent, isStatusUpgrade } from '@/services/receiptService';
+import messageRequestService from '@/services/messageRequestService';
+import disappearingMessagesService, {
+  DisappearingEvent,
+  formatDisappearingTimer,
+} from '@/services/disappearingMessagesService';
 import * as Haptics from 'expo-haptics';
+import * as ImagePicker from 'expo-image-picker';
 import EncryptionStatus from '@/components/chat/EncryptionStatus';
-import { useEncryption, useKeyVerification } from '@/hooks/useEncryption';
+import EncryptedImage from '@/components/chat/EncryptedImage';
+import DisappearingTimerPicker from '@/components/chat/DisappearingTimerPicker';
+import MessageActionsSheet, { MessageAction } from '@/components/chat/MessageActionsSheet';
+import SwipeToReply from '@/components/chat/SwipeToReply';
+import { useEncryption } from '@/hooks/useEncryption';
+import { CipherSuite, cipherSuiteAlgorithm } from '@/utils/cipherSuites';
+import {
+  encodeMessageBody,
+  parseMessageBody,
+  messageExpiresIn,
+  isSilentControl,
+  quoteMessage,
+  MessageQuote,
+} from '@/utils/messageBody';
+import { FrankingReceipt, frankingReceipt } from '@/utils/franking';
+import { aggregateReactions } from '@/utils/reactions';
+import {
+  applyControlMessages,
+  canModifyMessage,
+  controlChanges,
+  frankedBody,
+  EditHistoryEntry,
+} from '@/utils/messageEdits';
 
 const { width, height } = Dimensions.get('window');
 
@@ -51,36 +83,66 @@ interface Message {
   metadata?: {
     custom_encryption?: string;
     encrypted?: boolean;
+    franking_commitment?: string;
+    franking_tag?: string; // Server countersignature, on delivered messages
   };
   session_id?: string;
+  franking?: FrankingReceipt; // Partner messages that can be reported
+  system?: 'key_change'; // Local notice, not sent by anyone
+  deleted?: boolean; // Unsent by its sender: shown as a tombstone
+  edited_at?: number;
+  edit_history?: EditHistoryEntry[];
 }
 
-interface PublicKeys {
-  mine: string;
-  theirs: string;
-}
+const STORED_MESSAGES_LIMIT = 200;
+const PAGE_SIZE = 50;
+const MAX_GAP_PAGES = 20; // Back online after a long time: anything older comes on scroll
+const UNDECRYPTABLE_CONTENT = '🔐 Unable to decrypt';
+
+const toStoredMessage = ({ encrypted_content, system, ...message }: Message): StoredMessage => message;
+
+// Pages overlap and the socket races them: one copy per id (the incoming one), in time order
+const mergeMessages = (current: Message[], incoming: Message[]): Message[] => {
+  if (incoming.length === 0) return current;
+
+  const byId = new Map(current.map(msg => [msg.id, msg]));
+  incoming.forEach(msg => byId.set(msg.id, msg));
+  return [...byId.values()].sort((a, b) => a.timestamp - b.timestamp);
+};
 
 export default function ChatScreen() {
   const route = useRoute<ChatScreenRouteProp>();
   const navigation = useNavigation<ChatScreenNavigationProp>();
   const dispatch = useAppDispatch();
   
-  const { recipientId, recipientDescriptor, conversationId } = route.params;
+  const { recipientId, recipientDescriptor, conversationId, messageId: focusMessageId } = route.params;
   
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState('');
   const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
   const [sending, setSending] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
   const [recipientOnline, setRecipientOnline] = useState(false);
-  
-  // Public keys state for EncryptionStatus component
-  const [publicKeys, setPublicKeys] = useState<PublicKeys | null>(null);
-  const [waitingForRecipient, setWaitingForRecipient] = useState(false);
+  const [keyNotices, setKeyNotices] = useState<Message[]>([]);
+  const [blockOnKeyChange, setBlockOnKeyChange] = useState(false);
+  const [disappearingTimer, setDisappearingTimer] = useState(0);
+  const [timerPickerVisible, setTimerPickerVisible] = useState(false);
+  const [actionMessage, setActionMessage] = useState<Message | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [isRequest, setIsRequest] = useState(false);
   
   const flatListRef = useRef<FlatList>(null);
   const inputRef = useRef<TextInput>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const highlightTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // The socket can deliver the same message twice: decrypt each id once
+  const seenMessageIdsRef = useRef<Set<string>>(new Set());
+  const loadingOlderRef = useRef(false);
+  const hasOlderRef = useRef(true); // False once the server has no older page
+  const focusStateRef = useRef<'pending' | 'loading' | 'done'>('pending');
   
   // Get current user from Redux
   const currentUser = useAppSelector(state => state.auth.user);
@@ -97,11 +159,53 @@ export default function ChatScreen() {
     sessionId, 
     isVerified,
     canEncrypt,
-    refresh: refreshEncryption,
-    getEncryptionKey
+    state: sessionState,
+    keyChanged,
   } = useEncryption(chatKey || '');
   
-  const { verifyKeys } = useKeyVerification(chatKey || '', recipientId);
+  const waitingForRecipient = sessionState === 'pending';
+  const sendBlocked = keyChanged && blockOnKeyChange;
+  
+  // Reactions, edits and unsends are control messages: they change their target, no bubble
+  const reactions = useMemo(
+    () => aggregateReactions(messages, currentUserId),
+    [messages, currentUserId]
+  );
+  
+  // Server messages and local key-change notices, newest first: the list is
+  // inverted, so older pages are appended and the visible messages stay put
+  const listData = useMemo(() => {
+    const bubbles = messages.filter(msg => !isSilentControl(parseMessageBody(msg.content)));
+    return [...bubbles, ...keyNotices].sort((a, b) => b.timestamp - a.timestamp);
+  }, [messages, keyNotices]);
+  
+  // Where each bubble is, for replies that jump to their original
+  const listIndex = useMemo(
+    () => new Map(listData.map((msg, index) => [msg.id, index])),
+    [listData]
+  );
+  
+  // Opened from search: bring the message in from the store if needed, then scroll to it once
+  useEffect(() => {
+    if (!focusMessageId || !chatKey || loading || focusStateRef.current === 'done') return;
+
+    if (listIndex.has(focusMessageId)) {
+      focusStateRef.current = 'done';
+      requestAnimationFrame(() => jumpToMessage(focusMessageId));
+      return;
+    }
+    if (focusStateRef.current === 'loading' || messages.length === 0) return;
+
+    focusStateRef.current = 'loading';
+    messageStoreService.getMessages(chatKey, undefined, messages[0].timestamp).then(older => {
+      if (!older.some(msg => msg.id === focusMessageId)) {
+        focusStateRef.current = 'done';
+        return;
+      }
+      older.forEach(msg => seenMessageIdsRef.current.add(msg.id));
+      setMessages(prev => mergeMessages(prev, older));
+    });
+  }, [focusMessageId, chatKey, loading, listIndex]);
   
   // Animations
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -115,85 +219,256 @@ export default function ChatScreen() {
     return 'disabled';
   };
 
-  // Setup encryption when chat opens
-  const setupEncryption = async () => {
-    if (!canEncrypt || !chatKey) return;
+  const openSafetyNumber = () => {
+    navigation.navigate('SafetyNumber', {
+      conversationKey: chatKey || '',
+      recipientId,
+      recipientDescriptor,
+    });
+  };
 
-    try {
-      // Check for existing session metadata
-      const storedMeta = await AsyncStorage.getItem(`@chat_meta_${chatKey}`);
-      if (storedMeta) {
-        const metadata = JSON.parse(storedMeta);
-        if (metadata.publicKeys) {
-          setPublicKeys(metadata.publicKeys);
-        }
-        // Session already exists, refresh hook will handle it
+  // Key-change notices for this conversation (reloaded when a new change is detected)
+  useEffect(() => {
+    if (!chatKey) return;
+
+    identityKeyService.getKeyChangeNotices(chatKey).then(notices => {
+      setKeyNotices(notices.map(notice => ({
+        id: notice.id,
+        sender_id: 'system',
+        recipient_id: recipientId,
+        content: `${recipientDescriptor}'s security code changed`,
+        timestamp: notice.timestamp,
+        is_encrypted: false,
+        system: 'key_change',
+      })));
+    });
+  }, [chatKey, keyChanged]);
+
+  useEffect(() => {
+    privacySettingsService.getSettings().then(settings => {
+      setBlockOnKeyChange(settings.blockOnKeyChange);
+    });
+  }, []);
+
+  // A stranger's messages wait here until we accept, ignore or block them
+  useEffect(() => {
+    const refreshRequest = () => {
+      messageRequestService.isRequest(recipientId).then(setIsRequest);
+    };
+
+    refreshRequest();
+    messageRequestService.on(refreshRequest);
+    return () => messageRequestService.off(refreshRequest);
+  }, [recipientId]);
+
+  // Disappearing timer of this conversation, and messages that expire while open
+  useEffect(() => {
+    if (!chatKey) return;
+
+    disappearingMessagesService.getTimer(chatKey).then(timer => {
+      setDisappearingTimer(timer.seconds);
+    });
+
+    const handleDisappearing = (event: DisappearingEvent) => {
+      if (event.conversationKey !== chatKey) return;
+      if (event.type === 'timer') {
+        setDisappearingTimer(event.timer.seconds);
+      } else {
+        const expired = new Set(event.messageIds);
+        setMessages(prev => prev.filter(msg => !expired.has(msg.id)));
+      }
+    };
+
+    disappearingMessagesService.on(handleDisappearing);
+    return () => disappearingMessagesService.off(handleDisappearing);
+  }, [chatKey]);
+
+  // Our queued messages: status changes, and the server id once sent
+  useEffect(() => {
+    if (!chatKey) return;
+
+    const handleOutbox = (event: OutboxEvent) => {
+      const { item } = event;
+      if (item.action.kind !== 'message' || item.action.conversationKey !== chatKey) return;
+
+      if (event.type === 'sent') {
+        seenMessageIdsRef.current.add(event.result.id);
+        setMessages(prev => {
+          let sent: Message | undefined;
+          // A page or the socket may have brought the server copy already
+          const next = prev.filter(msg => msg.id !== event.result.id).map(msg => {
+            if (msg.id !== item.id) return msg;
+            sent = {
+              ...msg,
+              id: event.result.id,
+              timestamp: event.result.timestamp || msg.timestamp,
+              status: 'sent',
+            };
+            return sent;
+          });
+          // Our edit or unsend takes effect once the server has it
+          return sent ? applyControlMessages(next, [sent]) : next;
+        });
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
         return;
       }
 
-      // Generate new key pair
-      const keyPair = await encryptionService.generateKeyPair();
-      
-      // Exchange keys with server
-      const response = await apiService.post('/v1/chat/keys/exchange', {
-        recipient_id: recipientId,
-        public_key: keyPair.publicKey,
-        key_type: 'x25519'
-      });
-      
-      if (response.recipient_public_key && response.status === 'ready') {
-        // Complete key exchange
-        const sharedKey = await encryptionService.deriveSharedSecret(
-          keyPair.privateKey,
-          response.recipient_public_key
-        );
-        
-        // Store encryption key
-        await encryptionService.storeKey(response.session_id, sharedKey);
-        
-        // Save metadata
-        const metadata = {
-          sessionId: response.session_id,
-          created: Date.now(),
-          keyExchangeType: 'x25519-client',
-          publicKeys: {
-            mine: keyPair.publicKey,
-            theirs: response.recipient_public_key
-          }
-        };
-        
-        await AsyncStorage.setItem(`@chat_meta_${chatKey}`, JSON.stringify(metadata));
-        
-        setPublicKeys(metadata.publicKeys);
-        setWaitingForRecipient(false);
-        
-        // Refresh hook state
-        await refreshEncryption();
-        
-        console.log('✅ E2E encryption established');
-        
-      } else if (response.status === 'pending') {
-        // Waiting for recipient
-        setWaitingForRecipient(true);
-        
-        // Store pending exchange data
-        await AsyncStorage.setItem(
-          `@pending_exchange_${chatKey}`,
-          JSON.stringify({
-            privateKey: keyPair.privateKey,
-            publicKey: keyPair.publicKey,
-            timestamp: Date.now()
-          })
-        );
-        
-        console.log('⏳ Waiting for recipient to open chat');
+      const status = item.status === 'failed' ? 'failed' : 'sending';
+      setMessages(prev => prev.map(msg => msg.id === item.id ? { ...msg, status } : msg));
+      if (status === 'failed') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       }
-      
+    };
+
+    outboxService.on(handleOutbox);
+    return () => outboxService.off(handleOutbox);
+  }, [chatKey]);
+
+  // Delivered / read ticks on our messages
+  useEffect(() => {
+    if (!chatKey) return;
+
+    const handleReceipt = (event: ReceiptEvent) => {
+      if (event.conversationKey !== chatKey) return;
+
+      const ids = new Set(event.messageIds);
+      setMessages(prev => prev.map(msg =>
+        ids.has(msg.id) && msg.sender_id === currentUserId && isStatusUpgrade(msg.status, event.status)
+          ? { ...msg, status: event.status }
+          : msg
+      ));
+    };
+
+    receiptService.on(handleReceipt);
+    return () => receiptService.off(handleReceipt);
+  }, [chatKey, currentUserId]);
+
+  // The partner's messages on screen: read, unless the app is in background
+  const sendReadReceipts = (list: { id: string; sender_id: string }[]) => {
+    if (AppState.currentState !== 'active') return;
+
+    const ids = list.filter(msg => msg.sender_id === recipientId).map(msg => msg.id);
+    if (ids.length > 0) {
+      receiptService.markRead(recipientId, ids);
+    }
+  };
+
+  const acknowledgeKeyChange = async () => {
+    if (!chatKey) return;
+    await sessionManager.acknowledgeKeyChange(chatKey);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  // Setup encryption when chat opens: the SessionManager picks the
+  // key agreement and keeps retrying in the background
+  const setupEncryption = async () => {
+    if (!canEncrypt || !currentUserId) return;
+
+    try {
+      await sessionManager.ensureSession(currentUserId, recipientId);
     } catch (error) {
       console.error('Failed to setup encryption:', error);
     }
   };
 
+  // Writing to someone accepts them, so the key exchange may start now.
+  // Returns whether the session is usable right away (prekey bundle)
+  const startSessionOnSend = async (): Promise<boolean> => {
+    if (!canEncrypt || !currentUserId) return false;
+
+    await messageRequestService.acceptOnSend(recipientId);
+    try {
+      return sessionManager.isUsable(await sessionManager.ensureSession(currentUserId, recipientId));
+    } catch (error) {
+      console.error('Failed to setup encryption:', error);
+      return false;
+    }
+  };
+
+  // Decrypt a message; a prekey message from the partner also sets up
+  // the session on our side, so this does not wait for hasEncryption.
+  // Partner messages keep their franking receipt, if the server countersigned it.
+  // Returns null if it can't be decrypted (yet)
+  const decryptMessageContent = async (
+    msg: any
+  ): Promise<{ content: string; franking?: FrankingReceipt } | null> => {
+    if (!msg.encrypted_content) {
+      return { content: msg.content || '🔐 Message' };
+    }
+    if (!chatKey) {
+      return null;
+    }
+
+    try {
+      const { plaintext, franking } = await sessionManager.decryptMessage(chatKey, recipientId, msg);
+      return {
+        content: plaintext,
+        franking: msg.sender_id === recipientId ? frankingReceipt(franking, msg.metadata) : undefined,
+      };
+    } catch (error) {
+      console.warn('Failed to decrypt message:', msg.id || msg.message_id);
+      return null;
+    }
+  };
+
+  // Readable messages go to the local store: ratchet keys are single-use,
+  // so a message can't be decrypted again on the next open
+  const storeMessages = (list: Message[]) => {
+    if (!chatKey || list.length === 0) return;
+
+    messageStoreService.saveMessages(chatKey, list.map(toStoredMessage)).catch(error => {
+      console.warn('Failed to store messages:', error);
+    });
+  };
+
+  // Edits and unsends from the partner change their target in the store too.
+  // Queued after storeMessages: the store applies them in order
+  const storeControlChanges = (list: Message[]) => {
+    if (!chatKey) return;
+
+    for (const control of list) {
+      const body = parseMessageBody(control.content);
+      if (body.type !== 'edit' && body.type !== 'unsend') continue;
+
+      messageStoreService.updateMessages(chatKey, [body.target], target =>
+        controlChanges(target, control, body)
+      ).catch(error => {
+        console.warn('Failed to store message change:', error);
+      });
+    }
+  };
+
+  // Timer changes and expiry of newly readable messages, ours and the partner's
+  const applyDisappearing = async (list: Message[]) => {
+    if (!chatKey || list.length === 0) return;
+
+    const expiring: { id: string; timestamp: number; expiresIn: number }[] = [];
+    for (const msg of list) {
+      const body = parseMessageBody(msg.content);
+      if (body.type === 'timer') {
+        await disappearingMessagesService.setTimer(chatKey, body.seconds, msg.timestamp);
+      }
+      const expiresIn = messageExpiresIn(body);
+      if (expiresIn) {
+        expiring.push({ id: msg.id, timestamp: msg.timestamp, expiresIn });
+      }
+    }
+
+    await disappearingMessagesService.schedule(chatKey, expiring);
+  };
+
+  // Stored history first: the chat opens instantly and works offline
+  const loadStoredMessages = async (): Promise<boolean> => {
+    if (!chatKey) return false;
+
+    const stored = await messageStoreService.getMessages(chatKey, STORED_MESSAGES_LIMIT);
+    if (stored.length === 0) return false;
+
+    stored.forEach(msg => seenMessageIdsRef.current.add(msg.id));
+    setMessages(stored);
+    return true;
+  };
+
   // Initialize chat
   useEffect(() => {
     const initializeChat = async () => {
@@ -204,8 +479,16 @@ export default function ChatScreen() {
           throw new Error('Unable to generate conversation ID');
         }
         
-        // Setup encryption
-        await setupEncryption();
+        if (await loadStoredMessages()) {
+          setLoading(false);
+        }
+        
+        // Setup encryption. Only with someone we accepted: the key exchange
+        // would tell a stranger we are here, even one whose messages we
+        // haven't fetched yet. With anyone else it starts when we write
+        if (await messageRequestService.canShareActivity(recipientId)) {
+          await setupEncryption();
+        }
         
         // Load messages
         await loadMessages();
@@ -236,35 +519,36 @@ export default function ChatScreen() {
     // Set up WebSocket listeners
     const handleNewMessage = async (message: any) => {
       if (message.sender_id === recipientId || message.recipient_id === recipientId) {
-        let decryptedContent = message.content || '🔐 Message';
+        const messageId = message.message_id || message.id;
+        if (seenMessageIdsRef.current.has(messageId)) return;
+        seenMessageIdsRef.current.add(messageId);
         
-        // Try to decrypt if we have encryption
-        if (message.encrypted_content && hasEncryption) {
-          try {
-            const encryptionKey = await getEncryptionKey();
-            if (encryptionKey) {
-              decryptedContent = await encryptionService.decrypt(message.encrypted_content, encryptionKey);
-            }
-          } catch (error) {
-            console.warn('Failed to decrypt incoming message');
-            decryptedContent = '🔐 Unable to decrypt';
-          }
-        }
+        const decrypted = await decryptMessageContent(message);
         
         const newMessage: Message = {
-          id: message.message_id || message.id,
+          id: messageId,
           sender_id: message.sender_id,
           recipient_id: message.recipient_id,
-          content: decryptedContent,
+          content: decrypted?.content ?? UNDECRYPTABLE_CONTENT,
           encrypted_content: message.encrypted_content,
           timestamp: message.timestamp || Date.now() / 1000,
           is_encrypted: !!message.encrypted_content,
           session_id: message.session_id,
-          metadata: message.metadata
+          metadata: message.metadata,
+          franking: decrypted?.franking,
         };
         
-        setMessages(prev => [...prev, newMessage]);
+        setMessages(prev => decrypted !== null
+          ? applyControlMessages(mergeMessages(prev, [newMessage]), [newMessage])
+          : mergeMessages(prev, [newMessage])
+        );
+        if (decrypted !== null) {
+          storeMessages([newMessage]);
+          storeControlChanges([newMessage]);
+          applyDisappearing([newMessage]);
+        }
         markAsRead();
+        sendReadReceipts([newMessage]);
         
         // Haptic feedback for new message
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -283,123 +567,180 @@ export default function ChatScreen() {
       }
     };
 
-    // Handle encryption ready event from WebSocket
+    // Handle encryption ready event from WebSocket: the SessionManager has
+    // already completed the exchange, reload to decrypt pending messages
     const handleEncryptionReady = async (data: any) => {
-      if (data.sender_id === recipientId && data.session_id && chatKey) {
+      if (data.sender_id === recipientId) {
         console.log('🔐 Encryption ready signal received');
-        
-        try {
-          const pendingData = await AsyncStorage.getItem(`@pending_exchange_${chatKey}`);
-          if (!pendingData) return;
-
-          const { privateKey, publicKey } = JSON.parse(pendingData);
-          
-          // Get recipient's public key
-          const response = await apiService.get(`/v1/chat/keys/status/${recipientId}`);
-          
-          if (response.public_key) {
-            // Complete the exchange
-            const sharedKey = await encryptionService.deriveSharedSecret(
-              privateKey,
-              response.public_key
-            );
-            
-            // Store encryption key
-            await encryptionService.storeKey(response.session_id, sharedKey);
-            
-            // Save metadata
-            const metadata = {
-              sessionId: response.session_id,
-              created: Date.now(),
-              keyExchangeType: 'x25519-client',
-              publicKeys: {
-                mine: publicKey,
-                theirs: response.public_key
-              }
-            };
-            
-            await AsyncStorage.setItem(`@chat_meta_${chatKey}`, JSON.stringify(metadata));
-            
-            setPublicKeys(metadata.publicKeys);
-            setWaitingForRecipient(false);
-            
-            // Clean up pending data
-            await AsyncStorage.removeItem(`@pending_exchange_${chatKey}`);
-            
-            // Refresh hook state
-            await refreshEncryption();
-            
-            console.log('✅ E2E encryption established via WebSocket');
-            
-            // Reload messages to decrypt them
-            await loadMessages();
-          }
-        } catch (error) {
-          console.error('Failed to complete encryption setup:', error);
-        }
+        await loadMessages();
       }
     };
 
+    // Back online: fetch what arrived meanwhile
+    const handleReconnected = () => {
+      loadMessages();
+    };
+
     websocketService.on('new_message', handleNewMessage);
     websocketService.on('typing_status', handleTypingStatus);
     websocketService.on('user_status', handleUserStatus);
     websocketService.on('encryption_ready', handleEncryptionReady);
+    websocketService.on('connected', handleReconnected);
 
     return () => {
       websocketService.off('new_message', handleNewMessage);
       websocketService.off('typing_status', handleTypingStatus);
       websocketService.off('user_status', handleUserStatus);
       websocketService.off('encryption_ready', handleEncryptionReady);
+      websocketService.off('connected', handleReconnected);
       
       if (typingTimeoutRef.current) {
         clearTimeout(typingTimeoutRef.current);
       }
+      if (highlightTimeoutRef.current) {
+        clearTimeout(highlightTimeoutRef.current);
+      }
     };
   }, [recipientId, currentUserId, chatKey]); // Removed unnecessary dependencies
 
+  // Decrypt oldest first, one at a time: ratchet chains advance in
+  // order and the first prekey message sets up the session.
+  // Messages already in the store are not decrypted again
+  const readServerMessages = async (
+    list: any[],
+    storedById: Map<string, StoredMessage>
+  ): Promise<{ messages: Message[]; newlyDecrypted: Message[] }> => {
+    const expiredIds = await disappearingMessagesService.getExpiredIds();
+    const messages: Message[] = [];
+    const newlyDecrypted: Message[] = [];
+    const readIds = new Set<string>();
+
+    for (const msg of [...list].sort((a, b) => a.timestamp - b.timestamp)) {
+      if (readIds.has(msg.id)) continue;
+      readIds.add(msg.id);
+      seenMessageIdsRef.current.add(msg.id);
+      if (expiredIds.has(msg.id)) continue;
+
+      const known = storedById.get(msg.id);
+      if (known) {
+        messages.push({
+          ...msg,
+          content: known.content,
+          is_encrypted: known.is_encrypted,
+          status: known.status,
+          franking: known.franking,
+          deleted: known.deleted,
+          edited_at: known.edited_at,
+          edit_history: known.edit_history,
+        });
+        continue;
+      }
+
+      const decrypted = await decryptMessageContent(msg);
+      const message: Message = {
+        ...msg,
+        content: decrypted?.content ?? UNDECRYPTABLE_CONTENT,
+        is_encrypted: !!msg.encrypted_content,
+        franking: decrypted?.franking,
+      };
+      messages.push(message);
+      if (decrypted !== null) {
+        newlyDecrypted.push(message);
+      }
+    }
+
+    return { messages, newlyDecrypted };
+  };
+
+  // Newly readable messages: stored, then their edits, unsends and timers applied
+  const mergeServerMessages = (serverMessages: Message[], newlyDecrypted: Message[]) => {
+    storeMessages(newlyDecrypted);
+    storeControlChanges(newlyDecrypted);
+    applyDisappearing(newlyDecrypted);
+
+    setMessages(prev => applyControlMessages(mergeMessages(prev, serverMessages), newlyDecrypted));
+  };
+
+  // Newest pages first, walking back until they meet the stored history:
+  // fills the gap left while offline. Older history is paged in on scroll
   const loadMessages = async () => {
     try {
-      const response = await apiService.getMessages(conversationId || recipientId, 50);
-      
-      if (!response.error && response.messages) {
-        // Decrypt messages if we have encryption
-        const decryptedMessages = await Promise.all(
-          response.messages.map(async (msg: any) => {
-            let content = msg.content || '🔐 Message';
-            
-            if (msg.encrypted_content && hasEncryption) {
-              try {
-                const encryptionKey = await getEncryptionKey();
-                if (encryptionKey) {
-                  content = await encryptionService.decrypt(msg.encrypted_content, encryptionKey);
-                }
-              } catch (error) {
-                console.warn('Failed to decrypt message:', msg.id);
-                content = '🔐 Unable to decrypt';
-              }
-            } else if (msg.encrypted_content && !hasEncryption) {
-              content = '🔐 Encrypted message';
-            }
-            
-            return {
-              ...msg,
-              content,
-              is_encrypted: !!msg.encrypted_content,
-            };
-          })
-        );
-        
-        setMessages(decryptedMessages.reverse());
-        markAsRead();
+      const stored = chatKey
+        ? await messageStoreService.getMessages(chatKey, STORED_MESSAGES_LIMIT)
+        : [];
+      const storedById = new Map(stored.map(msg => [msg.id, msg]));
+
+      const fetched: any[] = [];
+      let before: number | undefined;
+      for (let page = 0; page < MAX_GAP_PAGES; page++) {
+        const response = await apiService.getMessages(conversationId || recipientId, PAGE_SIZE, before);
+        if (response.error || !response.messages) break;
+
+        const pageMessages: any[] = response.messages;
+        fetched.push(...pageMessages);
+
+        if (pageMessages.length < PAGE_SIZE) {
+          hasOlderRef.current = false;
+          break;
+        }
+        if (stored.length === 0 || pageMessages.some(msg => storedById.has(msg.id))) break;
+
+        before = Math.min(...pageMessages.map(msg => msg.timestamp));
       }
+      if (fetched.length === 0) return;
+
+      const { messages: serverMessages, newlyDecrypted } = await readServerMessages(fetched, storedById);
+      mergeServerMessages(serverMessages, newlyDecrypted);
+      // Arrived while we were away: a stranger's first messages are a request
+      if (serverMessages.some(msg => msg.sender_id === recipientId)) {
+        await messageRequestService.noteRequest(recipientId);
+      }
+      markAsRead();
+      sendReadReceipts(serverMessages);
     } catch (error) {
       console.error('Failed to load messages:', error);
     }
   };
 
+  // Scrolled to the top: older messages from the store, then from the server
+  const loadOlderMessages = async () => {
+    const oldest = messages[0];
+    if (!chatKey || !oldest || loading || loadingOlderRef.current) return;
+
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+    try {
+      const stored = await messageStoreService.getMessages(chatKey, PAGE_SIZE, oldest.timestamp);
+      if (stored.length > 0) {
+        stored.forEach(msg => seenMessageIdsRef.current.add(msg.id));
+        setMessages(prev => mergeMessages(prev, stored));
+        return;
+      }
+      if (!hasOlderRef.current) return;
+
+      const response = await apiService.getMessages(conversationId || recipientId, PAGE_SIZE, oldest.timestamp);
+      if (response.error || !response.messages) return;
+      if (response.messages.length < PAGE_SIZE) {
+        hasOlderRef.current = false;
+      }
+
+      // Nothing older is stored, so there is nothing to reuse
+      const { messages: older, newlyDecrypted } = await readServerMessages(response.messages, new Map());
+      mergeServerMessages(older, newlyDecrypted);
+    } catch (error) {
+      console.error('Failed to load older messages:', error);
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
+    }
+  };
+
   const markAsRead = async () => {
     const conversationKey = conversationId || chatKey;
     
+    // The server tells the sender: not before their request is accepted
+    if (!(await messageRequestService.canShareActivity(recipientId))) return;
+    
     if (conversationKey) {
       try {
         await apiService.markMessagesAsRead(conversationKey);
@@ -411,15 +752,116 @@ export default function ChatScreen() {
   };
 
   const sendMessage = async () => {
-    if (!inputText.trim() || sending) return;
+    if (!inputText.trim() || sending || sendBlocked) return;
+    if (editingMessage) {
+      await sendEdit(editingMessage);
+      return;
+    }
 
     const messageText = inputText.trim();
+    const quotedMessage = replyingTo;
     setInputText('');
+    setReplyingTo(null);
     setSending(true);
 
-    // Create temporary message for instant feedback
+    try {
+      const body = encodeMessageBody({
+        type: 'text',
+        text: messageText,
+        ...(disappearingTimer ? { expiresIn: disappearingTimer } : {}),
+        ...(quotedMessage ? { replyTo: quoteMessage(quotedMessage) } : {}),
+      });
+      if (!(await deliverMessage(body, 'text'))) {
+        setInputText(messageText); // Restore text
+        setReplyingTo(quotedMessage);
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Photos only travel encrypted: their key is inside the message body
+  const sendImage = async () => {
+    if (sending || sendBlocked) return;
+
+    if (!hasEncryption || !canEncrypt || !chatKey) {
+      Alert.alert(
+        'Encryption Required',
+        'Photos can be sent once this chat is end-to-end encrypted.'
+      );
+      return;
+    }
+
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission needed', 'Please allow access to your photos');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 1, // Recompressed once, when downscaled for sending
+    });
+    if (result.canceled || !result.assets[0]) return;
+
+    const asset = result.assets[0];
+    setSending(true);
+
+    try {
+      const image = await attachmentService.encryptAndUpload({
+        uri: asset.uri,
+        width: asset.width,
+        height: asset.height,
+        mimeType: asset.mimeType,
+      });
+      const quotedMessage = replyingTo;
+      setReplyingTo(null);
+      await deliverMessage(encodeMessageBody({
+        type: 'image',
+        image,
+        ...(disappearingTimer ? { expiresIn: disappearingTimer } : {}),
+        ...(quotedMessage ? { replyTo: quoteMessage(quotedMessage) } : {}),
+      }), 'image');
+    } catch (error: any) {
+      console.error('Failed to send photo:', error);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Photo Failed', error.message || 'Unable to send photo. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // The timer is a control message: the partner's client applies it too
+  const changeDisappearingTimer = async (seconds: number) => {
+    setTimerPickerVisible(false);
+    if (seconds === disappearingTimer || sending || sendBlocked) return;
+
+    if (!hasEncryption || !canEncrypt || !chatKey) {
+      Alert.alert(
+        'Encryption Required',
+        'Disappearing messages can be set once this chat is end-to-end encrypted.'
+      );
+      return;
+    }
+
+    setSending(true);
+    try {
+      await deliverMessage(encodeMessageBody({ type: 'timer', seconds }), 'control');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  /**
+   * Encrypt a message body and hand it to the outbox, with an optimistic bubble.
+   * The outbox sends it (now or once back online) and reports its status.
+   * Only text may fall back to plaintext, and only if the user agrees.
+   * @returns false if the user cancelled
+   */
+  const deliverMessage = async (messageText: string, messageType: 'text' | 'image' | 'control'): Promise<boolean> => {
+    // Create temporary message for instant feedback; its id is the outbox id
     const tempMessage: Message = {
-      id: `temp-${Date.now()}`,
+      id: outboxService.createId(),
       sender_id: currentUserId!,
       recipient_id: recipientId,
       content: messageText,
@@ -432,19 +874,33 @@ export default function ChatScreen() {
     setMessages(prev => [...prev, tempMessage]);
 
     try {
+      if (!chatKey) {
+        throw new Error('Unable to generate conversation ID');
+      }
+      
       let encryptedContent = messageText;
       let isEncrypted = false;
+      let messageSessionId = sessionId;
+      let messageCipherSuite: CipherSuite | undefined;
+      let frankingCommitment: string | undefined;
       
       // Try to encrypt if we have encryption
-      if (hasEncryption && canEncrypt) {
+      if (canEncrypt && (hasEncryption || await startSessionOnSend())) {
         try {
-          const encryptionKey = await getEncryptionKey();
-          if (encryptionKey) {
-            encryptedContent = await encryptionService.encrypt(messageText, encryptionKey);
-            isEncrypted = true;
+          const encrypted = await sessionManager.encryptMessage(chatKey, recipientId, messageText);
+          if (!encrypted) {
+            throw new Error('Session no longer usable');
           }
+          encryptedContent = encrypted.encryptedContent;
+          messageSessionId = encrypted.sessionId;
+          messageCipherSuite = encrypted.cipherSuite;
+          frankingCommitment = encrypted.frankingCommitment;
+          isEncrypted = true;
         } catch (error) {
           console.warn('Encryption failed:', error);
+          if (messageType !== 'text') {
+            throw error;
+          }
           
           // Ask user if they want to send unencrypted
           const shouldSend = await new Promise<boolean>((resolve) => {
@@ -461,77 +917,354 @@ export default function ChatScreen() {
           if (!shouldSend) {
             // Remove temp message
             setMessages(prev => prev.filter(m => m.id !== tempMessage.id));
-            setSending(false);
-            setInputText(messageText); // Restore text
-            return;
+            return false;
           }
         }
       }
 
-      // Send message
-      const response = await apiService.sendMessage({
-        recipient_id: recipientId,
-        encrypted_content: encryptedContent,
-        session_id: sessionId || await encryptionService.generateSessionId(),
-        key_type: isEncrypted ? 'x25519' : 'none',
-        metadata: {
-          custom_encryption: isEncrypted ? encryptionService.getAlgorithm() : 'none',
-          message_type: 'text',
-          encrypted: isEncrypted.toString()
-        }
-      });
+      if (!isEncrypted && messageType !== 'text') {
+        throw new Error('Only text can be sent unencrypted');
+      }
+
+      // Stored before it is queued: the outbox renames it once the server accepts it
+      const queuedMessage: Message = { ...tempMessage, is_encrypted: isEncrypted };
+      setMessages(prev => prev.map(msg => msg.id === tempMessage.id ? queuedMessage : msg));
+      await messageStoreService.saveMessages(chatKey, [toStoredMessage(queuedMessage)]);
+
+      await outboxService.enqueue({
+        kind: 'message',
+        conversationKey: chatKey,
+        payload: {
+          recipient_id: recipientId,
+          content: encryptedContent,
+          encrypted_content: encryptedContent,
+          is_encrypted: isEncrypted,
+          session_id: messageSessionId || await encryptionService.generateSessionId(),
+          metadata: {
+            custom_encryption: isEncrypted ? cipherSuiteAlgorithm(messageCipherSuite) : 'none',
+            ...(messageCipherSuite ? { cipher_suite: messageCipherSuite } : {}),
+            ...(frankingCommitment ? { franking_commitment: frankingCommitment } : {}),
+            encrypted: isEncrypted.toString()
+          },
+        },
+      }, tempMessage.id);
+      // Writing to someone accepts them: receipts and typing from now on
+      messageRequestService.acceptOnSend(recipientId).catch(() => undefined);
+      return true;
+    } catch (error: any) {
+      console.error('Failed to send message:', error);
+      
+      // Mark message as failed
+      setMessages(prev => prev.map(msg =>
+        msg.id === tempMessage.id
+          ? { ...msg, status: 'failed' }
+          : msg
+      ));
+      
+      // Haptic feedback for error
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      
+      // Show error to user
+      Alert.alert(
+        'Message Failed',
+        'Unable to send message. Please try again.',
+        [{ text: 'OK' }]
+      );
+      return true;
+    }
+  };
+
+  // Failed bubbles: send again if the outbox still has them, or delete
+  const handleFailedMessage = async (message: Message) => {
+    const canRetry = await outboxService.has(message.id);
+
+    const remove = async () => {
+      setMessages(prev => prev.filter(msg => msg.id !== message.id));
+      await outboxService.discard(message.id);
+      if (chatKey) {
+        await messageStoreService.deleteMessages(chatKey, [message.id]);
+      }
+    };
+
+    Alert.alert(
+      'Message Not Sent',
+      canRetry
+        ? 'Send it again? Messages you wrote after it wait until you retry or delete it.'
+        : 'This message could not be sent.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', onPress: remove, style: 'destructive' },
+        ...(canRetry ? [{ text: 'Retry', onPress: () => outboxService.retry(message.id) }] : []),
+      ]
+    );
+  };
+
+  // Only messages the server knows (real ids) can be reacted to, and only encrypted
+  const canReact = (message: Message): boolean =>
+    hasEncryption && canEncrypt && !sendBlocked && !isRequest && !message.deleted &&
+    message.status !== 'sending' && message.status !== 'failed';
+
+  // Replaces our previous reaction on the message; null removes it
+  const sendReaction = async (message: Message, emoji: string | null) => {
+    setActionMessage(null);
+    if (!canReact(message)) return;
+
+    Haptics.selectionAsync();
+    await deliverMessage(encodeMessageBody({
+      type: 'reaction',
+      target: message.id,
+      emoji,
+      ...(disappearingTimer ? { expiresIn: disappearingTimer } : {}),
+    }), 'control');
+  };
+
+  // Quotes point to server ids: our queued messages can't be quoted yet
+  const canReply = (message: Message): boolean =>
+    !sendBlocked && !isRequest && !message.deleted &&
+    message.content !== UNDECRYPTABLE_CONTENT &&
+    message.status !== 'sending' && message.status !== 'failed';
+
+  const startReply = (message: Message) => {
+    setActionMessage(null);
+    if (!canReply(message)) return;
+
+    setReplyingTo(message);
+    inputRef.current?.focus();
+  };
+
+  // Edits and unsends are encrypted control messages: only for our own recent messages
+  const canEdit = (message: Message): boolean =>
+    hasEncryption && canEncrypt && !sendBlocked &&
+    canModifyMessage(message, currentUserId) &&
+    parseMessageBody(message.content).type === 'text';
+
+  const canUnsend = (message: Message): boolean =>
+    hasEncryption && canEncrypt && !sendBlocked &&
+    canModifyMessage(message, currentUserId);
+
+  const startEdit = (message: Message) => {
+    setActionMessage(null);
+    const body = parseMessageBody(message.content);
+    if (!canEdit(message) || body.type !== 'text') return;
+
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setInputText(body.text);
+    inputRef.current?.focus();
+  };
+
+  const cancelEdit = () => {
+    setEditingMessage(null);
+    setInputText('');
+  };
+
+  // The new text replaces the old one on both devices once the server has it
+  const sendEdit = async (message: Message) => {
+    const text = inputText.trim();
+    const body = parseMessageBody(message.content);
+    if (body.type === 'text' && body.text === text) {
+      cancelEdit();
+      return;
+    }
+    if (!canEdit(message)) {
+      Alert.alert('Edit Unavailable', 'Messages can only be edited shortly after sending.');
+      return;
+    }
+
+    setEditingMessage(null);
+    setInputText('');
+    setSending(true);
+    try {
+      if (!(await deliverMessage(encodeMessageBody({ type: 'edit', target: message.id, text }), 'control'))) {
+        setEditingMessage(message);
+        setInputText(text);
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Deleted for everyone: both devices keep only a tombstone
+  const unsendMessage = (message: Message) => {
+    setActionMessage(null);
+    if (!canUnsend(message)) return;
+
+    Alert.alert(
+      'Unsend Message',
+      `This message will be deleted for you and ${recipientDescriptor}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Unsend',
+          style: 'destructive',
+          onPress: async () => {
+            if (editingMessage?.id === message.id) {
+              cancelEdit();
+            }
+            await deliverMessage(encodeMessageBody({ type: 'unsend', target: message.id }), 'control');
+          },
+        },
+      ]
+    );
+  };
+
+  // Earlier versions are only on this device
+  const showEditHistory = (message: Message) => {
+    const versions = (message.edit_history || [])
+      .map(entry => `${formatTime(entry.timestamp)}  ${entry.text}`)
+      .join('\n\n');
+    Alert.alert('Edit History', versions || 'No earlier versions on this device.');
+  };
+
+  // Scroll to a quoted message and flash it
+  const jumpToMessage = (messageId: string) => {
+    const index = listIndex.get(messageId);
+    if (index === undefined) return;
+
+    flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    setHighlightedId(messageId);
+    if (highlightTimeoutRef.current) {
+      clearTimeout(highlightTimeoutRef.current);
+    }
+    highlightTimeoutRef.current = setTimeout(() => setHighlightedId(null), 1500);
+  };
+
+  const quoteAuthor = (senderId: string) =>
+    senderId === currentUserId ? 'You' : recipientDescriptor;
+
+  const messageActions = (message: Message): MessageAction[] => {
+    const actions: MessageAction[] = [];
+    if (canReply(message)) {
+      actions.push({
+        label: 'Reply',
+        icon: 'arrow-undo-outline',
+        onPress: () => startReply(message),
+      });
+    }
+    if (canEdit(message)) {
+      actions.push({
+        label: 'Edit',
+        icon: 'create-outline',
+        onPress: () => startEdit(message),
+      });
+    }
+    if (canUnsend(message)) {
+      actions.push({
+        label: 'Unsend',
+        icon: 'trash-outline',
+        destructive: true,
+        onPress: () => unsendMessage(message),
+      });
+    }
+    if (message.franking && frankedBody(message) !== null) {
+      actions.push({
+        label: 'Report',
+        icon: 'flag-outline',
+        destructive: true,
+        onPress: () => {
+          setActionMessage(null);
+          reportMessage(message);
+        },
+      });
+    }
+    return actions;
+  };
+
+  // Reveal one franked message to moderators: its body, franking key and the
+  // server tag prove what was sent, without opening anything else in the chat
+  const reportMessage = (message: Message) => {
+    const franking = message.franking;
+    // Edited messages are reported as first sent: that is what the commitment covers
+    const body = frankedBody(message);
+    if (!franking || body === null) return;
+
+    const submit = async (reason: string) => {
+      const response = await apiService.reportUser(recipientId, reason, [{
+        message_id: message.id,
+        sender_id: message.sender_id,
+        recipient_id: message.recipient_id,
+        timestamp: message.timestamp,
+        body,
+        franking_key: franking.key,
+        commitment: franking.commitment,
+        franking_tag: franking.tag,
+      }]);
+
+      if (response?.error) {
+        Alert.alert('Report Failed', response.detail || 'Unable to send the report. Please try again.');
+        return;
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert('Report Sent', 'Thanks. Our moderators will review this message.');
+    };
+
+    Alert.alert(
+      'Report Message',
+      `This message will be revealed to moderators with proof that ${recipientDescriptor} sent it. Nothing else in this chat is shared.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Harassment', onPress: () => submit('harassment'), style: 'destructive' },
+        { text: 'Spam', onPress: () => submit('spam'), style: 'destructive' },
+      ]
+    );
+  };
+
+  // ==========================================================================
+  // MESSAGE REQUEST
+  // ==========================================================================
+
+  // Now they may know we are here: key exchange, read state and receipts
+  const acceptRequest = async () => {
+    await messageRequestService.accept(recipientId);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    await setupEncryption();
+    markAsRead();
+    sendReadReceipts(messages);
+  };
 
-      if (!response.error && response.message) {
-        // Update temp message with real data
-        setMessages(prev => prev.map(msg =>
-          msg.id === tempMessage.id
-            ? {
-                ...response.message,
-                content: messageText,
-                encrypted_content: encryptedContent,
-                status: 'sent',
-                is_encrypted: isEncrypted
-              }
-            : msg
-        ));
-        
-        // Haptic feedback
-        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-        
-        // Update Redux store
-        if (chatKey) {
-          dispatch(addMessage({
-            ...response.message,
-            content: messageText,
-            sender_id: currentUserId,
-            recipient_id: recipientId,
-          }));
-        }
-      } else {
-        throw new Error(response.error || 'Failed to send message');
+  const ignoreRequest = async () => {
+    await messageRequestService.ignore(recipientId);
+    navigation.goBack();
+  };
+
+  const blockRequest = () => {
+    Alert.alert(
+      `Block ${recipientDescriptor}?`,
+      'Their messages will be hidden and they won\'t know you saw them.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Block',
+          style: 'destructive',
+          onPress: async () => {
+            await messageRequestService.block(recipientId);
+            navigation.goBack();
+          },
+        },
+      ]
+    );
+  };
+
+  const reportRequest = () => {
+    const submit = async (reason: string) => {
+      if (!(await messageRequestService.report(recipientId, reason))) {
+        Alert.alert('Report Failed', 'Unable to send the report. Please try again.');
+        return;
       }
-    } catch (error: any) {
-      console.error('Failed to send message:', error);
-      
-      // Mark message as failed
-      setMessages(prev => prev.map(msg =>
-        msg.id === tempMessage.id
-          ? { ...msg, status: 'failed' }
-          : msg
-      ));
-      
-      // Haptic feedback for error
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-      
-      // Show error to user
-      Alert.alert(
-        'Message Failed',
-        'Unable to send message. Please try again.',
-        [{ text: 'OK' }]
-      );
-    } finally {
-      setSending(false);
-    }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert('Report Sent', `Thanks. ${recipientDescriptor} is blocked and our moderators will review the report.`);
+      navigation.goBack();
+    };
+
+    Alert.alert(
+      'Report and Block',
+      `The messages ${recipientDescriptor} sent you are revealed to moderators with proof that they sent them.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Harassment', onPress: () => submit('harassment'), style: 'destructive' },
+        { text: 'Spam', onPress: () => submit('spam'), style: 'destructive' },
+      ]
+    );
   };
 
   const handleTyping = useCallback(() => {
@@ -559,66 +1292,197 @@ export default function ChatScreen() {
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  // Quoted header of a reply. A quoted message on this device is shown as we
+  // have it, since the excerpt comes from the sender and could say anything;
+  // once unsent nothing of it is shown. Otherwise the excerpt, marked unverified
+  const renderQuote = (quote: MessageQuote) => {
+    const local = messages.find(msg => msg.id === quote.id);
+
+    if (local?.deleted) {
+      return (
+        <View style={[styles.quote, styles.quoteUnverified]}>
+          <Text style={styles.quoteUnavailable}>Original message deleted</Text>
+        </View>
+      );
+    }
+
+    const verified = !!local && local.content !== UNDECRYPTABLE_CONTENT;
+    const author = verified ? local!.sender_id : quote.sender;
+    const excerpt = verified ? quoteMessage(local!).excerpt : quote.excerpt;
+
+    return (
+      <TouchableOpacity
+        style={[styles.quote, !verified && styles.quoteUnverified]}
+        onPress={() => jumpToMessage(quote.id)}
+        disabled={!verified || !listIndex.has(quote.id)}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.quoteAuthor} numberOfLines={1}>{quoteAuthor(author)}</Text>
+        <Text style={[styles.quoteText, !verified && styles.quoteTextUnverified]} numberOfLines={2}>
+          {excerpt}
+        </Text>
+        {!verified && (
+          <Text style={styles.quoteUnavailable}>Original not on this device · unverified</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
   const renderMessage = ({ item }: { item: Message }) => {
+    if (item.system === 'key_change') {
+      return (
+        <TouchableOpacity
+          style={styles.systemNotice}
+          onPress={openSafetyNumber}
+          activeOpacity={0.8}
+        >
+          <Ionicons name="key-outline" size={14} color={theme.colors.warning} />
+          <Text style={styles.systemNoticeText}>
+            {item.content}. Tap to verify.
+          </Text>
+        </TouchableOpacity>
+      );
+    }
+    
     const isOwnMessage = item.sender_id === currentUserId;
+    const body = parseMessageBody(item.content);
+    const chips = reactions.get(item.id);
+    const text = body.type === 'text' ? body.text : item.content;
+    const quote = body.type === 'text' || body.type === 'image' ? body.replyTo : undefined;
     
-    return (
-      <View style={[
-        styles.messageContainer,
-        isOwnMessage ? styles.ownMessageContainer : styles.otherMessageContainer
-      ]}>
+    if (body.type === 'timer') {
+      const who = isOwnMessage ? 'You' : recipientDescriptor;
+      return (
+        <View style={styles.systemNotice}>
+          <Ionicons name="timer-outline" size={14} color={theme.colors.textSecondary} />
+          <Text style={styles.systemNoticeText}>
+            {body.seconds
+              ? `${who} set disappearing messages to ${formatDisappearingTimer(body.seconds)}`
+              : `${who} turned off disappearing messages`}
+          </Text>
+        </View>
+      );
+    }
+    
+    if (item.deleted) {
+      return (
         <View style={[
-          styles.messageBubble,
-          isOwnMessage ? styles.ownMessageBubble : styles.otherMessageBubble,
-          item.status === 'failed' && styles.failedMessage
+          styles.messageContainer,
+          isOwnMessage ? styles.ownMessageContainer : styles.otherMessageContainer
         ]}>
-          {isOwnMessage ? (
-            <LinearGradient
-              colors={GRADIENTS.primary.colors}
-              style={styles.messageBubbleGradient}
-              start={{ x: 0, y: 0 }}
-              end={{ x: 1, y: 1 }}
-            >
-              <Text style={styles.messageText}>{item.content}</Text>
-            </LinearGradient>
-          ) : (
-            <View style={styles.otherMessageContent}>
-              <Text style={styles.otherMessageText}>{item.content}</Text>
-            </View>
-          )}
+          <View style={styles.tombstone}>
+            <Ionicons name="ban-outline" size={14} color={theme.colors.textTertiary} />
+            <Text style={styles.tombstoneText}>
+              {isOwnMessage ? 'You unsent a message' : 'This message was unsent'}
+            </Text>
+          </View>
+          <View style={styles.messageFooter}>
+            <Text style={styles.messageTime}>{formatTime(item.timestamp)}</Text>
+          </View>
         </View>
+      );
+    }
+    
+    return (
+      <SwipeToReply enabled={canReply(item)} onReply={() => startReply(item)}>
+        <View style={[
+          styles.messageContainer,
+          isOwnMessage ? styles.ownMessageContainer : styles.otherMessageContainer
+        ]}>
+          <TouchableOpacity
+            style={[
+              styles.messageBubble,
+              isOwnMessage ? styles.ownMessageBubble : styles.otherMessageBubble,
+              item.status === 'failed' && styles.failedMessage,
+              item.id === highlightedId && styles.highlightedMessage
+            ]}
+            onPress={item.status === 'failed' ? () => handleFailedMessage(item) : undefined}
+            onLongPress={() => setActionMessage(item)}
+            delayLongPress={400}
+            activeOpacity={0.8}
+          >
+            {body.type === 'image' ? (
+              <View style={styles.imageBubble}>
+                {quote && renderQuote(quote)}
+                <EncryptedImage attachment={body.image} />
+              </View>
+            ) : isOwnMessage ? (
+              <LinearGradient
+                colors={GRADIENTS.primary.colors}
+                style={styles.messageBubbleGradient}
+                start={{ x: 0, y: 0 }}
+                end={{ x: 1, y: 1 }}
+              >
+                {quote && renderQuote(quote)}
+                <Text style={styles.messageText}>{text}</Text>
+              </LinearGradient>
+            ) : (
+              <View style={styles.otherMessageContent}>
+                {quote && renderQuote(quote)}
+                <Text style={styles.otherMessageText}>{text}</Text>
+              </View>
+            )}
+          </TouchableOpacity>
         
-        <View style={styles.messageFooter}>
-          <Text style={styles.messageTime}>{formatTime(item.timestamp)}</Text>
-          {isOwnMessage && (
-            <View style={styles.messageStatus}>
-              {item.status === 'sending' && (
-                <Ionicons name="time-outline" size={12} color={theme.colors.textTertiary} />
-              )}
-              {item.status === 'sent' && (
-                <Ionicons name="checkmark" size={12} color={theme.colors.textTertiary} />
-              )}
-              {item.status === 'delivered' && (
-                <Ionicons name="checkmark-done" size={12} color={theme.colors.textTertiary} />
-              )}
-              {item.status === 'read' && (
-                <Ionicons name="checkmark-done" size={12} color={theme.colors.primary} />
-              )}
-              {item.status === 'failed' && (
-                <Ionicons name="alert-circle" size={12} color={theme.colors.error} />
-              )}
-              {item.is_encrypted && (
-                <Ionicons name="lock-closed" size={10} color={theme.colors.textTertiary} style={styles.messageEncrypted} />
-              )}
+          {chips && (
+            <View style={styles.reactionChips}>
+              {chips.map(chip => (
+                <TouchableOpacity
+                  key={chip.emoji}
+                  style={[styles.reactionChip, chip.mine && styles.reactionChipMine]}
+                  onPress={() => sendReaction(item, chip.mine ? null : chip.emoji)}
+                  disabled={!canReact(item)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.reactionChipText}>
+                    {chip.emoji}{chip.count > 1 ? ` ${chip.count}` : ''}
+                  </Text>
+                </TouchableOpacity>
+              ))}
             </View>
           )}
+        
+          <View style={styles.messageFooter}>
+            <Text style={styles.messageTime}>{formatTime(item.timestamp)}</Text>
+            {!!item.edited_at && (
+              <TouchableOpacity
+                onPress={() => showEditHistory(item)}
+                activeOpacity={0.7}
+                accessibilityLabel="Show edit history"
+              >
+                <Text style={styles.editedLabel}>edited</Text>
+              </TouchableOpacity>
+            )}
+            {isOwnMessage && (
+              <View style={styles.messageStatus}>
+                {item.status === 'sending' && (
+                  <Ionicons name="time-outline" size={12} color={theme.colors.textTertiary} />
+                )}
+                {item.status === 'sent' && (
+                  <Ionicons name="checkmark" size={12} color={theme.colors.textTertiary} />
+                )}
+                {item.status === 'delivered' && (
+                  <Ionicons name="checkmark-done" size={12} color={theme.colors.textTertiary} />
+                )}
+                {item.status === 'read' && (
+                  <Ionicons name="checkmark-done" size={12} color={theme.colors.primary} />
+                )}
+                {item.status === 'failed' && (
+                  <Ionicons name="alert-circle" size={12} color={theme.colors.error} />
+                )}
+                {item.is_encrypted && (
+                  <Ionicons name="lock-closed" size={10} color={theme.colors.textTertiary} style={styles.messageEncrypted} />
+                )}
+              </View>
+            )}
+          </View>
         </View>
-      </View>
+      </SwipeToReply>
     );
   };
 
   const ListHeaderComponent = () => {
-    if (loading) {
+    if (loading || loadingOlder) {
       return (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="small" color={theme.colors.primary} />
@@ -668,13 +1532,24 @@ export default function ChatScreen() {
             <View style={styles.onlineIndicator} />
           )}
           <EncryptionStatus
-            sessionId={sessionId || ''}
-            recipientId={recipientId}
-            publicKey={publicKeys?.mine}
-            theirPublicKey={publicKeys?.theirs}
+            conversationKey={chatKey || ''}
             isVerified={isVerified}
-            onVerify={verifyKeys}
+            onVerify={openSafetyNumber}
           />
+          <TouchableOpacity
+            style={styles.timerButton}
+            onPress={() => setTimerPickerVisible(true)}
+            activeOpacity={0.8}
+          >
+            <Ionicons
+              name="timer-outline"
+              size={14}
+              color={disappearingTimer ? theme.colors.primary : theme.colors.textTertiary}
+            />
+            {disappearingTimer > 0 && (
+              <Text style={styles.timerLabel}>{formatDisappearingTimer(disappearingTimer, true)}</Text>
+            )}
+          </TouchableOpacity>
         </View>
         <Text style={styles.headerStatus}>
           {isTyping ? 'typing...' : (recipientOnline ? 'online' : 'offline')}
@@ -730,13 +1605,15 @@ export default function ChatScreen() {
           >
             <FlatList
               ref={flatListRef}
-              data={messages}
+              data={listData}
               renderItem={renderMessage}
               keyExtractor={item => item.id}
               inverted
               contentContainerStyle={styles.messagesList}
               showsVerticalScrollIndicator={false}
               ListFooterComponent={ListHeaderComponent}
+              onEndReached={loadOlderMessages}
+              onEndReachedThreshold={0.3}
               removeClippedSubviews={true}
               initialNumToRender={20}
               maxToRenderPerBatch={10}
@@ -744,65 +1621,187 @@ export default function ChatScreen() {
               maintainVisibleContentPosition={{
                 minIndexForVisible: 0,
               }}
+              onScrollToIndexFailed={info => {
+                // Not measured yet: get close, then the item renders
+                flatListRef.current?.scrollToOffset({
+                  offset: info.averageItemLength * info.index,
+                  animated: true,
+                });
+              }}
             />
           </Animated.View>
 
-          <Animated.View
-            style={[
-              styles.inputContainer,
-              {
-                opacity: fadeAnim,
-                transform: [{ translateY: slideAnim }],
-              }
-            ]}
-          >
-            <View style={styles.inputWrapper}>
-              <TextInput
-                ref={inputRef}
-                style={styles.textInput}
-                value={inputText}
-                onChangeText={setInputText}
-                placeholder={hasEncryption ? "Type a secure message..." : "Type a message..."}
-                placeholderTextColor={theme.colors.textTertiary}
-                multiline
-                maxLength={1000}
-                onFocus={handleTyping}
-                editable={!sending}
-              />
-              
-              <TouchableOpacity
-                style={[
-                  styles.sendButton,
-                  (!inputText.trim() || sending) && styles.sendButtonDisabled
-                ]}
-                onPress={sendMessage}
-                disabled={!inputText.trim() || sending}
-                activeOpacity={0.8}
-              >
-                <LinearGradient
-                  colors={inputText.trim() && !sending
-                    ? GRADIENTS.primary.colors
-                    : [theme.colors.blackSurface, theme.colors.blackSurface]
-                  }
-                  style={styles.sendButtonGradient}
-                  start={{ x: 0, y: 0 }}
-                  end={{ x: 1, y: 1 }}
+          {isRequest && (
+            <View style={styles.requestBar}>
+              <Text style={styles.requestTitle}>{recipientDescriptor} wants to message you</Text>
+              <Text style={styles.requestText}>
+                They won't know you've seen their messages until you accept.
+              </Text>
+              <View style={styles.requestActions}>
+                <TouchableOpacity style={styles.requestAction} onPress={reportRequest} activeOpacity={0.8}>
+                  <Text style={styles.requestActionDestructive}>Report</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.requestAction} onPress={blockRequest} activeOpacity={0.8}>
+                  <Text style={styles.requestActionDestructive}>Block</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.requestAction} onPress={ignoreRequest} activeOpacity={0.8}>
+                  <Text style={styles.requestActionText}>Ignore</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.requestAction, styles.requestAccept]}
+                  onPress={acceptRequest}
+                  activeOpacity={0.8}
                 >
-                  {sending ? (
-                    <ActivityIndicator size="small" color={theme.colors.textPrimary} />
-                  ) : (
-                    <Ionicons
-                      name="send"
-                      size={20}
-                      color={theme.colors.textPrimary}
-                    />
-                  )}
-                </LinearGradient>
-              </TouchableOpacity>
+                  <Text style={styles.requestAcceptText}>Accept</Text>
+                </TouchableOpacity>
+              </View>
             </View>
-          </Animated.View>
+          )}
+
+          {sendBlocked && !isRequest && (
+            <View style={styles.keyChangeBanner}>
+              <Text style={styles.keyChangeBannerText}>
+                {recipientDescriptor}'s security code changed. Sending is paused until you review it.
+              </Text>
+              <View style={styles.keyChangeActions}>
+                <TouchableOpacity onPress={openSafetyNumber} activeOpacity={0.8}>
+                  <Text style={styles.keyChangeAction}>Verify</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={acknowledgeKeyChange} activeOpacity={0.8}>
+                  <Text style={styles.keyChangeAction}>Accept</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {!isRequest && (
+            <Animated.View
+              style={[
+                styles.inputContainer,
+                {
+                  opacity: fadeAnim,
+                  transform: [{ translateY: slideAnim }],
+                }
+              ]}
+            >
+              {replyingTo && (
+                <View style={styles.replyBar}>
+                  <Ionicons name="arrow-undo" size={16} color={theme.colors.primary} />
+                  <View style={styles.replyBarContent}>
+                    <Text style={styles.quoteAuthor} numberOfLines={1}>
+                      Replying to {quoteAuthor(replyingTo.sender_id)}
+                    </Text>
+                    <Text style={styles.quoteText} numberOfLines={1}>
+                      {quoteMessage(replyingTo).excerpt}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    onPress={() => setReplyingTo(null)}
+                    activeOpacity={0.7}
+                    accessibilityLabel="Cancel reply"
+                  >
+                    <Ionicons name="close" size={18} color={theme.colors.textSecondary} />
+                  </TouchableOpacity>
+                </View>
+              )}
+              {editingMessage && (
+                <View style={styles.replyBar}>
+                  <Ionicons name="create-outline" size={16} color={theme.colors.primary} />
+                  <View style={styles.replyBarContent}>
+                    <Text style={styles.quoteAuthor} numberOfLines={1}>
+                      Editing message
+                    </Text>
+                    <Text style={styles.quoteText} numberOfLines={1}>
+                      {quoteMessage(editingMessage).excerpt}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    onPress={cancelEdit}
+                    activeOpacity={0.7}
+                    accessibilityLabel="Cancel edit"
+                  >
+                    <Ionicons name="close" size={18} color={theme.colors.textSecondary} />
+                  </TouchableOpacity>
+                </View>
+              )}
+              <View style={styles.inputWrapper}>
+                <TouchableOpacity
+                  style={styles.attachButton}
+                  onPress={sendImage}
+                  disabled={sending || sendBlocked}
+                  activeOpacity={0.8}
+                >
+                  <Ionicons
+                    name="image-outline"
+                    size={22}
+                    color={hasEncryption ? theme.colors.textSecondary : theme.colors.textTertiary}
+                  />
+                </TouchableOpacity>
+                <TextInput
+                  ref={inputRef}
+                  style={styles.textInput}
+                  value={inputText}
+                  onChangeText={setInputText}
+                  placeholder={hasEncryption ? "Type a secure message..." : "Type a message..."}
+                  placeholderTextColor={theme.colors.textTertiary}
+                  multiline
+                  maxLength={1000}
+                  onFocus={handleTyping}
+                  editable={!sending && !sendBlocked}
+                />
+              
+                <TouchableOpacity
+                  style={[
+                    styles.sendButton,
+                    (!inputText.trim() || sending || sendBlocked) && styles.sendButtonDisabled
+                  ]}
+                  onPress={sendMessage}
+                  disabled={!inputText.trim() || sending || sendBlocked}
+                  activeOpacity={0.8}
+                >
+                  <LinearGradient
+                    colors={inputText.trim() && !sending
+                      ? GRADIENTS.primary.colors
+                      : [theme.colors.blackSurface, theme.colors.blackSurface]
+                    }
+                    style={styles.sendButtonGradient}
+                    start={{ x: 0, y: 0 }}
+                    end={{ x: 1, y: 1 }}
+                  >
+                    {sending ? (
+                      <ActivityIndicator size="small" color={theme.colors.textPrimary} />
+                    ) : (
+                      <Ionicons
+                        name={editingMessage ? 'checkmark' : 'send'}
+                        size={20}
+                        color={theme.colors.textPrimary}
+                      />
+                    )}
+                  </LinearGradient>
+                </TouchableOpacity>
+              </View>
+            </Animated.View>
+          )}
         </KeyboardAvoidingView>
       </SafeAreaView>
+
+      <DisappearingTimerPicker
+        visible={timerPickerVisible}
+        current={disappearingTimer}
+        onSelect={changeDisappearingTimer}
+        onClose={() => setTimerPickerVisible(false)}
+      />
+
+      <MessageActionsSheet
+        visible={!!actionMessage}
+        canReact={!!actionMessage && canReact(actionMessage)}
+        currentReaction={actionMessage
+          ? reactions.get(actionMessage.id)?.find(chip => chip.mine)?.emoji
+          : undefined}
+        actions={actionMessage ? messageActions(actionMessage) : []}
+        onReact={emoji => actionMessage && sendReaction(actionMessage, emoji)}
+        onClose={() => setActionMessage(null)}
+      />
     </View>
   );
 }
@@ -878,6 +1877,109 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   
+  timerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    marginLeft: theme.spacing.xs,
+    padding: theme.spacing.xxs,
+  },
+  timerLabel: {
+    fontSize: theme.typography.fontSize.micro,
+    color: theme.colors.primary,
+  },
+  
+  // Key change
+  systemNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    gap: theme.spacing.xxs,
+    marginBottom: theme.spacing.md,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.blackElevated,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  systemNoticeText: {
+    fontSize: theme.typography.fontSize.caption,
+    color: theme.colors.textSecondary,
+  },
+  keyChangeBanner: {
+    backgroundColor: theme.colors.overlay.dark,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.sm,
+    gap: theme.spacing.xs,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+  },
+  keyChangeBannerText: {
+    fontSize: theme.typography.fontSize.caption,
+    color: theme.colors.warning,
+  },
+  keyChangeActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: theme.spacing.lg,
+  },
+  keyChangeAction: {
+    fontSize: theme.typography.fontSize.caption,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.primary,
+  },
+  
+  // Message request
+  requestBar: {
+    backgroundColor: theme.colors.blackElevated,
+    paddingHorizontal: theme.spacing.lg,
+    paddingTop: theme.spacing.md,
+    paddingBottom: theme.spacing.lg,
+    gap: theme.spacing.xs,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+  },
+  requestTitle: {
+    fontSize: theme.typography.fontSize.body,
+    fontWeight: '600',
+    color: theme.colors.textPrimary,
+  },
+  requestText: {
+    fontSize: theme.typography.fontSize.caption,
+    color: theme.colors.textSecondary,
+  },
+  requestActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.sm,
+  },
+  requestAction: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.lg,
+  },
+  requestActionText: {
+    fontSize: theme.typography.fontSize.caption,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+  },
+  requestActionDestructive: {
+    fontSize: theme.typography.fontSize.caption,
+    fontWeight: '600',
+    color: theme.colors.error,
+  },
+  requestAccept: {
+    backgroundColor: theme.colors.primary,
+  },
+  requestAcceptText: {
+    fontSize: theme.typography.fontSize.caption,
+    fontWeight: '600',
+    color: theme.colors.black,
+  },
+  
   // Messages
   keyboardAvoid: {
     flex: 1,
@@ -935,6 +2037,54 @@ const styles = StyleSheet.create({
   failedMessage: {
     opacity: 0.7,
   },
+  highlightedMessage: {
+    borderWidth: 2,
+    borderColor: theme.colors.primaryLight,
+  },
+  quote: {
+    borderLeftWidth: 3,
+    borderLeftColor: theme.colors.primaryLight,
+    backgroundColor: theme.colors.overlay.dark,
+    borderRadius: theme.borderRadius.xs,
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: theme.spacing.xs,
+    marginBottom: theme.spacing.xs,
+  },
+  quoteAuthor: {
+    fontSize: theme.typography.fontSize.caption,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.primaryLight,
+  },
+  quoteText: {
+    fontSize: theme.typography.fontSize.caption,
+    color: theme.colors.textSecondary,
+  },
+  quoteUnverified: {
+    borderLeftColor: theme.colors.textTertiary,
+    borderStyle: 'dashed',
+  },
+  quoteTextUnverified: {
+    fontStyle: 'italic',
+  },
+  quoteUnavailable: {
+    fontSize: theme.typography.fontSize.micro,
+    fontStyle: 'italic',
+    color: theme.colors.textTertiary,
+    marginTop: theme.spacing.xxs,
+  },
+  replyBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    paddingBottom: theme.spacing.sm,
+  },
+  replyBarContent: {
+    flex: 1,
+    borderLeftWidth: 3,
+    borderLeftColor: theme.colors.primary,
+    paddingLeft: theme.spacing.sm,
+  },
   messageBubbleGradient: {
     paddingHorizontal: theme.spacing.lg,
     paddingVertical: theme.spacing.md,
@@ -956,6 +2106,33 @@ const styles = StyleSheet.create({
     color: theme.colors.textPrimary,
     lineHeight: theme.typography.lineHeight.relaxed * theme.typography.fontSize.body,
   },
+  imageBubble: {
+    backgroundColor: theme.colors.blackElevated,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  reactionChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xxs,
+    marginTop: -theme.spacing.xs,
+    paddingHorizontal: theme.spacing.xs,
+  },
+  reactionChip: {
+    paddingHorizontal: theme.spacing.xs,
+    paddingVertical: theme.spacing.xxs,
+    borderRadius: theme.borderRadius.round,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.blackElevated,
+  },
+  reactionChipMine: {
+    borderColor: theme.colors.primary,
+  },
+  reactionChipText: {
+    fontSize: theme.typography.fontSize.caption,
+    color: theme.colors.textPrimary,
+  },
   messageFooter: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -967,6 +2144,26 @@ const styles = StyleSheet.create({
     fontSize: theme.typography.fontSize.micro,
     color: theme.colors.textTertiary,
   },
+  editedLabel: {
+    fontSize: theme.typography.fontSize.micro,
+    fontStyle: 'italic',
+    color: theme.colors.textTertiary,
+  },
+  tombstone: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  tombstoneText: {
+    fontSize: theme.typography.fontSize.caption,
+    fontStyle: 'italic',
+    color: theme.colors.textTertiary,
+  },
   messageStatus: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1003,6 +2200,12 @@ const styles = StyleSheet.create({
     fontSize: theme.typography.fontSize.body,
     color: theme.colors.textPrimary,
   },
+  attachButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   sendButton: {
     borderRadius: 20,
     overflow: 'hidden',
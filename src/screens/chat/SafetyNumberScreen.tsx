@@ -0,0 +1,349 @@
+// src/screens/chat/SafetyNumberScreen.tsx
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import { CameraView, useCameraPermissions, BarcodeScanningResult } from 'expo-camera';
+import * as Haptics from 'expo-haptics';
+import { useRoute, useNavigation, RouteProp } from '@react-navigation/native';
+import { theme, GRADIENTS } from '@/config/theme';
+import { RootStackParamList } from '@/types/navigation';
+import { useAppSelector } from '@/store';
+import encryptionService from '@/services/encryptionService';
+import { useEncryption, useKeyVerification } from '@/hooks/useEncryption';
+import SafetyNumberQR from '@/components/chat/SafetyNumberQR';
+
+type SafetyNumberRouteProp = RouteProp<RootStackParamList, 'SafetyNumber'>;
+
+/**
+ * Opt-in key verification
+ * - Numeric safety number + QR derived from both long-term identity keys
+ * - Scan the partner's code, or compare the digits and confirm
+ * - Verified state is stored per conversation
+ */
+export default function SafetyNumberScreen() {
+  const route = useRoute<SafetyNumberRouteProp>();
+  const navigation = useNavigation();
+  const { conversationKey, recipientId, recipientDescriptor } = route.params;
+
+  const currentUserId = useAppSelector(state => state.auth.user?.user_id);
+  const { identityKeys, hasEncryption } = useEncryption(conversationKey);
+  const { isVerified, verifyKeys, unverifyKeys } = useKeyVerification(conversationKey, recipientId);
+
+  const [scanning, setScanning] = useState(false);
+  const [permission, requestPermission] = useCameraPermissions();
+  const scanHandledRef = useRef(false);
+
+  const safetyNumber = useMemo(() => {
+    // Per-exchange keys change with every exchange: only identity keys give a stable number
+    if (!currentUserId || !identityKeys) return null;
+    return encryptionService.generateSafetyNumber(
+      currentUserId,
+      identityKeys.mine,
+      recipientId,
+      identityKeys.theirs
+    );
+  }, [currentUserId, recipientId, identityKeys]);
+
+  // 12 groups of 5 digits, 4 per row
+  const digitRows = useMemo(() => {
+    const groups = safetyNumber?.match(/.{5}/g) || [];
+    return [groups.slice(0, 4), groups.slice(4, 8), groups.slice(8, 12)];
+  }, [safetyNumber]);
+
+  const startScan = async () => {
+    if (!permission?.granted) {
+      const result = await requestPermission();
+      if (!result.granted) {
+        Alert.alert('Camera Access', 'Allow camera access to scan the safety code.');
+        return;
+      }
+    }
+    scanHandledRef.current = false;
+    setScanning(true);
+  };
+
+  const handleScan = async ({ data }: BarcodeScanningResult) => {
+    // The camera keeps firing while the code is in view
+    if (scanHandledRef.current || !safetyNumber) return;
+    scanHandledRef.current = true;
+    setScanning(false);
+
+    if (encryptionService.matchesSafetyNumberQr(data, safetyNumber)) {
+      await verifyKeys();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert('Verified', `Your chat with ${recipientDescriptor} is verified.`);
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert(
+        'Codes Don\'t Match',
+        'This code does not match your conversation. Make sure you are scanning the right person\'s screen.'
+      );
+    }
+  };
+
+  const confirmManualMatch = () => {
+    Alert.alert(
+      'Mark as Verified',
+      `Only do this if the numbers on ${recipientDescriptor}'s screen are exactly the same.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'They Match',
+          onPress: async () => {
+            await verifyKeys();
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          },
+        },
+      ]
+    );
+  };
+
+  const clearVerification = async () => {
+    await unverifyKeys();
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={GRADIENTS.dark.colors}
+        style={StyleSheet.absoluteFillObject}
+      />
+
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+            activeOpacity={0.8}
+          >
+            <Ionicons name="arrow-back" size={24} color={theme.colors.textPrimary} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Verify Safety Number</Text>
+        </View>
+
+        {!safetyNumber ? (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="lock-open-outline" size={48} color={theme.colors.textTertiary} />
+            {hasEncryption ? (
+              <>
+                <Text style={styles.emptyText}>Can't verify this chat yet</Text>
+                <Text style={styles.emptySubtext}>
+                  {recipientDescriptor}'s app needs an update before you can compare safety numbers.
+                </Text>
+              </>
+            ) : (
+              <>
+                <Text style={styles.emptyText}>No encrypted session yet</Text>
+                <Text style={styles.emptySubtext}>
+                  Send a message to {recipientDescriptor} first, then come back to verify.
+                </Text>
+              </>
+            )}
+          </View>
+        ) : (
+          <ScrollView contentContainerStyle={styles.content}>
+            <View style={styles.codeContainer}>
+              {scanning ? (
+                <View style={styles.scanner}>
+                  <CameraView
+                    style={StyleSheet.absoluteFillObject}
+                    facing="back"
+                    barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+                    onBarcodeScanned={handleScan}
+                  />
+                </View>
+              ) : (
+                <SafetyNumberQR value={encryptionService.getSafetyNumberQrPayload(safetyNumber)} />
+              )}
+            </View>
+
+            <View style={styles.digits}>
+              {digitRows.map((row, index) => (
+                <View key={index} style={styles.digitRow}>
+                  {row.map((group, groupIndex) => (
+                    <Text key={groupIndex} style={styles.digitGroup}>{group}</Text>
+                  ))}
+                </View>
+              ))}
+            </View>
+
+            <Text style={styles.explanation}>
+              To verify end-to-end encryption with {recipientDescriptor}, scan the code on their
+              phone or compare the numbers above with theirs.
+            </Text>
+
+            {isVerified && (
+              <View style={styles.verifiedBadge}>
+                <Ionicons name="shield-checkmark" size={16} color={theme.colors.success} />
+                <Text style={styles.verifiedText}>Verified</Text>
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={scanning ? () => setScanning(false) : startScan}
+              activeOpacity={0.8}
+            >
+              <Ionicons
+                name={scanning ? 'close' : 'scan'}
+                size={18}
+                color={theme.colors.textPrimary}
+              />
+              <Text style={styles.primaryButtonText}>
+                {scanning ? 'Cancel Scan' : 'Scan Code'}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={isVerified ? clearVerification : confirmManualMatch}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.secondaryButtonText}>
+                {isVerified ? 'Clear Verification' : 'Mark as Verified'}
+              </Text>
+            </TouchableOpacity>
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.black,
+  },
+  safeArea: {
+    flex: 1,
+  },
+
+  // Header
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  backButton: {
+    padding: theme.spacing.sm,
+    marginRight: theme.spacing.sm,
+  },
+  headerTitle: {
+    fontSize: theme.typography.fontSize.subtitle,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.textPrimary,
+    letterSpacing: theme.typography.letterSpacing.tight,
+  },
+
+  // Content
+  content: {
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.xl,
+    paddingVertical: theme.spacing.xxl,
+    gap: theme.spacing.xl,
+  },
+  codeContainer: {
+    width: 220,
+    height: 220,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scanner: {
+    width: 220,
+    height: 220,
+    borderRadius: theme.borderRadius.lg,
+    overflow: 'hidden',
+  },
+  digits: {
+    gap: theme.spacing.xs,
+  },
+  digitRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: theme.spacing.md,
+  },
+  digitGroup: {
+    fontSize: theme.typography.fontSize.subtitle,
+    color: theme.colors.textPrimary,
+    fontVariant: ['tabular-nums'],
+    letterSpacing: 1,
+  },
+  explanation: {
+    fontSize: theme.typography.fontSize.caption,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: theme.typography.lineHeight.relaxed * theme.typography.fontSize.caption,
+  },
+  verifiedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xxs,
+  },
+  verifiedText: {
+    fontSize: theme.typography.fontSize.caption,
+    color: theme.colors.success,
+    fontWeight: theme.typography.fontWeight.medium,
+  },
+
+  // Buttons
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.xs,
+    alignSelf: 'stretch',
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.primary,
+  },
+  primaryButtonText: {
+    fontSize: theme.typography.fontSize.body,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.textPrimary,
+  },
+  secondaryButton: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  secondaryButtonText: {
+    fontSize: theme.typography.fontSize.body,
+    color: theme.colors.textSecondary,
+  },
+
+  // Empty state
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: theme.spacing.xxl,
+    gap: theme.spacing.md,
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.body,
+    color: theme.colors.textPrimary,
+    fontWeight: theme.typography.fontWeight.medium,
+  },
+  emptySubtext: {
+    fontSize: theme.typography.fontSize.caption,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+  },
+});
@@ -18,6 +18,8 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import apiService from '@/services/api';
 import websocketService from '@/services/websocket';
+import outboxService from '@/services/outboxService';
+import messageRequestService from '@/services/messageRequestService';
 import * as Location from 'expo-location';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useSelector } from 'react-redux';
@@ -631,13 +633,20 @@ export default function DiscoverScreen({ navigation }: any) {
       showToastMessage('Noted ⭐', false);
 
       // Chiamata API
-      const result = await apiService.sendNote(targetUser.id, {
+      const noteMetadata = {
         location: currentLocation,
         distance: targetUser.distance,
         timestamp: Date.now()
-      });
+      };
+      const result = await apiService.sendNote(targetUser.id, noteMetadata);
       
-      if (!result.error && isMountedRef.current) {
+      if (result.error && result.status === 0) {
+        // Offline: l'outbox la invia appena torna la rete
+        await outboxService.enqueue({ kind: 'note', targetUserId: targetUser.id, metadata: noteMetadata });
+        if (isMountedRef.current) {
+          showToastMessage('Offline, will send soon', false);
+        }
+      } else if (!result.error && isMountedRef.current) {
         // Aggiorna stato con risultato reale
         setNotedUsers(prev => {
           const currentUserNotes = prev[targetUser.id] || { sent: false, received: false, mutual: false, timestamp: 0 };
@@ -660,6 +669,7 @@ export default function DiscoverScreen({ navigation }: any) {
           
           // Notifica se è mutual
           if (isMutual && !currentUserNotes.mutual) {
+            messageRequestService.addConnection(targetUser.id).catch(() => undefined);
             showToastMessage('✨ Mutual note!', true);
           }
           
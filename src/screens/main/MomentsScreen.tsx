@@ -45,6 +45,8 @@ import {
   MomentRequest 
 } from '@/types/api';
 import websocketService from '@/services/websocket';
+import outboxService from '@/services/outboxService';
+import messageRequestService from '@/services/messageRequestService';
 import * as Location from 'expo-location';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
@@ -375,6 +377,16 @@ export default function MomentsScreen({ navigation }: Props) {
           'They\'ll be notified. If they confirm, you\'ll match!',
           [{ text: 'OK' }]
         );
+      } else if ('status' in result && result.status === 0) {
+        // Offline: the outbox sends it once the network is back
+        await outboxService.enqueue({ kind: 'star', momentId: moment.id });
+        dispatch(markMomentStarred(moment.id));
+        
+        Alert.alert(
+          'Star Queued ⭐',
+          'You\'re offline. Your star will be sent as soon as you\'re back online.',
+          [{ text: 'OK' }]
+        );
       } else {
         Alert.alert('Error', result.detail || 'Failed to send star');
       }
@@ -416,6 +428,7 @@ export default function MomentsScreen({ navigation }: Props) {
               const result = await apiService.confirmMomentMatch(momentId, starUserId, true);
               if (!result.error) {
                 dispatch(confirmMomentMatchAction({ momentId, starUserId }));
+                messageRequestService.addConnection(starUserId).catch(() => undefined);
                 
                 if (result.is_mutual) {
                   Alert.alert(
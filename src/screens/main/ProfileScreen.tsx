@@ -18,6 +18,7 @@ import {
   Easing,
   Modal,
   PanResponder,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -36,6 +37,20 @@ import {
   Badge 
 } from '@/types/api';
 import websocketService from '@/services/websocket';
+import outboxService from '@/services/outboxService';
+import messageRequestService from '@/services/messageRequestService';
+import privacySettingsService, { PrivacySettings } from '@/services/privacySettingsService';
+import keyBackupService from '@/services/keyBackupService';
+import KeyBackupModal, { KeyBackupMode } from '@/components/profile/KeyBackupModal';
+import appLockService, {
+  AppLockEvent,
+  AppLockSettings,
+  BiometricSupport,
+  formatLockTimeout,
+} from '@/services/appLockService';
+import AppLockPinModal, { AppLockPinMode } from '@/components/profile/AppLockPinModal';
+import AppLockTimeoutPicker from '@/components/profile/AppLockTimeoutPicker';
+import panicWipeService, { PanicSettings } from '@/services/panicWipeService';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { CommonActions } from '@react-navigation/native';
 
@@ -83,7 +98,99 @@ export default function ProfileScreen({ navigation, route }: ProfileScreenProps)
   // NEW: Note user state
   const [notedUsers, setNotedUsers] = useState<{[userId: string]: NotedUser}>({});
   const [notingUser, setNotingUser] = useState(false);
+  const [privacySettings, setPrivacySettings] = useState<PrivacySettings | null>(null);
+  const [keyBackupMode, setKeyBackupMode] = useState<KeyBackupMode | null>(null);
+  const [backupContents, setBackupContents] = useState<string | null>(null);
+  const [appLock, setAppLock] = useState<AppLockSettings | null>(null);
+  const [biometricSupport, setBiometricSupport] = useState<BiometricSupport | null>(null);
+  const [appLockPinMode, setAppLockPinMode] = useState<AppLockPinMode | null>(null);
+  const [lockTimeoutPickerVisible, setLockTimeoutPickerVisible] = useState(false);
+  const [hasDuressPin, setHasDuressPin] = useState(false);
+  const [panicSettings, setPanicSettings] = useState<PanicSettings | null>(null);
   
+  // Privacy settings (solo per il proprio profilo)
+  useEffect(() => {
+    if (isOwnProfile) {
+      privacySettingsService.getSettings().then(setPrivacySettings);
+    }
+  }, [isOwnProfile]);
+
+  const updatePrivacySetting = async (changes: Partial<PrivacySettings>) => {
+    setPrivacySettings(await privacySettingsService.updateSettings(changes));
+  };
+
+  // Key backup: the file is picked before asking for the passphrase
+  const startKeyRestore = async () => {
+    try {
+      const contents = await keyBackupService.pickBackupFile();
+      if (!contents) return;
+      setBackupContents(contents);
+      setKeyBackupMode('restore');
+    } catch (error) {
+      console.error('Failed to open backup file:', error);
+      Alert.alert('Error', 'Could not open the backup file.');
+    }
+  };
+
+  const closeKeyBackup = () => {
+    setKeyBackupMode(null);
+    setBackupContents(null);
+  };
+
+  // App lock (solo per il proprio profilo): enabling and disabling go through the PIN
+  useEffect(() => {
+    if (!isOwnProfile) return;
+
+    appLockService.getSettings().then(setAppLock);
+    appLockService.getBiometricSupport().then(setBiometricSupport);
+    appLockService.hasDuressPin().then(setHasDuressPin);
+    panicWipeService.getSettings().then(setPanicSettings);
+
+    const handleAppLockEvent = (event: AppLockEvent) => {
+      if (event.type === 'settings') setAppLock(event.settings);
+    };
+    appLockService.on(handleAppLockEvent);
+    return () => appLockService.off(handleAppLockEvent);
+  }, [isOwnProfile]);
+
+  const changeLockTimeout = async (seconds: number) => {
+    setLockTimeoutPickerVisible(false);
+    setAppLock(await appLockService.updateSettings({ timeout: seconds }));
+  };
+
+  const closeAppLockPin = () => {
+    setAppLockPinMode(null);
+    appLockService.hasDuressPin().then(setHasDuressPin);
+  };
+
+  const manageDuressPin = () => {
+    if (!hasDuressPin) {
+      setAppLockPinMode('duress');
+      return;
+    }
+
+    Alert.alert(
+      'Duress PIN',
+      'Entering your duress PIN on the lock screen erases all chats on this device.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Change', onPress: () => setAppLockPinMode('duress') },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            await appLockService.clearDuressPin();
+            setHasDuressPin(false);
+          },
+        },
+      ]
+    );
+  };
+
+  const updatePanicSetting = async (changes: Partial<PanicSettings>) => {
+    setPanicSettings(await panicWipeService.updateSettings(changes));
+  };
+
   // Animations
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(30)).current;
@@ -474,11 +581,18 @@ export default function ProfileScreen({ navigation, route }: ProfileScreenProps)
         }
       }));
 
-      const result = await apiService.sendNote(profileData.user_id, {
-        timestamp: Date.now()
-      });
+      const noteMetadata = { timestamp: Date.now() };
+      const result = await apiService.sendNote(profileData.user_id, noteMetadata);
       
-      if (!result.error) {
+      if (result.error && result.status === 0) {
+        // Offline: the outbox sends it once the network is back
+        await outboxService.enqueue({ kind: 'note', targetUserId: profileData.user_id, metadata: noteMetadata });
+        Alert.alert(
+          'Noted! ⭐',
+          `You're offline. Your note to ${profileData.descriptor} will be sent as soon as you're back online.`,
+          [{ text: 'OK' }]
+        );
+      } else if (!result.error) {
         // Update state with result
         setNotedUsers(prev => {
           const currentUserNotes = prev[profileData.user_id!] || { sent: false, received: false, mutual: false, timestamp: 0 };
@@ -499,6 +613,11 @@ export default function ProfileScreen({ navigation, route }: ProfileScreenProps)
             console.error('Failed to save noted users:', err)
           );
           
+          // A mutual note lets their messages skip Requests
+          if (isMutual) {
+            messageRequestService.addConnection(profileData.user_id!).catch(() => undefined);
+          }
+          
           return updatedNotes;
         });
         
@@ -1281,6 +1400,144 @@ export default function ProfileScreen({ navigation, route }: ProfileScreenProps)
                   },
                 ]}
               >
+                {privacySettings && (
+                  <View style={styles.actionButton}>
+                    <View style={styles.actionButtonContent}>
+                      <Ionicons name="key-outline" size={20} color={theme.colors.textSecondary} />
+                      <Text style={styles.actionButtonText}>Pause chat when a security code changes</Text>
+                      <Switch
+                        value={privacySettings.blockOnKeyChange}
+                        onValueChange={value => updatePrivacySetting({ blockOnKeyChange: value })}
+                        trackColor={{ false: theme.colors.blackSurface, true: theme.colors.primary }}
+                      />
+                    </View>
+                  </View>
+                )}
+                
+                {privacySettings && (
+                  <View style={styles.actionButton}>
+                    <View style={styles.actionButtonContent}>
+                      <Ionicons name="checkmark-done-outline" size={20} color={theme.colors.textSecondary} />
+                      <Text style={styles.actionButtonText}>Read Receipts</Text>
+                      <Switch
+                        value={privacySettings.readReceipts}
+                        onValueChange={value => updatePrivacySetting({ readReceipts: value })}
+                        trackColor={{ false: theme.colors.blackSurface, true: theme.colors.primary }}
+                      />
+                    </View>
+                  </View>
+                )}
+                
+                {appLock && (
+                  <View style={styles.actionButton}>
+                    <View style={styles.actionButtonContent}>
+                      <Ionicons name="lock-closed-outline" size={20} color={theme.colors.textSecondary} />
+                      <Text style={styles.actionButtonText}>App Lock</Text>
+                      <Switch
+                        value={appLock.enabled}
+                        onValueChange={value => setAppLockPinMode(value ? 'enable' : 'disable')}
+                        trackColor={{ false: theme.colors.blackSurface, true: theme.colors.primary }}
+                      />
+                    </View>
+                  </View>
+                )}
+
+                {appLock?.enabled && biometricSupport?.available && (
+                  <View style={styles.actionButton}>
+                    <View style={styles.actionButtonContent}>
+                      <Ionicons name="finger-print-outline" size={20} color={theme.colors.textSecondary} />
+                      <Text style={styles.actionButtonText}>Unlock with {biometricSupport.label}</Text>
+                      <Switch
+                        value={appLock.biometrics}
+                        onValueChange={async value => setAppLock(await appLockService.updateSettings({ biometrics: value }))}
+                        trackColor={{ false: theme.colors.blackSurface, true: theme.colors.primary }}
+                      />
+                    </View>
+                  </View>
+                )}
+
+                {appLock?.enabled && (
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={() => setLockTimeoutPickerVisible(true)}
+                    activeOpacity={0.8}
+                  >
+                    <View style={styles.actionButtonContent}>
+                      <Ionicons name="timer-outline" size={20} color={theme.colors.textSecondary} />
+                      <Text style={styles.actionButtonText}>Lock {formatLockTimeout(appLock.timeout).toLowerCase()}</Text>
+                      <Ionicons name="chevron-forward" size={20} color={theme.colors.textMuted} />
+                    </View>
+                  </TouchableOpacity>
+                )}
+
+                {appLock?.enabled && (
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={manageDuressPin}
+                    activeOpacity={0.8}
+                  >
+                    <View style={styles.actionButtonContent}>
+                      <Ionicons name="warning-outline" size={20} color={theme.colors.textSecondary} />
+                      <Text style={styles.actionButtonText}>
+                        {hasDuressPin ? 'Duress PIN is set' : 'Set Duress PIN'}
+                      </Text>
+                      <Ionicons name="chevron-forward" size={20} color={theme.colors.textMuted} />
+                    </View>
+                  </TouchableOpacity>
+                )}
+
+                {panicSettings && (
+                  <View style={styles.actionButton}>
+                    <View style={styles.actionButtonContent}>
+                      <Ionicons name="flash-outline" size={20} color={theme.colors.textSecondary} />
+                      <Text style={styles.actionButtonText}>Wipe chats by long-pressing the Messages title</Text>
+                      <Switch
+                        value={panicSettings.gesture}
+                        onValueChange={value => updatePanicSetting({ gesture: value })}
+                        trackColor={{ false: theme.colors.blackSurface, true: theme.colors.primary }}
+                      />
+                    </View>
+                  </View>
+                )}
+
+                {panicSettings && appLock?.enabled && (
+                  <View style={styles.actionButton}>
+                    <View style={styles.actionButtonContent}>
+                      <Ionicons name="eye-off-outline" size={20} color={theme.colors.textSecondary} />
+                      <Text style={styles.actionButtonText}>After a wipe, show no chats until unlocked with my PIN</Text>
+                      <Switch
+                        value={panicSettings.decoy}
+                        onValueChange={value => updatePanicSetting({ decoy: value })}
+                        trackColor={{ false: theme.colors.blackSurface, true: theme.colors.primary }}
+                      />
+                    </View>
+                  </View>
+                )}
+                
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => setKeyBackupMode('export')}
+                  activeOpacity={0.8}
+                >
+                  <View style={styles.actionButtonContent}>
+                    <Ionicons name="cloud-upload-outline" size={20} color={theme.colors.textSecondary} />
+                    <Text style={styles.actionButtonText}>Back Up Encryption Keys</Text>
+                    <Ionicons name="chevron-forward" size={20} color={theme.colors.textMuted} />
+                  </View>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={startKeyRestore}
+                  activeOpacity={0.8}
+                >
+                  <View style={styles.actionButtonContent}>
+                    <Ionicons name="cloud-download-outline" size={20} color={theme.colors.textSecondary} />
+                    <Text style={styles.actionButtonText}>Restore Encryption Keys</Text>
+                    <Ionicons name="chevron-forward" size={20} color={theme.colors.textMuted} />
+                  </View>
+                </TouchableOpacity>
+
                 <TouchableOpacity
                   style={styles.actionButton}
                   onPress={() => Linking.openURL('https://notamy.app/terms')}
@@ -1346,6 +1603,34 @@ export default function ProfileScreen({ navigation, route }: ProfileScreenProps)
 
       {/* Photo Viewer */}
       <PhotoViewer />
+
+      {/* Key backup */}
+      {isOwnProfile && currentUser && (
+        <KeyBackupModal
+          visible={keyBackupMode !== null}
+          mode={keyBackupMode || 'export'}
+          userId={currentUser.user_id}
+          backupContents={backupContents}
+          onClose={closeKeyBackup}
+        />
+      )}
+
+      {/* App lock */}
+      {isOwnProfile && (
+        <>
+          <AppLockPinModal
+            visible={appLockPinMode !== null}
+            mode={appLockPinMode || 'enable'}
+            onClose={closeAppLockPin}
+          />
+          <AppLockTimeoutPicker
+            visible={lockTimeoutPickerVisible}
+            current={appLock?.timeout ?? 0}
+            onSelect={changeLockTimeout}
+            onClose={() => setLockTimeoutPickerVisible(false)}
+          />
+        </>
+      )}
     </View>
   );
 }
@@ -1,11 +1,13 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
 
 // Import types from centralized location
 import {
   ERROR_CODES,
   ErrorCode,
   ApiError,
+  RequestOptions,
   UserRegistrationRequest,
   UserRegistrationResponse,
   NearbyUser,
@@ -23,6 +25,12 @@ import {
   Conversation,
   KeyExchangeRequest,
   KeyExchangeResponse,
+  KeyStatusResponse,
+  PrekeyUploadRequest,
+  PrekeyBundle,
+  PrekeyCountResponse,
+  AttachmentUploadResponse,
+  FrankedMessageReport,
   MarkReadRequest,
   TypingStatusRequest,
   FCMTokenRequest,
@@ -117,9 +125,21 @@ class ApiService {
     return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  // The server answers a repeated key with the first result (outbox retries)
+  private idempotencyConfig(options?: RequestOptions) {
+    return options?.idempotencyKey
+      ? { headers: { 'Idempotency-Key': options.idempotencyKey } }
+      : undefined;
+  }
+
   private handleError(error: AxiosError): ApiError {
     console.log('Handling error:', error);
     
+    // Already converted by the response interceptor: keep its status
+    if ((error as unknown as ApiError).error === true) {
+      return error as unknown as ApiError;
+    }
+    
     if (error.response) {
       const data = error.response.data as any;
       return {
@@ -301,14 +321,14 @@ class ApiService {
   }
 
   // NUOVO METODO: Send Note (per la funzionalità di "notare" qualcuno)
-  async sendNote(targetUserId: string, metadata?: any) {
+  async sendNote(targetUserId: string, metadata?: any, options?: RequestOptions) {
     try {
       console.log('Sending note to:', targetUserId);
       
       const response = await this.api.post('/v1/send-note', {
         target_user_id: targetUserId,
         metadata: metadata || {}
-      });
+      }, this.idempotencyConfig(options));
       
       return response.data;
     } catch (error) {
@@ -459,11 +479,12 @@ class ApiService {
     }
   }
 
-  async reportUser(reportedUserId: string, reason: string) {
+  async reportUser(reportedUserId: string, reason: string, reportedMessages?: FrankedMessageReport[]) {
     try {
       const response = await this.api.post('/v1/report-user', {
         reported_user_id: reportedUserId,
-        reason
+        reason,
+        ...(reportedMessages?.length ? { reported_messages: reportedMessages } : {})
       });
       return response.data;
     } catch (error) {
@@ -646,14 +667,15 @@ class ApiService {
    * Send a star to a moment (user saying "That's me!")
    * @param momentId - ID of the moment
    * @param userId - ID of the user claiming the moment (optional)
+   * @param options - Idempotency key, for retried sends
    */
-  async sendStar(momentId: string, userId?: string): Promise<SendStarResponse | ApiError> {
+  async sendStar(momentId: string, userId?: string, options?: RequestOptions): Promise<SendStarResponse | ApiError> {
     try {
       console.log('Sending star to moment:', momentId);
       
       const response = await this.api.post(`/v1/moments/${momentId}/star`, {
         user_id: userId // Optional override for testing
-      });
+      }, this.idempotencyConfig(options));
       
       return response.data;
     } catch (error) {
@@ -823,9 +845,18 @@ class ApiService {
   // =====================================================
 
   // Alias per getConversationMessages -> getMessages (per compatibilità con ChatScreen)
-  async getMessages(conversationId: string, limit: number = 50) {
+  // beforeTimestamp: cursor for older pages (newest first, up to `limit`)
+  async getMessages(conversationId: string, limit: number = 50, beforeTimestamp?: number) {
     try {
-      const response = await this.getConversationMessages(conversationId, limit);
+      const response: any = await this.getConversationMessages(conversationId, limit, beforeTimestamp);
+      
+      // An error is not an empty page: pagination would stop for good
+      if (response?.error) {
+        return {
+          error: response.detail || 'Failed to load messages',
+          messages: []
+        };
+      }
       
       // Se la risposta è già formattata con { messages: [...] }
       if (response.messages) {
@@ -876,19 +907,23 @@ class ApiService {
     content: string;
     encrypted_content?: string | null;
     is_encrypted: boolean;
-  }): Promise<{ error: null | string; message?: ChatMessage }> {
+    session_id?: string;
+    metadata?: Record<string, string>;
+  }, options?: RequestOptions): Promise<{ error: null | string; message?: ChatMessage; status?: number }> {
     try {
       // Prepara il payload per il server
       const payload: SendMessageRequest = {
         recipient_id: messageData.recipient_id,
         encrypted_content: messageData.encrypted_content || messageData.content,
+        session_id: messageData.session_id,
         metadata: {
+          ...messageData.metadata,
           is_encrypted: String(messageData.is_encrypted),
           algorithm: messageData.is_encrypted ? 'aes-256-gcm' : 'none'
         }
       };
       
-      const response = await this.api.post('/v1/chat/messages', payload);
+      const response = await this.api.post('/v1/chat/messages', payload, this.idempotencyConfig(options));
       
       // Formatta la risposta per compatibilità con ChatScreen
       return {
@@ -905,7 +940,8 @@ class ApiService {
       const apiError = this.handleError(error as AxiosError);
       return { 
         error: apiError.detail,
-        message: undefined 
+        message: undefined,
+        status: apiError.status
       };
     }
   }
@@ -946,14 +982,25 @@ class ApiService {
   }
 
   // UPDATED: Key exchange for E2E encryption con supporto per options - ora usa aes-256-gcm
-  async exchangeKeys(recipientId: string, options?: { algorithm?: string }): Promise<KeyExchangeResponse | ApiError> {
+  async exchangeKeys(
+    recipientId: string,
+    options?: {
+      algorithm?: string;
+      publicKey?: string;
+      keyType?: string;
+      cipherSuites?: string;
+      identityKey?: string;
+    }
+  ): Promise<KeyExchangeResponse | ApiError> {
     try {
       const response = await this.api.post('/v1/chat/keys/exchange', {
         recipient_id: recipientId,
-        metadata: options ? {
-          algorithm: options.algorithm || 'aes-256-gcm'
-        } : {
-          algorithm: 'aes-256-gcm'
+        public_key: options?.publicKey,
+        key_type: options?.keyType,
+        metadata: {
+          algorithm: options?.algorithm || 'aes-256-gcm',
+          ...(options?.cipherSuites ? { cipher_suites: options.cipherSuites } : {}),
+          ...(options?.identityKey ? { identity_key: options.identityKey } : {})
         }
       });
       return response.data;
@@ -963,6 +1010,99 @@ class ApiService {
     }
   }
 
+  // Stato di uno scambio chiavi interattivo in attesa
+  async getKeyStatus(recipientId: string): Promise<KeyStatusResponse | ApiError> {
+    try {
+      const response = await this.api.get(`/v1/chat/keys/status/${recipientId}`);
+      return response.data;
+    } catch (error) {
+      return this.handleError(error as AxiosError);
+    }
+  }
+
+  // Prekey bundles per key agreement asincrono (X3DH)
+  async uploadPrekeys(bundle: PrekeyUploadRequest) {
+    try {
+      const response = await this.api.post('/v1/chat/prekeys', bundle);
+      return response.data;
+    } catch (error) {
+      console.error('Prekey upload failed:', error);
+      return this.handleError(error as AxiosError);
+    }
+  }
+
+  async getPrekeyBundle(userId: string): Promise<PrekeyBundle | ApiError> {
+    try {
+      const response = await this.api.get(`/v1/chat/prekeys/${userId}`);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch prekey bundle:', error);
+      return this.handleError(error as AxiosError);
+    }
+  }
+
+  async getPrekeyCount(): Promise<PrekeyCountResponse | ApiError> {
+    try {
+      const response = await this.api.get('/v1/chat/prekeys/count');
+      return response.data;
+    } catch (error) {
+      return this.handleError(error as AxiosError);
+    }
+  }
+
+  // Allegati cifrati: upload e download del solo blob cifrato
+  async uploadAttachment(fileUri: string): Promise<AttachmentUploadResponse | ApiError> {
+    try {
+      const formData = new FormData();
+      formData.append('file', {
+        uri: fileUri,
+        type: 'application/octet-stream',
+        name: 'attachment.bin'
+      } as any);
+
+      const response = await this.api.post('/v1/chat/attachments', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+        timeout: 120000,
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Attachment upload failed:', error);
+      return this.handleError(error as AxiosError);
+    }
+  }
+
+  async downloadAttachment(attachmentId: string, destinationUri: string): Promise<{ uri: string } | ApiError> {
+    try {
+      const token = await AsyncStorage.getItem('authToken');
+      const result = await FileSystem.downloadAsync(
+        `${API_BASE_URL}/v1/chat/attachments/${encodeURIComponent(attachmentId)}`,
+        destinationUri,
+        { headers: token ? { Authorization: `Bearer ${token}` } : {} }
+      );
+
+      if (result.status !== 200) {
+        await FileSystem.deleteAsync(destinationUri, { idempotent: true });
+        return {
+          error: true,
+          detail: 'Attachment download failed',
+          error_code: ERROR_CODES.UNKNOWN_ERROR,
+          status: result.status,
+        };
+      }
+      return { uri: result.uri };
+    } catch (error: any) {
+      console.error('Attachment download failed:', error);
+      return {
+        error: true,
+        detail: error?.message || 'Network error - no response from server',
+        error_code: ERROR_CODES.NETWORK_ERROR,
+        status: 0,
+      };
+    }
+  }
+
   async deleteMessage(messageId: string) {
     try {
       const response = await this.api.delete(
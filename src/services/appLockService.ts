@@ -0,0 +1,463 @@
+// src/services/appLockService.ts
+/**
+ * Blocco dell'app con biometria (Face ID, Touch ID, impronta) e PIN
+ *
+ * - Opzionale, disattivato di default
+ * - Si attiva all'avvio a freddo e dopo un tempo configurabile in background
+ * - Il PIN è sempre il fallback: salvato solo come hash scrypt nel Secure Store
+ * - Tentativi sbagliati rallentano con un'attesa crescente, anche dopo un riavvio
+ * - Mentre è bloccata l'app mostra una copertura e nasconde le notifiche di chat
+ * - PIN di coercizione opzionale: sembra sbloccare, ma prima cancella le chat
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as Crypto from 'expo-crypto';
+import { AppState } from 'react-native';
+import util from 'tweetnacl-util';
+import { scrypt } from 'scrypt-js';
+import { constantTimeEqual } from '@/utils/cryptoPrimitives';
+import panicWipeService from './panicWipeService';
+
+// Seconds in background before the lock engages; 0 = as soon as the app leaves
+export const LOCK_TIMEOUTS = [0, 60, 5 * 60, 15 * 60, 60 * 60];
+
+const TIMEOUT_LABELS: Record<number, string> = {
+  0: 'Immediately',
+  60: 'After 1 minute',
+  [5 * 60]: 'After 5 minutes',
+  [15 * 60]: 'After 15 minutes',
+  [60 * 60]: 'After 1 hour',
+};
+
+export interface AppLockSettings {
+  enabled: boolean;
+  biometrics: boolean;  // Offer biometrics before the PIN
+  timeout: number;      // Seconds, one of LOCK_TIMEOUTS
+}
+
+export interface BiometricSupport {
+  available: boolean;  // Hardware present and enrolled
+  label: string;       // Face ID, Touch ID, Fingerprint...
+}
+
+export type PinResult =
+  | { success: true; duress?: boolean }       // duress: the duress PIN was entered
+  | { success: false; retryAfter: number };  // ms to wait before the next attempt (0 = none)
+
+export type AppLockEvent =
+  | { type: 'locked' }
+  | { type: 'unlocked' }
+  | { type: 'settings'; settings: AppLockSettings };
+
+type AppLockListener = (event: AppLockEvent) => void;
+
+interface StoredPin {
+  salt: string;  // base64
+  hash: string;  // base64
+}
+
+interface FailedAttempts {
+  count: number;
+  lastAt: number;  // ms
+}
+
+const DEFAULT_SETTINGS: AppLockSettings = {
+  enabled: false,
+  biometrics: true,
+  timeout: 60,
+};
+
+export function formatLockTimeout(seconds: number): string {
+  return TIMEOUT_LABELS[seconds] || `After ${seconds}s`;
+}
+
+class AppLockService {
+  private readonly SETTINGS_KEY = '@app_lock_settings';
+  private readonly ATTEMPTS_KEY = '@app_lock_attempts';
+  private readonly PIN_KEY = 'notamy_app_lock_pin';
+  private readonly DURESS_PIN_KEY = 'notamy_app_lock_duress_pin';
+
+  readonly minPinLength = 4;
+  readonly maxPinLength = 8;
+
+  // PINs are short: scrypt keeps an offline guess expensive
+  private readonly SCRYPT_N = 2 ** 14;
+  private readonly SCRYPT_R = 8;
+  private readonly SCRYPT_P = 1;
+  private readonly HASH_SIZE = 32;
+
+  // Free attempts, then 30s doubling up to 1h
+  private readonly FREE_ATTEMPTS = 5;
+  private readonly BASE_DELAY = 30 * 1000;
+  private readonly MAX_DELAY = 60 * 60 * 1000;
+
+  private settings: AppLockSettings | null = null;
+  private locked = false;
+  private backgroundedAt: number | null = null;
+  private listeners: AppLockListener[] = [];
+
+  // ==========================================================================
+  // LIFECYCLE
+  // ==========================================================================
+
+  /**
+   * Cold start: lock before anything is shown if the lock is on
+   * @returns whether the app starts locked
+   */
+  async initialize(): Promise<boolean> {
+    const settings = await this.getSettings();
+    if (settings.enabled) {
+      this.lock();
+    }
+    return this.locked;
+  }
+
+  /**
+   * The app left the foreground: start counting
+   */
+  async handleBackground(): Promise<void> {
+    if (this.backgroundedAt === null) {
+      this.backgroundedAt = Date.now();
+    }
+
+    const settings = await this.getSettings();
+    if (settings.enabled && settings.timeout === 0) {
+      this.lock();
+    }
+  }
+
+  /**
+   * The app is back: lock if it stayed away longer than the timeout
+   */
+  async handleForeground(): Promise<void> {
+    const backgroundedAt = this.backgroundedAt;
+    this.backgroundedAt = null;
+
+    const settings = await this.getSettings();
+    if (!settings.enabled || backgroundedAt === null) return;
+
+    if (Date.now() - backgroundedAt >= settings.timeout * 1000) {
+      this.lock();
+    }
+  }
+
+  isLocked(): boolean {
+    return this.locked;
+  }
+
+  /**
+   * Whether chat notifications must not show who wrote or what:
+   * the app is locked, or will be once it is opened
+   */
+  shouldHideNotifications(): boolean {
+    return !!this.settings?.enabled && (this.locked || AppState.currentState !== 'active');
+  }
+
+  private lock(): void {
+    if (this.locked) return;
+    this.locked = true;
+    console.log('🔒 App locked');
+    this.emit({ type: 'locked' });
+  }
+
+  private unlock(): void {
+    if (!this.locked) return;
+    this.locked = false;
+    console.log('🔓 App unlocked');
+    this.emit({ type: 'unlocked' });
+  }
+
+  // ==========================================================================
+  // UNLOCK
+  // ==========================================================================
+
+  async getBiometricSupport(): Promise<BiometricSupport> {
+    try {
+      const [hasHardware, enrolled, types] = await Promise.all([
+        LocalAuthentication.hasHardwareAsync(),
+        LocalAuthentication.isEnrolledAsync(),
+        LocalAuthentication.supportedAuthenticationTypesAsync(),
+      ]);
+
+      let label = 'Biometrics';
+      if (types.includes(LocalAuthentication.AuthenticationType.FACIAL_RECOGNITION)) {
+        label = 'Face ID';
+      } else if (types.includes(LocalAuthentication.AuthenticationType.FINGERPRINT)) {
+        label = 'Fingerprint';
+      }
+
+      return { available: hasHardware && enrolled, label };
+    } catch (error) {
+      console.warn('Failed to check biometrics:', error);
+      return { available: false, label: 'Biometrics' };
+    }
+  }
+
+  /**
+   * Prompt for biometrics. The device passcode is not accepted:
+   * the fallback is our own PIN.
+   */
+  async unlockWithBiometrics(): Promise<boolean> {
+    const settings = await this.getSettings();
+    if (!settings.enabled || !settings.biometrics) return false;
+
+    try {
+      const result = await LocalAuthentication.authenticateAsync({
+        promptMessage: 'Unlock Notamy',
+        cancelLabel: 'Use PIN',
+        disableDeviceFallback: true,
+      });
+      if (result.success) {
+        await AsyncStorage.removeItem(this.ATTEMPTS_KEY);
+        this.unlock();
+      }
+      return result.success;
+    } catch (error) {
+      console.warn('Biometric unlock failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Unlock with the PIN. The duress PIN wipes the chats first, then
+   * unlocks exactly like the real one.
+   */
+  async unlockWithPin(pin: string): Promise<PinResult> {
+    const result = await this.checkPin(pin);
+    if (!result.success) return result;
+
+    // Only the real PIN ends the decoy: biometrics can be forced
+    if (result.duress) {
+      await panicWipeService.wipe();
+    } else {
+      await panicWipeService.endDecoy();
+    }
+    this.unlock();
+    return result;
+  }
+
+  /**
+   * Time left before another PIN attempt is allowed (ms)
+   */
+  async getRetryDelay(): Promise<number> {
+    const attempts = await this.getAttempts();
+    if (attempts.count < this.FREE_ATTEMPTS) return 0;
+
+    const delay = Math.min(
+      this.BASE_DELAY * 2 ** (attempts.count - this.FREE_ATTEMPTS),
+      this.MAX_DELAY
+    );
+    return Math.max(attempts.lastAt + delay - Date.now(), 0);
+  }
+
+  /**
+   * Verify the PIN, counting failures
+   */
+  async checkPin(pin: string): Promise<PinResult> {
+    const wait = await this.getRetryDelay();
+    if (wait > 0) {
+      return { success: false, retryAfter: wait };
+    }
+
+    if (await this.matchesPin(this.PIN_KEY, pin)) {
+      await AsyncStorage.removeItem(this.ATTEMPTS_KEY);
+      return { success: true };
+    }
+    if (await this.matchesPin(this.DURESS_PIN_KEY, pin)) {
+      await AsyncStorage.removeItem(this.ATTEMPTS_KEY);
+      return { success: true, duress: true };
+    }
+
+    const attempts = await this.getAttempts();
+    await AsyncStorage.setItem(this.ATTEMPTS_KEY, JSON.stringify({
+      count: attempts.count + 1,
+      lastAt: Date.now(),
+    }));
+    return { success: false, retryAfter: await this.getRetryDelay() };
+  }
+
+  // ==========================================================================
+  // SETTINGS
+  // ==========================================================================
+
+  async getSettings(): Promise<AppLockSettings> {
+    if (this.settings) return this.settings;
+
+    try {
+      const stored = await AsyncStorage.getItem(this.SETTINGS_KEY);
+      this.settings = { ...DEFAULT_SETTINGS, ...(stored ? JSON.parse(stored) : {}) };
+    } catch (error) {
+      console.warn('Failed to load app lock settings:', error);
+      this.settings = { ...DEFAULT_SETTINGS };
+    }
+
+    return this.settings!;
+  }
+
+  /**
+   * Turn the lock on with a new PIN
+   */
+  async enable(pin: string): Promise<AppLockSettings> {
+    if (!this.isValidPin(pin)) {
+      throw new Error(`The PIN must be ${this.minPinLength} to ${this.maxPinLength} digits`);
+    }
+
+    await this.storePin(this.PIN_KEY, pin);
+    await AsyncStorage.removeItem(this.ATTEMPTS_KEY);
+    return this.saveSettings({ enabled: true });
+  }
+
+  /**
+   * Turn the lock off; needs the real PIN
+   */
+  async disable(pin: string): Promise<PinResult> {
+    const result = await this.checkPin(pin);
+    if (!result.success) return result;
+    if (result.duress) return { success: false, retryAfter: 0 };
+
+    await SecureStore.deleteItemAsync(this.PIN_KEY);
+    await SecureStore.deleteItemAsync(this.DURESS_PIN_KEY);
+    await panicWipeService.endDecoy();
+    await this.saveSettings({ enabled: false });
+    return result;
+  }
+
+  /**
+   * Set the duress PIN: it must differ from the real one
+   */
+  async setDuressPin(pin: string): Promise<void> {
+    if (!(await this.getSettings()).enabled) {
+      throw new Error('Turn on the app lock first');
+    }
+    if (!this.isValidPin(pin)) {
+      throw new Error(`The PIN must be ${this.minPinLength} to ${this.maxPinLength} digits`);
+    }
+    if (await this.matchesPin(this.PIN_KEY, pin)) {
+      throw new Error('The duress PIN must be different from your PIN');
+    }
+    await this.storePin(this.DURESS_PIN_KEY, pin);
+  }
+
+  async clearDuressPin(): Promise<void> {
+    await SecureStore.deleteItemAsync(this.DURESS_PIN_KEY);
+  }
+
+  async hasDuressPin(): Promise<boolean> {
+    return (await this.getStoredPin(this.DURESS_PIN_KEY)) !== null;
+  }
+
+  async updateSettings(changes: Partial<Pick<AppLockSettings, 'biometrics' | 'timeout'>>): Promise<AppLockSettings> {
+    if (changes.timeout !== undefined && !LOCK_TIMEOUTS.includes(changes.timeout)) {
+      throw new Error('Unknown lock timeout');
+    }
+    return this.saveSettings(changes);
+  }
+
+  isValidPin(pin: string): boolean {
+    return new RegExp(`^\\d{${this.minPinLength},${this.maxPinLength}}$`).test(pin);
+  }
+
+  /**
+   * Back to defaults (logout / wipe)
+   */
+  async reset(): Promise<void> {
+    this.settings = null;
+    this.backgroundedAt = null;
+    await AsyncStorage.multiRemove([this.SETTINGS_KEY, this.ATTEMPTS_KEY]);
+    await SecureStore.deleteItemAsync(this.PIN_KEY).catch(() => undefined);
+    await SecureStore.deleteItemAsync(this.DURESS_PIN_KEY).catch(() => undefined);
+    this.unlock();
+  }
+
+  private async saveSettings(changes: Partial<AppLockSettings>): Promise<AppLockSettings> {
+    const updated = { ...(await this.getSettings()), ...changes };
+    await AsyncStorage.setItem(this.SETTINGS_KEY, JSON.stringify(updated));
+    this.settings = updated;
+    this.emit({ type: 'settings', settings: updated });
+    return updated;
+  }
+
+  // ==========================================================================
+  // PIN STORAGE
+  // ==========================================================================
+
+  private async storePin(storageKey: string, pin: string): Promise<void> {
+    const salt = new Uint8Array(await Crypto.getRandomBytesAsync(16));
+    const stored: StoredPin = {
+      salt: util.encodeBase64(salt),
+      hash: util.encodeBase64(await this.hashPin(pin, salt)),
+    };
+    await SecureStore.setItemAsync(storageKey, JSON.stringify(stored), {
+      keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+    });
+  }
+
+  private async matchesPin(storageKey: string, pin: string): Promise<boolean> {
+    const stored = await this.getStoredPin(storageKey);
+    if (!stored) return false;
+
+    return constantTimeEqual(
+      await this.hashPin(pin, util.decodeBase64(stored.salt)),
+      util.decodeBase64(stored.hash)
+    );
+  }
+
+  private async getStoredPin(storageKey: string): Promise<StoredPin | null> {
+    try {
+      const stored = await SecureStore.getItemAsync(storageKey);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn('Failed to read app lock PIN:', error);
+      return null;
+    }
+  }
+
+  private async hashPin(pin: string, salt: Uint8Array): Promise<Uint8Array> {
+    return scrypt(
+      util.decodeUTF8(pin),
+      salt,
+      this.SCRYPT_N,
+      this.SCRYPT_R,
+      this.SCRYPT_P,
+      this.HASH_SIZE
+    );
+  }
+
+  private async getAttempts(): Promise<FailedAttempts> {
+    try {
+      const stored = await AsyncStorage.getItem(this.ATTEMPTS_KEY);
+      if (stored) return JSON.parse(stored);
+    } catch (error) {
+      console.warn('Failed to load PIN attempts:', error);
+    }
+    return { count: 0, lastAt: 0 };
+  }
+
+  // ==========================================================================
+  // EVENTS
+  // ==========================================================================
+
+  on(callback: AppLockListener): void {
+    this.listeners.push(callback);
+  }
+
+  off(callback: AppLockListener): void {
+    this.listeners = this.listeners.filter(cb => cb !== callback);
+  }
+
+  private emit(event: AppLockEvent): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.warn('App lock listener failed:', error);
+      }
+    });
+  }
+}
+
+// Create singleton instance
+const appLockService = new AppLockService();
+
+export default appLockService;
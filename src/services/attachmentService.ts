@@ -0,0 +1,315 @@
+// src/services/attachmentService.ts
+/**
+ * Allegati cifrati (foto) della chat
+ *
+ * - Le foto sono ridimensionate e ricompresse prima dell'invio: niente file da 10 MB
+ * - Ogni file è cifrato con una chiave AES-256-GCM casuale e usa e getta
+ * - AES-GCM e SHA-256 nativi quando disponibili, JS solo come ripiego
+ * - Il server riceve solo il blob cifrato: iv || ciphertext || tag
+ * - Chiave, digest, dimensioni e una miniatura viaggiano nel corpo del messaggio (già cifrato E2E)
+ * - Il digest del blob è verificato prima di decifrare
+ * - Download e decifratura pigri, solo quando la foto viene mostrata
+ * - Su disco resta solo il blob cifrato; il plaintext vive in una piccola cache in memoria
+ */
+import * as FileSystem from 'expo-file-system';
+import * as Crypto from 'expo-crypto';
+import * as ImageManipulator from 'expo-image-manipulator';
+import { Buffer } from 'buffer';
+import apiService from './api';
+import { aesGcmEncrypt, aesGcmDecrypt, AES_GCM_TAG_SIZE } from '@/utils/aesGcm';
+import { ImageAttachment } from '@/utils/messageBody';
+
+// Native AES-GCM keeps large files off the JS thread
+let AesGcmCrypto: any;
+try {
+  AesGcmCrypto = require('react-native-aes-gcm-crypto').default;
+} catch {
+  AesGcmCrypto = null;
+}
+
+export interface PickedImage {
+  uri: string;
+  width: number;
+  height: number;
+  mimeType?: string;
+}
+
+class AttachmentService {
+  private readonly CACHE_DIR = `${FileSystem.cacheDirectory}attachments/`;
+  private readonly KEY_SIZE = 32;
+  private readonly IV_SIZE = 12;
+  private readonly MAX_SIZE = 2 * 1024 * 1024;         // After downscaling
+  private readonly MAX_RECEIVED_SIZE = 10 * 1024 * 1024; // Older clients sent originals
+  private readonly MAX_DIMENSION = 1600;
+  private readonly JPEG_QUALITY = 0.8;
+  private readonly THUMBNAIL_DIMENSION = 32;
+  private readonly THUMBNAIL_QUALITY = 0.5;
+  private readonly MEMORY_CACHE_SIZE = 20;
+
+  // Decrypted images as data URIs, least recently used first
+  private decrypted: Map<string, string> = new Map();
+  private loading: Map<string, Promise<string>> = new Map();
+
+  // ==========================================================================
+  // SEND
+  // ==========================================================================
+
+  /**
+   * Downscale a picked image, encrypt it and upload the ciphertext.
+   * @returns the attachment description to put in the encrypted message body
+   */
+  async encryptAndUpload(image: PickedImage): Promise<ImageAttachment> {
+    await this.ensureCacheDir();
+
+    const resized = await this.downscale(image);
+    const thumbnail = await this.makeThumbnail(resized.uri);
+
+    const plaintext = Buffer.from(
+      await FileSystem.readAsStringAsync(resized.uri, { encoding: FileSystem.EncodingType.Base64 }),
+      'base64'
+    );
+    await FileSystem.deleteAsync(resized.uri, { idempotent: true });
+    if (plaintext.length > this.MAX_SIZE) {
+      throw new Error('This photo is too large to send');
+    }
+
+    const key = new Uint8Array(await Crypto.getRandomBytesAsync(this.KEY_SIZE));
+    const blob = await this.seal(key, plaintext);
+    const digest = await this.digest(blob);
+
+    const uploadUri = `${this.CACHE_DIR}upload-${digest}.bin`;
+    await FileSystem.writeAsStringAsync(uploadUri, blob.toString('base64'), {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+
+    const response = await apiService.uploadAttachment(uploadUri);
+    if ('error' in response && response.error) {
+      await FileSystem.deleteAsync(uploadUri, { idempotent: true });
+      throw new Error(response.detail || 'Photo upload failed');
+    }
+    const { attachment_id } = response as { attachment_id: string };
+
+    // Keep the ciphertext: our own photo never has to be downloaded again
+    await FileSystem.moveAsync({ from: uploadUri, to: this.blobUri(attachment_id) });
+
+    const mime = 'image/jpeg';
+    this.remember(attachment_id, this.toDataUri(mime, plaintext));
+    console.log('📎 Attachment uploaded');
+
+    return {
+      id: attachment_id,
+      key: Buffer.from(key).toString('base64'),
+      digest,
+      size: blob.length,
+      mime,
+      width: resized.width,
+      height: resized.height,
+      ...(thumbnail ? { thumbnail } : {}),
+    };
+  }
+
+  /**
+   * Longest side down to MAX_DIMENSION, re-encoded as JPEG (drops EXIF too)
+   */
+  private async downscale(image: PickedImage): Promise<ImageManipulator.ImageResult> {
+    const longest = Math.max(image.width, image.height);
+    const resize = longest > this.MAX_DIMENSION
+      ? [{ resize: image.width >= image.height ? { width: this.MAX_DIMENSION } : { height: this.MAX_DIMENSION } }]
+      : [];
+
+    return await ImageManipulator.manipulateAsync(image.uri, resize, {
+      compress: this.JPEG_QUALITY,
+      format: ImageManipulator.SaveFormat.JPEG,
+    });
+  }
+
+  /**
+   * Tiny JPEG (base64) shown blurred while the photo downloads
+   */
+  private async makeThumbnail(uri: string): Promise<string | null> {
+    try {
+      const thumbnail = await ImageManipulator.manipulateAsync(
+        uri,
+        [{ resize: { width: this.THUMBNAIL_DIMENSION } }],
+        { compress: this.THUMBNAIL_QUALITY, format: ImageManipulator.SaveFormat.JPEG, base64: true }
+      );
+      await FileSystem.deleteAsync(thumbnail.uri, { idempotent: true });
+      return thumbnail.base64 || null;
+    } catch (error) {
+      console.warn('Failed to create photo thumbnail:', error);
+      return null;
+    }
+  }
+
+  // ==========================================================================
+  // RECEIVE
+  // ==========================================================================
+
+  /**
+   * Decrypted image as a data URI, downloading the blob if needed.
+   * Concurrent calls for the same attachment share one download.
+   */
+  async load(attachment: ImageAttachment): Promise<string> {
+    const cached = this.decrypted.get(attachment.id);
+    if (cached) {
+      this.remember(attachment.id, cached);
+      return cached;
+    }
+
+    const pending = this.loading.get(attachment.id);
+    if (pending) return pending;
+
+    const task = this.downloadAndDecrypt(attachment).finally(() => {
+      this.loading.delete(attachment.id);
+    });
+    this.loading.set(attachment.id, task);
+    return task;
+  }
+
+  private async downloadAndDecrypt(attachment: ImageAttachment): Promise<string> {
+    if (attachment.size > this.MAX_RECEIVED_SIZE) {
+      throw new Error('Photo is too large');
+    }
+    await this.ensureCacheDir();
+    const uri = this.blobUri(attachment.id);
+
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) {
+      const response = await apiService.downloadAttachment(attachment.id, uri);
+      if ('error' in response && response.error) {
+        throw new Error(response.detail || 'Photo download failed');
+      }
+    }
+
+    const blob = Buffer.from(
+      await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 }),
+      'base64'
+    );
+
+    // A blob swapped or corrupted on the server never reaches the decoder
+    const digest = await this.digest(blob);
+    if (blob.length !== attachment.size || digest !== attachment.digest) {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+      throw new Error('Photo failed verification');
+    }
+
+    const key = Buffer.from(attachment.key, 'base64');
+    if (key.length !== this.KEY_SIZE || blob.length < this.IV_SIZE + AES_GCM_TAG_SIZE) {
+      throw new Error('Invalid photo attachment');
+    }
+
+    const plaintext = await this.open(new Uint8Array(key), blob);
+    if (!plaintext) {
+      throw new Error('Unable to decrypt photo');
+    }
+
+    const dataUri = this.toDataUri(attachment.mime, plaintext);
+    this.remember(attachment.id, dataUri);
+    return dataUri;
+  }
+
+  // ==========================================================================
+  // CRYPTO
+  // ==========================================================================
+
+  /**
+   * iv || ciphertext || tag, whichever implementation sealed it
+   */
+  private async seal(key: Uint8Array, plaintext: Buffer): Promise<Buffer> {
+    if (AesGcmCrypto) {
+      const result = await AesGcmCrypto.encrypt(
+        plaintext.toString('base64'),
+        true,
+        Buffer.from(key).toString('base64')
+      );
+      return Buffer.concat([
+        Buffer.from(result.iv, 'hex'),
+        Buffer.from(result.content, 'base64'),
+        Buffer.from(result.tag, 'hex'),
+      ]);
+    }
+
+    const iv = new Uint8Array(await Crypto.getRandomBytesAsync(this.IV_SIZE));
+    const { ciphertext, tag } = aesGcmEncrypt(key, iv, new Uint8Array(plaintext));
+    return Buffer.concat([iv, ciphertext, tag]);
+  }
+
+  private async open(key: Uint8Array, blob: Buffer): Promise<Buffer | null> {
+    const iv = blob.subarray(0, this.IV_SIZE);
+    const ciphertext = blob.subarray(this.IV_SIZE, blob.length - AES_GCM_TAG_SIZE);
+    const tag = blob.subarray(blob.length - AES_GCM_TAG_SIZE);
+
+    if (AesGcmCrypto) {
+      try {
+        const plaintext = await AesGcmCrypto.decrypt(
+          ciphertext.toString('base64'),
+          Buffer.from(key).toString('base64'),
+          iv.toString('hex'),
+          tag.toString('hex'),
+          true
+        );
+        return plaintext ? Buffer.from(plaintext, 'base64') : null;
+      } catch {
+        return null;
+      }
+    }
+
+    const plaintext = aesGcmDecrypt(key, new Uint8Array(iv), new Uint8Array(ciphertext), new Uint8Array(tag));
+    return plaintext ? Buffer.from(plaintext) : null;
+  }
+
+  /**
+   * SHA-256 of a blob (hex), computed natively
+   */
+  private async digest(blob: Buffer): Promise<string> {
+    const hash = await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, new Uint8Array(blob));
+    return Buffer.from(hash).toString('hex');
+  }
+
+  // ==========================================================================
+  // CACHE
+  // ==========================================================================
+
+  /**
+   * Drop decrypted images and downloaded blobs (sign out)
+   */
+  async clearCache(): Promise<void> {
+    this.decrypted.clear();
+    try {
+      await FileSystem.deleteAsync(this.CACHE_DIR, { idempotent: true });
+    } catch (error) {
+      console.warn('Failed to clear attachment cache:', error);
+    }
+  }
+
+  private remember(id: string, dataUri: string): void {
+    this.decrypted.delete(id);
+    this.decrypted.set(id, dataUri);
+
+    while (this.decrypted.size > this.MEMORY_CACHE_SIZE) {
+      const oldest = this.decrypted.keys().next().value;
+      if (oldest === undefined) break;
+      this.decrypted.delete(oldest);
+    }
+  }
+
+  private toDataUri(mime: string, bytes: Buffer): string {
+    return `data:${mime};base64,${bytes.toString('base64')}`;
+  }
+
+  private blobUri(id: string): string {
+    return `${this.CACHE_DIR}${id.replace(/[^A-Za-z0-9_-]/g, '_')}.bin`;
+  }
+
+  private async ensureCacheDir(): Promise<void> {
+    const info = await FileSystem.getInfoAsync(this.CACHE_DIR);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(this.CACHE_DIR, { intermediates: true });
+    }
+  }
+}
+
+// Create singleton instance
+const attachmentService = new AttachmentService();
+
+export default attachmentService;
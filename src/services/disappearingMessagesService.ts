@@ -0,0 +1,289 @@
+// src/services/disappearingMessagesService.ts
+/**
+ * Messaggi a scomparsa con timer per conversazione
+ *
+ * - Timer per conversazione: off, 5 min, 1 h, 1 giorno, 1 settimana
+ * - Il timer si cambia con un messaggio di controllo cifrato: vince il più recente
+ * - Ogni messaggio porta il proprio timer nel corpo cifrato, così entrambi i client
+ *   lo fanno scadere allo stesso momento
+ * - Alla scadenza: cancellato dall'archivio locale e richiesto al server
+ * - Gli id scaduti restano come tombstone, per non mostrare di nuovo ciò che il server restituisce
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import apiService from './api';
+import messageStoreService from './messageStoreService';
+
+export const DISAPPEARING_TIMERS = [0, 5 * 60, 60 * 60, 24 * 60 * 60, 7 * 24 * 60 * 60];
+
+const TIMER_LABELS: Record<number, { short: string; long: string }> = {
+  0: { short: 'Off', long: 'Off' },
+  [5 * 60]: { short: '5m', long: '5 minutes' },
+  [60 * 60]: { short: '1h', long: '1 hour' },
+  [24 * 60 * 60]: { short: '1d', long: '1 day' },
+  [7 * 24 * 60 * 60]: { short: '1w', long: '1 week' },
+};
+
+export interface ConversationTimer {
+  seconds: number;    // 0 = off
+  updatedAt: number;  // Timestamp (seconds) of the control message that set it
+}
+
+interface ScheduledExpiry {
+  conversationKey: string;
+  messageId: string;
+  expiresAt: number;  // ms
+}
+
+interface ExpiryIndex {
+  scheduled: ScheduledExpiry[];
+  expired: string[];        // Tombstones, newest last
+  serverPending: string[];  // Deletions the server has not confirmed yet
+}
+
+export type DisappearingEvent =
+  | { type: 'timer'; conversationKey: string; timer: ConversationTimer }
+  | { type: 'expired'; conversationKey: string; messageIds: string[] };
+
+type DisappearingListener = (event: DisappearingEvent) => void;
+
+const TIMER_OFF: ConversationTimer = { seconds: 0, updatedAt: 0 };
+
+export function formatDisappearingTimer(seconds: number, short: boolean = false): string {
+  const label = TIMER_LABELS[seconds];
+  if (!label) return `${seconds}s`;
+  return short ? label.short : label.long;
+}
+
+class DisappearingMessagesService {
+  private readonly TIMER_PREFIX = '@disappearing_timer_';
+  private readonly INDEX_KEY = '@disappearing_index';
+  private readonly MAX_TOMBSTONES = 1000;
+
+  private listeners: DisappearingListener[] = [];
+  private sweepTimer: ReturnType<typeof setTimeout> | null = null;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  // ==========================================================================
+  // TIMERS
+  // ==========================================================================
+
+  async getTimer(conversationKey: string): Promise<ConversationTimer> {
+    try {
+      const stored = await AsyncStorage.getItem(`${this.TIMER_PREFIX}${conversationKey}`);
+      return stored ? JSON.parse(stored) : TIMER_OFF;
+    } catch (error) {
+      console.warn('Failed to load disappearing timer:', error);
+      return TIMER_OFF;
+    }
+  }
+
+  /**
+   * Apply a timer from a control message (ours or the partner's).
+   * An older control message delivered late does not override a newer one.
+   * @returns whether the timer changed
+   */
+  async setTimer(conversationKey: string, seconds: number, updatedAt: number): Promise<boolean> {
+    if (!DISAPPEARING_TIMERS.includes(seconds)) {
+      console.warn('⚠️ Ignoring unknown disappearing timer:', seconds);
+      return false;
+    }
+
+    const current = await this.getTimer(conversationKey);
+    if (updatedAt < current.updatedAt) return false;
+
+    const timer: ConversationTimer = { seconds, updatedAt };
+    await AsyncStorage.setItem(`${this.TIMER_PREFIX}${conversationKey}`, JSON.stringify(timer));
+    this.emit({ type: 'timer', conversationKey, timer });
+
+    console.log(`⏱️ Disappearing messages for ${conversationKey}: ${formatDisappearingTimer(seconds)}`);
+    return current.seconds !== seconds;
+  }
+
+  // ==========================================================================
+  // EXPIRY
+  // ==========================================================================
+
+  /**
+   * Schedule messages that carry a timer
+   * @param messages timestamps in seconds, expiresIn in seconds
+   */
+  async schedule(
+    conversationKey: string,
+    messages: { id: string; timestamp: number; expiresIn: number }[]
+  ): Promise<void> {
+    if (messages.length === 0) return;
+
+    await this.withLock(async () => {
+      const index = await this.getIndex();
+      const known = new Set(index.scheduled.map(entry => entry.messageId));
+
+      for (const message of messages) {
+        if (known.has(message.id) || index.expired.includes(message.id)) continue;
+        index.scheduled.push({
+          conversationKey,
+          messageId: message.id,
+          expiresAt: (message.timestamp + message.expiresIn) * 1000,
+        });
+      }
+
+      await this.saveIndex(index);
+    });
+
+    await this.sweep();
+  }
+
+  /**
+   * Messages that already disappeared: the server may still return them
+   */
+  async getExpiredIds(): Promise<Set<string>> {
+    const index = await this.getIndex();
+    return new Set(index.expired);
+  }
+
+  /**
+   * Delete everything that has expired, then wait for the next expiry.
+   * Call on startup and when the app returns to the foreground: JS timers
+   * do not run in the background.
+   */
+  async sweep(): Promise<void> {
+    if (this.sweepTimer) {
+      clearTimeout(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    const now = Date.now();
+    const { due, serverPending, nextExpiry } = await this.withLock(async () => {
+      const index = await this.getIndex();
+      const due = index.scheduled.filter(entry => entry.expiresAt <= now);
+      const scheduled = index.scheduled.filter(entry => entry.expiresAt > now);
+      const dueIds = due.map(entry => entry.messageId);
+
+      await this.saveIndex({
+        scheduled,
+        expired: [...index.expired, ...dueIds].slice(-this.MAX_TOMBSTONES),
+        serverPending: [...index.serverPending, ...dueIds],
+      });
+
+      return {
+        due,
+        serverPending: [...index.serverPending, ...dueIds],
+        nextExpiry: scheduled.length > 0 ? Math.min(...scheduled.map(entry => entry.expiresAt)) : null,
+      };
+    });
+
+    // Local copies first: they go even if the server is unreachable
+    const byConversation = new Map<string, string[]>();
+    for (const entry of due) {
+      byConversation.set(entry.conversationKey, [
+        ...(byConversation.get(entry.conversationKey) || []),
+        entry.messageId,
+      ]);
+    }
+    for (const [conversationKey, messageIds] of byConversation) {
+      await messageStoreService.deleteMessages(conversationKey, messageIds).catch(error => {
+        console.warn('Failed to delete expired messages:', error);
+      });
+      this.emit({ type: 'expired', conversationKey, messageIds });
+    }
+
+    if (serverPending.length > 0) {
+      await this.requestServerDeletion(serverPending);
+    }
+
+    if (nextExpiry !== null) {
+      // setTimeout overflows past ~24.8 days; a week is well within it
+      this.sweepTimer = setTimeout(() => {
+        this.sweep().catch(error => console.warn('Disappearing sweep failed:', error));
+      }, Math.max(nextExpiry - Date.now(), 1000));
+    }
+
+    if (due.length > 0) {
+      console.log(`🗑️ ${due.length} disappearing messages expired`);
+    }
+  }
+
+  private async requestServerDeletion(messageIds: string[]): Promise<void> {
+    const confirmed: string[] = [];
+    for (const messageId of messageIds) {
+      const response = await apiService.deleteMessage(messageId);
+      // Not found or not ours to delete: nothing left to retry
+      if (!response?.error || (response.status && response.status < 500)) {
+        confirmed.push(messageId);
+      }
+    }
+
+    if (confirmed.length === 0) return;
+    await this.withLock(async () => {
+      const index = await this.getIndex();
+      index.serverPending = index.serverPending.filter(id => !confirmed.includes(id));
+      await this.saveIndex(index);
+    });
+  }
+
+  // ==========================================================================
+  // CLEANUP
+  // ==========================================================================
+
+  async clearAll(): Promise<void> {
+    if (this.sweepTimer) {
+      clearTimeout(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(
+      keys.filter(key => key.startsWith(this.TIMER_PREFIX) || key === this.INDEX_KEY)
+    );
+  }
+
+  // ==========================================================================
+  // EVENTS
+  // ==========================================================================
+
+  on(callback: DisappearingListener): void {
+    this.listeners.push(callback);
+  }
+
+  off(callback: DisappearingListener): void {
+    this.listeners = this.listeners.filter(cb => cb !== callback);
+  }
+
+  private emit(event: DisappearingEvent): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.warn('Disappearing listener failed:', error);
+      }
+    });
+  }
+
+  // ==========================================================================
+  // STORAGE
+  // ==========================================================================
+
+  private async getIndex(): Promise<ExpiryIndex> {
+    try {
+      const stored = await AsyncStorage.getItem(this.INDEX_KEY);
+      if (stored) return JSON.parse(stored);
+    } catch (error) {
+      console.warn('Failed to load disappearing index:', error);
+    }
+    return { scheduled: [], expired: [], serverPending: [] };
+  }
+
+  private async saveIndex(index: ExpiryIndex): Promise<void> {
+    await AsyncStorage.setItem(this.INDEX_KEY, JSON.stringify(index));
+  }
+
+  private async withLock<T>(task: () => Promise<T>): Promise<T> {
+    const current = this.lock.catch(() => undefined).then(task);
+    this.lock = current;
+    return current;
+  }
+}
+
+// Create singleton instance
+const disappearingMessagesService = new DisappearingMessagesService();
+
+export default disappearingMessagesService;
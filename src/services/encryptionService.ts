@@ -4,9 +4,15 @@
  *
  * Implementa:
  * - AES-256-GCM per crittografia simmetrica dei messaggi
+ * - AES-256-GCM in puro JS se manca il modulo nativo (stesso formato, interoperabile)
  * - X25519/Curve25519 per key exchange sicuro (via tweetnacl)
  * - Storage sicuro delle chiavi con Keychain/Keystore
  * - Key Commitment per prevenire key substitution attacks
+ * - Double Ratchet per forward secrecy (una chiave per messaggio)
+ * - Envelope versionato: AAD su mittente/destinatario/sessione/contatore e finestra anti-replay
+ * - Padding del plaintext a taglie fisse per nascondere la lunghezza dei messaggi
+ * - Prekey bundle (X3DH) per cifrare subito verso match offline
+ * - Safety number (numerico + QR) per la verifica manuale delle chiavi
  * - Fallback graceful per dispositivi non supportati
  * - Operazioni automatiche e silenziose per zero-friction UX
  */
@@ -16,6 +22,32 @@ import { Platform } from 'react-native';
 import nacl from 'tweetnacl';
 import util from 'tweetnacl-util';
 import secureKeyService from './secureKeyService';
+import ratchetService, { RatchetHeader } from './ratchetService';
+import prekeyService, { PrekeyMessageHeader } from './prekeyService';
+import { sha256, concatBytes } from '@/utils/cryptoPrimitives';
+import { aesGcmEncrypt, aesGcmDecrypt } from '@/utils/aesGcm';
+import {
+  ENVELOPE_VERSION,
+  SUPPORTED_ENVELOPE_VERSIONS,
+  EnvelopeContext,
+  ReplayWindow,
+  buildEnvelopeAad,
+  isValidCounter,
+  emptyReplayWindow,
+  isFreshCounter,
+  acceptCounter,
+  isPaddedEnvelope,
+  isFrankedEnvelope,
+  padPlaintext,
+  unpadPlaintext,
+} from '@/utils/messageEnvelope';
+import {
+  FRANKING_KEY_SIZE,
+  FrankingOpening,
+  computeFrankingCommitment,
+  frameFrankedPlaintext,
+  openFrankedPlaintext,
+} from '@/utils/franking';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 // Try to load native AES module
@@ -38,6 +70,32 @@ interface EncryptedData {
   tag: string;
   algorithm?: string;
   commitment?: string; // Key commitment for preventing key substitution
+  ratchet?: RatchetHeader; // Present when the key came from the session ratchet
+  x3dh?: PrekeyMessageHeader; // Present until the partner has answered a prekey session
+  v?: number; // Envelope version, absent on messages from older clients
+  counter?: number; // Per-sender message counter, authenticated as AAD
+  franking?: string; // Franking commitment (v4), authenticated as AAD
+}
+
+interface SealOptions {
+  aad?: Uint8Array;  // Associated data authenticated with the ciphertext
+  padded?: boolean;  // Plaintext padded to a bucket size
+}
+
+export interface SealedMessage {
+  encrypted: string;
+  franking?: string; // Commitment for the server to countersign
+}
+
+export interface OpenedMessage {
+  plaintext: string;
+  franking?: FrankingOpening; // Lets the recipient report this message
+}
+
+interface EnvelopeState {
+  sendCounter: number;
+  window: ReplayWindow;
+  enveloped: boolean; // Partner sends versioned envelopes: unversioned ones are rejected
 }
 
 interface CachedKey {
@@ -53,20 +111,31 @@ interface SessionInfo {
   hasCommitment: boolean;
   recipientId?: string;
   status?: 'active' | 'pending' | 'expired';
+  keyExchangeType?: 'x25519-client' | 'x3dh';
+  myIdentityKey?: string;
+  theirIdentityKey?: string;
+  pendingPrekeyHeader?: PrekeyMessageHeader; // Attached to outgoing messages until acknowledged
 }
 
 class EncryptionService {
   private readonly ALGORITHM = 'aes-256-gcm';
+  private readonly LEGACY_SECRETBOX_ALGORITHM = 'xchacha20-poly1305'; // Label used by old fallback clients
   private readonly KEY_SIZE = 32; // 256 bits
   private readonly TAG_SIZE = 16; // 128 bits
   private readonly IV_SIZE = 12; // 96 bits for GCM
+  private readonly MAX_SEALED_SIZE = 64 * 1024; // Envelopes carry chat bodies; files go through attachmentService
   private readonly CURVE_TYPE = 'x25519';
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+  private readonly SAFETY_NUMBER_VERSION = 1;
+  private readonly SAFETY_NUMBER_ITERATIONS = 1024;
+  private readonly SAFETY_NUMBER_QR_PREFIX = 'notamy-sn:1:';
+  private readonly ENVELOPE_PREFIX = '@envelope_';
   
   private isNativeAesAvailable: boolean;
   private isInitialized: boolean = false;
   private initializationPromise: Promise<void> | null = null;
   private keyCache: Map<string, CachedKey> = new Map();
+  private envelopeLocks: Map<string, Promise<unknown>> = new Map();
 
   constructor() {
     this.isNativeAesAvailable = this.checkAesAvailability();
@@ -281,8 +350,13 @@ class EncryptionService {
   /**
    * Encrypt a message using AES-256-GCM
    * Automatically uses best available method
+   *
+   * react-native-aes-gcm-crypto has no AAD parameter, so sealed envelopes
+   * (AAD, padding) always use the JS cipher. That path is limited to
+   * MAX_SEALED_SIZE: chat bodies only. Files are encrypted natively by
+   * attachmentService and only their key travels in the envelope.
    */
-  async encrypt(message: string, keyBase64: string): Promise<string> {
+  async encrypt(message: string, keyBase64: string, options: SealOptions = {}): Promise<string> {
     if (!message) {
       throw new Error('Cannot encrypt empty message');
     }
@@ -291,8 +365,8 @@ class EncryptionService {
       throw new Error('Invalid encryption key');
     }
 
-    // Try native AES first
-    if (this.isNativeAesAvailable) {
+    // Try native AES first (unsealed messages only, see above)
+    if (this.isNativeAesAvailable && !options.aad && !options.padded) {
       try {
         return await this.encryptNative(message, keyBase64);
       } catch (error) {
@@ -301,15 +375,15 @@ class EncryptionService {
     }
 
     // Fallback to JavaScript implementation
-    return await this.encryptFallback(message, keyBase64);
+    return await this.encryptFallback(message, keyBase64, options);
   }
 
   /**
    * Encrypt with Key Commitment to prevent key substitution attacks
    * Used automatically for new messages
    */
-  async encryptWithCommitment(message: string, keyBase64: string): Promise<string> {
-    const encrypted = await this.encrypt(message, keyBase64);
+  async encryptWithCommitment(message: string, keyBase64: string, options: SealOptions = {}): Promise<string> {
+    const encrypted = await this.encrypt(message, keyBase64, options);
     const parsed = JSON.parse(encrypted);
     
     // Add commitment to prevent key substitution
@@ -376,38 +450,31 @@ class EncryptionService {
   }
 
   /**
-   * Fallback encryption using tweetnacl
+   * Fallback encryption: pure-JS AES-256-GCM, same wire format as the native module
    */
-  private async encryptFallback(message: string, keyBase64: string): Promise<string> {
+  private async encryptFallback(message: string, keyBase64: string, options: SealOptions = {}): Promise<string> {
     try {
-      // Generate nonce (24 bytes for nacl.secretbox)
-      const nonceBytes = await Crypto.getRandomBytesAsync(24);
-      const nonce = new Uint8Array(nonceBytes);
-      
-      // Prepare message
-      const messageBytes = util.decodeUTF8(message);
-      
-      // Prepare key (32 bytes)
+      const iv = new Uint8Array(await Crypto.getRandomBytesAsync(this.IV_SIZE));
       const keyBytes = util.decodeBase64(keyBase64);
-      if (keyBytes.length !== 32) {
+      if (keyBytes.length !== this.KEY_SIZE) {
         throw new Error('Invalid key size for encryption');
       }
-      
-      // Encrypt using nacl.secretbox
-      const encrypted = nacl.secretbox(messageBytes, nonce, keyBytes);
-      
-      if (!encrypted) {
-        throw new Error('Encryption failed');
+
+      const plaintext = util.decodeUTF8(message);
+      const sealed = options.padded ? padPlaintext(plaintext) : plaintext;
+      if ((options.aad || options.padded) && sealed.length > this.MAX_SEALED_SIZE) {
+        throw new Error('Message too large for an envelope');
       }
-      
-      // Format for compatibility
+
+      const { ciphertext, tag } = aesGcmEncrypt(keyBytes, iv, sealed, options.aad);
+
       const result: EncryptedData = {
-        iv: util.encodeBase64(nonce), // Using nonce as IV
-        content: util.encodeBase64(encrypted),
-        tag: '', // nacl.secretbox includes auth tag in ciphertext
-        algorithm: 'xchacha20-poly1305' // What nacl.secretbox actually uses
+        iv: Buffer.from(iv).toString('hex'),
+        content: util.encodeBase64(ciphertext),
+        tag: Buffer.from(tag).toString('hex'),
+        algorithm: this.ALGORITHM
       };
-      
+
       return JSON.stringify(result);
     } catch (error: any) {
       throw new Error(`Fallback encryption failed: ${error.message}`);
@@ -416,8 +483,10 @@ class EncryptionService {
 
   /**
    * Decrypt a message with optional commitment verification
+   * Options must match the ones the sender sealed with (they follow the envelope version).
+   * Sealed envelopes take the JS cipher, up to MAX_SEALED_SIZE (see encrypt)
    */
-  async decrypt(encryptedData: string | any, keyBase64: string): Promise<string> {
+  async decrypt(encryptedData: string | any, keyBase64: string, options: SealOptions = {}): Promise<string> {
     if (!encryptedData) {
       throw new Error('No data to decrypt');
     }
@@ -441,13 +510,13 @@ class EncryptionService {
       await this.verifyCommitment(parsed, keyBase64);
     }
 
-    // Check algorithm and decrypt accordingly
-    if (parsed.algorithm === 'xchacha20-poly1305') {
-      return await this.decryptFallback(parsed, keyBase64);
+    // Messages from older fallback clients used nacl.secretbox
+    if (parsed.algorithm === this.LEGACY_SECRETBOX_ALGORITHM) {
+      return await this.decryptLegacySecretbox(parsed, keyBase64);
     }
 
-    // Try native AES first
-    if (this.isNativeAesAvailable) {
+    // Try native AES first (unsealed messages only)
+    if (this.isNativeAesAvailable && !options.aad && !options.padded) {
       try {
         return await this.decryptNative(parsed, keyBase64);
       } catch (error) {
@@ -456,7 +525,7 @@ class EncryptionService {
     }
 
     // Try fallback
-    return await this.decryptFallback(parsed, keyBase64);
+    return await this.decryptFallback(parsed, keyBase64, options);
   }
 
   /**
@@ -520,9 +589,54 @@ class EncryptionService {
   }
 
   /**
-   * Fallback decryption using tweetnacl
+   * Fallback decryption: pure-JS AES-256-GCM
+   */
+  private async decryptFallback(data: EncryptedData, keyBase64: string, options: SealOptions = {}): Promise<string> {
+    try {
+      if (!data.content || !data.iv || !data.tag) {
+        throw new Error('Missing required decryption parameters');
+      }
+
+      const key = util.decodeBase64(keyBase64);
+      if (key.length !== this.KEY_SIZE) {
+        throw new Error('Invalid key size for decryption');
+      }
+
+      const ciphertext = util.decodeBase64(data.content);
+      if ((options.aad || options.padded) && ciphertext.length > this.MAX_SEALED_SIZE) {
+        throw new Error('Envelope too large');
+      }
+
+      const decrypted = aesGcmDecrypt(
+        key,
+        new Uint8Array(Buffer.from(data.iv, 'hex')),
+        ciphertext,
+        new Uint8Array(Buffer.from(data.tag, 'hex')),
+        options.aad
+      );
+
+      if (!decrypted) {
+        throw new Error('Invalid key or corrupted message');
+      }
+
+      if (options.padded) {
+        const unpadded = unpadPlaintext(decrypted);
+        if (!unpadded) {
+          throw new Error('Invalid message padding');
+        }
+        return util.encodeUTF8(unpadded);
+      }
+
+      return util.encodeUTF8(decrypted);
+    } catch (error: any) {
+      throw new Error(`Fallback decryption failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Legacy decryption using tweetnacl (messages sent before the JS AES fallback)
    */
-  private async decryptFallback(data: EncryptedData, keyBase64: string): Promise<string> {
+  private async decryptLegacySecretbox(data: EncryptedData, keyBase64: string): Promise<string> {
     try {
       const nonce = util.decodeBase64(data.iv);
       const ciphertext = util.decodeBase64(data.content);
@@ -541,14 +655,310 @@ class EncryptionService {
       
       return util.encodeUTF8(decrypted);
     } catch (error: any) {
-      throw new Error(`Fallback decryption failed: ${error.message}`);
+      throw new Error(`Legacy decryption failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Start the Double Ratchet for a session from a completed X25519 exchange.
+   * Until this runs the session keeps using its static shared key.
+   */
+  async initializeRatchet(
+    sessionId: string,
+    sharedKey: string,
+    myKeyPair: KeyPair,
+    theirPublicKey: string
+  ): Promise<boolean> {
+    try {
+      await ratchetService.initializeFromExchange(sessionId, sharedKey, myKeyPair, theirPublicKey);
+      return true;
+    } catch (error) {
+      console.warn('Failed to initialize ratchet:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Start a session with a partner who may be offline, using their
+   * published prekey bundle. Returns null if no valid bundle exists.
+   */
+  async startPrekeySession(recipientId: string): Promise<SessionInfo | null> {
+    try {
+      const initiated = await prekeyService.initiateSession(recipientId);
+      if (!initiated) return null;
+
+      const sessionId = await this.generateSessionId();
+      const info: Partial<SessionInfo> = {
+        recipientId,
+        keyExchangeType: 'x3dh',
+        myIdentityKey: initiated.header.identity_key,
+        theirIdentityKey: initiated.theirIdentityKey,
+        pendingPrekeyHeader: initiated.header,
+      };
+
+      await this.storeKey(sessionId, initiated.sharedSecret, info);
+      await ratchetService.initializeAsInitiator(
+        sessionId,
+        initiated.sharedSecret,
+        initiated.theirRatchetKey
+      );
+
+      console.log('✅ Prekey session started');
+      return await this.getSessionInfo(sessionId);
+    } catch (error) {
+      console.warn('Failed to start prekey session:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Recipient side of a prekey session, triggered by the first message.
+   * The session is derived in memory and kept only if that message opens:
+   * then the one-time prekey is consumed and the key stored.
+   */
+  private async acceptPrekeySession<T>(
+    sessionId: string,
+    header: PrekeyMessageHeader,
+    ratchet: RatchetHeader,
+    open: (messageKey: string) => Promise<T>
+  ): Promise<T> {
+    const accepted = await prekeyService.acceptSession(header);
+
+    const result = await ratchetService.decryptAsResponder(
+      sessionId,
+      accepted.sharedSecret,
+      accepted.ratchetKeyPair,
+      ratchet,
+      open
+    );
+
+    await this.storeKey(sessionId, accepted.sharedSecret, {
+      keyExchangeType: 'x3dh',
+      myIdentityKey: await prekeyService.getIdentityPublicKey(),
+      theirIdentityKey: accepted.theirIdentityKey,
+    });
+    if (accepted.oneTimePrekeyId !== undefined) {
+      await prekeyService.consumeOneTimePrekey(accepted.oneTimePrekeyId);
+    }
+
+    console.log('✅ Prekey session accepted');
+    return result;
+  }
+
+  /**
+   * Encrypt a message for a session.
+   * Uses a fresh ratchet message key when the session has a ratchet,
+   * otherwise the stored static session key.
+   * With a context the message goes out in a versioned envelope, bound to
+   * sender, recipient, session and the next counter, and franked: the
+   * franking key is encrypted with the body, the commitment travels beside it.
+   */
+  async encryptForSession(sessionId: string, message: string, context?: EnvelopeContext): Promise<SealedMessage> {
+    let envelope: Pick<EncryptedData, 'v' | 'counter' | 'franking'> = {};
+    let options: SealOptions = {};
+    if (context) {
+      const counter = await this.nextSendCounter(sessionId);
+      let franking: string | undefined;
+      if (isFrankedEnvelope(ENVELOPE_VERSION)) {
+        const frankingKey = util.encodeBase64(
+          new Uint8Array(await Crypto.getRandomBytesAsync(FRANKING_KEY_SIZE))
+        );
+        franking = computeFrankingCommitment(frankingKey, message);
+        message = frameFrankedPlaintext(frankingKey, message);
+      }
+
+      envelope = { v: ENVELOPE_VERSION, counter, franking };
+      options = {
+        aad: buildEnvelopeAad(ENVELOPE_VERSION, context, sessionId, counter, franking),
+        padded: isPaddedEnvelope(ENVELOPE_VERSION),
+      };
+    }
+
+    if (await ratchetService.hasSession(sessionId)) {
+      const { header, sealed } = await ratchetService.encrypt(sessionId, messageKey =>
+        this.encrypt(message, messageKey, options)
+      );
+
+      const parsed: EncryptedData = { ...JSON.parse(sealed), ...envelope };
+      parsed.ratchet = header;
+
+      const info = await this.getSessionInfo(sessionId);
+      if (info?.pendingPrekeyHeader) {
+        parsed.x3dh = info.pendingPrekeyHeader;
+      }
+
+      return { encrypted: JSON.stringify(parsed), franking: envelope.franking };
+    }
+
+    const key = await this.getStoredKey(sessionId);
+    if (!key) {
+      throw new Error('No key for session');
+    }
+    const sealed = await this.encryptWithCommitment(message, key, options);
+    return { encrypted: JSON.stringify({ ...JSON.parse(sealed), ...envelope }), franking: envelope.franking };
+  }
+
+  /**
+   * Decrypt a message received in a session.
+   * Ratchet messages advance the receiving chain only if they decrypt.
+   * Versioned envelopes are checked against the expected context and the
+   * replay window; their counter is recorded only once they decrypt.
+   * Franked envelopes must open their commitment, or the message is rejected:
+   * a message we could not report is not shown.
+   */
+  async decryptForSession(sessionId: string, encryptedData: string | any, context?: EnvelopeContext): Promise<OpenedMessage> {
+    let parsed: EncryptedData;
+    try {
+      parsed = typeof encryptedData === 'string'
+        ? JSON.parse(encryptedData)
+        : encryptedData;
+    } catch {
+      throw new Error('Invalid encrypted data format');
+    }
+
+    if (!context) {
+      return { plaintext: await this.openForSession(sessionId, parsed) };
+    }
+
+    return this.withEnvelopeLock(sessionId, async () => {
+      const state = await this.loadEnvelopeState(sessionId);
+
+      if (parsed.v === undefined) {
+        // Stripping the version cannot forge a message, but it would skip the replay check
+        if (state.enveloped) {
+          throw new Error('Unversioned message in a versioned session');
+        }
+        return { plaintext: await this.openForSession(sessionId, parsed) };
+      }
+
+      if (!SUPPORTED_ENVELOPE_VERSIONS.includes(parsed.v)) {
+        throw new Error(`Unsupported envelope version ${parsed.v}`);
+      }
+      if (!isValidCounter(parsed.counter)) {
+        throw new Error('Invalid message counter');
+      }
+      if (!isFreshCounter(state.window, parsed.counter)) {
+        throw new Error('Replayed or expired message');
+      }
+
+      const franked = isFrankedEnvelope(parsed.v);
+      if (franked && typeof parsed.franking !== 'string') {
+        throw new Error('Missing franking commitment');
+      }
+
+      let plaintext = await this.openForSession(sessionId, parsed, {
+        aad: buildEnvelopeAad(
+          parsed.v,
+          context,
+          sessionId,
+          parsed.counter,
+          franked ? parsed.franking : undefined
+        ),
+        padded: isPaddedEnvelope(parsed.v),
+      });
+
+      let franking: FrankingOpening | undefined;
+      if (franked) {
+        const opened = openFrankedPlaintext(plaintext, parsed.franking as string);
+        if (!opened) {
+          throw new Error('Franking commitment mismatch');
+        }
+        plaintext = opened.body;
+        franking = opened.franking;
+      }
+
+      await this.saveEnvelopeState(sessionId, {
+        ...state,
+        window: acceptCounter(state.window, parsed.counter),
+        enveloped: true,
+      });
+
+      return { plaintext, franking };
+    });
+  }
+
+  private async openForSession(sessionId: string, parsed: EncryptedData, options: SealOptions = {}): Promise<string> {
+    if (parsed.ratchet) {
+      const { ratchet, x3dh, ...payload } = parsed;
+      const open = (messageKey: string) => this.decrypt(payload, messageKey, options);
+
+      const plaintext = x3dh && !(await ratchetService.hasSession(sessionId))
+        ? await this.acceptPrekeySession(sessionId, x3dh, ratchet, open)
+        : await ratchetService.decrypt(sessionId, ratchet, open);
+
+      // The partner answered: they have the session, stop sending the header
+      if (!x3dh) {
+        await this.clearPendingPrekeyHeader(sessionId);
+      }
+
+      return plaintext;
+    }
+
+    const key = await this.getStoredKey(sessionId);
+    if (!key) {
+      throw new Error('No key for session');
+    }
+    return await this.decrypt(parsed, key, options);
+  }
+
+  // ==========================================================================
+  // ENVELOPE STATE
+  // ==========================================================================
+
+  private async nextSendCounter(sessionId: string): Promise<number> {
+    return this.withEnvelopeLock(sessionId, async () => {
+      const state = await this.loadEnvelopeState(sessionId);
+      const counter = state.sendCounter + 1;
+      await this.saveEnvelopeState(sessionId, { ...state, sendCounter: counter });
+      return counter;
+    });
+  }
+
+  private async loadEnvelopeState(sessionId: string): Promise<EnvelopeState> {
+    try {
+      const stored = await AsyncStorage.getItem(`${this.ENVELOPE_PREFIX}${sessionId}`);
+      if (stored) {
+        return JSON.parse(stored);
+      }
+    } catch (error) {
+      console.warn('Failed to load envelope state:', error);
+    }
+    return { sendCounter: 0, window: emptyReplayWindow(), enveloped: false };
+  }
+
+  private async saveEnvelopeState(sessionId: string, state: EnvelopeState): Promise<void> {
+    await AsyncStorage.setItem(`${this.ENVELOPE_PREFIX}${sessionId}`, JSON.stringify(state));
+  }
+
+  /**
+   * Counters and replay window are read-modify-write: one operation per session at a time
+   */
+  private withEnvelopeLock<T>(sessionId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.envelopeLocks.get(sessionId) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.envelopeLocks.set(sessionId, next);
+
+    next.finally(() => {
+      if (this.envelopeLocks.get(sessionId) === next) {
+        this.envelopeLocks.delete(sessionId);
+      }
+    }).catch(() => undefined);
+
+    return next;
+  }
+
+  private async clearPendingPrekeyHeader(sessionId: string): Promise<void> {
+    const info = await this.getSessionInfo(sessionId);
+    if (info?.pendingPrekeyHeader) {
+      delete info.pendingPrekeyHeader;
+      await AsyncStorage.setItem(`@chat_session_${sessionId}`, JSON.stringify(info));
     }
   }
 
   /**
    * Store encryption key securely using SecureKeyService
    */
-  async storeKey(sessionId: string, key: string): Promise<boolean> {
+  async storeKey(sessionId: string, key: string, info?: Partial<SessionInfo>): Promise<boolean> {
     try {
       // Try secure storage first
       const success = await secureKeyService.storeKey(sessionId, key);
@@ -562,6 +972,8 @@ class EncryptionService {
       await AsyncStorage.setItem(
         `@chat_session_${sessionId}`,
         JSON.stringify({
+          ...info,
+          sessionId,
           created: Date.now(),
           algorithm: this.ALGORITHM,
           curve: this.CURVE_TYPE,
@@ -641,7 +1053,9 @@ class EncryptionService {
   async deleteStoredKey(sessionId: string): Promise<void> {
     try {
       await secureKeyService.deleteKey(sessionId);
+      await ratchetService.deleteSession(sessionId);
       await AsyncStorage.removeItem(`@chat_session_${sessionId}`);
+      await AsyncStorage.removeItem(`${this.ENVELOPE_PREFIX}${sessionId}`);
     } catch (error) {
       console.warn('Failed to delete key:', error);
     }
@@ -695,6 +1109,63 @@ class EncryptionService {
     }
   }
 
+  /**
+   * Safety number for a conversation: 60 digits in groups of 5.
+   * Both participants compute the same number (halves ordered by user id).
+   * Takes the long-term identity keys, so it survives re-keying.
+   */
+  generateSafetyNumber(
+    myUserId: string,
+    myIdentityKey: string,
+    theirUserId: string,
+    theirIdentityKey: string
+  ): string {
+    const mine = this.safetyNumberHalf(myUserId, myIdentityKey);
+    const theirs = this.safetyNumberHalf(theirUserId, theirIdentityKey);
+    return myUserId < theirUserId ? mine + theirs : theirs + mine;
+  }
+
+  /**
+   * Content of the verification QR code
+   */
+  getSafetyNumberQrPayload(safetyNumber: string): string {
+    return `${this.SAFETY_NUMBER_QR_PREFIX}${safetyNumber}`;
+  }
+
+  /**
+   * Compare a scanned QR payload with the local safety number
+   */
+  matchesSafetyNumberQr(payload: string, safetyNumber: string): boolean {
+    if (!payload.startsWith(this.SAFETY_NUMBER_QR_PREFIX)) return false;
+    return payload.slice(this.SAFETY_NUMBER_QR_PREFIX.length) === safetyNumber;
+  }
+
+  /**
+   * 30 digits bound to one user id and public key (iterated SHA-256)
+   */
+  private safetyNumberHalf(userId: string, publicKey: string): string {
+    const keyBytes = util.decodeBase64(publicKey);
+    let hash = concatBytes(
+      new Uint8Array([0x00, this.SAFETY_NUMBER_VERSION]),
+      keyBytes,
+      util.decodeUTF8(userId)
+    );
+    for (let i = 0; i < this.SAFETY_NUMBER_ITERATIONS; i++) {
+      hash = sha256(concatBytes(hash, keyBytes));
+    }
+
+    // 6 chunks of 5 bytes, each reduced to 5 digits
+    let digits = '';
+    for (let offset = 0; offset < 30; offset += 5) {
+      let chunk = 0;
+      for (let i = 0; i < 5; i++) {
+        chunk = chunk * 256 + hash[offset + i];
+      }
+      digits += String(chunk % 100000).padStart(5, '0');
+    }
+    return digits;
+  }
+
   /**
    * Check if encryption is available without errors
    */
@@ -713,7 +1184,8 @@ class EncryptionService {
    * Get the encryption algorithm
    */
   getAlgorithm(): string {
-    return this.isNativeAesAvailable ? this.ALGORITHM : 'xchacha20-poly1305';
+    // Native and JS paths produce the same AES-256-GCM output
+    return this.ALGORITHM;
   }
 
   /**
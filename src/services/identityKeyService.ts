@@ -0,0 +1,100 @@
+// src/services/identityKeyService.ts
+/**
+ * Registro delle chiavi identità dei contatti
+ *
+ * - Trust on first use: la prima chiave vista per un contatto è quella attesa
+ * - Una chiave diversa (reinstallazione, nuovo dispositivo, attacco) viene segnalata
+ * - Avvisi di cambio chiave salvati per conversazione, mostrati in chat
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export interface KeyChangeNotice {
+  id: string;
+  contactId: string;
+  timestamp: number; // Seconds, like chat messages
+}
+
+interface KnownIdentityKey {
+  key: string;
+  firstSeen: number;
+}
+
+class IdentityKeyService {
+  private readonly IDENTITY_PREFIX = '@identity_key_';
+  private readonly NOTICES_PREFIX = '@key_change_notices_';
+  private readonly MAX_NOTICES = 20;
+
+  /**
+   * Remember the identity key seen for a contact
+   * @returns the previously known key if it changed, null otherwise
+   */
+  async recordIdentityKey(contactId: string, identityKey: string): Promise<string | null> {
+    const storageKey = `${this.IDENTITY_PREFIX}${contactId}`;
+
+    try {
+      const stored = await AsyncStorage.getItem(storageKey);
+      const known: KnownIdentityKey | null = stored ? JSON.parse(stored) : null;
+
+      if (known?.key === identityKey) {
+        return null;
+      }
+
+      const record: KnownIdentityKey = { key: identityKey, firstSeen: Date.now() };
+      await AsyncStorage.setItem(storageKey, JSON.stringify(record));
+
+      if (known) {
+        console.warn(`⚠️ Identity key changed for ${contactId}`);
+        return known.key;
+      }
+      return null;
+    } catch (error) {
+      console.warn('Failed to record identity key:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Add a key-change notice to a conversation
+   */
+  async addKeyChangeNotice(conversationKey: string, contactId: string): Promise<KeyChangeNotice> {
+    const notice: KeyChangeNotice = {
+      id: `key_change_${Date.now()}`,
+      contactId,
+      timestamp: Date.now() / 1000,
+    };
+
+    const notices = await this.getKeyChangeNotices(conversationKey);
+    const updated = [...notices, notice].slice(-this.MAX_NOTICES);
+    await AsyncStorage.setItem(`${this.NOTICES_PREFIX}${conversationKey}`, JSON.stringify(updated));
+
+    return notice;
+  }
+
+  async getKeyChangeNotices(conversationKey: string): Promise<KeyChangeNotice[]> {
+    try {
+      const stored = await AsyncStorage.getItem(`${this.NOTICES_PREFIX}${conversationKey}`);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Forget every known key and notice (logout / wipe)
+   */
+  async clearAll(): Promise<void> {
+    const keys = await AsyncStorage.getAllKeys();
+    const ours = keys.filter(k =>
+      k.startsWith(this.IDENTITY_PREFIX) ||
+      k.startsWith(this.NOTICES_PREFIX)
+    );
+    if (ours.length > 0) {
+      await AsyncStorage.multiRemove(ours);
+    }
+  }
+}
+
+// Create singleton instance
+const identityKeyService = new IdentityKeyService();
+
+export default identityKeyService;
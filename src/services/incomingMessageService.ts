@@ -0,0 +1,82 @@
+// src/services/incomingMessageService.ts
+/**
+ * Messaggi in arrivo sul socket, anche a chat chiusa
+ *
+ * - Li apre appena arrivano: il tipo (testo, reazione, modifica, ...) è nel corpo cifrato
+ * - Li salva nell'archivio locale: le chiavi del ratchet valgono una volta sola
+ * - Modifiche, annullamenti e timer si applicano come nella chat aperta
+ * - La notifica si decide sul corpo decifrato: i messaggi di controllo restano silenziosi
+ */
+import sessionManager from './sessionManager';
+import messageStoreService, { StoredMessage } from './messageStoreService';
+import disappearingMessagesService from './disappearingMessagesService';
+import { MessageBody, parseMessageBody, messageExpiresIn, isControlMessage } from '@/utils/messageBody';
+import { controlChanges } from '@/utils/messageEdits';
+import { frankingReceipt } from '@/utils/franking';
+
+class IncomingMessageService {
+  /**
+   * Open, store and apply a message from the partner.
+   * @returns whether it deserves a notification
+   */
+  async receive(currentUserId: string, data: any): Promise<boolean> {
+    if (!data.encrypted_content || !data.message_id) return true;
+
+    const conversationKey = sessionManager.getConversationKey(currentUserId, data.sender_id);
+
+    let message: StoredMessage;
+    try {
+      const { plaintext, franking } = await sessionManager.decryptMessage(
+        conversationKey,
+        data.sender_id,
+        data
+      );
+      message = {
+        id: data.message_id,
+        sender_id: data.sender_id,
+        recipient_id: data.recipient_id,
+        content: plaintext,
+        timestamp: data.timestamp || Date.now() / 1000,
+        is_encrypted: true,
+        session_id: data.session_id,
+        metadata: data.metadata,
+        franking: frankingReceipt(franking, data.metadata),
+      };
+    } catch (error) {
+      // Can't tell what it is (yet): the chat retries when opened
+      console.warn('Failed to open incoming message:', data.message_id);
+      return true;
+    }
+
+    const body = parseMessageBody(message.content);
+    try {
+      await this.store(conversationKey, message, body);
+    } catch (error) {
+      console.warn('Failed to store incoming message:', error);
+    }
+    return !isControlMessage(body);
+  }
+
+  private async store(conversationKey: string, message: StoredMessage, body: MessageBody): Promise<void> {
+    await messageStoreService.saveMessages(conversationKey, [message]);
+
+    if (body.type === 'edit' || body.type === 'unsend') {
+      await messageStoreService.updateMessages(conversationKey, [body.target], target =>
+        controlChanges(target, message, body)
+      );
+    }
+    if (body.type === 'timer') {
+      await disappearingMessagesService.setTimer(conversationKey, body.seconds, message.timestamp);
+    }
+
+    const expiresIn = messageExpiresIn(body);
+    if (expiresIn) {
+      await disappearingMessagesService.schedule(conversationKey, [
+        { id: message.id, timestamp: message.timestamp, expiresIn },
+      ]);
+    }
+  }
+}
+
+const incomingMessageService = new IncomingMessageService();
+export default incomingMessageService;
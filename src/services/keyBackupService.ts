@@ -0,0 +1,409 @@
+// src/services/keyBackupService.ts
+/**
+ * Backup delle chiavi protetto da passphrase
+ *
+ * - Passphrase scelta dall'utente, derivata con scrypt (memory-hard)
+ * - File JSON portabile e autodescrittivo: header, parametri KDF, MAC, chiavi cifrate
+ * - Il MAC copre header e ciphertext: nessuna modifica passa inosservata
+ * - Export tramite share sheet, nessuna copia lasciata sul dispositivo
+ * - Restore: MAC e contenuto verificati prima di sovrascrivere qualsiasi chiave
+ * - Solo identità, prekey e verifiche: ratchet e contatori di un backup vecchio
+ *   sarebbero già superati, dopo il restore le conversazioni rinegoziano la chiave
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import { scrypt } from 'scrypt-js';
+import secureKeyService, { StoredKey } from './secureKeyService';
+import prekeyService from './prekeyService';
+import sessionManager from './sessionManager';
+import { hmacSha256, concatBytes, constantTimeEqual, wipeBytes } from '@/utils/cryptoPrimitives';
+
+/**
+ * Backup file layout (version 1):
+ * {
+ *   format, version, created,           header
+ *   kdf: { name, N, r, p, salt },       scrypt parameters
+ *   cipher: { name, nonce },            nacl.secretbox
+ *   ciphertext,                         encrypted BackupPayload
+ *   mac                                 HMAC-SHA256(header || ciphertext)
+ * }
+ */
+interface KdfParams {
+  name: 'scrypt';
+  N: number;
+  r: number;
+  p: number;
+  salt: string;
+}
+
+interface CipherParams {
+  name: 'xsalsa20-poly1305';
+  nonce: string;
+}
+
+interface BackupFile {
+  format: string;
+  version: number;
+  created: number;
+  kdf: KdfParams;
+  cipher: CipherParams;
+  ciphertext: string;
+  mac: string;
+}
+
+interface StorageRecord {
+  key: string;
+  value: string;
+}
+
+interface BackupPayload {
+  userId: string;
+  deviceId: string;
+  keys: StoredKey[];
+  records: StorageRecord[];
+}
+
+export interface VerifiedBackup {
+  created: number;
+  userId: string;
+  keysCount: number;
+  payload: BackupPayload;
+}
+
+class KeyBackupService {
+  private readonly FORMAT = 'notamy-key-backup';
+  private readonly VERSION = 1;
+  private readonly MIN_PASSPHRASE_LENGTH = 12;
+
+  // ~32 MB of memory per derivation
+  private readonly SCRYPT_N = 2 ** 15;
+  private readonly SCRYPT_R = 8;
+  private readonly SCRYPT_P = 1;
+
+  // Upper bounds for parameters read from a file, so a crafted backup can't exhaust memory
+  private readonly MAX_SCRYPT_N = 2 ** 18;
+  private readonly MAX_SCRYPT_R = 16;
+  private readonly MAX_SCRYPT_P = 4;
+
+  // Prekey ids and what we know about partners' keys. Session keys, ratchets
+  // and envelope counters are left out: restored, they would roll back
+  private readonly RECORD_PREFIXES = [
+    '@identity_key_',
+    '@prekeys_meta',
+    'verified_',
+  ];
+
+  get minPassphraseLength(): number {
+    return this.MIN_PASSPHRASE_LENGTH;
+  }
+
+  // ==========================================================================
+  // EXPORT
+  // ==========================================================================
+
+  /**
+   * Build an encrypted backup file
+   * @returns the file contents, or null if there are no keys to back up
+   */
+  async createBackup(userId: string, passphrase: string): Promise<string | null> {
+    if (passphrase.length < this.MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must be at least ${this.MIN_PASSPHRASE_LENGTH} characters`);
+    }
+
+    const keys = (await secureKeyService.exportKeys())
+      .filter(item => prekeyService.isPrekeyMaterial(item.sessionId));
+    if (keys.length === 0) {
+      return null;
+    }
+
+    const payload: BackupPayload = {
+      userId,
+      deviceId: await secureKeyService.getDeviceId(),
+      keys,
+      records: await this.collectRecords(),
+    };
+
+    const salt = new Uint8Array(await Crypto.getRandomBytesAsync(16));
+    const nonce = new Uint8Array(await Crypto.getRandomBytesAsync(nacl.secretbox.nonceLength));
+
+    const kdf: KdfParams = {
+      name: 'scrypt',
+      N: this.SCRYPT_N,
+      r: this.SCRYPT_R,
+      p: this.SCRYPT_P,
+      salt: util.encodeBase64(salt),
+    };
+    const cipher: CipherParams = {
+      name: 'xsalsa20-poly1305',
+      nonce: util.encodeBase64(nonce),
+    };
+    const created = Date.now();
+
+    const { encryptionKey, macKey } = await this.deriveKeys(passphrase, kdf);
+
+    try {
+      const ciphertext = nacl.secretbox(util.decodeUTF8(JSON.stringify(payload)), nonce, encryptionKey);
+      const header = this.serializeHeader(this.FORMAT, this.VERSION, created, kdf, cipher);
+      const mac = hmacSha256(macKey, concatBytes(util.decodeUTF8(header), ciphertext));
+
+      const file: BackupFile = {
+        format: this.FORMAT,
+        version: this.VERSION,
+        created,
+        kdf,
+        cipher,
+        ciphertext: util.encodeBase64(ciphertext),
+        mac: util.encodeBase64(mac),
+      };
+
+      await secureKeyService.recordBackup(userId, keys.length);
+      console.log(`🔐 Key backup created (${keys.length} keys)`);
+
+      return JSON.stringify(file, null, 2);
+    } finally {
+      wipeBytes(encryptionKey);
+      wipeBytes(macKey);
+    }
+  }
+
+  /**
+   * Create a backup and hand it to the system share sheet
+   * @returns false if there was nothing to back up
+   */
+  async exportBackup(userId: string, passphrase: string): Promise<boolean> {
+    const contents = await this.createBackup(userId, passphrase);
+    if (!contents) return false;
+
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    const uri = `${FileSystem.cacheDirectory}notamy-keys-${date}.json`;
+
+    await FileSystem.writeAsStringAsync(uri, contents);
+    try {
+      await Sharing.shareAsync(uri, {
+        mimeType: 'application/json',
+        dialogTitle: 'Save key backup',
+        UTI: 'public.json',
+      });
+    } finally {
+      // The shared copy is the backup: don't leave one in the cache
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+    }
+
+    return true;
+  }
+
+  private async collectRecords(): Promise<StorageRecord[]> {
+    const keys = await AsyncStorage.getAllKeys();
+    const ours = keys.filter(k => this.RECORD_PREFIXES.some(prefix => k.startsWith(prefix)));
+    const entries = await AsyncStorage.multiGet(ours);
+
+    return entries
+      .filter((entry): entry is [string, string] => entry[1] !== null)
+      .map(([key, value]) => ({ key, value }));
+  }
+
+  // ==========================================================================
+  // RESTORE
+  // ==========================================================================
+
+  /**
+   * Let the user pick a backup file
+   * @returns the file contents, or null if cancelled
+   */
+  async pickBackupFile(): Promise<string | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['application/json', 'text/plain', '*/*'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || !result.assets?.length) return null;
+
+    const { uri } = result.assets[0];
+    try {
+      return await FileSystem.readAsStringAsync(uri);
+    } finally {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+    }
+  }
+
+  /**
+   * Check a backup's integrity and decrypt it. Nothing is written.
+   * Throws with a user-facing message if the file can't be trusted.
+   */
+  async verifyBackup(contents: string, passphrase: string): Promise<VerifiedBackup> {
+    const file = this.parseFile(contents);
+    const { encryptionKey, macKey } = await this.deriveKeys(passphrase, file.kdf);
+
+    try {
+      const ciphertext = util.decodeBase64(file.ciphertext);
+      const header = this.serializeHeader(file.format, file.version, file.created, file.kdf, file.cipher);
+      const expectedMac = hmacSha256(macKey, concatBytes(util.decodeUTF8(header), ciphertext));
+
+      if (!constantTimeEqual(expectedMac, util.decodeBase64(file.mac))) {
+        throw new Error('Wrong passphrase, or the backup file has been modified');
+      }
+
+      const plaintext = nacl.secretbox.open(ciphertext, util.decodeBase64(file.cipher.nonce), encryptionKey);
+      if (!plaintext) {
+        throw new Error('The backup file is damaged');
+      }
+
+      const payload = this.parsePayload(util.encodeUTF8(plaintext));
+
+      return {
+        created: file.created,
+        userId: payload.userId,
+        keysCount: payload.keys.length,
+        payload,
+      };
+    } finally {
+      wipeBytes(encryptionKey);
+      wipeBytes(macKey);
+    }
+  }
+
+  /**
+   * Write a verified backup, replacing keys with the same id. Sessions on
+   * this device are expired: the next message negotiates a fresh key with
+   * the restored identity.
+   * @returns number of keys restored
+   */
+  async restoreBackup(backup: VerifiedBackup): Promise<number> {
+    const { keys, records } = backup.payload;
+
+    const restored = await secureKeyService.importKeys(keys);
+    if (records.length > 0) {
+      await AsyncStorage.multiSet(records.map(record => [record.key, record.value]));
+    }
+
+    for (const session of await sessionManager.getAllSessions()) {
+      await sessionManager.expire(session.conversationKey);
+    }
+
+    console.log(`✅ Key backup restored (${restored} keys, ${records.length} records)`);
+    return restored;
+  }
+
+  private parseFile(contents: string): BackupFile {
+    let file: BackupFile;
+    try {
+      file = JSON.parse(contents);
+    } catch {
+      throw new Error('This is not a Notamy key backup');
+    }
+
+    if (file?.format !== this.FORMAT) {
+      throw new Error('This is not a Notamy key backup');
+    }
+    if (file.version !== this.VERSION) {
+      throw new Error('This backup was made by a newer version of Notamy');
+    }
+
+    const { kdf, cipher } = file;
+    const validKdf =
+      kdf?.name === 'scrypt' &&
+      Number.isInteger(kdf.N) && kdf.N > 1 && (kdf.N & (kdf.N - 1)) === 0 && kdf.N <= this.MAX_SCRYPT_N &&
+      Number.isInteger(kdf.r) && kdf.r > 0 && kdf.r <= this.MAX_SCRYPT_R &&
+      Number.isInteger(kdf.p) && kdf.p > 0 && kdf.p <= this.MAX_SCRYPT_P &&
+      typeof kdf.salt === 'string';
+    const validCipher = cipher?.name === 'xsalsa20-poly1305' && typeof cipher.nonce === 'string';
+
+    if (
+      !validKdf ||
+      !validCipher ||
+      typeof file.created !== 'number' ||
+      typeof file.ciphertext !== 'string' ||
+      typeof file.mac !== 'string'
+    ) {
+      throw new Error('The backup file is damaged');
+    }
+
+    try {
+      [kdf.salt, cipher.nonce, file.ciphertext, file.mac].forEach(value => util.decodeBase64(value));
+    } catch {
+      throw new Error('The backup file is damaged');
+    }
+
+    return file;
+  }
+
+  private parsePayload(json: string): BackupPayload {
+    const payload: BackupPayload = JSON.parse(json);
+
+    const validKeys = Array.isArray(payload?.keys) && payload.keys.every(
+      item => typeof item?.sessionId === 'string' && typeof item.key === 'string'
+    );
+    const validRecords = Array.isArray(payload?.records) && payload.records.every(
+      item => typeof item?.key === 'string' && typeof item.value === 'string'
+    );
+
+    if (!validKeys || !validRecords || typeof payload.userId !== 'string') {
+      throw new Error('The backup file is damaged');
+    }
+
+    // Backups from older versions also carry session state: never restored
+    return {
+      ...payload,
+      keys: payload.keys.filter(item => prekeyService.isPrekeyMaterial(item.sessionId)),
+      records: payload.records.filter(
+        item => this.RECORD_PREFIXES.some(prefix => item.key.startsWith(prefix))
+      ),
+    };
+  }
+
+  // ==========================================================================
+  // KEY DERIVATION
+  // ==========================================================================
+
+  /**
+   * scrypt → 64 bytes: first half encrypts, second half authenticates
+   */
+  private async deriveKeys(
+    passphrase: string,
+    kdf: KdfParams
+  ): Promise<{ encryptionKey: Uint8Array; macKey: Uint8Array }> {
+    const password = util.decodeUTF8(passphrase.normalize('NFKC'));
+    const derived = await scrypt(password, util.decodeBase64(kdf.salt), kdf.N, kdf.r, kdf.p, 64);
+
+    const keys = {
+      encryptionKey: derived.slice(0, 32),
+      macKey: derived.slice(32, 64),
+    };
+    wipeBytes(derived);
+    wipeBytes(password);
+
+    return keys;
+  }
+
+  /**
+   * Fixed field order, so the MAC input is the same on every device
+   */
+  private serializeHeader(
+    format: string,
+    version: number,
+    created: number,
+    kdf: KdfParams,
+    cipher: CipherParams
+  ): string {
+    return JSON.stringify({
+      format,
+      version,
+      created,
+      kdf: { name: kdf.name, N: kdf.N, r: kdf.r, p: kdf.p, salt: kdf.salt },
+      cipher: { name: cipher.name, nonce: cipher.nonce },
+    });
+  }
+}
+
+// Create singleton instance
+const keyBackupService = new KeyBackupService();
+
+export default keyBackupService;
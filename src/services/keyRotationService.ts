@@ -0,0 +1,313 @@
+// src/services/keyRotationService.ts
+/**
+ * Rotazione chiavi E2E
+ *
+ * Protocollo (sul socket, cifrato con la chiave corrente):
+ * 1. offer:  chi ruota invia una nuova chiave pubblica X25519 e il nuovo session id
+ * 2. answer: il partner risponde con la sua chiave pubblica e passa subito alla nuova chiave
+ * 3. chi ha offerto completa la derivazione e passa anch'esso alla nuova chiave
+ *
+ * - Trigger: età della chiave o numero di messaggi, oppure `key_rotation_required` dal server
+ * - Offerte simultanee: vince il session id più basso
+ * - La chiave precedente decifra i messaggi in volo per OVERLAP_WINDOW, poi viene eliminata
+ * - Offerte senza risposta vengono abbandonate dopo OFFER_TIMEOUT
+ */
+import websocketService from './websocket';
+import sessionManager, { E2ESession } from './sessionManager';
+import encryptionService from './encryptionService';
+import secureKeyService from './secureKeyService';
+import { usesDoubleRatchet } from '@/utils/cipherSuites';
+
+type RotationAction = 'offer' | 'answer';
+
+interface RotationPayload {
+  public_key: string;
+  new_session_id: string;
+}
+
+class KeyRotationService {
+  private readonly ROTATE_AFTER_AGE = 6 * 24 * 60 * 60 * 1000; // Before the 7-day expiry
+  private readonly ROTATE_AFTER_MESSAGES = 500;
+  private readonly OVERLAP_WINDOW = 24 * 60 * 60 * 1000;
+  private readonly OFFER_TIMEOUT = 24 * 60 * 60 * 1000;
+  private readonly PENDING_KEY_PREFIX = 'rotation_';
+
+  private inProgress: Set<string> = new Set();
+  private handled: Set<string> = new Set();
+
+  constructor() {
+    // Message-count and age triggers: every session change is a chance to rotate
+    sessionManager.on(this.handleSessionChange);
+  }
+
+  /**
+   * Listen for rotation messages. Call after each connect: disconnect()
+   * drops every socket listener.
+   */
+  attach(): void {
+    websocketService.off('key_rotation', this.handleRotationMessage);
+    websocketService.off('key_rotation_required', this.handleRotationRequired);
+    websocketService.on('key_rotation', this.handleRotationMessage);
+    websocketService.on('key_rotation_required', this.handleRotationRequired);
+  }
+
+  detach(): void {
+    websocketService.off('key_rotation', this.handleRotationMessage);
+    websocketService.off('key_rotation_required', this.handleRotationRequired);
+  }
+
+  // ==========================================================================
+  // MAINTENANCE
+  // ==========================================================================
+
+  /**
+   * Rotate sessions that are due, drop stale offers and retired keys.
+   * @returns conversation keys for which a rotation was started
+   */
+  async rotateDueSessions(): Promise<string[]> {
+    const started: string[] = [];
+
+    for (const session of await sessionManager.getAllSessions()) {
+      try {
+        await this.retirePreviousKey(session);
+
+        if (
+          session.state === 'rotating' &&
+          session.rotation &&
+          Date.now() - session.rotation.startedAt > this.OFFER_TIMEOUT
+        ) {
+          console.warn(`⚠️ Rotation offer for ${session.conversationKey} unanswered, giving up`);
+          await this.abandonOffer(session.conversationKey);
+          continue;
+        }
+
+        if (this.isDue(session) && await this.startRotation(session.conversationKey)) {
+          started.push(session.conversationKey);
+        }
+      } catch (error) {
+        console.warn(`Failed to maintain session ${session.conversationKey}:`, error);
+      }
+    }
+
+    return started;
+  }
+
+  private isDue(session: E2ESession): boolean {
+    if (session.state !== 'established' || !session.sessionId || !session.recipientId) {
+      return false;
+    }
+
+    return Date.now() - session.created > this.ROTATE_AFTER_AGE ||
+      (session.messageCount || 0) >= this.ROTATE_AFTER_MESSAGES;
+  }
+
+  private async retirePreviousKey(session: E2ESession): Promise<void> {
+    if (!session.previousSessionId || (session.retireAt || 0) > Date.now()) return;
+
+    await encryptionService.deleteStoredKey(session.previousSessionId);
+    await sessionManager.clearPreviousSession(session.conversationKey);
+
+    console.log('🗑️ Retired previous session key');
+  }
+
+  private handleSessionChange = (session: E2ESession): void => {
+    if (this.isDue(session)) {
+      this.startRotation(session.conversationKey).catch(error => {
+        console.warn('Failed to start key rotation:', error);
+      });
+    }
+  };
+
+  // ==========================================================================
+  // OFFER
+  // ==========================================================================
+
+  /**
+   * Offer a new key to the partner over the current session
+   * @returns true if an offer was sent
+   */
+  async startRotation(conversationKey: string): Promise<boolean> {
+    if (this.inProgress.has(conversationKey)) return false;
+    this.inProgress.add(conversationKey);
+
+    try {
+      const session = await sessionManager.getSession(conversationKey);
+      if (session.state !== 'established' || !session.sessionId) return false;
+
+      const keyPair = await encryptionService.generateKeyPair();
+      const newSessionId = await encryptionService.generateSessionId();
+
+      await secureKeyService.storeKey(`${this.PENDING_KEY_PREFIX}${conversationKey}`, keyPair.privateKey);
+
+      const rotating = await sessionManager.beginRotation(conversationKey, {
+        newSessionId,
+        publicKey: keyPair.publicKey,
+      });
+      if (!rotating) return false;
+
+      await this.send(rotating, 'offer', {
+        public_key: keyPair.publicKey,
+        new_session_id: newSessionId,
+      });
+
+      console.log('🔄 Key rotation offered');
+      return true;
+    } finally {
+      this.inProgress.delete(conversationKey);
+    }
+  }
+
+  private async abandonOffer(conversationKey: string): Promise<void> {
+    await secureKeyService.deleteKey(`${this.PENDING_KEY_PREFIX}${conversationKey}`);
+    await sessionManager.abortRotation(conversationKey);
+  }
+
+  // ==========================================================================
+  // SOCKET EVENTS
+  // ==========================================================================
+
+  private handleRotationRequired = async (data: any): Promise<void> => {
+    if (!data?.session_id) return;
+
+    const sessions = await sessionManager.getAllSessions();
+    const session = sessions.find(s => s.sessionId === data.session_id);
+    if (session) {
+      await this.startRotation(session.conversationKey);
+    }
+  };
+
+  private handleRotationMessage = async (data: any): Promise<void> => {
+    const action: RotationAction | undefined = data?.action;
+    if (!data?.sender_id || !data.session_id || !data.payload || !action) return;
+
+    // The socket may deliver the same event more than once
+    const eventKey = `${action}:${data.session_id}:${data.new_session_id}`;
+    if (this.handled.has(eventKey)) return;
+    this.handled.add(eventKey);
+
+    try {
+      const sessions = await sessionManager.getAllSessions();
+      const match = sessions.find(s =>
+        s.sessionId === data.session_id && (!s.recipientId || s.recipientId === data.sender_id)
+      );
+      if (!match) return;
+
+      // Migrated records learn their partner here if they did not know it yet
+      const session = await sessionManager.getSession(match.conversationKey, data.sender_id);
+      if (session.recipientId !== data.sender_id || !sessionManager.isUsable(session)) return;
+
+      // Only someone holding the current key can produce a valid payload
+      const { plaintext } = await encryptionService.decryptForSession(
+        data.session_id,
+        data.payload,
+        sessionManager.getEnvelopeContext(session, 'incoming')
+      );
+      const payload: RotationPayload = JSON.parse(plaintext);
+      if (!payload.public_key || payload.new_session_id !== data.new_session_id) {
+        console.warn('⚠️ Malformed key rotation payload');
+        return;
+      }
+
+      if (action === 'offer') {
+        await this.handleOffer(session, payload);
+      } else if (action === 'answer') {
+        await this.handleAnswer(session, payload);
+      }
+    } catch (error) {
+      console.warn('Failed to handle key rotation:', error);
+    }
+  };
+
+  /**
+   * Partner offered a new key: answer and switch right away
+   */
+  private async handleOffer(session: E2ESession, offer: RotationPayload): Promise<void> {
+    if (session.state === 'rotating' && session.rotation) {
+      // Both sides offered at once: the lower session id wins
+      if (session.rotation.newSessionId < offer.new_session_id) return;
+      await this.abandonOffer(session.conversationKey);
+    }
+
+    const keyPair = await encryptionService.generateKeyPair();
+    await this.activate(session, offer.new_session_id, keyPair, offer.public_key);
+
+    // Answer over the old key: the partner has not switched yet
+    await this.send(session, 'answer', {
+      public_key: keyPair.publicKey,
+      new_session_id: offer.new_session_id,
+    });
+
+    console.log('✅ Key rotation accepted');
+  }
+
+  /**
+   * Partner answered our offer: complete the derivation and switch
+   */
+  private async handleAnswer(session: E2ESession, answer: RotationPayload): Promise<void> {
+    if (session.state !== 'rotating' || session.rotation?.newSessionId !== answer.new_session_id) {
+      return;
+    }
+
+    const pendingKey = `${this.PENDING_KEY_PREFIX}${session.conversationKey}`;
+    const privateKey = await secureKeyService.getKey(pendingKey);
+    if (!privateKey) {
+      await sessionManager.abortRotation(session.conversationKey);
+      return;
+    }
+
+    await this.activate(
+      session,
+      answer.new_session_id,
+      { publicKey: session.rotation.publicKey, privateKey },
+      answer.public_key
+    );
+    await secureKeyService.deleteKey(pendingKey);
+
+    console.log('✅ Key rotation completed');
+  }
+
+  private async activate(
+    session: E2ESession,
+    newSessionId: string,
+    keyPair: { publicKey: string; privateKey: string },
+    theirPublicKey: string
+  ): Promise<void> {
+    const sharedKey = await encryptionService.deriveSharedSecret(keyPair.privateKey, theirPublicKey);
+    await encryptionService.storeKey(newSessionId, sharedKey, {
+      recipientId: session.recipientId,
+      keyExchangeType: 'x25519-client',
+    });
+    if (usesDoubleRatchet(session.cipherSuite)) {
+      await encryptionService.initializeRatchet(newSessionId, sharedKey, keyPair, theirPublicKey);
+    }
+
+    // A key still in its overlap window from an earlier rotation is retired now
+    if (session.previousSessionId) {
+      await encryptionService.deleteStoredKey(session.previousSessionId);
+    }
+
+    await sessionManager.completeRotation(session.conversationKey, newSessionId, this.OVERLAP_WINDOW);
+  }
+
+  private async send(session: E2ESession, action: RotationAction, payload: RotationPayload): Promise<void> {
+    const { encrypted } = await encryptionService.encryptForSession(
+      session.sessionId!,
+      JSON.stringify(payload),
+      sessionManager.getEnvelopeContext(session, 'outgoing')
+    );
+
+    websocketService.send({
+      type: 'key_rotation',
+      action,
+      recipient_id: session.recipientId,
+      session_id: session.sessionId,
+      new_session_id: payload.new_session_id,
+      payload: encrypted,
+    });
+  }
+}
+
+// Create singleton instance
+const keyRotationService = new KeyRotationService();
+
+export default keyRotationService;
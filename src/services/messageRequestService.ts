@@ -0,0 +1,383 @@
+// src/services/messageRequestService.ts
+/**
+ * Richieste di messaggio da sconosciuti
+ *
+ * - Senza allow_strangers, chi scrive per primo senza nota reciproca né match di un momento finisce in "Richieste"
+ * - Finché la richiesta non è accettata non trapela nulla: niente conferme, niente "sta scrivendo", niente sessione
+ * - Lo stato online lo pubblica il server a chi è connesso: nasconderlo agli sconosciuti spetta al server, non a questo client
+ * - Dalla richiesta: accetta, ignora (sparisce), blocca (sparisce e resta muta), segnala
+ * - Scrivere per primi a qualcuno vale come accettarlo
+ * - Alla prima esecuzione le conversazioni già esistenti sono accettate (server, archivio locale, sessioni)
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { store } from '@/store';
+import { blockProfile } from '@/store/slices/profileSlice';
+import { Conversation, FrankedMessageReport } from '@/types/api';
+import { frankedBody } from '@/utils/messageEdits';
+import apiService from './api';
+import websocketService from './websocket';
+import messageStoreService from './messageStoreService';
+import sessionManager from './sessionManager';
+
+export type RequestDecision = 'accepted' | 'ignored' | 'blocked';
+export type ConversationFolder = 'inbox' | 'request' | 'hidden';
+
+interface RequestState {
+  initialized: boolean;                       // Existing conversations were accepted once
+  connections: string[];                      // Mutual notes and moment matches seen on this device
+  decisions: Record<string, RequestDecision>;
+  pending: string[];                          // Strangers who wrote first, waiting for a decision
+}
+
+type RequestListener = () => void;
+
+const emptyState = (): RequestState => ({
+  initialized: false,
+  connections: [],
+  decisions: {},
+  pending: [],
+});
+
+class MessageRequestService {
+  private readonly STORAGE_KEY = '@message_requests';
+  private readonly NOTED_USERS_KEY = 'notedUsers'; // Written by Discover and Profile
+  private readonly BASELINE_LIMIT = 100;
+
+  private state: RequestState | null = null;
+  private mutualNotes: Set<string> = new Set();
+  private loading: Promise<RequestState> | null = null;
+  private baseline: Promise<void> | null = null;
+  private userId: string | null = null;
+  private listeners: RequestListener[] = [];
+
+  /**
+   * Track mutual notes, moment matches and first messages. Call after each
+   * connect: disconnect() drops every socket listener.
+   */
+  attach(userId: string): void {
+    this.userId = userId;
+    this.detach();
+    websocketService.on('new_message', this.handleNewMessage);
+    websocketService.on('user_noted', this.handleUserNoted);
+    websocketService.on('moment_matched', this.handleMomentMatched);
+
+    this.load().catch(error => console.warn('Failed to load message requests:', error));
+  }
+
+  detach(): void {
+    websocketService.off('new_message', this.handleNewMessage);
+    websocketService.off('user_noted', this.handleUserNoted);
+    websocketService.off('moment_matched', this.handleMomentMatched);
+  }
+
+  // ==========================================================================
+  // STATE
+  // ==========================================================================
+
+  /**
+   * Load once; the sync checks below use what is loaded
+   */
+  async load(): Promise<RequestState> {
+    if (!this.state) {
+      if (!this.loading) {
+        this.loading = this.readState().finally(() => {
+          this.loading = null;
+        });
+      }
+      this.state = await this.loading;
+    }
+
+    if (!this.state.initialized) {
+      if (!this.baseline) {
+        this.baseline = this.acceptExistingConversations().finally(() => {
+          this.baseline = null;
+        });
+      }
+      await this.baseline;
+    }
+    return this.state;
+  }
+
+  private async readState(): Promise<RequestState> {
+    try {
+      const [stored, noted] = await Promise.all([
+        AsyncStorage.getItem(this.STORAGE_KEY),
+        AsyncStorage.getItem(this.NOTED_USERS_KEY),
+      ]);
+
+      const notedUsers: Record<string, { mutual?: boolean }> = noted ? JSON.parse(noted) : {};
+      this.mutualNotes = new Set(
+        Object.keys(notedUsers).filter(userId => notedUsers[userId]?.mutual)
+      );
+
+      return { ...emptyState(), ...(stored ? JSON.parse(stored) : {}) };
+    } catch (error) {
+      console.warn('Failed to read message requests:', error);
+      return emptyState();
+    }
+  }
+
+  /**
+   * Chats from before requests existed stay where they were: the newest ones
+   * from the server, plus any with messages or a session on this device.
+   * Retried on the next load if the server can't be reached.
+   */
+  private async acceptExistingConversations(): Promise<void> {
+    const state = this.state!;
+    const response = await apiService.getConversations(this.BASELINE_LIMIT);
+    if (!('conversations' in response) || state.initialized) return;
+
+    const partners = new Set<string>();
+    response.conversations.forEach(conversation => {
+      const partnerId = conversation.other_user?.user_id;
+      if (partnerId) partners.add(partnerId);
+    });
+
+    // Older chats the server list does not reach
+    for (const conversationKey of await messageStoreService.getConversationKeys()) {
+      const partnerId = this.partnerOf(conversationKey);
+      if (partnerId) partners.add(partnerId);
+    }
+    for (const session of await sessionManager.getAllSessions()) {
+      const partnerId = session.recipientId || this.partnerOf(session.conversationKey);
+      if (partnerId) partners.add(partnerId);
+    }
+
+    partners.forEach(partnerId => {
+      if (!state.decisions[partnerId]) {
+        state.decisions[partnerId] = 'accepted';
+      }
+    });
+    state.initialized = true;
+    await this.save();
+    console.log(`📨 Accepted ${partners.size} existing conversations`);
+  }
+
+  /**
+   * The other participant of a conversation key (sorted user ids)
+   */
+  private partnerOf(conversationKey: string): string | null {
+    const myUserId = this.userId || store.getState().auth.user?.user_id;
+    if (!myUserId) return null;
+    if (conversationKey.startsWith(`${myUserId}_`)) return conversationKey.slice(myUserId.length + 1);
+    if (conversationKey.endsWith(`_${myUserId}`)) return conversationKey.slice(0, -(myUserId.length + 1));
+    return null;
+  }
+
+  private async save(): Promise<void> {
+    if (!this.state) return;
+    await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.state));
+    this.emit();
+  }
+
+  // ==========================================================================
+  // CHECKS
+  // ==========================================================================
+
+  private allowsStrangers(): boolean {
+    return store.getState().auth.user?.chat_preferences?.allow_strangers === true;
+  }
+
+  private isConnection(userId: string): boolean {
+    return (
+      this.mutualNotes.has(userId) ||
+      !!this.state?.connections.includes(userId) ||
+      !!store.getState().auth.user?.notes?.mutual?.includes(userId)
+    );
+  }
+
+  /**
+   * Whether this user may see our receipts, typing and key exchange.
+   * Sync: false until load() has finished.
+   */
+  isAccepted(userId: string): boolean {
+    const decision = this.state?.decisions[userId];
+    if (decision === 'blocked' || decision === 'ignored') return false;
+    return decision === 'accepted' || this.allowsStrangers() || this.isConnection(userId);
+  }
+
+  isBlocked(userId: string): boolean {
+    return this.state?.decisions[userId] === 'blocked';
+  }
+
+  async canShareActivity(userId: string): Promise<boolean> {
+    await this.load();
+    return this.isAccepted(userId);
+  }
+
+  /**
+   * A stranger wrote first and we haven't decided yet
+   */
+  async isRequest(userId: string): Promise<boolean> {
+    const state = await this.load();
+    return state.pending.includes(userId) && !state.decisions[userId] && !this.isAccepted(userId);
+  }
+
+  /**
+   * Where a conversation goes in the chat list. A stranger who sent the last
+   * message is a request even if it arrived while we were offline.
+   */
+  folderOf(conversation: Conversation): ConversationFolder {
+    const partnerId = conversation.other_user.user_id;
+    const decision = this.state?.decisions[partnerId];
+
+    if (decision === 'blocked' || decision === 'ignored') return 'hidden';
+    if (this.isAccepted(partnerId)) return 'inbox';
+    if (this.state?.pending.includes(partnerId) || conversation.last_sender_id === partnerId) {
+      return 'request';
+    }
+    return 'inbox';
+  }
+
+  // ==========================================================================
+  // DECISIONS
+  // ==========================================================================
+
+  async accept(userId: string): Promise<void> {
+    await this.decide(userId, 'accepted');
+  }
+
+  async ignore(userId: string): Promise<void> {
+    await this.decide(userId, 'ignored');
+  }
+
+  async block(userId: string): Promise<void> {
+    await this.decide(userId, 'blocked');
+    store.dispatch(blockProfile(userId));
+  }
+
+  /**
+   * Report the sender with their franked messages on this device, which prove
+   * what they sent, then block them
+   */
+  async report(userId: string, reason: string): Promise<boolean> {
+    const myUserId = store.getState().auth.user?.user_id;
+    const stored = myUserId
+      ? await messageStoreService.getMessages([myUserId, userId].sort().join('_'))
+      : [];
+
+    const reported: FrankedMessageReport[] = [];
+    stored.forEach(message => {
+      const body = frankedBody(message);
+      if (message.sender_id !== userId || !message.franking || message.deleted || body === null) return;
+      reported.push({
+        message_id: message.id,
+        sender_id: message.sender_id,
+        recipient_id: message.recipient_id,
+        timestamp: message.timestamp,
+        body,
+        franking_key: message.franking.key,
+        commitment: message.franking.commitment,
+        franking_tag: message.franking.tag,
+      });
+    });
+
+    const response = await apiService.reportUser(userId, reason, reported);
+    if (response?.error) return false;
+
+    await this.block(userId);
+    return true;
+  }
+
+  /**
+   * Writing to someone accepts them, unless they were blocked
+   */
+  async acceptOnSend(userId: string): Promise<void> {
+    const state = await this.load();
+    if (state.decisions[userId] !== 'blocked' && state.decisions[userId] !== 'accepted') {
+      await this.decide(userId, 'accepted');
+    }
+  }
+
+  private async decide(userId: string, decision: RequestDecision): Promise<void> {
+    const state = await this.load();
+    state.decisions[userId] = decision;
+    state.pending = state.pending.filter(id => id !== userId);
+    await this.save();
+    console.log(`📨 Message request from ${userId}: ${decision}`);
+  }
+
+  /**
+   * The user wrote to us: a request, unless we know them or already decided
+   */
+  async noteRequest(userId: string): Promise<void> {
+    const state = await this.load();
+    if (state.decisions[userId] || state.pending.includes(userId) || this.isAccepted(userId)) return;
+
+    state.pending.push(userId);
+    await this.save();
+  }
+
+  async addConnection(userId: string): Promise<void> {
+    const state = await this.load();
+    if (state.connections.includes(userId)) return;
+
+    state.connections.push(userId);
+    state.pending = state.pending.filter(id => id !== userId);
+    await this.save();
+  }
+
+  // ==========================================================================
+  // SOCKET
+  // ==========================================================================
+
+  private handleNewMessage = (data: any) => {
+    if (!this.userId || !data.sender_id || data.sender_id === this.userId) return;
+    this.noteRequest(data.sender_id).catch(error => console.warn('Failed to save message request:', error));
+  };
+
+  private handleUserNoted = (data: any) => {
+    if (data.is_mutual && data.sender_id) {
+      this.addConnection(data.sender_id).catch(error => console.warn('Failed to save connection:', error));
+    }
+  };
+
+  // A confirmed star is a match, mutual or not: both can chat
+  private handleMomentMatched = (data: any) => {
+    if (data.matched_user_id) {
+      this.addConnection(data.matched_user_id).catch(error => console.warn('Failed to save connection:', error));
+    }
+  };
+
+  /**
+   * Forget everything (logout, panic wipe). After a logout the next sign-in
+   * accepts the existing chats again; pass `acceptExisting: false` (panic
+   * wipe) and chats that come back later start as requests.
+   */
+  async clearAll(options: { acceptExisting?: boolean } = {}): Promise<void> {
+    const { acceptExisting = true } = options;
+    this.detach();
+    this.userId = null;
+    this.mutualNotes.clear();
+    this.state = { ...emptyState(), initialized: !acceptExisting };
+    await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.state));
+    this.emit();
+  }
+
+  // ==========================================================================
+  // EVENTS
+  // ==========================================================================
+
+  on(callback: RequestListener): void {
+    this.listeners.push(callback);
+  }
+
+  off(callback: RequestListener): void {
+    this.listeners = this.listeners.filter(cb => cb !== callback);
+  }
+
+  private emit(): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback();
+      } catch (error) {
+        console.warn('Message request listener failed:', error);
+      }
+    });
+  }
+}
+
+// Create singleton instance
+const messageRequestService = new MessageRequestService();
+
+export default messageRequestService;
@@ -0,0 +1,494 @@
+// src/services/messageStoreService.ts
+/**
+ * Archivio locale dei messaggi, cifrato a riposo
+ *
+ * - Un archivio per conversazione, diviso in pagine da PAGE_SIZE messaggi
+ * - Pagine cifrate (nacl.secretbox) con una chiave derivata per conversazione
+ * - Chiave dell'archivio in secureKeyService, mai in AsyncStorage
+ * - Indice in chiaro solo con id e timestamp: niente contenuto su disco in chiaro
+ * - I messaggi già decifrati non passano più dal ratchet (le chiavi sono usa e getta)
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import secureKeyService from './secureKeyService';
+import { hkdf } from '@/utils/cryptoPrimitives';
+import { FrankingReceipt } from '@/utils/franking';
+import { EditHistoryEntry } from '@/utils/messageEdits';
+
+export const MESSAGE_STORE_KEY_ID = 'message_store';
+
+export interface StoredMessage {
+  id: string;
+  sender_id: string;
+  recipient_id: string;
+  content: string; // Plaintext: only ever written encrypted
+  timestamp: number;
+  is_encrypted: boolean;
+  status?: 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
+  session_id?: string;
+  metadata?: Record<string, any>;
+  franking?: FrankingReceipt; // Partner messages only: lets us report them
+  deleted?: boolean; // Unsent: a tombstone with no content
+  edited_at?: number;
+  edit_history?: EditHistoryEntry[]; // Earlier versions, kept on this device only
+}
+
+// Writes, for whatever keeps derived data (e.g. the search index) in step
+export type MessageStoreEvent =
+  | { type: 'saved'; conversationKey: string; messages: StoredMessage[] }
+  | { type: 'deleted'; conversationKey: string; messageIds: string[] }
+  | { type: 'cleared'; conversationKey: string };
+
+type MessageStoreListener = (event: MessageStoreEvent) => void;
+
+interface PageInfo {
+  page: number;
+  ids: string[];
+  firstTimestamp: number;
+  lastTimestamp: number;
+}
+
+interface StoreIndex {
+  version: number;
+  nextPage: number;
+  pages: PageInfo[];
+}
+
+interface EncryptedPage {
+  nonce: string;
+  ciphertext: string;
+}
+
+class MessageStoreService {
+  private readonly INDEX_PREFIX = '@msg_index_';
+  private readonly PAGE_PREFIX = '@msg_page_';
+  private readonly INDEX_VERSION = 1;
+  private readonly PAGE_SIZE = 100;
+  private readonly MAX_PAGES = 20; // Oldest pages are dropped beyond this
+
+  private storeKey: Promise<Uint8Array> | null = null;
+  private conversationKeys: Map<string, Uint8Array> = new Map();
+  private locks: Map<string, Promise<unknown>> = new Map();
+  private listeners: MessageStoreListener[] = [];
+
+  // ==========================================================================
+  // READ
+  // ==========================================================================
+
+  /**
+   * Stored messages for a conversation, oldest first
+   * @param limit newest N messages (whole pages are read)
+   * @param beforeTimestamp only messages older than this (history paging)
+   */
+  async getMessages(
+    conversationKey: string,
+    limit?: number,
+    beforeTimestamp?: number
+  ): Promise<StoredMessage[]> {
+    try {
+      const index = await this.getIndex(conversationKey);
+      const messages: StoredMessage[] = [];
+
+      // Older history can be stored after newer pages: read by time, not page number
+      const pages = [...index.pages].sort((a, b) => b.lastTimestamp - a.lastTimestamp);
+      for (const info of pages) {
+        if (beforeTimestamp !== undefined && info.firstTimestamp >= beforeTimestamp) continue;
+
+        const page = await this.readPage(conversationKey, info.page);
+        messages.push(...(beforeTimestamp !== undefined
+          ? page.filter(message => message.timestamp < beforeTimestamp)
+          : page));
+        if (limit && messages.length >= limit) break;
+      }
+
+      messages.sort((a, b) => a.timestamp - b.timestamp);
+      return limit ? messages.slice(-limit) : messages;
+    } catch (error) {
+      console.warn('Failed to read message store:', error);
+      return [];
+    }
+  }
+
+  async hasMessage(conversationKey: string, messageId: string): Promise<boolean> {
+    const index = await this.getIndex(conversationKey);
+    return index.pages.some(info => info.ids.includes(messageId));
+  }
+
+  /**
+   * Conversations with stored messages
+   */
+  async getConversationKeys(): Promise<string[]> {
+    const keys = await AsyncStorage.getAllKeys();
+    return keys
+      .filter(k => k.startsWith(this.INDEX_PREFIX))
+      .map(k => k.replace(this.INDEX_PREFIX, ''));
+  }
+
+  // ==========================================================================
+  // WRITE
+  // ==========================================================================
+
+  /**
+   * Insert or replace messages (matched by id)
+   */
+  async saveMessages(conversationKey: string, messages: StoredMessage[]): Promise<void> {
+    if (messages.length === 0) return;
+
+    await this.withLock(conversationKey, async () => {
+      const index = await this.getIndex(conversationKey);
+      const pending = new Map(messages.map(message => [message.id, message]));
+
+      // Replace messages that are already stored in their own page
+      for (const info of index.pages) {
+        const updates = info.ids.filter(id => pending.has(id));
+        if (updates.length === 0) continue;
+
+        const page = await this.readPage(conversationKey, info.page);
+        const updated = page.map(message => {
+          const replacement = pending.get(message.id);
+          return replacement ? { ...message, ...replacement } : message;
+        });
+        await this.writePage(conversationKey, info, updated);
+        updates.forEach(id => pending.delete(id));
+      }
+
+      // New messages fill the last page, then open new ones
+      let remaining = [...pending.values()].sort((a, b) => a.timestamp - b.timestamp);
+      while (remaining.length > 0) {
+        let info = index.pages[index.pages.length - 1];
+        let page = info ? await this.readPage(conversationKey, info.page) : [];
+
+        if (!info || page.length >= this.PAGE_SIZE) {
+          info = { page: index.nextPage++, ids: [], firstTimestamp: 0, lastTimestamp: 0 };
+          index.pages.push(info);
+          page = [];
+        }
+
+        const room = this.PAGE_SIZE - page.length;
+        page = [...page, ...remaining.slice(0, room)].sort((a, b) => a.timestamp - b.timestamp);
+        remaining = remaining.slice(room);
+
+        await this.writePage(conversationKey, info, page);
+      }
+
+      await this.trimPages(conversationKey, index);
+      await this.saveIndex(conversationKey, index);
+    });
+
+    this.emit({ type: 'saved', conversationKey, messages });
+  }
+
+  async updateMessage(
+    conversationKey: string,
+    messageId: string,
+    changes: Partial<StoredMessage>
+  ): Promise<void> {
+    await this.updateMessages(conversationKey, [messageId], () => changes);
+  }
+
+  /**
+   * Update several messages at once; `update` returns null to leave one as is
+   */
+  async updateMessages(
+    conversationKey: string,
+    messageIds: string[],
+    update: (message: StoredMessage) => Partial<StoredMessage> | null
+  ): Promise<void> {
+    const ids = new Set(messageIds);
+    const updated: StoredMessage[] = [];
+
+    await this.withLock(conversationKey, async () => {
+      const index = await this.getIndex(conversationKey);
+
+      for (const info of index.pages) {
+        if (!info.ids.some(id => ids.has(id))) continue;
+
+        let changed = false;
+        const page = (await this.readPage(conversationKey, info.page)).map(message => {
+          const changes = ids.has(message.id) ? update(message) : null;
+          if (!changes) return message;
+          changed = true;
+          const next = { ...message, ...changes, id: message.id };
+          updated.push(next);
+          return next;
+        });
+        if (changed) {
+          await this.writePage(conversationKey, info, page);
+        }
+      }
+
+      await this.saveIndex(conversationKey, index);
+    });
+
+    if (updated.length > 0) {
+      this.emit({ type: 'saved', conversationKey, messages: updated });
+    }
+  }
+
+  /**
+   * Give a local message its server id (outbox sends), keeping its page
+   * @returns the updated message, or null if it isn't stored
+   */
+  async renameMessage(
+    conversationKey: string,
+    fromId: string,
+    toId: string,
+    changes: Partial<StoredMessage> = {}
+  ): Promise<StoredMessage | null> {
+    const renamed = await this.withLock(conversationKey, async () => {
+      const index = await this.getIndex(conversationKey);
+      const info = index.pages.find(p => p.ids.includes(fromId));
+      if (!info) return null;
+
+      let result: StoredMessage | null = null;
+      const page = (await this.readPage(conversationKey, info.page)).map(message => {
+        if (message.id !== fromId) return message;
+        result = { ...message, ...changes, id: toId };
+        return result;
+      });
+      await this.writePage(conversationKey, info, page.sort((a, b) => a.timestamp - b.timestamp));
+      await this.saveIndex(conversationKey, index);
+      return result as StoredMessage | null;
+    });
+
+    if (renamed) {
+      this.emit({ type: 'deleted', conversationKey, messageIds: [fromId] });
+      this.emit({ type: 'saved', conversationKey, messages: [renamed] });
+    }
+    return renamed;
+  }
+
+  async deleteMessages(conversationKey: string, messageIds: string[]): Promise<void> {
+    const toDelete = new Set(messageIds);
+
+    await this.withLock(conversationKey, async () => {
+      const index = await this.getIndex(conversationKey);
+
+      for (const info of index.pages) {
+        if (!info.ids.some(id => toDelete.has(id))) continue;
+        const page = await this.readPage(conversationKey, info.page);
+        await this.writePage(conversationKey, info, page.filter(message => !toDelete.has(message.id)));
+      }
+
+      const emptyPages = index.pages.filter(info => info.ids.length === 0);
+      if (emptyPages.length > 0) {
+        await AsyncStorage.multiRemove(emptyPages.map(info => this.pageKey(conversationKey, info.page)));
+        index.pages = index.pages.filter(info => info.ids.length > 0);
+      }
+
+      await this.saveIndex(conversationKey, index);
+    });
+
+    this.emit({ type: 'deleted', conversationKey, messageIds });
+  }
+
+  // ==========================================================================
+  // CLEANUP
+  // ==========================================================================
+
+  async clearConversation(conversationKey: string): Promise<void> {
+    await this.withLock(conversationKey, async () => {
+      const keys = await AsyncStorage.getAllKeys();
+      const ours = keys.filter(k =>
+        k === `${this.INDEX_PREFIX}${conversationKey}` ||
+        k.startsWith(`${this.PAGE_PREFIX}${conversationKey}_`)
+      );
+      if (ours.length > 0) {
+        await AsyncStorage.multiRemove(ours);
+      }
+    });
+
+    this.emit({ type: 'cleared', conversationKey });
+  }
+
+  /**
+   * Delete every stored message and the store key (logout / wipe)
+   */
+  async clearAll(): Promise<void> {
+    this.storeKey = null;
+    this.conversationKeys.clear();
+
+    const keys = await AsyncStorage.getAllKeys();
+    const ours = keys.filter(k =>
+      k.startsWith(this.INDEX_PREFIX) ||
+      k.startsWith(this.PAGE_PREFIX)
+    );
+    if (ours.length > 0) {
+      await AsyncStorage.multiRemove(ours);
+    }
+    await secureKeyService.deleteKey(MESSAGE_STORE_KEY_ID);
+
+    console.log('🗑️ Message store cleared');
+  }
+
+  // ==========================================================================
+  // EVENTS
+  // ==========================================================================
+
+  on(callback: MessageStoreListener): void {
+    this.listeners.push(callback);
+  }
+
+  off(callback: MessageStoreListener): void {
+    this.listeners = this.listeners.filter(cb => cb !== callback);
+  }
+
+  private emit(event: MessageStoreEvent): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.warn('Message store listener failed:', error);
+      }
+    });
+  }
+
+  // ==========================================================================
+  // PAGES
+  // ==========================================================================
+
+  private pageKey(conversationKey: string, page: number): string {
+    return `${this.PAGE_PREFIX}${conversationKey}_${page}`;
+  }
+
+  private async readPage(conversationKey: string, page: number): Promise<StoredMessage[]> {
+    const stored = await AsyncStorage.getItem(this.pageKey(conversationKey, page));
+    if (!stored) return [];
+
+    const { nonce, ciphertext }: EncryptedPage = JSON.parse(stored);
+    const key = await this.getConversationKey(conversationKey);
+    const plaintext = nacl.secretbox.open(util.decodeBase64(ciphertext), util.decodeBase64(nonce), key);
+
+    if (!plaintext) {
+      // Wrong key (store key lost) or tampered page: unreadable either way
+      console.warn('⚠️ Unreadable message store page, dropping it');
+      await AsyncStorage.removeItem(this.pageKey(conversationKey, page));
+      return [];
+    }
+
+    return JSON.parse(util.encodeUTF8(plaintext));
+  }
+
+  private async writePage(conversationKey: string, info: PageInfo, messages: StoredMessage[]): Promise<void> {
+    info.ids = messages.map(message => message.id);
+    info.firstTimestamp = messages[0]?.timestamp || 0;
+    info.lastTimestamp = messages[messages.length - 1]?.timestamp || 0;
+
+    if (messages.length === 0) return;
+
+    const key = await this.getConversationKey(conversationKey);
+    const nonce = new Uint8Array(await Crypto.getRandomBytesAsync(nacl.secretbox.nonceLength));
+    const ciphertext = nacl.secretbox(util.decodeUTF8(JSON.stringify(messages)), nonce, key);
+
+    const page: EncryptedPage = {
+      nonce: util.encodeBase64(nonce),
+      ciphertext: util.encodeBase64(ciphertext),
+    };
+    await AsyncStorage.setItem(this.pageKey(conversationKey, info.page), JSON.stringify(page));
+  }
+
+  private async trimPages(conversationKey: string, index: StoreIndex): Promise<void> {
+    if (index.pages.length <= this.MAX_PAGES) return;
+
+    // Oldest by time: paged-in history can sit in recent pages
+    const dropped = [...index.pages]
+      .sort((a, b) => a.lastTimestamp - b.lastTimestamp)
+      .slice(0, index.pages.length - this.MAX_PAGES);
+    index.pages = index.pages.filter(info => !dropped.includes(info));
+    await AsyncStorage.multiRemove(dropped.map(info => this.pageKey(conversationKey, info.page)));
+    this.emit({ type: 'deleted', conversationKey, messageIds: dropped.flatMap(info => info.ids) });
+  }
+
+  // ==========================================================================
+  // INDEX
+  // ==========================================================================
+
+  private async getIndex(conversationKey: string): Promise<StoreIndex> {
+    try {
+      const stored = await AsyncStorage.getItem(`${this.INDEX_PREFIX}${conversationKey}`);
+      if (stored) {
+        const index: StoreIndex = JSON.parse(stored);
+        if (index.version === this.INDEX_VERSION) return index;
+      }
+    } catch (error) {
+      console.warn('Failed to load message store index:', error);
+    }
+
+    return { version: this.INDEX_VERSION, nextPage: 0, pages: [] };
+  }
+
+  private async saveIndex(conversationKey: string, index: StoreIndex): Promise<void> {
+    await AsyncStorage.setItem(`${this.INDEX_PREFIX}${conversationKey}`, JSON.stringify(index));
+  }
+
+  // ==========================================================================
+  // KEYS
+  // ==========================================================================
+
+  /**
+   * One key per conversation, so pages can't be moved between conversations
+   */
+  private async getConversationKey(conversationKey: string): Promise<Uint8Array> {
+    const cached = this.conversationKeys.get(conversationKey);
+    if (cached) return cached;
+
+    const key = hkdf(
+      await this.getStoreKey(),
+      null,
+      util.decodeUTF8(`notamy-message-store:${conversationKey}`),
+      32
+    );
+    this.conversationKeys.set(conversationKey, key);
+    return key;
+  }
+
+  private getStoreKey(): Promise<Uint8Array> {
+    // Shared promise: concurrent first reads must not create two keys
+    if (!this.storeKey) {
+      this.storeKey = this.loadStoreKey().catch(error => {
+        this.storeKey = null;
+        throw error;
+      });
+    }
+    return this.storeKey;
+  }
+
+  private async loadStoreKey(): Promise<Uint8Array> {
+    const stored = await secureKeyService.getKey(MESSAGE_STORE_KEY_ID);
+    if (stored) {
+      return util.decodeBase64(stored);
+    }
+
+    const key = new Uint8Array(await Crypto.getRandomBytesAsync(32));
+    if (!(await secureKeyService.storeKey(MESSAGE_STORE_KEY_ID, util.encodeBase64(key)))) {
+      throw new Error('Unable to store message store key');
+    }
+
+    console.log('🔑 Message store key created');
+    return key;
+  }
+
+  /**
+   * Serialize writes per conversation: socket messages arrive concurrently
+   */
+  private async withLock<T>(conversationKey: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(conversationKey) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    this.locks.set(conversationKey, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(conversationKey) === current) {
+        this.locks.delete(conversationKey);
+      }
+    }
+  }
+}
+
+// Create singleton instance
+const messageStoreService = new MessageStoreService();
+
+export default messageStoreService;
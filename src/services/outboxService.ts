@@ -0,0 +1,530 @@
+// src/services/outboxService.ts
+/**
+ * Coda di invio persistente (outbox) per chat, note, stelle e cancellazioni
+ *
+ * - Sopravvive al riavvio dell'app: la coda è salvata cifrata a riposo (nacl.secretbox)
+ * - Un elemento per azione, con stato, tentativi e prossimo tentativo
+ * - Retry con backoff esponenziale; gli errori definitivi (4xx) falliscono subito
+ * - Chiave di idempotenza = id dell'elemento: un retry non duplica l'invio sul server
+ * - Ordine garantito per conversazione: un messaggio parte solo dopo il precedente;
+ *   uno fallito blocca i successivi finché non viene ritentato o scartato
+ * - In coda c'è solo ciò che va al server: il testo dei messaggi resta nell'archivio messaggi
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import { store } from '@/store';
+import { addMessage } from '@/store/slices/chatSlice';
+import { parseMessageBody, messageExpiresIn } from '@/utils/messageBody';
+import { controlChanges } from '@/utils/messageEdits';
+import apiService from './api';
+import websocketService from './websocket';
+import secureKeyService from './secureKeyService';
+import messageStoreService from './messageStoreService';
+import disappearingMessagesService from './disappearingMessagesService';
+
+export const OUTBOX_KEY_ID = 'outbox';
+
+export type OutboxStatus = 'queued' | 'sending' | 'failed';
+
+export interface OutboxMessagePayload {
+  recipient_id: string;
+  content: string;  // Same as encrypted_content: the plaintext stays in the message store
+  encrypted_content: string;
+  is_encrypted: boolean;
+  session_id: string;
+  metadata: Record<string, string>;
+}
+
+export type OutboxAction =
+  | { kind: 'message'; conversationKey: string; payload: OutboxMessagePayload }
+  | { kind: 'note'; targetUserId: string; metadata?: Record<string, any> }
+  | { kind: 'star'; momentId: string }
+  | { kind: 'delete'; messageId: string }; // Server copy of a message we unsent
+
+export interface OutboxItem {
+  id: string;             // Local message id and idempotency key
+  queue: string;          // Items of the same queue are sent in order
+  action: OutboxAction;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;  // ms
+  createdAt: number;      // ms
+  lastError?: string;
+}
+
+export type OutboxEvent =
+  | { type: 'status'; item: OutboxItem }
+  | { type: 'sent'; item: OutboxItem; result: any };
+
+type OutboxListener = (event: OutboxEvent) => void;
+
+type SendResult =
+  | { ok: true; result: any }
+  | { ok: false; status: number; detail: string };
+
+interface EncryptedOutbox {
+  nonce: string;
+  ciphertext: string;
+}
+
+class OutboxService {
+  private readonly STORAGE_KEY = '@outbox';
+  private readonly BASE_DELAY = 2000;
+  private readonly MAX_DELAY = 5 * 60 * 1000;
+  private readonly MAX_ATTEMPTS = 8; // Server errors only: offline items wait for the network
+
+  private items: OutboxItem[] = [];
+  private key: Promise<Uint8Array> | null = null;
+  private loading: Promise<void> | null = null;
+  private processing = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: OutboxListener[] = [];
+
+  // ==========================================================================
+  // LIFECYCLE
+  // ==========================================================================
+
+  /**
+   * Load the persisted queue and send what is due. Call after each
+   * connect: disconnect() drops every socket listener.
+   */
+  async start(): Promise<void> {
+    await this.load();
+
+    websocketService.off('connected', this.handleConnected);
+    websocketService.on('connected', this.handleConnected);
+
+    await this.flush();
+  }
+
+  /**
+   * Connectivity is probably back: retry queued items now
+   */
+  async flush(): Promise<void> {
+    await this.load();
+
+    const now = Date.now();
+    this.items.forEach(item => {
+      if (item.status === 'queued') item.nextAttemptAt = now;
+    });
+    this.process();
+  }
+
+  private handleConnected = () => {
+    this.flush().catch(() => undefined);
+  };
+
+  // ==========================================================================
+  // QUEUE
+  // ==========================================================================
+
+  createId(): string {
+    return Crypto.randomUUID();
+  }
+
+  /**
+   * Queue an action; it is persisted before anything is sent
+   * @param id local id (the optimistic bubble), generated if omitted
+   */
+  async enqueue(action: OutboxAction, id: string = this.createId()): Promise<OutboxItem> {
+    await this.load();
+
+    const now = Date.now();
+    const item: OutboxItem = {
+      id,
+      queue: this.queueOf(action),
+      action,
+      status: 'queued',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+    };
+
+    this.items.push(item);
+    await this.persist();
+    this.emit({ type: 'status', item });
+    this.process();
+
+    return item;
+  }
+
+  /**
+   * Send a failed item again. It keeps its place: what was queued after
+   * it in the same conversation is still waiting behind it.
+   */
+  async retry(id: string): Promise<void> {
+    await this.load();
+
+    const item = this.items.find(i => i.id === id);
+    if (!item || item.status !== 'failed') return;
+
+    item.status = 'queued';
+    item.attempts = 0;
+    item.nextAttemptAt = Date.now();
+    item.lastError = undefined;
+
+    await this.persist();
+    await this.updateStoredStatus(item, 'sending');
+    this.emit({ type: 'status', item });
+    this.process();
+  }
+
+  /**
+   * Drop a failed item (the user deleted the bubble); its queue moves on
+   */
+  async discard(id: string): Promise<void> {
+    await this.load();
+
+    const before = this.items.length;
+    this.items = this.items.filter(item => item.id !== id || item.status !== 'failed');
+    if (this.items.length !== before) {
+      await this.persist();
+      this.process();
+    }
+  }
+
+  async has(id: string): Promise<boolean> {
+    await this.load();
+    return this.items.some(item => item.id === id);
+  }
+
+  private queueOf(action: OutboxAction): string {
+    switch (action.kind) {
+      case 'message':
+        return action.conversationKey;
+      case 'note':
+        return `note_${action.targetUserId}`;
+      case 'star':
+        return `star_${action.momentId}`;
+      case 'delete':
+        return `delete_${action.messageId}`;
+    }
+  }
+
+  // ==========================================================================
+  // SENDING
+  // ==========================================================================
+
+  private async process(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+    this.clearTimer();
+
+    try {
+      let item: OutboxItem | undefined;
+      while ((item = this.nextDue())) {
+        await this.send(item);
+      }
+    } catch (error) {
+      console.warn('Outbox processing failed:', error);
+    } finally {
+      this.processing = false;
+      this.scheduleNext();
+    }
+  }
+
+  /**
+   * Head of each queue that can be sent. A failed head holds its queue
+   * back until the user retries or discards it.
+   */
+  private heads(): OutboxItem[] {
+    const heads = new Map<string, OutboxItem>();
+    for (const item of this.items) {
+      if (!heads.has(item.queue)) {
+        heads.set(item.queue, item);
+      }
+    }
+    return [...heads.values()].filter(item => item.status !== 'failed');
+  }
+
+  private nextDue(): OutboxItem | undefined {
+    const now = Date.now();
+    return this.heads().find(item => item.nextAttemptAt <= now);
+  }
+
+  private async send(item: OutboxItem): Promise<void> {
+    item.status = 'sending';
+    this.emit({ type: 'status', item });
+
+    const response = await this.perform(item);
+
+    if (response.ok) {
+      this.items = this.items.filter(i => i !== item);
+      await this.persist();
+      await this.complete(item, response.result);
+      this.emit({ type: 'sent', item, result: response.result });
+      console.log(`📤 Outbox: ${item.action.kind} sent`);
+      return;
+    }
+
+    item.attempts += 1;
+    item.lastError = response.detail;
+
+    const retryable = this.isRetryable(response.status);
+    if (!retryable || (response.status !== 0 && item.attempts >= this.MAX_ATTEMPTS)) {
+      console.warn(`❌ Outbox: ${item.action.kind} failed:`, response.detail);
+      item.status = 'failed';
+
+      // Only messages can be retried by hand (tap on the bubble)
+      if (item.action.kind !== 'message') {
+        this.items = this.items.filter(i => i !== item);
+      }
+      await this.updateStoredStatus(item, 'failed');
+    } else {
+      item.status = 'queued';
+      item.nextAttemptAt = Date.now() + this.backoff(item.attempts);
+    }
+
+    await this.persist();
+    this.emit({ type: 'status', item });
+  }
+
+  private async perform(item: OutboxItem): Promise<SendResult> {
+    const options = { idempotencyKey: item.id };
+
+    try {
+      const { action } = item;
+      switch (action.kind) {
+        case 'message': {
+          const response = await apiService.sendMessage(action.payload, options);
+          return !response.error && response.message
+            ? { ok: true, result: response.message }
+            : { ok: false, status: response.status ?? 0, detail: response.error || 'Failed to send message' };
+        }
+        case 'note':
+        case 'star': {
+          const response: any = action.kind === 'note'
+            ? await apiService.sendNote(action.targetUserId, action.metadata, options)
+            : await apiService.sendStar(action.momentId, undefined, options);
+          return response?.error
+            ? { ok: false, status: response.status ?? 0, detail: response.detail }
+            : { ok: true, result: response };
+        }
+        case 'delete': {
+          const response: any = await apiService.deleteMessage(action.messageId);
+          // Already gone is as good as deleted
+          return response?.error && response.status !== 404
+            ? { ok: false, status: response.status ?? 0, detail: response.detail }
+            : { ok: true, result: response };
+        }
+      }
+    } catch (error: any) {
+      return { ok: false, status: 0, detail: error?.message || 'Network error' };
+    }
+  }
+
+  // No answer, timeouts, rate limits and server errors are worth another try
+  private isRetryable(status: number): boolean {
+    return status === 0 || status === 408 || status === 429 || status >= 500;
+  }
+
+  private backoff(attempts: number): number {
+    const delay = Math.min(this.BASE_DELAY * 2 ** (attempts - 1), this.MAX_DELAY);
+    return Math.round(delay * (0.8 + Math.random() * 0.4)); // Jitter
+  }
+
+  private scheduleNext(): void {
+    this.clearTimer();
+
+    const next = Math.min(...this.heads().map(item => item.nextAttemptAt));
+    if (!isFinite(next)) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.process();
+    }, Math.max(next - Date.now(), 0));
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // ==========================================================================
+  // SENT MESSAGES
+  // ==========================================================================
+
+  /**
+   * The stored bubble takes the server id; timers and expiry start now,
+   * whether or not the chat is open
+   */
+  private async complete(item: OutboxItem, result: any): Promise<void> {
+    if (item.action.kind !== 'message' || !result?.id) return;
+
+    const { conversationKey } = item.action;
+    try {
+      const stored = await messageStoreService.renameMessage(conversationKey, item.id, result.id, {
+        status: 'sent',
+        ...(result.timestamp ? { timestamp: result.timestamp } : {}),
+      });
+      if (!stored) return;
+
+      const body = parseMessageBody(stored.content);
+      if (body.type === 'timer') {
+        await disappearingMessagesService.setTimer(conversationKey, body.seconds, stored.timestamp);
+      }
+      const expiresIn = messageExpiresIn(body);
+      if (expiresIn) {
+        await disappearingMessagesService.schedule(conversationKey, [
+          { id: stored.id, timestamp: stored.timestamp, expiresIn },
+        ]);
+      }
+
+      // Our edit or unsend reached the server: apply it to the target here too
+      if (body.type === 'edit' || body.type === 'unsend') {
+        await messageStoreService.updateMessages(conversationKey, [body.target], target =>
+          controlChanges(target, stored, body)
+        );
+        if (body.type === 'unsend') {
+          await this.enqueue({ kind: 'delete', messageId: body.target });
+        }
+      }
+
+      store.dispatch(addMessage({ ...result, content: stored.content }));
+    } catch (error) {
+      console.warn('Failed to update sent message:', error);
+    }
+  }
+
+  private async updateStoredStatus(item: OutboxItem, status: 'sending' | 'failed'): Promise<void> {
+    if (item.action.kind !== 'message') return;
+
+    try {
+      await messageStoreService.updateMessage(item.action.conversationKey, item.id, { status });
+    } catch (error) {
+      console.warn('Failed to update message status:', error);
+    }
+  }
+
+  // ==========================================================================
+  // STORAGE
+  // ==========================================================================
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readItems().then(items => {
+        // An interrupted send is retried: the idempotency key makes it safe
+        this.items = items.map(item => item.status === 'sending' ? { ...item, status: 'queued' } : item);
+      });
+    }
+    return this.loading;
+  }
+
+  private async readItems(): Promise<OutboxItem[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return [];
+
+      const { nonce, ciphertext }: EncryptedOutbox = JSON.parse(stored);
+      const plaintext = nacl.secretbox.open(
+        util.decodeBase64(ciphertext),
+        util.decodeBase64(nonce),
+        await this.getKey()
+      );
+      if (!plaintext) {
+        console.warn('⚠️ Unreadable outbox, dropping it');
+        await AsyncStorage.removeItem(this.STORAGE_KEY);
+        return [];
+      }
+
+      return JSON.parse(util.encodeUTF8(plaintext));
+    } catch (error) {
+      console.warn('Failed to load outbox:', error);
+      return [];
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      if (this.items.length === 0) {
+        await AsyncStorage.removeItem(this.STORAGE_KEY);
+        return;
+      }
+
+      const nonce = new Uint8Array(await Crypto.getRandomBytesAsync(nacl.secretbox.nonceLength));
+      const ciphertext = nacl.secretbox(
+        util.decodeUTF8(JSON.stringify(this.items)),
+        nonce,
+        await this.getKey()
+      );
+      const encrypted: EncryptedOutbox = {
+        nonce: util.encodeBase64(nonce),
+        ciphertext: util.encodeBase64(ciphertext),
+      };
+      await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(encrypted));
+    } catch (error) {
+      // Still sent from memory, just not across a restart
+      console.warn('Failed to persist outbox:', error);
+    }
+  }
+
+  private getKey(): Promise<Uint8Array> {
+    // Shared promise: concurrent first writes must not create two keys
+    if (!this.key) {
+      this.key = this.loadKey().catch(error => {
+        this.key = null;
+        throw error;
+      });
+    }
+    return this.key;
+  }
+
+  private async loadKey(): Promise<Uint8Array> {
+    const stored = await secureKeyService.getKey(OUTBOX_KEY_ID);
+    if (stored) {
+      return util.decodeBase64(stored);
+    }
+
+    const key = new Uint8Array(await Crypto.getRandomBytesAsync(nacl.secretbox.keyLength));
+    if (!(await secureKeyService.storeKey(OUTBOX_KEY_ID, util.encodeBase64(key)))) {
+      throw new Error('Unable to store outbox key');
+    }
+    return key;
+  }
+
+  /**
+   * Forget everything queued (logout / wipe)
+   */
+  async clearAll(): Promise<void> {
+    this.clearTimer();
+    this.items = [];
+    this.key = null;
+    this.loading = null;
+
+    websocketService.off('connected', this.handleConnected);
+    await AsyncStorage.removeItem(this.STORAGE_KEY);
+    await secureKeyService.deleteKey(OUTBOX_KEY_ID);
+    console.log('🗑️ Outbox cleared');
+  }
+
+  // ==========================================================================
+  // EVENTS
+  // ==========================================================================
+
+  on(callback: OutboxListener): void {
+    this.listeners.push(callback);
+  }
+
+  off(callback: OutboxListener): void {
+    this.listeners = this.listeners.filter(cb => cb !== callback);
+  }
+
+  private emit(event: OutboxEvent): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.warn('Outbox listener failed:', error);
+      }
+    });
+  }
+}
+
+// Create singleton instance
+const outboxService = new OutboxService();
+
+export default outboxService;
@@ -0,0 +1,188 @@
+// src/services/panicWipeService.ts
+/**
+ * Cancellazione d'emergenza delle chat (panic wipe)
+ *
+ * - Attivata da un gesto (pressione lunga sul titolo Messages) o dal PIN di coercizione
+ * - Cancella chiavi, sessioni, messaggi salvati e in coda, indice di ricerca, richieste, allegati e metadati delle chat
+ * - Riporta Redux allo stato iniziale, l'account resta collegato
+ * - Modalità esca opzionale: la lista chat appare vuota finché non si sblocca col PIN vero
+ * - Ogni passo è indipendente: un errore non ferma il resto della cancellazione
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { store, resetAppState } from '@/store';
+import secureKeyService from './secureKeyService';
+import encryptionService from './encryptionService';
+import ratchetService from './ratchetService';
+import sessionManager from './sessionManager';
+import identityKeyService from './identityKeyService';
+import messageStoreService from './messageStoreService';
+import outboxService from './outboxService';
+import searchIndexService from './searchIndexService';
+import messageRequestService from './messageRequestService';
+import attachmentService from './attachmentService';
+import disappearingMessagesService from './disappearingMessagesService';
+import { NavigationService } from './navigationService';
+
+export interface PanicSettings {
+  gesture: boolean;  // Long-press on the Messages title wipes at once
+  decoy: boolean;    // After a wipe, show an empty chat list
+}
+
+const DEFAULT_SETTINGS: PanicSettings = {
+  gesture: false,
+  decoy: false,
+};
+
+class PanicWipeService {
+  private readonly SETTINGS_KEY = '@panic_settings';
+  private readonly DECOY_KEY = '@panic_decoy';
+
+  // Chat data owned by other services, and legacy keys nobody owns anymore
+  private readonly WIPED_PREFIXES = [
+    '@chat_meta_',
+    'chat_',
+    '@pending_exchange_',
+    'user_',  // Cached sender descriptors from notifications
+  ];
+
+  private settings: PanicSettings | null = null;
+  private decoyActive: boolean | null = null;
+  private wiping: Promise<void> | null = null;
+
+  // ==========================================================================
+  // WIPE
+  // ==========================================================================
+
+  /**
+   * Erase every chat secret on this device. Concurrent calls share one wipe.
+   */
+  async wipe(): Promise<void> {
+    if (!this.wiping) {
+      this.wiping = this.runWipe().finally(() => {
+        this.wiping = null;
+      });
+    }
+    return this.wiping;
+  }
+
+  private async runWipe(): Promise<void> {
+    console.log('🚨 Panic wipe');
+    const settings = await this.getSettings();
+
+    // Decoy first: nothing fetched during the wipe may show real conversations
+    if (settings.decoy) {
+      await this.setDecoyActive(true);
+    }
+
+    const steps: [string, () => Promise<unknown>][] = [
+      ['outbox', () => outboxService.clearAll()],
+      ['secure keys', () => secureKeyService.clearAll()],
+      ['session keys', () => encryptionService.deleteAllStoredKeys()],
+      ['skipped message keys', () => ratchetService.clearAll()],
+      ['chat storage', () => this.removeChatKeys()],
+      ['sessions', () => sessionManager.clearAll()],
+      ['contact keys', () => identityKeyService.clearAll()],
+      ['messages', () => messageStoreService.clearAll()],
+      ['search index', () => searchIndexService.clearAll()],
+      ['message requests', () => messageRequestService.clearAll({ acceptExisting: false })],
+      ['attachments', () => attachmentService.clearCache()],
+      ['disappearing timers', () => disappearingMessagesService.clearAll()],
+      ['notifications', () => Notifications.dismissAllNotificationsAsync()],
+      ['badge', () => Notifications.setBadgeCountAsync(0)],
+    ];
+
+    for (const [name, step] of steps) {
+      try {
+        await step();
+      } catch (error) {
+        console.warn(`Panic wipe: failed to clear ${name}:`, error);
+      }
+    }
+
+    // Open chats keep messages in component state: leave them
+    store.dispatch(resetAppState());
+    NavigationService.resetToMain('Messages');
+
+    console.log('✅ Panic wipe complete');
+  }
+
+  private async removeChatKeys(): Promise<void> {
+    const keys = await AsyncStorage.getAllKeys();
+    const wiped = keys.filter(key => this.WIPED_PREFIXES.some(prefix => key.startsWith(prefix)));
+    if (wiped.length > 0) {
+      await AsyncStorage.multiRemove(wiped);
+    }
+  }
+
+  // ==========================================================================
+  // DECOY
+  // ==========================================================================
+
+  /**
+   * While active the chat list stays empty, whatever the server returns
+   */
+  async isDecoyActive(): Promise<boolean> {
+    if (this.decoyActive === null) {
+      this.decoyActive = (await AsyncStorage.getItem(this.DECOY_KEY)) === 'true';
+    }
+    return this.decoyActive;
+  }
+
+  /**
+   * Back to the real chat list (unlock with the real PIN)
+   */
+  async endDecoy(): Promise<void> {
+    if (!(await this.isDecoyActive())) return;
+    await this.setDecoyActive(false);
+    console.log('🎭 Decoy mode ended');
+  }
+
+  private async setDecoyActive(active: boolean): Promise<void> {
+    this.decoyActive = active;
+    if (active) {
+      await AsyncStorage.setItem(this.DECOY_KEY, 'true');
+    } else {
+      await AsyncStorage.removeItem(this.DECOY_KEY);
+    }
+  }
+
+  // ==========================================================================
+  // SETTINGS
+  // ==========================================================================
+
+  async getSettings(): Promise<PanicSettings> {
+    if (this.settings) return this.settings;
+
+    try {
+      const stored = await AsyncStorage.getItem(this.SETTINGS_KEY);
+      this.settings = { ...DEFAULT_SETTINGS, ...(stored ? JSON.parse(stored) : {}) };
+    } catch (error) {
+      console.warn('Failed to load panic settings:', error);
+      this.settings = { ...DEFAULT_SETTINGS };
+    }
+
+    return this.settings!;
+  }
+
+  async updateSettings(changes: Partial<PanicSettings>): Promise<PanicSettings> {
+    const updated = { ...(await this.getSettings()), ...changes };
+    await AsyncStorage.setItem(this.SETTINGS_KEY, JSON.stringify(updated));
+    this.settings = updated;
+    return updated;
+  }
+
+  /**
+   * Back to defaults (logout)
+   */
+  async reset(): Promise<void> {
+    this.settings = null;
+    this.decoyActive = null;
+    await AsyncStorage.multiRemove([this.SETTINGS_KEY, this.DECOY_KEY]);
+  }
+}
+
+// Create singleton instance
+const panicWipeService = new PanicWipeService();
+
+export default panicWipeService;
@@ -0,0 +1,443 @@
+// src/services/prekeyService.ts
+/**
+ * Prekey bundle e key agreement asincrono (stile X3DH)
+ *
+ * Implementa:
+ * - Identity key X25519 + signing key Ed25519 per dispositivo
+ * - Signed prekey ruotata periodicamente, firmata con la signing key
+ * - One-time prekey caricate in blocco e rifornite quando scarseggiano
+ * - Calcolo del segreto condiviso lato mittente e lato destinatario
+ *
+ * Il primo messaggio verso un match offline viene cifrato subito:
+ * il destinatario completa l'accordo quando riceve l'header X3DH.
+ * Le chiavi private restano in SecureKeyService, il server vede solo le pubbliche.
+ */
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import apiService from './api';
+import secureKeyService from './secureKeyService';
+import { hkdf, concatBytes, wipeBytes } from '@/utils/cryptoPrimitives';
+import {
+  SUPPORTED_CIPHER_SUITES,
+  CIPHER_SUITE_DOUBLE_RATCHET,
+  parseCipherSuites,
+} from '@/utils/cipherSuites';
+import { PrekeyBundle, OneTimePrekey, SignedPrekey } from '@/types/api';
+
+/**
+ * Sent alongside the first messages of a prekey session so the
+ * recipient can derive the same shared secret
+ */
+export interface PrekeyMessageHeader {
+  identity_key: string;
+  signing_key: string;
+  ephemeral_key: string;
+  signed_prekey_id: number;
+  one_time_prekey_id?: number;
+}
+
+export interface InitiatedPrekeySession {
+  sharedSecret: string;
+  theirIdentityKey: string;
+  theirRatchetKey: string; // Their signed prekey: first DH ratchet target
+  header: PrekeyMessageHeader;
+}
+
+export interface AcceptedPrekeySession {
+  sharedSecret: string;
+  theirIdentityKey: string;
+  ratchetKeyPair: { publicKey: string; privateKey: string };
+  oneTimePrekeyId?: number; // To consume once the first message has opened
+}
+
+interface PrekeyMeta {
+  signedPrekeyId: number;
+  signedPrekeyCreated: number;
+  previousSignedPrekeyId?: number;
+  nextOneTimePrekeyId: number;
+  lastUpload: number;
+}
+
+class PrekeyService {
+  private readonly META_KEY = '@prekeys_meta';
+  private readonly IDENTITY_DH_KEY = 'identity_dh';
+  private readonly IDENTITY_SIGN_KEY = 'identity_sign';
+  private readonly SIGNED_PREKEY_PREFIX = 'spk_';
+  private readonly ONE_TIME_PREKEY_PREFIX = 'opk_';
+
+  private readonly ONE_TIME_PREKEY_BATCH = 100;
+  private readonly ONE_TIME_PREKEY_MIN = 20;
+  private readonly SIGNED_PREKEY_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+  private readonly X3DH_INFO = util.decodeUTF8('notamy-x3dh-v1');
+
+  private syncPromise: Promise<boolean> | null = null;
+
+  // ==========================================================================
+  // IDENTITY
+  // ==========================================================================
+
+  /**
+   * Get (or create on first use) this device's identity keys
+   */
+  async getIdentity(): Promise<{
+    dh: nacl.BoxKeyPair;
+    signing: nacl.SignKeyPair;
+  }> {
+    let dhSecret = await secureKeyService.getKey(this.IDENTITY_DH_KEY);
+    let signSecret = await secureKeyService.getKey(this.IDENTITY_SIGN_KEY);
+
+    if (!dhSecret || !signSecret) {
+      const dh = nacl.box.keyPair();
+      const signing = nacl.sign.keyPair();
+      dhSecret = util.encodeBase64(dh.secretKey);
+      signSecret = util.encodeBase64(signing.secretKey);
+
+      await secureKeyService.storeKey(this.IDENTITY_DH_KEY, dhSecret);
+      await secureKeyService.storeKey(this.IDENTITY_SIGN_KEY, signSecret);
+      // A new identity invalidates whatever the server held for us
+      await AsyncStorage.removeItem(this.META_KEY);
+
+      console.log('🔑 Generated new identity keys');
+    }
+
+    return {
+      dh: nacl.box.keyPair.fromSecretKey(util.decodeBase64(dhSecret)),
+      signing: nacl.sign.keyPair.fromSecretKey(util.decodeBase64(signSecret)),
+    };
+  }
+
+  /**
+   * Whether a secure storage key id is one of ours: identity, signing,
+   * signed and one-time prekeys (what a key backup carries)
+   */
+  isPrekeyMaterial(keyId: string): boolean {
+    return (
+      keyId === this.IDENTITY_DH_KEY ||
+      keyId === this.IDENTITY_SIGN_KEY ||
+      keyId.startsWith(this.SIGNED_PREKEY_PREFIX) ||
+      keyId.startsWith(this.ONE_TIME_PREKEY_PREFIX)
+    );
+  }
+
+  /**
+   * Public identity key, as shown to contacts and used for safety numbers
+   */
+  async getIdentityPublicKey(): Promise<string> {
+    const identity = await this.getIdentity();
+    return util.encodeBase64(identity.dh.publicKey);
+  }
+
+  // ==========================================================================
+  // UPLOAD & REPLENISHMENT
+  // ==========================================================================
+
+  /**
+   * Make sure the server has a current signed prekey and enough one-time
+   * prekeys. Safe to call often: concurrent calls share one sync.
+   */
+  async syncPrekeys(): Promise<boolean> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.doSync().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  private async doSync(): Promise<boolean> {
+    try {
+      const identity = await this.getIdentity();
+      let meta = await this.getMeta();
+
+      let signedPrekey: SignedPrekey | undefined;
+      if (!meta || Date.now() - meta.signedPrekeyCreated > this.SIGNED_PREKEY_MAX_AGE) {
+        const rotated = await this.rotateSignedPrekey(identity, meta);
+        meta = rotated.meta;
+        signedPrekey = rotated.signedPrekey;
+      }
+
+      let available = 0;
+      if (!signedPrekey) {
+        const count = await apiService.getPrekeyCount();
+        if ('error' in count && count.error) {
+          return false;
+        }
+        available = (count as { one_time_prekeys: number }).one_time_prekeys || 0;
+      }
+
+      const needed = available < this.ONE_TIME_PREKEY_MIN
+        ? this.ONE_TIME_PREKEY_BATCH - available
+        : 0;
+
+      if (!signedPrekey && needed === 0) {
+        return true;
+      }
+
+      const oneTimePrekeys = await this.generateOneTimePrekeys(meta, needed);
+
+      const response = await apiService.uploadPrekeys({
+        identity_key: util.encodeBase64(identity.dh.publicKey),
+        signing_key: util.encodeBase64(identity.signing.publicKey),
+        signed_prekey: signedPrekey,
+        one_time_prekeys: oneTimePrekeys,
+        cipher_suites: SUPPORTED_CIPHER_SUITES,
+      });
+
+      if (response?.error) {
+        console.warn('Prekey upload rejected:', response.detail);
+        return false;
+      }
+
+      meta.lastUpload = Date.now();
+      await this.saveMeta(meta);
+
+      console.log(`🔑 Uploaded ${oneTimePrekeys.length} one-time prekeys${signedPrekey ? ' + signed prekey' : ''}`);
+      return true;
+    } catch (error) {
+      console.warn('Prekey sync failed:', error);
+      return false;
+    }
+  }
+
+  private async rotateSignedPrekey(
+    identity: { dh: nacl.BoxKeyPair; signing: nacl.SignKeyPair },
+    meta: PrekeyMeta | null
+  ): Promise<{ meta: PrekeyMeta; signedPrekey: SignedPrekey }> {
+    const keyId = meta ? meta.signedPrekeyId + 1 : 1;
+    const keyPair = nacl.box.keyPair();
+
+    await secureKeyService.storeKey(
+      `${this.SIGNED_PREKEY_PREFIX}${keyId}`,
+      util.encodeBase64(keyPair.secretKey)
+    );
+
+    // Keep the previous signed prekey one more period so that prekey
+    // messages created from a bundle fetched before rotation still open
+    if (meta?.previousSignedPrekeyId) {
+      await secureKeyService.deleteKey(`${this.SIGNED_PREKEY_PREFIX}${meta.previousSignedPrekeyId}`);
+    }
+
+    const signature = nacl.sign.detached(
+      concatBytes(identity.dh.publicKey, keyPair.publicKey),
+      identity.signing.secretKey
+    );
+
+    const updated: PrekeyMeta = {
+      signedPrekeyId: keyId,
+      signedPrekeyCreated: Date.now(),
+      previousSignedPrekeyId: meta?.signedPrekeyId,
+      nextOneTimePrekeyId: meta?.nextOneTimePrekeyId || 1,
+      lastUpload: meta?.lastUpload || 0,
+    };
+    await this.saveMeta(updated);
+
+    return {
+      meta: updated,
+      signedPrekey: {
+        key_id: keyId,
+        public_key: util.encodeBase64(keyPair.publicKey),
+        signature: util.encodeBase64(signature),
+      },
+    };
+  }
+
+  private async generateOneTimePrekeys(meta: PrekeyMeta, count: number): Promise<OneTimePrekey[]> {
+    const prekeys: OneTimePrekey[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const keyId = meta.nextOneTimePrekeyId++;
+      const keyPair = nacl.box.keyPair();
+
+      await secureKeyService.storeKey(
+        `${this.ONE_TIME_PREKEY_PREFIX}${keyId}`,
+        util.encodeBase64(keyPair.secretKey)
+      );
+
+      prekeys.push({
+        key_id: keyId,
+        public_key: util.encodeBase64(keyPair.publicKey),
+      });
+    }
+
+    // Persist the counter before upload so ids are never reused
+    await this.saveMeta(meta);
+    return prekeys;
+  }
+
+  // ==========================================================================
+  // KEY AGREEMENT
+  // ==========================================================================
+
+  /**
+   * Verify a fetched bundle: the signed prekey must be signed by the
+   * bundle's signing key over identity_key || signed_prekey
+   */
+  verifyBundle(bundle: PrekeyBundle): boolean {
+    try {
+      const identityKey = util.decodeBase64(bundle.identity_key);
+      const signingKey = util.decodeBase64(bundle.signing_key);
+      const prekey = util.decodeBase64(bundle.signed_prekey.public_key);
+      const signature = util.decodeBase64(bundle.signed_prekey.signature);
+
+      if (
+        identityKey.length !== nacl.box.publicKeyLength ||
+        prekey.length !== nacl.box.publicKeyLength ||
+        signingKey.length !== nacl.sign.publicKeyLength ||
+        signature.length !== nacl.sign.signatureLength
+      ) {
+        return false;
+      }
+
+      return nacl.sign.detached.verify(concatBytes(identityKey, prekey), signature, signingKey);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Sender side: fetch the partner's bundle and derive the shared secret.
+   * Returns null if the partner has no (valid) bundle, so callers can
+   * fall back to the interactive exchange.
+   */
+  async initiateSession(recipientId: string): Promise<InitiatedPrekeySession | null> {
+    const response = await apiService.getPrekeyBundle(recipientId);
+    if (!response || ('error' in response && response.error)) {
+      return null;
+    }
+
+    const bundle = response as PrekeyBundle;
+    if (!bundle.signed_prekey || !this.verifyBundle(bundle)) {
+      console.warn('⚠️ Prekey bundle signature invalid for', recipientId);
+      return null;
+    }
+
+    // Prekey sessions always run the ratchet
+    const advertised = parseCipherSuites(bundle.cipher_suites);
+    if (advertised && !advertised.includes(CIPHER_SUITE_DOUBLE_RATCHET)) {
+      return null;
+    }
+
+    const identity = await this.getIdentity();
+    const ephemeral = nacl.box.keyPair();
+
+    const theirIdentity = util.decodeBase64(bundle.identity_key);
+    const theirSignedPrekey = util.decodeBase64(bundle.signed_prekey.public_key);
+
+    const dhResults = [
+      nacl.scalarMult(identity.dh.secretKey, theirSignedPrekey),
+      nacl.scalarMult(ephemeral.secretKey, theirIdentity),
+      nacl.scalarMult(ephemeral.secretKey, theirSignedPrekey),
+    ];
+    if (bundle.one_time_prekey) {
+      dhResults.push(
+        nacl.scalarMult(ephemeral.secretKey, util.decodeBase64(bundle.one_time_prekey.public_key))
+      );
+    }
+
+    const sharedSecret = this.deriveSecret(dhResults);
+    wipeBytes(ephemeral.secretKey);
+
+    return {
+      sharedSecret,
+      theirIdentityKey: bundle.identity_key,
+      theirRatchetKey: bundle.signed_prekey.public_key,
+      header: {
+        identity_key: util.encodeBase64(identity.dh.publicKey),
+        signing_key: util.encodeBase64(identity.signing.publicKey),
+        ephemeral_key: util.encodeBase64(ephemeral.publicKey),
+        signed_prekey_id: bundle.signed_prekey.key_id,
+        one_time_prekey_id: bundle.one_time_prekey?.key_id,
+      },
+    };
+  }
+
+  /**
+   * Recipient side: derive the shared secret from a prekey message header.
+   * Nothing is consumed here: the caller deletes the one-time prekey with
+   * consumeOneTimePrekey() once the first message has decrypted, so a
+   * forged header can't burn it.
+   */
+  async acceptSession(header: PrekeyMessageHeader): Promise<AcceptedPrekeySession> {
+    const identity = await this.getIdentity();
+
+    const signedPrekeySecret = await secureKeyService.getKey(
+      `${this.SIGNED_PREKEY_PREFIX}${header.signed_prekey_id}`
+    );
+    if (!signedPrekeySecret) {
+      throw new Error('Unknown signed prekey');
+    }
+    const signedPrekey = nacl.box.keyPair.fromSecretKey(util.decodeBase64(signedPrekeySecret));
+
+    const theirIdentity = util.decodeBase64(header.identity_key);
+    const theirEphemeral = util.decodeBase64(header.ephemeral_key);
+
+    const dhResults = [
+      nacl.scalarMult(signedPrekey.secretKey, theirIdentity),
+      nacl.scalarMult(identity.dh.secretKey, theirEphemeral),
+      nacl.scalarMult(signedPrekey.secretKey, theirEphemeral),
+    ];
+
+    if (header.one_time_prekey_id !== undefined) {
+      const oneTimeKey = `${this.ONE_TIME_PREKEY_PREFIX}${header.one_time_prekey_id}`;
+      const oneTimeSecret = await secureKeyService.getKey(oneTimeKey);
+      if (!oneTimeSecret) {
+        throw new Error('One-time prekey already used');
+      }
+      dhResults.push(nacl.scalarMult(util.decodeBase64(oneTimeSecret), theirEphemeral));
+    }
+
+    return {
+      sharedSecret: this.deriveSecret(dhResults),
+      theirIdentityKey: header.identity_key,
+      ratchetKeyPair: {
+        publicKey: util.encodeBase64(signedPrekey.publicKey),
+        privateKey: signedPrekeySecret,
+      },
+      oneTimePrekeyId: header.one_time_prekey_id,
+    };
+  }
+
+  /**
+   * Delete a one-time prekey after use; the server stock is replenished in background
+   */
+  async consumeOneTimePrekey(keyId: number): Promise<void> {
+    await secureKeyService.deleteKey(`${this.ONE_TIME_PREKEY_PREFIX}${keyId}`);
+    this.syncPrekeys().catch(() => undefined);
+  }
+
+  /**
+   * SK = HKDF(0xFF * 32 || DH1 || DH2 || DH3 [|| DH4])
+   */
+  private deriveSecret(dhResults: Uint8Array[]): string {
+    const input = concatBytes(new Uint8Array(32).fill(0xff), ...dhResults);
+    const secret = hkdf(input, null, this.X3DH_INFO, 32);
+
+    dhResults.forEach(wipeBytes);
+    wipeBytes(input);
+
+    return util.encodeBase64(secret);
+  }
+
+  // ==========================================================================
+  // STORAGE
+  // ==========================================================================
+
+  private async getMeta(): Promise<PrekeyMeta | null> {
+    try {
+      const stored = await AsyncStorage.getItem(this.META_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async saveMeta(meta: PrekeyMeta): Promise<void> {
+    await AsyncStorage.setItem(this.META_KEY, JSON.stringify(meta));
+  }
+}
+
+// Create singleton instance
+const prekeyService = new PrekeyService();
+
+export default prekeyService;
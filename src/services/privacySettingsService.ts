@@ -0,0 +1,57 @@
+// src/services/privacySettingsService.ts
+/**
+ * Impostazioni di privacy e sicurezza dell'utente
+ *
+ * - Salvate localmente, mai inviate al server
+ * - Default sicuri ma senza attrito: le opzioni restrittive sono opt-in
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export interface PrivacySettings {
+  blockOnKeyChange: boolean; // Hold outgoing messages until a key change is acknowledged
+  readReceipts: boolean;     // Off: partners never see our reads, and we never see theirs
+}
+
+const DEFAULT_SETTINGS: PrivacySettings = {
+  blockOnKeyChange: false,
+  readReceipts: true,
+};
+
+class PrivacySettingsService {
+  private readonly STORAGE_KEY = '@privacy_settings';
+  private cache: PrivacySettings | null = null;
+
+  async getSettings(): Promise<PrivacySettings> {
+    if (this.cache) return this.cache;
+
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      this.cache = { ...DEFAULT_SETTINGS, ...(stored ? JSON.parse(stored) : {}) };
+    } catch (error) {
+      console.warn('Failed to load privacy settings:', error);
+      this.cache = { ...DEFAULT_SETTINGS };
+    }
+
+    return this.cache!;
+  }
+
+  async updateSettings(changes: Partial<PrivacySettings>): Promise<PrivacySettings> {
+    const updated = { ...(await this.getSettings()), ...changes };
+    await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(updated));
+    this.cache = updated;
+    return updated;
+  }
+
+  /**
+   * Back to defaults (logout / wipe)
+   */
+  async reset(): Promise<void> {
+    this.cache = null;
+    await AsyncStorage.removeItem(this.STORAGE_KEY);
+  }
+}
+
+// Create singleton instance
+const privacySettingsService = new PrivacySettingsService();
+
+export default privacySettingsService;
@@ -0,0 +1,586 @@
+// src/services/ratchetService.ts
+/**
+ * Double Ratchet per le sessioni di chat
+ *
+ * Implementa:
+ * - Catena simmetrica: una nuova chiave per ogni messaggio (KDF_CK)
+ * - Ratchet DH X25519 a ogni cambio di turno (KDF_RK)
+ * - Chiavi dei messaggi saltati per consegne WebSocket fuori ordine
+ * - Stato persistito in SecureKeyService, mai in chiaro in AsyncStorage
+ * - Le chiavi saltate (fino a MAX_STORED_SKIPPED) non stanno nel secure store:
+ *   sono cifrate in AsyncStorage, con la chiave nel secure store
+ *
+ * Lo stato viene modificato su una copia e salvato solo dopo che la
+ * decifratura ha avuto successo: un messaggio corrotto o riprodotto non
+ * può far avanzare (e quindi rompere) la sessione.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import secureKeyService from './secureKeyService';
+import { hkdf, hmacSha256, wipeBytes } from '@/utils/cryptoPrimitives';
+
+export interface RatchetHeader {
+  dh: string;  // Sender's current ratchet public key (base64)
+  pn: number;  // Length of the sender's previous sending chain
+  n: number;   // Message number in the current sending chain
+}
+
+interface RatchetKeyPair {
+  publicKey: string;
+  privateKey: string;
+}
+
+interface SkippedKey {
+  key: string;
+  storedAt: number;
+}
+
+interface RatchetState {
+  version: 1;
+  dhs: RatchetKeyPair;
+  dhr: string | null;
+  rk: string;
+  cks: string | null;
+  ckr: string | null;
+  ns: number;
+  nr: number;
+  pn: number;
+  skipped: Record<string, SkippedKey>;
+  created: number;
+  updated: number;
+}
+
+// What goes in the secure store: states saved before the split still carry `skipped`
+type StoredRatchetState = Omit<RatchetState, 'skipped'> & { skipped?: Record<string, SkippedKey> };
+
+interface EncryptedSkippedKeys {
+  nonce: string;
+  ciphertext: string;
+}
+
+class RatchetService {
+  private readonly STORAGE_PREFIX = 'ratchet_';
+  private readonly SKIPPED_PREFIX = '@ratchet_skipped_';
+  private readonly SKIPPED_STORE_KEY_ID = 'skipped_keys_store';
+  private readonly MAX_SKIP = 1000; // Max keys skipped in a single chain
+  private readonly MAX_STORED_SKIPPED = 2000; // Max skipped keys kept per session
+  private readonly SKIPPED_KEY_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+  private readonly INFO_ROOT = util.decodeUTF8('notamy-ratchet-root-v1');
+  private readonly INFO_BOOTSTRAP = util.decodeUTF8('notamy-ratchet-bootstrap-v1');
+
+  private locks: Map<string, Promise<unknown>> = new Map();
+  private savedSkipped: Map<string, string> = new Map(); // Last written skipped keys, per session
+  private skippedStoreKey: Promise<Uint8Array> | null = null;
+
+  /**
+   * Initialize the session as the party that starts the ratchet.
+   * `theirRatchetKey` is the partner's published X25519 key.
+   */
+  async initializeAsInitiator(
+    sessionId: string,
+    sharedSecret: string,
+    theirRatchetKey: string
+  ): Promise<void> {
+    const sk = util.decodeBase64(sharedSecret);
+    const dhs = nacl.box.keyPair();
+    const dhOut = nacl.scalarMult(dhs.secretKey, util.decodeBase64(theirRatchetKey));
+    const [rk, cks] = this.kdfRoot(sk, dhOut);
+
+    const state: RatchetState = {
+      version: 1,
+      dhs: {
+        publicKey: util.encodeBase64(dhs.publicKey),
+        privateKey: util.encodeBase64(dhs.secretKey),
+      },
+      dhr: theirRatchetKey,
+      rk: util.encodeBase64(rk),
+      cks: util.encodeBase64(cks),
+      // The responder may speak first: its bootstrap chain is our receiving chain
+      ckr: util.encodeBase64(this.bootstrapChain(sk)),
+      ns: 0,
+      nr: 0,
+      pn: 0,
+      skipped: {},
+      created: Date.now(),
+      updated: Date.now(),
+    };
+
+    wipeBytes(dhOut);
+    await this.withLock(sessionId, () => this.saveState(sessionId, state));
+  }
+
+  /**
+   * Initialize the session as the party whose published key pair
+   * (`myRatchetKeyPair`) the initiator ratchets against.
+   */
+  async initializeAsResponder(
+    sessionId: string,
+    sharedSecret: string,
+    myRatchetKeyPair: RatchetKeyPair
+  ): Promise<void> {
+    const state = this.responderState(sharedSecret, myRatchetKeyPair);
+    await this.withLock(sessionId, () => this.saveState(sessionId, state));
+  }
+
+  /**
+   * Open the first message of a session we respond to (prekey message).
+   * The responder state is built in memory and only persisted if `open`
+   * succeeds: a forged first message leaves no session behind.
+   */
+  async decryptAsResponder<T>(
+    sessionId: string,
+    sharedSecret: string,
+    myRatchetKeyPair: RatchetKeyPair,
+    header: RatchetHeader,
+    open: (messageKey: string) => Promise<T>
+  ): Promise<T> {
+    return this.withLock(sessionId, async () => {
+      // Another first message may have set the session up meanwhile
+      const state = await this.loadState(sessionId) ||
+        this.responderState(sharedSecret, myRatchetKeyPair);
+
+      const result = await this.openWithState(state, header, open);
+      await this.saveState(sessionId, state);
+      return result;
+    });
+  }
+
+  private responderState(sharedSecret: string, myRatchetKeyPair: RatchetKeyPair): RatchetState {
+    const sk = util.decodeBase64(sharedSecret);
+
+    return {
+      version: 1,
+      dhs: { ...myRatchetKeyPair },
+      dhr: null,
+      rk: util.encodeBase64(sk),
+      cks: util.encodeBase64(this.bootstrapChain(sk)),
+      ckr: null,
+      ns: 0,
+      nr: 0,
+      pn: 0,
+      skipped: {},
+      created: Date.now(),
+      updated: Date.now(),
+    };
+  }
+
+  /**
+   * Initialize from a symmetric X25519 exchange where both sides hold
+   * each other's public key. Roles are assigned deterministically so the
+   * two clients agree without another round trip.
+   */
+  async initializeFromExchange(
+    sessionId: string,
+    sharedSecret: string,
+    myKeyPair: RatchetKeyPair,
+    theirPublicKey: string
+  ): Promise<void> {
+    if (myKeyPair.publicKey < theirPublicKey) {
+      await this.initializeAsInitiator(sessionId, sharedSecret, theirPublicKey);
+    } else {
+      await this.initializeAsResponder(sessionId, sharedSecret, myKeyPair);
+    }
+  }
+
+  /**
+   * Check whether a ratchet exists for this session
+   */
+  async hasSession(sessionId: string): Promise<boolean> {
+    return !!(await secureKeyService.getKey(this.storageKey(sessionId)));
+  }
+
+  /**
+   * Advance the sending chain and seal a message with the new message key.
+   * The state is persisted before the ciphertext is handed back, so a
+   * message key is never reused even if the app dies right after.
+   */
+  async encrypt<T>(
+    sessionId: string,
+    seal: (messageKey: string) => Promise<T>
+  ): Promise<{ header: RatchetHeader; sealed: T }> {
+    return this.withLock(sessionId, async () => {
+      const state = await this.loadState(sessionId);
+      if (!state) {
+        throw new Error('No ratchet session');
+      }
+      if (!state.cks) {
+        throw new Error('Sending chain not initialized');
+      }
+
+      const [nextChain, messageKey] = this.kdfChain(util.decodeBase64(state.cks));
+      const header: RatchetHeader = {
+        dh: state.dhs.publicKey,
+        pn: state.pn,
+        n: state.ns,
+      };
+
+      state.cks = util.encodeBase64(nextChain);
+      state.ns += 1;
+      state.updated = Date.now();
+      await this.saveState(sessionId, state);
+
+      const sealed = await seal(util.encodeBase64(messageKey));
+      wipeBytes(messageKey);
+
+      return { header, sealed };
+    });
+  }
+
+  /**
+   * Derive the message key for an incoming header and open the message.
+   * Skipped keys are stored for out-of-order delivery; the updated state is
+   * only committed if `open` succeeds.
+   */
+  async decrypt<T>(
+    sessionId: string,
+    header: RatchetHeader,
+    open: (messageKey: string) => Promise<T>
+  ): Promise<T> {
+    return this.withLock(sessionId, async () => {
+      const state = await this.loadState(sessionId);
+      if (!state) {
+        throw new Error('No ratchet session');
+      }
+
+      const result = await this.openWithState(state, header, open);
+      await this.saveState(sessionId, state);
+      return result;
+    });
+  }
+
+  /**
+   * Delete the ratchet state for a session
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.withLock(sessionId, async () => {
+      await secureKeyService.deleteKey(this.storageKey(sessionId));
+      await AsyncStorage.removeItem(this.skippedKey(sessionId));
+      this.savedSkipped.delete(sessionId);
+    });
+  }
+
+  /**
+   * Forget the skipped keys of every session (logout / wipe). The states
+   * themselves go with SecureKeyService.clearAll.
+   */
+  async clearAll(): Promise<void> {
+    this.savedSkipped.clear();
+    this.skippedStoreKey = null;
+
+    const keys = await AsyncStorage.getAllKeys();
+    const ours = keys.filter(key => key.startsWith(this.SKIPPED_PREFIX));
+    if (ours.length > 0) {
+      await AsyncStorage.multiRemove(ours);
+    }
+  }
+
+  // ==========================================================================
+  // RATCHET STEPS
+  // ==========================================================================
+
+  /**
+   * Advance `state` (a loaded copy) for an incoming header and open the
+   * message. Throws before `state` is worth saving if `open` fails.
+   */
+  private async openWithState<T>(
+    state: RatchetState,
+    header: RatchetHeader,
+    open: (messageKey: string) => Promise<T>
+  ): Promise<T> {
+    this.validateHeader(header);
+
+    // 1. Out-of-order message whose key was stored earlier
+    const skippedId = this.skippedId(header.dh, header.n);
+    const skipped = state.skipped[skippedId];
+    if (skipped) {
+      const result = await open(skipped.key);
+      delete state.skipped[skippedId];
+      state.updated = Date.now();
+      return result;
+    }
+
+    // 2. Same chain, key already consumed: duplicate or replay
+    if (header.dh === state.dhr && header.n < state.nr) {
+      throw new Error('Message key already used');
+    }
+
+    // 3. New ratchet key from the partner: DH ratchet step
+    if (header.dh !== state.dhr) {
+      this.skipMessageKeys(state, header.pn);
+      this.dhRatchet(state, header);
+    }
+
+    this.skipMessageKeys(state, header.n);
+
+    if (!state.ckr) {
+      throw new Error('Receiving chain not initialized');
+    }
+
+    const [nextChain, messageKey] = this.kdfChain(util.decodeBase64(state.ckr));
+    const result = await open(util.encodeBase64(messageKey));
+    wipeBytes(messageKey);
+
+    state.ckr = util.encodeBase64(nextChain);
+    state.nr += 1;
+    state.updated = Date.now();
+    this.pruneSkippedKeys(state);
+
+    return result;
+  }
+
+  private dhRatchet(state: RatchetState, header: RatchetHeader): void {
+    state.pn = state.ns;
+    state.ns = 0;
+    state.nr = 0;
+    state.dhr = header.dh;
+
+    const theirKey = util.decodeBase64(header.dh);
+
+    // Receiving chain from our current key and their new one
+    const dhIn = nacl.scalarMult(util.decodeBase64(state.dhs.privateKey), theirKey);
+    const [rk1, ckr] = this.kdfRoot(util.decodeBase64(state.rk), dhIn);
+
+    // Fresh key pair for our next sending chain
+    const dhs = nacl.box.keyPair();
+    const dhOut = nacl.scalarMult(dhs.secretKey, theirKey);
+    const [rk2, cks] = this.kdfRoot(rk1, dhOut);
+
+    state.dhs = {
+      publicKey: util.encodeBase64(dhs.publicKey),
+      privateKey: util.encodeBase64(dhs.secretKey),
+    };
+    state.rk = util.encodeBase64(rk2);
+    state.ckr = util.encodeBase64(ckr);
+    state.cks = util.encodeBase64(cks);
+
+    wipeBytes(dhIn);
+    wipeBytes(dhOut);
+  }
+
+  private skipMessageKeys(state: RatchetState, until: number): void {
+    if (!state.ckr || !state.dhr) return;
+
+    if (until - state.nr > this.MAX_SKIP) {
+      throw new Error('Too many skipped messages');
+    }
+
+    let chain = util.decodeBase64(state.ckr);
+    while (state.nr < until) {
+      const [nextChain, messageKey] = this.kdfChain(chain);
+      state.skipped[this.skippedId(state.dhr, state.nr)] = {
+        key: util.encodeBase64(messageKey),
+        storedAt: Date.now(),
+      };
+      chain = nextChain;
+      state.nr += 1;
+    }
+    state.ckr = util.encodeBase64(chain);
+  }
+
+  private pruneSkippedKeys(state: RatchetState): void {
+    const now = Date.now();
+    const entries = Object.entries(state.skipped)
+      .filter(([, value]) => now - value.storedAt < this.SKIPPED_KEY_TTL)
+      .sort((a, b) => a[1].storedAt - b[1].storedAt);
+
+    state.skipped = Object.fromEntries(entries.slice(-this.MAX_STORED_SKIPPED));
+  }
+
+  private validateHeader(header: RatchetHeader): void {
+    if (
+      !header ||
+      typeof header.dh !== 'string' ||
+      !Number.isInteger(header.n) || header.n < 0 ||
+      !Number.isInteger(header.pn) || header.pn < 0
+    ) {
+      throw new Error('Invalid ratchet header');
+    }
+
+    try {
+      if (util.decodeBase64(header.dh).length !== nacl.box.publicKeyLength) {
+        throw new Error();
+      }
+    } catch {
+      throw new Error('Invalid ratchet key in header');
+    }
+  }
+
+  // ==========================================================================
+  // KDF
+  // ==========================================================================
+
+  /**
+   * KDF_RK: new root key + chain key from the current root key and a DH output
+   */
+  private kdfRoot(rootKey: Uint8Array, dhOut: Uint8Array): [Uint8Array, Uint8Array] {
+    const out = hkdf(dhOut, rootKey, this.INFO_ROOT, 64);
+    return [out.slice(0, 32), out.slice(32, 64)];
+  }
+
+  /**
+   * KDF_CK: next chain key + message key
+   */
+  private kdfChain(chainKey: Uint8Array): [Uint8Array, Uint8Array] {
+    const messageKey = hmacSha256(chainKey, new Uint8Array([0x01]));
+    const nextChain = hmacSha256(chainKey, new Uint8Array([0x02]));
+    return [nextChain, messageKey];
+  }
+
+  private bootstrapChain(sharedSecret: Uint8Array): Uint8Array {
+    return hkdf(sharedSecret, null, this.INFO_BOOTSTRAP, 32);
+  }
+
+  // ==========================================================================
+  // STORAGE
+  // ==========================================================================
+
+  private storageKey(sessionId: string): string {
+    return `${this.STORAGE_PREFIX}${sessionId}`;
+  }
+
+  private skippedId(dh: string, n: number): string {
+    return `${dh}:${n}`;
+  }
+
+  private skippedKey(sessionId: string): string {
+    return `${this.SKIPPED_PREFIX}${sessionId}`;
+  }
+
+  private async loadState(sessionId: string): Promise<RatchetState | null> {
+    const stored = await secureKeyService.getKey(this.storageKey(sessionId));
+    if (!stored) return null;
+
+    let state: StoredRatchetState;
+    try {
+      state = JSON.parse(util.encodeUTF8(util.decodeBase64(stored)));
+    } catch {
+      console.warn('Corrupted ratchet state for session', sessionId);
+      return null;
+    }
+
+    // States saved before the split carry their skipped keys: moved out on the next save
+    const skipped = state.skipped ?? await this.loadSkippedKeys(sessionId);
+    return { ...state, skipped };
+  }
+
+  /**
+   * The secure store only holds a couple of KB per item on Android: up to
+   * MAX_STORED_SKIPPED skipped keys would not fit, so they are written
+   * apart, first, so a saved state never points past keys that were lost.
+   */
+  private async saveState(sessionId: string, state: RatchetState): Promise<void> {
+    const { skipped, ...rest } = state;
+    await this.saveSkippedKeys(sessionId, skipped);
+
+    // SecureKeyService expects base64 values
+    const encoded = util.encodeBase64(util.decodeUTF8(JSON.stringify(rest)));
+    const stored = await secureKeyService.storeKey(this.storageKey(sessionId), encoded);
+    if (!stored) {
+      throw new Error('Failed to persist ratchet state');
+    }
+  }
+
+  private async loadSkippedKeys(sessionId: string): Promise<Record<string, SkippedKey>> {
+    const stored = await AsyncStorage.getItem(this.skippedKey(sessionId));
+    if (!stored) return {};
+
+    const key = await this.getSkippedKeysKey(sessionId);
+    try {
+      const { nonce, ciphertext }: EncryptedSkippedKeys = JSON.parse(stored);
+      const plaintext = nacl.secretbox.open(util.decodeBase64(ciphertext), util.decodeBase64(nonce), key);
+      if (!plaintext) throw new Error('Unreadable');
+
+      const serialized = util.encodeUTF8(plaintext);
+      const skipped = JSON.parse(serialized);
+      this.savedSkipped.set(sessionId, serialized);
+      return skipped;
+    } catch {
+      // Key lost or tampered: only late messages are affected
+      console.warn('⚠️ Unreadable skipped keys for session', sessionId);
+      return {};
+    } finally {
+      wipeBytes(key);
+    }
+  }
+
+  private async saveSkippedKeys(sessionId: string, skipped: Record<string, SkippedKey>): Promise<void> {
+    const serialized = JSON.stringify(skipped);
+    if (this.savedSkipped.get(sessionId) === serialized) return;
+
+    if (Object.keys(skipped).length === 0) {
+      await AsyncStorage.removeItem(this.skippedKey(sessionId));
+    } else {
+      const key = await this.getSkippedKeysKey(sessionId);
+      const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+      const ciphertext = nacl.secretbox(util.decodeUTF8(serialized), nonce, key);
+      wipeBytes(key);
+
+      const encrypted: EncryptedSkippedKeys = {
+        nonce: util.encodeBase64(nonce),
+        ciphertext: util.encodeBase64(ciphertext),
+      };
+      await AsyncStorage.setItem(this.skippedKey(sessionId), JSON.stringify(encrypted));
+    }
+    this.savedSkipped.set(sessionId, serialized);
+  }
+
+  /**
+   * One key per session, so stored keys can't be moved between sessions
+   */
+  private async getSkippedKeysKey(sessionId: string): Promise<Uint8Array> {
+    return hkdf(
+      await this.getSkippedStoreKey(),
+      null,
+      util.decodeUTF8(`notamy-ratchet-skipped:${sessionId}`),
+      32
+    );
+  }
+
+  private getSkippedStoreKey(): Promise<Uint8Array> {
+    // Shared promise: concurrent first reads must not create two keys
+    if (!this.skippedStoreKey) {
+      this.skippedStoreKey = this.loadSkippedStoreKey().catch(error => {
+        this.skippedStoreKey = null;
+        throw error;
+      });
+    }
+    return this.skippedStoreKey;
+  }
+
+  private async loadSkippedStoreKey(): Promise<Uint8Array> {
+    const stored = await secureKeyService.getKey(this.SKIPPED_STORE_KEY_ID);
+    if (stored) {
+      return util.decodeBase64(stored);
+    }
+
+    const key = nacl.randomBytes(32);
+    if (!(await secureKeyService.storeKey(this.SKIPPED_STORE_KEY_ID, util.encodeBase64(key)))) {
+      throw new Error('Unable to store skipped keys key');
+    }
+    return key;
+  }
+
+  /**
+   * Serialize operations per session: two messages decrypted concurrently
+   * must not both start from the same chain state.
+   */
+  private withLock<T>(sessionId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(sessionId) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.locks.set(sessionId, next);
+
+    next.finally(() => {
+      if (this.locks.get(sessionId) === next) {
+        this.locks.delete(sessionId);
+      }
+    }).catch(() => undefined);
+
+    return next;
+  }
+}
+
+// Create singleton instance
+const ratchetService = new RatchetService();
+
+export default ratchetService;
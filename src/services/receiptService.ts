@@ -0,0 +1,230 @@
+// src/services/receiptService.ts
+/**
+ * Conferme di consegna e lettura sul socket
+ *
+ * - Consegnato: appena il messaggio arriva su questo dispositivo, anche a chat chiusa
+ * - Letto: quando il messaggio è mostrato nella chat aperta
+ * - Conferme raggruppate per conversazione e inviate insieme dopo BATCH_DELAY
+ * - Lo stato dei nostri messaggi sale soltanto: sent → delivered → read
+ * - Conferme di lettura disattivabili; chi le disattiva non vede nemmeno quelle altrui
+ * - Nessuna conferma alle richieste di messaggio non ancora accettate
+ */
+import websocketService from './websocket';
+import messageStoreService, { StoredMessage } from './messageStoreService';
+import privacySettingsService from './privacySettingsService';
+import messageRequestService from './messageRequestService';
+
+export type ReceiptStatus = 'delivered' | 'read';
+
+export interface ReceiptEvent {
+  conversationKey: string;
+  messageIds: string[];
+  status: ReceiptStatus;
+}
+
+type ReceiptListener = (event: ReceiptEvent) => void;
+
+interface PendingReceipts {
+  status: ReceiptStatus;
+  recipientId: string;
+  messageIds: Set<string>;
+}
+
+const STATUS_RANK: Record<NonNullable<StoredMessage['status']>, number> = {
+  failed: 0,
+  sending: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+};
+
+/**
+ * Whether a receipt moves a message forward (never back, never before it is sent)
+ */
+export function isStatusUpgrade(current: StoredMessage['status'], next: ReceiptStatus): boolean {
+  const rank = current ? STATUS_RANK[current] : STATUS_RANK.sent;
+  return rank > 0 && STATUS_RANK[next] > rank;
+}
+
+class ReceiptService {
+  private readonly BATCH_DELAY = 1000;
+  private readonly MAX_ACKNOWLEDGED = 2000;
+
+  private userId: string | null = null;
+  private pending: Map<string, PendingReceipts> = new Map();
+  private acknowledged: Set<string> = new Set();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: ReceiptListener[] = [];
+
+  /**
+   * Listen for messages and receipts. Call after each connect: disconnect()
+   * drops every socket listener.
+   */
+  attach(userId: string): void {
+    this.userId = userId;
+    this.detach();
+    websocketService.on('new_message', this.handleNewMessage);
+    websocketService.on('message_receipt', this.handleReceipt);
+    websocketService.on('connected', this.handleConnected);
+
+    this.flush();
+  }
+
+  detach(): void {
+    websocketService.off('new_message', this.handleNewMessage);
+    websocketService.off('message_receipt', this.handleReceipt);
+    websocketService.off('connected', this.handleConnected);
+  }
+
+  // ==========================================================================
+  // OUTGOING
+  // ==========================================================================
+
+  /**
+   * The partner's messages reached this device
+   */
+  markDelivered(senderId: string, messageIds: string[]): void {
+    this.queue('delivered', senderId, messageIds);
+  }
+
+  /**
+   * The partner's messages are on screen. With read receipts off they are
+   * only confirmed as delivered.
+   */
+  async markRead(senderId: string, messageIds: string[]): Promise<void> {
+    if (!(await messageRequestService.canShareActivity(senderId))) return;
+
+    const { readReceipts } = await privacySettingsService.getSettings();
+    this.queue(readReceipts ? 'read' : 'delivered', senderId, messageIds);
+  }
+
+  private queue(status: ReceiptStatus, recipientId: string, messageIds: string[]): void {
+    const fresh = messageIds.filter(id => id && !this.acknowledged.has(`${status}:${id}`));
+    if (fresh.length === 0) return;
+
+    const key = `${status}:${recipientId}`;
+    const batch = this.pending.get(key) || { status, recipientId, messageIds: new Set<string>() };
+    fresh.forEach(id => batch.messageIds.add(id));
+    this.pending.set(key, batch);
+
+    if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.flush();
+      }, this.BATCH_DELAY);
+    }
+  }
+
+  /**
+   * One frame per conversation and status. Kept until the socket is open:
+   * frames queued by the socket are lost when it disconnects.
+   */
+  private flush(): void {
+    if (this.pending.size === 0 || !websocketService.isConnected()) return;
+
+    for (const { status, recipientId, messageIds } of this.pending.values()) {
+      const ids = [...messageIds];
+      websocketService.send({
+        type: status === 'read' ? 'message_read' : 'message_delivered',
+        recipient_id: recipientId,
+        message_ids: ids,
+        timestamp: Date.now(),
+      });
+
+      ids.forEach(id => {
+        this.remember(`${status}:${id}`);
+        if (status === 'read') this.remember(`delivered:${id}`);
+      });
+    }
+
+    this.pending.clear();
+  }
+
+  private remember(key: string): void {
+    this.acknowledged.add(key);
+    if (this.acknowledged.size > this.MAX_ACKNOWLEDGED) {
+      // Sets keep insertion order: the oldest go first
+      const oldest = this.acknowledged.values().next().value;
+      if (oldest !== undefined) this.acknowledged.delete(oldest);
+    }
+  }
+
+  private handleConnected = () => {
+    this.flush();
+  };
+
+  // A stranger learns nothing until their request is accepted, not even delivery
+  private handleNewMessage = async (data: any) => {
+    if (!this.userId || data.sender_id === this.userId) return;
+    if (!(await messageRequestService.canShareActivity(data.sender_id))) return;
+    this.markDelivered(data.sender_id, [data.message_id || data.id]);
+  };
+
+  // ==========================================================================
+  // INCOMING
+  // ==========================================================================
+
+  private handleReceipt = async (data: { status: ReceiptStatus; reader_id: string; message_ids: string[] }) => {
+    if (!this.userId || !data.reader_id || data.message_ids.length === 0) return;
+
+    // Read receipts are mutual: with ours off, theirs count as delivered
+    let status = data.status;
+    if (status === 'read' && !(await privacySettingsService.getSettings()).readReceipts) {
+      status = 'delivered';
+    }
+
+    const conversationKey = [this.userId, data.reader_id].sort().join('_');
+    try {
+      await messageStoreService.updateMessages(conversationKey, data.message_ids, message =>
+        message.sender_id === this.userId && isStatusUpgrade(message.status, status)
+          ? { status }
+          : null
+      );
+    } catch (error) {
+      console.warn('Failed to store receipts:', error);
+    }
+
+    this.emit({ conversationKey, messageIds: data.message_ids, status });
+  };
+
+  /**
+   * Forget pending receipts (logout)
+   */
+  reset(): void {
+    this.detach();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.userId = null;
+    this.pending.clear();
+    this.acknowledged.clear();
+  }
+
+  // ==========================================================================
+  // EVENTS
+  // ==========================================================================
+
+  on(callback: ReceiptListener): void {
+    this.listeners.push(callback);
+  }
+
+  off(callback: ReceiptListener): void {
+    this.listeners = this.listeners.filter(cb => cb !== callback);
+  }
+
+  private emit(event: ReceiptEvent): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.warn('Receipt listener failed:', error);
+      }
+    });
+  }
+}
+
+// Create singleton instance
+const receiptService = new ReceiptService();
+
+export default receiptService;
@@ -0,0 +1,393 @@
+// src/services/searchIndexService.ts
+/**
+ * Ricerca full-text sul dispositivo nelle chat decifrate
+ *
+ * - Il server ha solo testo cifrato: l'indice si costruisce qui, dai messaggi decifrati
+ * - Aggiornato dagli eventi dell'archivio messaggi: nuovi, modificati, annullati, scaduti
+ * - Salvato cifrato a riposo (nacl.secretbox), chiave in secureKeyService
+ * - Su disco solo i documenti: l'indice invertito (parola → messaggi) si ricostruisce in memoria
+ * - Al massimo MAX_DOCUMENTS messaggi, i più vecchi escono per primi
+ * - Ricerca per prefisso, senza maiuscole né accenti; tutte le parole devono comparire
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import secureKeyService from './secureKeyService';
+import messageStoreService, { MessageStoreEvent, StoredMessage } from './messageStoreService';
+import { parseMessageBody } from '@/utils/messageBody';
+
+export const SEARCH_INDEX_KEY_ID = 'search_index';
+
+export interface SearchHit {
+  conversationKey: string;
+  messageId: string;
+  senderId: string;
+  recipientId: string;
+  timestamp: number;
+  snippet: string;
+  highlights: [number, number][]; // [start, end) ranges in the snippet
+}
+
+interface IndexedDocument {
+  conversationKey: string;
+  messageId: string;
+  senderId: string;
+  recipientId: string;
+  timestamp: number;
+  text: string;
+}
+
+interface PersistedIndex {
+  version: number;
+  built: boolean; // Existing history has been indexed once
+  documents: IndexedDocument[];
+}
+
+interface EncryptedIndex {
+  nonce: string;
+  ciphertext: string;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+// Case and accents don't matter: "Perché" matches "perche"
+const fold = (text: string): string =>
+  text.normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase();
+
+const tokenize = (text: string): string[] => fold(text).match(WORD_PATTERN) || [];
+
+class SearchIndexService {
+  private readonly STORAGE_KEY = '@search_index';
+  private readonly INDEX_VERSION = 1;
+  private readonly MAX_DOCUMENTS = 3000;
+  private readonly MAX_TEXT_LENGTH = 500;
+  private readonly SAVE_DELAY = 2000;
+  private readonly SNIPPET_CONTEXT = 30; // Characters shown before the first match
+  private readonly SNIPPET_LENGTH = 90;
+
+  private documents: Map<string, IndexedDocument> = new Map();
+  private postings: Map<string, Set<string>> = new Map();
+  private built = false;
+  private key: Promise<Uint8Array> | null = null;
+  private loading: Promise<void> | null = null;
+  private building: Promise<void> | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // ==========================================================================
+  // LIFECYCLE
+  // ==========================================================================
+
+  /**
+   * Follow the message store; history stored before the index existed is indexed once
+   */
+  async start(): Promise<void> {
+    messageStoreService.off(this.handleStoreEvent);
+    messageStoreService.on(this.handleStoreEvent);
+
+    await this.load();
+    if (!this.built) {
+      await this.rebuild();
+    }
+  }
+
+  private handleStoreEvent = (event: MessageStoreEvent) => {
+    this.load()
+      .then(() => {
+        switch (event.type) {
+          case 'saved':
+            event.messages.forEach(message => this.indexMessage(event.conversationKey, message));
+            this.evictOldest();
+            break;
+          case 'deleted':
+            event.messageIds.forEach(id => this.removeDocument(this.documentId(event.conversationKey, id)));
+            break;
+          case 'cleared':
+            [...this.documents.values()]
+              .filter(doc => doc.conversationKey === event.conversationKey)
+              .forEach(doc => this.removeDocument(this.documentId(doc.conversationKey, doc.messageId)));
+            break;
+        }
+        this.scheduleSave();
+      })
+      .catch(error => console.warn('Failed to update search index:', error));
+  };
+
+  private rebuild(): Promise<void> {
+    if (!this.building) {
+      this.building = (async () => {
+        console.log('🔎 Building search index');
+        for (const conversationKey of await messageStoreService.getConversationKeys()) {
+          const messages = await messageStoreService.getMessages(conversationKey);
+          messages.forEach(message => this.indexMessage(conversationKey, message));
+          // Once per conversation: memory stays bounded without sorting per message
+          this.evictOldest();
+        }
+        this.built = true;
+        await this.save();
+      })().finally(() => {
+        this.building = null;
+      });
+    }
+    return this.building;
+  }
+
+  // ==========================================================================
+  // INDEXING
+  // ==========================================================================
+
+  private documentId(conversationKey: string, messageId: string): string {
+    return `${conversationKey}:${messageId}`;
+  }
+
+  /**
+   * Text messages only; unsent ones leave the index.
+   * Callers evict once the whole batch is in.
+   */
+  private indexMessage(conversationKey: string, message: StoredMessage): void {
+    const id = this.documentId(conversationKey, message.id);
+    this.removeDocument(id);
+
+    const body = parseMessageBody(message.content);
+    if (message.deleted || body.type !== 'text' || !body.text.trim()) return;
+
+    this.addDocument(id, {
+      conversationKey,
+      messageId: message.id,
+      senderId: message.sender_id,
+      recipientId: message.recipient_id,
+      timestamp: message.timestamp,
+      text: body.text.slice(0, this.MAX_TEXT_LENGTH),
+    });
+  }
+
+  private addDocument(id: string, doc: IndexedDocument): void {
+    this.documents.set(id, doc);
+    for (const token of new Set(tokenize(doc.text))) {
+      const ids = this.postings.get(token) || new Set<string>();
+      ids.add(id);
+      this.postings.set(token, ids);
+    }
+  }
+
+  private removeDocument(id: string): void {
+    const doc = this.documents.get(id);
+    if (!doc) return;
+
+    this.documents.delete(id);
+    for (const token of new Set(tokenize(doc.text))) {
+      const ids = this.postings.get(token);
+      ids?.delete(id);
+      if (ids && ids.size === 0) {
+        this.postings.delete(token);
+      }
+    }
+  }
+
+  private evictOldest(): void {
+    const excess = this.documents.size - this.MAX_DOCUMENTS;
+    if (excess <= 0) return;
+
+    [...this.documents.entries()]
+      .sort(([, a], [, b]) => a.timestamp - b.timestamp)
+      .slice(0, excess)
+      .forEach(([id]) => this.removeDocument(id));
+  }
+
+  // ==========================================================================
+  // SEARCH
+  // ==========================================================================
+
+  /**
+   * Messages containing every word of the query (as a word prefix), newest first
+   */
+  async search(query: string, limit: number = 50): Promise<SearchHit[]> {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+
+    await this.load();
+
+    const [first, ...rest] = terms.map(term => this.documentsMatching(term));
+    const matches = [...first].filter(id => rest.every(ids => ids.has(id)));
+
+    return matches
+      .map(id => this.documents.get(id))
+      .filter((doc): doc is IndexedDocument => !!doc)
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, limit)
+      .map(doc => ({
+        conversationKey: doc.conversationKey,
+        messageId: doc.messageId,
+        senderId: doc.senderId,
+        recipientId: doc.recipientId,
+        timestamp: doc.timestamp,
+        ...this.snippet(doc.text, terms),
+      }));
+  }
+
+  private documentsMatching(term: string): Set<string> {
+    const ids = new Set<string>();
+    this.postings.forEach((docIds, token) => {
+      if (token.startsWith(term)) docIds.forEach(id => ids.add(id));
+    });
+    return ids;
+  }
+
+  /**
+   * A window of the text around the first match, with every matched word prefix marked
+   */
+  private snippet(text: string, terms: string[]): { snippet: string; highlights: [number, number][] } {
+    // Fold character by character, remembering where each folded character came from
+    let folded = '';
+    const origin: number[] = [];
+    for (let i = 0; i < text.length; i++) {
+      const part = fold(text[i]);
+      folded += part;
+      for (let j = 0; j < part.length; j++) origin.push(i);
+    }
+
+    const ranges: [number, number][] = [];
+    for (const word of folded.matchAll(WORD_PATTERN)) {
+      const term = terms.find(t => word[0].startsWith(t));
+      if (!term || word.index === undefined) continue;
+      ranges.push([origin[word.index], origin[word.index + term.length - 1] + 1]);
+    }
+
+    const first = ranges[0]?.[0] ?? 0;
+    const start = first > this.SNIPPET_CONTEXT ? first - this.SNIPPET_CONTEXT : 0;
+    const end = Math.min(text.length, start + this.SNIPPET_LENGTH);
+    const prefix = start > 0 ? '…' : '';
+
+    return {
+      snippet: `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`,
+      highlights: ranges
+        .filter(([from, to]) => from >= start && to <= end)
+        .map(([from, to]) => [from - start + prefix.length, to - start + prefix.length]),
+    };
+  }
+
+  // ==========================================================================
+  // STORAGE
+  // ==========================================================================
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readIndex().then(index => {
+        this.built = index?.built ?? false;
+        (index?.documents || []).forEach(doc => {
+          this.addDocument(this.documentId(doc.conversationKey, doc.messageId), doc);
+        });
+      });
+    }
+    return this.loading;
+  }
+
+  private async readIndex(): Promise<PersistedIndex | null> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return null;
+
+      const { nonce, ciphertext }: EncryptedIndex = JSON.parse(stored);
+      const plaintext = nacl.secretbox.open(
+        util.decodeBase64(ciphertext),
+        util.decodeBase64(nonce),
+        await this.getKey()
+      );
+      if (!plaintext) {
+        console.warn('⚠️ Unreadable search index, rebuilding it');
+        return null;
+      }
+
+      const index: PersistedIndex = JSON.parse(util.encodeUTF8(plaintext));
+      return index.version === this.INDEX_VERSION ? index : null;
+    } catch (error) {
+      console.warn('Failed to load search index:', error);
+      return null;
+    }
+  }
+
+  // Messages arrive in bursts: one write per burst
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, this.SAVE_DELAY);
+  }
+
+  private async save(): Promise<void> {
+    try {
+      const index: PersistedIndex = {
+        version: this.INDEX_VERSION,
+        built: this.built,
+        documents: [...this.documents.values()],
+      };
+
+      const nonce = new Uint8Array(await Crypto.getRandomBytesAsync(nacl.secretbox.nonceLength));
+      const ciphertext = nacl.secretbox(
+        util.decodeUTF8(JSON.stringify(index)),
+        nonce,
+        await this.getKey()
+      );
+      const encrypted: EncryptedIndex = {
+        nonce: util.encodeBase64(nonce),
+        ciphertext: util.encodeBase64(ciphertext),
+      };
+      await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(encrypted));
+    } catch (error) {
+      // Rebuilt from the message store next time
+      console.warn('Failed to save search index:', error);
+    }
+  }
+
+  private getKey(): Promise<Uint8Array> {
+    // Shared promise: concurrent first writes must not create two keys
+    if (!this.key) {
+      this.key = this.loadKey().catch(error => {
+        this.key = null;
+        throw error;
+      });
+    }
+    return this.key;
+  }
+
+  private async loadKey(): Promise<Uint8Array> {
+    const stored = await secureKeyService.getKey(SEARCH_INDEX_KEY_ID);
+    if (stored) {
+      return util.decodeBase64(stored);
+    }
+
+    const key = new Uint8Array(await Crypto.getRandomBytesAsync(nacl.secretbox.keyLength));
+    if (!(await secureKeyService.storeKey(SEARCH_INDEX_KEY_ID, util.encodeBase64(key)))) {
+      throw new Error('Unable to store search index key');
+    }
+    return key;
+  }
+
+  /**
+   * Forget the index and its key (logout / wipe)
+   */
+  async clearAll(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    messageStoreService.off(this.handleStoreEvent);
+
+    this.documents.clear();
+    this.postings.clear();
+    this.built = false;
+    this.key = null;
+    this.loading = null;
+
+    await AsyncStorage.removeItem(this.STORAGE_KEY);
+    await secureKeyService.deleteKey(SEARCH_INDEX_KEY_ID);
+    console.log('🗑️ Search index cleared');
+  }
+}
+
+// Create singleton instance
+const searchIndexService = new SearchIndexService();
+
+export default searchIndexService;
@@ -12,7 +12,7 @@ import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Crypto from 'expo-crypto';
 
-interface StoredKey {
+export interface StoredKey {
   sessionId: string;
   key: string;
   timestamp: number;
@@ -85,7 +85,7 @@ class SecureKeyService {
       if (await this.checkKeychainAvailability()) {
         try {
           await Keychain.setInternetCredentials(
-            this.SERVICE_NAME,
+            this.keychainServer(sessionId),
             sessionId,
             key,
             {
@@ -133,7 +133,9 @@ class SecureKeyService {
 
       if (meta?.secure && await this.checkKeychainAvailability()) {
         try {
-          const credentials = await Keychain.getInternetCredentials(this.SERVICE_NAME);
+          const credentials =
+            await Keychain.getInternetCredentials(this.keychainServer(sessionId)) ||
+            await Keychain.getInternetCredentials(this.SERVICE_NAME);
           if (credentials && credentials.username === sessionId) {
             // Update cache
             this.memoryCache.set(sessionId, {
@@ -168,8 +170,11 @@ class SecureKeyService {
       if (await this.checkKeychainAvailability()) {
         try {
           // Reset credentials for this session
-          const allCreds = await Keychain.getInternetCredentials(this.SERVICE_NAME);
-          if (allCreds && allCreds.username === sessionId) {
+          await Keychain.resetInternetCredentials(this.keychainServer(sessionId));
+
+          // Entries written before per-key slots shared one server
+          const legacyCreds = await Keychain.getInternetCredentials(this.SERVICE_NAME);
+          if (legacyCreds && legacyCreds.username === sessionId) {
             await Keychain.resetInternetCredentials(this.SERVICE_NAME);
           }
         } catch (error) {
@@ -188,6 +193,14 @@ class SecureKeyService {
     }
   }
 
+  /**
+   * Keychain slot for a key: one entry per key, otherwise every write
+   * would replace the previous key stored under the shared service name
+   */
+  private keychainServer(sessionId: string): string {
+    return `${this.SERVICE_NAME}.${sessionId}`;
+  }
+
   /**
    * Fallback storage with device-specific encryption
    */
@@ -307,98 +320,58 @@ class SecureKeyService {
   }
 
   /**
-   * Optional backup functionality - non-blocking
-   * User can backup keys but it's not required
+   * Every stored key, for backup export.
+   * Keychain entries are only listed through their meta records.
    */
-  async createBackup(userId: string): Promise<string | null> {
-    try {
-      // Get all stored keys metadata
-      const keys = await AsyncStorage.getAllKeys();
-      const sessionKeys = keys.filter(k => k.startsWith(this.FALLBACK_PREFIX) && !k.includes('meta'));
-      
-      const backup: StoredKey[] = [];
-      
-      for (const key of sessionKeys) {
-        const sessionId = key.replace(this.FALLBACK_PREFIX, '');
-        const storedKey = await this.getKey(sessionId);
-        
-        if (storedKey) {
-          backup.push({
-            sessionId,
-            key: storedKey,
-            timestamp: Date.now()
-          });
-        }
-      }
-      
-      if (backup.length === 0) {
-        return null;
+  async exportKeys(): Promise<StoredKey[]> {
+    const metaPrefix = `${this.FALLBACK_PREFIX}meta_`;
+    const keys = await AsyncStorage.getAllKeys();
+    const sessionIds = keys
+      .filter(k => k.startsWith(metaPrefix))
+      .map(k => k.replace(metaPrefix, ''));
+
+    const exported: StoredKey[] = [];
+    for (const sessionId of sessionIds) {
+      const key = await this.getKey(sessionId);
+      if (key) {
+        exported.push({ sessionId, key, timestamp: Date.now() });
       }
-      
-      // Create encrypted backup bundle
-      const backupData = JSON.stringify({
-        version: 1,
-        userId,
-        deviceId: await this.getDeviceId(),
-        timestamp: Date.now(),
-        keys: backup
-      });
-      
-      // Encrypt with user-derived key (could use password/PIN)
-      const backupKey = await this.deriveBackupKey(userId);
-      const encrypted = await this.obfuscateKey(backupData, backupKey);
-      
-      // Store backup reference
-      await AsyncStorage.setItem(
-        `${this.BACKUP_PREFIX}${Date.now()}`,
-        JSON.stringify({
-          userId,
-          timestamp: Date.now(),
-          keysCount: backup.length
-        } as BackupMetadata)
-      );
-      
-      return encrypted;
-      
-    } catch (error) {
-      console.error('Backup creation failed:', error);
-      return null;
     }
+
+    return exported;
   }
 
   /**
-   * Restore from backup - optional feature
+   * Store keys from a verified backup, replacing existing ones with the same id
+   * @returns number of keys stored
    */
-  async restoreBackup(encryptedBackup: string, userId: string): Promise<boolean> {
-    try {
-      const backupKey = await this.deriveBackupKey(userId);
-      const decrypted = await this.deobfuscateKey(encryptedBackup, backupKey);
-      const backupData = JSON.parse(decrypted);
-      
-      if (backupData.version !== 1 || backupData.userId !== userId) {
-        throw new Error('Invalid backup data');
-      }
-      
-      // Restore keys
-      let restored = 0;
-      for (const item of backupData.keys) {
-        const success = await this.storeKey(item.sessionId, item.key);
-        if (success) restored++;
-      }
-      
-      console.log(`Restored ${restored}/${backupData.keys.length} keys from backup`);
-      return restored > 0;
-      
-    } catch (error) {
-      console.error('Backup restoration failed:', error);
-      return false;
+  async importKeys(keys: StoredKey[]): Promise<number> {
+    let restored = 0;
+    for (const item of keys) {
+      if (await this.storeKey(item.sessionId, item.key)) restored++;
     }
+
+    console.log(`Restored ${restored}/${keys.length} keys from backup`);
+    return restored;
+  }
+
+  /**
+   * Remember that a backup was exported (shown in storage info)
+   */
+  async recordBackup(userId: string, keysCount: number): Promise<void> {
+    const metadata: BackupMetadata = {
+      userId,
+      deviceId: await this.getDeviceId(),
+      timestamp: Date.now(),
+      keysCount,
+    };
+    await AsyncStorage.setItem(`${this.BACKUP_PREFIX}${metadata.timestamp}`, JSON.stringify(metadata));
   }
 
   /**
    * Get device ID for backup identification
    */
-  private async getDeviceId(): Promise<string> {
+  async getDeviceId(): Promise<string> {
     try {
       const stored = await AsyncStorage.getItem('@notamy_device_id');
       if (stored) return stored;
@@ -413,19 +386,6 @@ class SecureKeyService {
     }
   }
 
-  /**
-   * Derive backup key from user ID (could be enhanced with password)
-   */
-  private async deriveBackupKey(userId: string): Promise<string> {
-    const hash = await Crypto.digestStringAsync(
-      Crypto.CryptoDigestAlgorithm.SHA256,
-      `notamy_backup_${userId}_2024`,
-      { encoding: Crypto.CryptoEncoding.BASE64 }
-    );
-    
-    return hash;
-  }
-
   /**
    * Check storage health and available space
    */
@@ -464,9 +424,19 @@ class SecureKeyService {
       // Clear memory cache
       this.memoryCache.clear();
       
+      const keys = await AsyncStorage.getAllKeys();
+
       // Clear Keychain if available
       if (await this.checkKeychainAvailability()) {
         try {
+          const metaPrefix = `${this.FALLBACK_PREFIX}meta_`;
+          const sessionIds = keys
+            .filter(k => k.startsWith(metaPrefix))
+            .map(k => k.replace(metaPrefix, ''));
+
+          for (const sessionId of sessionIds) {
+            await Keychain.resetInternetCredentials(this.keychainServer(sessionId));
+          }
           await Keychain.resetInternetCredentials(this.SERVICE_NAME);
         } catch (error) {
           console.warn('Failed to clear Keychain:', error);
@@ -474,7 +444,6 @@ class SecureKeyService {
       }
       
       // Clear AsyncStorage
-      const keys = await AsyncStorage.getAllKeys();
       const ourKeys = keys.filter(k =>
         k.startsWith(this.FALLBACK_PREFIX) ||
         k.startsWith(this.BACKUP_PREFIX) ||
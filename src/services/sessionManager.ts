@@ -0,0 +1,948 @@
+// src/services/sessionManager.ts
+/**
+ * Session Manager per la crittografia E2E
+ *
+ * Unico punto di verità per le sessioni di una conversazione:
+ * - Macchina a stati esplicita: none → pending → established → rotating → expired
+ * - Possiede lo storage dei metadati (`@chat_meta_*`) e migra i formati legacy
+ * - Sceglie il canale di accordo chiavi (prekey bundle, poi scambio interattivo)
+ * - Gestisce i retry con backoff esponenziale
+ * - Tiene lo stato della rotazione chiavi (chiave precedente e finestra di overlap)
+ * - Rileva il cambio della chiave d'identità del partner e azzera la verifica
+ * - Negozia la suite crittografica e rileva i downgrade rispetto a quella già concordata
+ * - Fornisce il contesto (mittente/destinatario) autenticato negli envelope dei messaggi
+ * - Apre ogni messaggio una sola volta: chi lo chiede di nuovo riceve lo stesso risultato
+ * - Notifica i cambi di stato (hook, slice, componenti) tramite eventi
+ *
+ * Le chiavi restano in EncryptionService/SecureKeyService: qui solo metadati.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import apiService from './api';
+import encryptionService, { OpenedMessage } from './encryptionService';
+import secureKeyService from './secureKeyService';
+import identityKeyService from './identityKeyService';
+import prekeyService from './prekeyService';
+import { KeyExchangeResponse, KeyStatusResponse } from '@/types/api';
+import {
+  CipherSuite,
+  CIPHER_SUITE_DOUBLE_RATCHET,
+  parseCipherSuites,
+  serializeCipherSuites,
+  negotiateCipherSuite,
+  isDowngrade,
+  usesDoubleRatchet,
+} from '@/utils/cipherSuites';
+import { EnvelopeContext } from '@/utils/messageEnvelope';
+
+export type SessionState = 'none' | 'pending' | 'established' | 'rotating' | 'expired';
+
+export interface E2ESession {
+  conversationKey: string;
+  recipientId: string;
+  state: SessionState;
+  sessionId: string | null;
+  keyExchangeType?: 'x3dh' | 'x25519-client';
+  publicKeys?: {
+    mine: string;
+    theirs: string;
+  };
+  identityKeys?: {           // Long-term identity keys: key changes and safety numbers
+    mine: string;
+    theirs: string;
+  };
+  pendingPublicKey?: string; // Our half of an interactive exchange in progress
+  rotation?: {
+    newSessionId: string;
+    publicKey: string;       // Our half of the rotation offer
+    startedAt: number;
+  };
+  previousSessionId?: string; // Retired key, still decrypts in-flight messages
+  retireAt?: number;
+  messageCount?: number;      // Messages sent and received on the current key
+  partnerConfirmed?: boolean; // A partner message was decrypted on the current key
+  keyChange?: {
+    previousKey: string;
+    detectedAt: number;
+    acknowledged: boolean;
+  };
+  cipherSuite?: CipherSuite;  // Agreed during key exchange, kept across rotations
+  downgrade?: {               // Agreed suite is weaker than the one before
+    from: CipherSuite;
+    to: CipherSuite;
+    detectedAt: number;
+  };
+  created: number;
+  updated: number;
+  retryCount: number;
+  lastError?: string;
+}
+
+type SessionListener = (session: E2ESession) => void;
+
+// Transizioni ammesse dalla macchina a stati
+const TRANSITIONS: Record<SessionState, SessionState[]> = {
+  none: ['pending', 'established'],
+  pending: ['established', 'none', 'expired'],
+  established: ['rotating', 'expired', 'established'],
+  rotating: ['established', 'expired'],
+  expired: ['pending', 'established', 'none'],
+};
+
+class SessionManager {
+  private readonly META_PREFIX = '@chat_meta_';
+  private readonly LEGACY_SERVER_SESSION_PREFIX = 'chat_';
+  private readonly LEGACY_PENDING_PREFIX = '@pending_exchange_';
+  private readonly PENDING_KEY_PREFIX = 'pending_';
+  private readonly VERIFIED_PREFIX = 'verified_';
+
+  private readonly MAX_RETRIES = 5;
+  private readonly RETRY_BASE_DELAY = 5000; // 5s, 10s, 20s, ...
+  private readonly OPENED_CACHE_SIZE = 100;
+
+  private listeners: SessionListener[] = [];
+  private inFlight: Map<string, Promise<E2ESession>> = new Map();
+  private retryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private opened: Map<string, Promise<OpenedMessage>> = new Map();
+
+  /**
+   * Conversation key shared by both participants
+   */
+  getConversationKey(userId: string, recipientId: string): string {
+    return [userId, recipientId].sort().join('_');
+  }
+
+  // ==========================================================================
+  // READ
+  // ==========================================================================
+
+  /**
+   * Current session for a conversation. Never throws: unknown
+   * conversations are reported as `none`.
+   */
+  async getSession(conversationKey: string, recipientId: string = ''): Promise<E2ESession> {
+    const stored = await this.load(conversationKey);
+    if (!stored) {
+      return this.emptySession(conversationKey, recipientId);
+    }
+
+    // Records migrated from older formats may not know the partner yet:
+    // learn it once from a caller that does, and keep it
+    if (!stored.recipientId && recipientId && this.otherParticipant(conversationKey, recipientId) !== null) {
+      stored.recipientId = recipientId;
+      await this.save(stored);
+    }
+
+    // An established key that outlived its validity is expired
+    if (
+      (stored.state === 'established' || stored.state === 'rotating') &&
+      stored.sessionId &&
+      !(await encryptionService.isSessionValid(stored.sessionId))
+    ) {
+      return await this.transition(stored, 'expired');
+    }
+
+    return stored;
+  }
+
+  /**
+   * All stored sessions (for background maintenance)
+   */
+  async getAllSessions(): Promise<E2ESession[]> {
+    const keys = await AsyncStorage.getAllKeys();
+    const sessions: E2ESession[] = [];
+
+    for (const key of keys.filter(k => k.startsWith(this.META_PREFIX))) {
+      const session = await this.load(key.replace(this.META_PREFIX, ''));
+      if (session) sessions.push(session);
+    }
+
+    return sessions;
+  }
+
+  isUsable(session: E2ESession | null | undefined): boolean {
+    return !!session?.sessionId && (session.state === 'established' || session.state === 'rotating');
+  }
+
+  // ==========================================================================
+  // ESTABLISH
+  // ==========================================================================
+
+  /**
+   * Make sure the conversation has (or is negotiating) a session.
+   * Concurrent callers for the same conversation share one attempt.
+   */
+  async ensureSession(userId: string, recipientId: string): Promise<E2ESession> {
+    const conversationKey = this.getConversationKey(userId, recipientId);
+
+    const existing = this.inFlight.get(conversationKey);
+    if (existing) return existing;
+
+    const attempt = this.establish(conversationKey, recipientId)
+      .finally(() => this.inFlight.delete(conversationKey));
+    this.inFlight.set(conversationKey, attempt);
+
+    return attempt;
+  }
+
+  private async establish(conversationKey: string, recipientId: string): Promise<E2ESession> {
+    const session = await this.getSession(conversationKey, recipientId);
+
+    if (this.isUsable(session)) {
+      return session;
+    }
+
+    if (session.state === 'pending') {
+      // Someone may have answered while we were away
+      return await this.pollPendingExchange(session);
+    }
+
+    if (!encryptionService.canEncrypt()) {
+      return session;
+    }
+
+    try {
+      // 1. Prekey bundle: works even when the partner is offline
+      const info = await encryptionService.startPrekeySession(recipientId);
+      if (info?.myIdentityKey && info.theirIdentityKey) {
+        return await this.transition(session, 'established', {
+          recipientId,
+          sessionId: info.sessionId,
+          keyExchangeType: 'x3dh',
+          cipherSuite: CIPHER_SUITE_DOUBLE_RATCHET,
+          publicKeys: { mine: info.myIdentityKey, theirs: info.theirIdentityKey },
+          identityKeys: { mine: info.myIdentityKey, theirs: info.theirIdentityKey },
+          partnerConfirmed: false,
+          created: info.created,
+          retryCount: 0,
+          lastError: undefined,
+        });
+      }
+
+      // 2. Older clients without a bundle: interactive exchange
+      return await this.startInteractiveExchange(session, recipientId);
+    } catch (error: any) {
+      console.warn('Session setup failed:', error);
+      const failed = await this.save({
+        ...session,
+        recipientId,
+        retryCount: session.retryCount + 1,
+        lastError: error?.message || 'Session setup failed',
+        updated: Date.now(),
+      });
+      this.scheduleRetry(failed);
+      return failed;
+    }
+  }
+
+  private async startInteractiveExchange(session: E2ESession, recipientId: string): Promise<E2ESession> {
+    const keyPair = await encryptionService.generateKeyPair();
+
+    // The key pair is made for this exchange: the identity key goes along
+    // so the partner can track who they are talking to
+    const response = await apiService.exchangeKeys(recipientId, {
+      publicKey: keyPair.publicKey,
+      keyType: 'x25519',
+      cipherSuites: serializeCipherSuites(),
+      identityKey: await prekeyService.getIdentityPublicKey(),
+    });
+    if ('error' in response && response.error) {
+      throw new Error(response.detail || 'Key exchange failed');
+    }
+
+    const exchange = response as KeyExchangeResponse;
+
+    if (exchange.status === 'ready' && exchange.recipient_public_key) {
+      return await this.completeExchange(
+        session,
+        exchange.session_id,
+        keyPair,
+        exchange.recipient_public_key,
+        parseCipherSuites(exchange.metadata?.cipher_suites),
+        exchange.metadata?.identity_key
+      );
+    }
+
+    // Partner has not answered yet: our private half stays in secure storage
+    await secureKeyService.storeKey(
+      `${this.PENDING_KEY_PREFIX}${session.conversationKey}`,
+      keyPair.privateKey
+    );
+
+    const pending = await this.transition(session, 'pending', {
+      recipientId,
+      sessionId: exchange.session_id || null,
+      keyExchangeType: 'x25519-client',
+      pendingPublicKey: keyPair.publicKey,
+      retryCount: 0,
+      lastError: undefined,
+    });
+
+    console.log('⏳ Waiting for recipient to open chat');
+    this.scheduleRetry(pending);
+    return pending;
+  }
+
+  /**
+   * @param theirSuites suites the partner advertised, null for clients without negotiation
+   * @param theirIdentityKey partner's long-term identity key, absent from older clients
+   */
+  private async completeExchange(
+    session: E2ESession,
+    sessionId: string,
+    keyPair: { publicKey: string; privateKey: string },
+    theirPublicKey: string,
+    theirSuites: CipherSuite[] | null,
+    theirIdentityKey: string | undefined
+  ): Promise<E2ESession> {
+    // Both sides run the same negotiation on each other's advertisement
+    const cipherSuite = negotiateCipherSuite(theirSuites);
+    if (!cipherSuite) {
+      throw new Error('No cipher suite in common with partner');
+    }
+
+    const sharedKey = await encryptionService.deriveSharedSecret(keyPair.privateKey, theirPublicKey);
+    await encryptionService.storeKey(sessionId, sharedKey, {
+      recipientId: session.recipientId,
+      keyExchangeType: 'x25519-client',
+    });
+    if (usesDoubleRatchet(cipherSuite)) {
+      await encryptionService.initializeRatchet(sessionId, sharedKey, keyPair, theirPublicKey);
+    }
+
+    await secureKeyService.deleteKey(`${this.PENDING_KEY_PREFIX}${session.conversationKey}`);
+    this.cancelRetry(session.conversationKey);
+
+    console.log('✅ E2E encryption established');
+
+    return await this.transition(session, 'established', {
+      sessionId,
+      keyExchangeType: 'x25519-client',
+      cipherSuite,
+      publicKeys: { mine: keyPair.publicKey, theirs: theirPublicKey },
+      identityKeys: theirIdentityKey
+        ? { mine: await prekeyService.getIdentityPublicKey(), theirs: theirIdentityKey }
+        : undefined,
+      partnerConfirmed: false,
+      pendingPublicKey: undefined,
+      created: Date.now(),
+      retryCount: 0,
+      lastError: undefined,
+    });
+  }
+
+  /**
+   * Check whether the partner has answered our pending exchange
+   */
+  private async pollPendingExchange(session: E2ESession): Promise<E2ESession> {
+    const privateKey = await secureKeyService.getKey(
+      `${this.PENDING_KEY_PREFIX}${session.conversationKey}`
+    );
+    if (!privateKey || !session.pendingPublicKey) {
+      // Lost our half: start over
+      return await this.transition(session, 'none', { pendingPublicKey: undefined });
+    }
+
+    const response = await apiService.getKeyStatus(session.recipientId);
+    if ('error' in response && response.error) {
+      this.scheduleRetry(session);
+      return session;
+    }
+
+    const status = response as KeyStatusResponse;
+    if (status.status === 'ready' && status.public_key) {
+      return await this.completeExchange(
+        session,
+        status.session_id || session.sessionId!,
+        { publicKey: session.pendingPublicKey, privateKey },
+        status.public_key,
+        parseCipherSuites(status.metadata?.cipher_suites),
+        status.metadata?.identity_key
+      );
+    }
+
+    this.scheduleRetry(session);
+    return session;
+  }
+
+  // ==========================================================================
+  // SOCKET EVENTS
+  // ==========================================================================
+
+  /**
+   * `encryption_ready`: the partner completed the exchange we started
+   */
+  async handleEncryptionReady(data: any, myUserId: string | null): Promise<void> {
+    if (!myUserId || !data?.sender_id) return;
+
+    const conversationKey = this.getConversationKey(myUserId, data.sender_id);
+    const session = await this.getSession(conversationKey, data.sender_id);
+
+    if (session.state === 'pending') {
+      await this.pollPendingExchange(session);
+    }
+  }
+
+  /**
+   * `key_exchange_request`: the partner started an interactive exchange.
+   * Answer it right away so their pending state resolves.
+   */
+  async handleKeyExchangeRequest(data: any, myUserId: string | null): Promise<void> {
+    if (!myUserId || !data?.sender_id) return;
+
+    const conversationKey = this.getConversationKey(myUserId, data.sender_id);
+    const session = await this.getSession(conversationKey, data.sender_id);
+
+    if (this.isUsable(session)) return;
+
+    await this.ensureSession(myUserId, data.sender_id);
+  }
+
+  // ==========================================================================
+  // MESSAGES
+  // ==========================================================================
+
+  /**
+   * Encrypt a message for the conversation. Returns null if there is no
+   * usable session, so callers decide whether to send in clear.
+   */
+  async encryptMessage(
+    conversationKey: string,
+    recipientId: string,
+    plaintext: string
+  ): Promise<{
+    sessionId: string;
+    encryptedContent: string;
+    frankingCommitment?: string;
+    cipherSuite?: CipherSuite;
+  } | null> {
+    const session = await this.getSession(conversationKey, recipientId);
+    if (!this.isUsable(session)) return null;
+
+    const { encrypted, franking } = await encryptionService.encryptForSession(
+      session.sessionId!,
+      plaintext,
+      this.getEnvelopeContext(session, 'outgoing')
+    );
+    await this.countMessage(session);
+    return {
+      sessionId: session.sessionId!,
+      encryptedContent: encrypted,
+      frankingCommitment: franking,
+      cipherSuite: session.cipherSuite,
+    };
+  }
+
+  /**
+   * Decrypt a message of this conversation. A prekey message from the
+   * partner also establishes (or replaces) the session on our side.
+   * Franked messages also return the opening needed to report them.
+   *
+   * Ratchet keys are single-use: the socket handler and an open chat
+   * asking for the same message id share one decryption.
+   */
+  async decryptMessage(
+    conversationKey: string,
+    recipientId: string,
+    message: { id?: string; message_id?: string; session_id?: string; encrypted_content?: string }
+  ): Promise<OpenedMessage> {
+    const messageId = message.id || message.message_id;
+    if (!messageId) {
+      return await this.openMessage(conversationKey, recipientId, message);
+    }
+
+    let opening = this.opened.get(messageId);
+    if (!opening) {
+      opening = this.openMessage(conversationKey, recipientId, message);
+      this.opened.set(messageId, opening);
+      // A failure may be retried, e.g. once the session is ready
+      opening.catch(() => this.opened.delete(messageId));
+
+      if (this.opened.size > this.OPENED_CACHE_SIZE) {
+        this.opened.delete(this.opened.keys().next().value!);
+      }
+    }
+    return await opening;
+  }
+
+  private async openMessage(
+    conversationKey: string,
+    recipientId: string,
+    message: { session_id?: string; encrypted_content?: string }
+  ): Promise<OpenedMessage> {
+    const session = await this.getSession(conversationKey, recipientId);
+    const sessionId = message.session_id || session.sessionId;
+
+    if (!message.encrypted_content || !sessionId) {
+      throw new Error('No session for message');
+    }
+
+    const opened = await encryptionService.decryptForSession(
+      sessionId,
+      message.encrypted_content,
+      this.getEnvelopeContext(session, 'incoming')
+    );
+
+    if (sessionId === session.sessionId) {
+      await this.countMessage(session, true);
+    } else if (sessionId !== session.previousSessionId) {
+      await this.adoptIncomingSession(session, sessionId);
+    }
+
+    return opened;
+  }
+
+  /**
+   * Sender and recipient a message of this conversation must be bound to.
+   * Our own id is the other half of the conversation key.
+   */
+  getEnvelopeContext(session: E2ESession, direction: 'outgoing' | 'incoming'): EnvelopeContext {
+    const { conversationKey, recipientId } = session;
+    const myUserId = this.otherParticipant(conversationKey, recipientId);
+    if (myUserId === null) {
+      throw new Error('Conversation key does not include the partner');
+    }
+
+    return direction === 'outgoing'
+      ? { senderId: myUserId, recipientId }
+      : { senderId: recipientId, recipientId: myUserId };
+  }
+
+  /**
+   * The participant of `conversationKey` that is not `userId`, or null
+   * if `userId` is not part of the conversation
+   */
+  private otherParticipant(conversationKey: string, userId: string): string | null {
+    if (!userId) return null;
+    if (conversationKey.startsWith(`${userId}_`)) {
+      return conversationKey.slice(userId.length + 1);
+    }
+    if (conversationKey.endsWith(`_${userId}`)) {
+      return conversationKey.slice(0, -(userId.length + 1));
+    }
+    return null;
+  }
+
+  /**
+   * Adopt a session the partner started from our prekey bundle.
+   */
+  private async adoptIncomingSession(session: E2ESession, incomingSessionId: string): Promise<void> {
+    const info = await encryptionService.getSessionInfo(incomingSessionId);
+    if (!info?.myIdentityKey || !info.theirIdentityKey) return;
+
+    if (this.isUsable(session) && !this.shouldAdopt(session, incomingSessionId, info.theirIdentityKey)) {
+      return;
+    }
+
+    this.cancelRetry(session.conversationKey);
+    await secureKeyService.deleteKey(`${this.PENDING_KEY_PREFIX}${session.conversationKey}`);
+
+    await this.transition(session, 'established', {
+      sessionId: incomingSessionId,
+      keyExchangeType: 'x3dh',
+      cipherSuite: CIPHER_SUITE_DOUBLE_RATCHET,
+      publicKeys: { mine: info.myIdentityKey, theirs: info.theirIdentityKey },
+      identityKeys: { mine: info.myIdentityKey, theirs: info.theirIdentityKey },
+      partnerConfirmed: true,
+      messageCount: 1,
+      pendingPublicKey: undefined,
+      created: info.created,
+      retryCount: 0,
+      lastError: undefined,
+    });
+  }
+
+  // ==========================================================================
+  // KEY CHANGES
+  // ==========================================================================
+
+  /**
+   * The user has seen the key-change warning (or verified the new key)
+   */
+  async acknowledgeKeyChange(conversationKey: string): Promise<E2ESession | null> {
+    const session = await this.load(conversationKey);
+    if (!session?.keyChange || session.keyChange.acknowledged) return session;
+
+    return await this.save({
+      ...session,
+      keyChange: { ...session.keyChange, acknowledged: true },
+      updated: Date.now(),
+    });
+  }
+
+  /**
+   * Whether a session the partner started replaces our usable one:
+   * - their identity key changed: ours was agreed with a key they no longer have
+   * - the partner never wrote on ours: they are not using it
+   * - both sessions are fresh and we already wrote on ours: the two sides
+   *   started at the same time, and both keep the lower id
+   */
+  private shouldAdopt(session: E2ESession, incomingSessionId: string, theirIdentityKey: string): boolean {
+    if (session.identityKeys?.theirs !== theirIdentityKey) return true;
+    if (session.partnerConfirmed) return false;
+    if (!session.messageCount) return true;
+    return incomingSessionId < session.sessionId!;
+  }
+
+  /**
+   * Compare the partner's identity key with the one seen before. A different
+   * key drops the verified flag and leaves a notice in the conversation.
+   * Per-exchange keys are not compared: they are new on every exchange.
+   */
+  private async checkPartnerKey(session: E2ESession): Promise<E2ESession> {
+    if (!session.recipientId || !session.identityKeys) return session;
+
+    const previousKey = await identityKeyService.recordIdentityKey(
+      session.recipientId,
+      session.identityKeys.theirs
+    );
+    if (!previousKey) return session;
+
+    await AsyncStorage.removeItem(`${this.VERIFIED_PREFIX}${session.conversationKey}`);
+    await identityKeyService.addKeyChangeNotice(session.conversationKey, session.recipientId);
+
+    return {
+      ...session,
+      keyChange: { previousKey, detectedAt: Date.now(), acknowledged: false },
+    };
+  }
+
+  /**
+   * A suite weaker than the one agreed before with this partner means
+   * someone stripped the stronger one from the advertisement
+   */
+  private checkCipherSuite(previous: CipherSuite | undefined, session: E2ESession): E2ESession {
+    if (!session.cipherSuite) return session;
+
+    if (isDowngrade(previous, session.cipherSuite)) {
+      console.warn(`⚠️ Cipher suite downgrade for ${session.conversationKey}: ${previous} → ${session.cipherSuite}`);
+      return {
+        ...session,
+        downgrade: { from: previous!, to: session.cipherSuite, detectedAt: Date.now() },
+      };
+    }
+
+    // Back to a suite at least as strong: a past downgrade no longer applies
+    if (session.downgrade && !isDowngrade(session.downgrade.from, session.cipherSuite)) {
+      return { ...session, downgrade: undefined };
+    }
+
+    return session;
+  }
+
+  /**
+   * @param fromPartner the message was decrypted, so the partner uses this key
+   */
+  private async countMessage(session: E2ESession, fromPartner = false): Promise<void> {
+    const current = await this.load(session.conversationKey);
+    if (!current || current.sessionId !== session.sessionId) return;
+
+    await this.save({
+      ...current,
+      messageCount: (current.messageCount || 0) + 1,
+      ...(fromPartner ? { partnerConfirmed: true } : {}),
+    });
+  }
+
+  // ==========================================================================
+  // ROTATION
+  // ==========================================================================
+
+  /**
+   * Our rotation offer is out: keep using the current key until answered
+   */
+  async beginRotation(
+    conversationKey: string,
+    rotation: { newSessionId: string; publicKey: string }
+  ): Promise<E2ESession | null> {
+    const session = await this.load(conversationKey);
+    if (!session || session.state !== 'established') return null;
+
+    return await this.transition(session, 'rotating', {
+      rotation: { ...rotation, startedAt: Date.now() },
+    });
+  }
+
+  /**
+   * Switch to the rotated key. The previous one keeps decrypting
+   * in-flight messages until `retireAt`. `publicKeys` and `identityKeys`
+   * stay those of the original agreement: the rotation is authenticated by
+   * the old key, and the partner answered it (`partnerConfirmed` stays).
+   */
+  async completeRotation(
+    conversationKey: string,
+    newSessionId: string,
+    overlapMs: number
+  ): Promise<E2ESession | null> {
+    const session = await this.load(conversationKey);
+    if (!session || !this.isUsable(session)) return null;
+
+    return await this.transition(session, 'established', {
+      sessionId: newSessionId,
+      rotation: undefined,
+      previousSessionId: session.sessionId!,
+      retireAt: Date.now() + overlapMs,
+      messageCount: 0,
+      created: Date.now(),
+    });
+  }
+
+  /**
+   * Give up an unanswered (or superseded) rotation offer
+   */
+  async abortRotation(conversationKey: string): Promise<E2ESession | null> {
+    const session = await this.load(conversationKey);
+    if (!session || session.state !== 'rotating') return session;
+
+    return await this.transition(session, 'established', { rotation: undefined });
+  }
+
+  /**
+   * Forget the previous key once its overlap window is over
+   */
+  async clearPreviousSession(conversationKey: string): Promise<E2ESession | null> {
+    const session = await this.load(conversationKey);
+    if (!session?.previousSessionId) return session;
+
+    return await this.save({
+      ...session,
+      previousSessionId: undefined,
+      retireAt: undefined,
+      updated: Date.now(),
+    });
+  }
+
+  // ==========================================================================
+  // STATE MACHINE
+  // ==========================================================================
+
+  /**
+   * Mark a session expired: the next ensureSession negotiates a new one
+   */
+  async expire(conversationKey: string): Promise<E2ESession | null> {
+    const session = await this.load(conversationKey);
+    if (!session || session.state === 'expired' || session.state === 'none') {
+      return session;
+    }
+    return await this.transition(session, 'expired');
+  }
+
+  private async transition(
+    session: E2ESession,
+    next: SessionState,
+    changes: Partial<E2ESession> = {}
+  ): Promise<E2ESession> {
+    if (!TRANSITIONS[session.state].includes(next)) {
+      console.warn(`⚠️ Invalid session transition ${session.state} → ${next}`);
+      return session;
+    }
+
+    if (__DEV__ && session.state !== next) {
+      console.log(`🔐 Session ${session.conversationKey}: ${session.state} → ${next}`);
+    }
+
+    let updated: E2ESession = {
+      ...session,
+      ...changes,
+      state: next,
+      updated: Date.now(),
+    };
+
+    if (changes.identityKeys) {
+      updated = await this.checkPartnerKey(updated);
+    }
+    if (changes.cipherSuite) {
+      updated = this.checkCipherSuite(session.cipherSuite, updated);
+    }
+
+    return await this.save(updated);
+  }
+
+  // ==========================================================================
+  // RETRIES
+  // ==========================================================================
+
+  private scheduleRetry(session: E2ESession): void {
+    if (session.retryCount >= this.MAX_RETRIES) {
+      console.warn(`Giving up session setup for ${session.conversationKey} after ${session.retryCount} attempts`);
+      return;
+    }
+
+    this.cancelRetry(session.conversationKey);
+
+    const delay = this.RETRY_BASE_DELAY * Math.pow(2, session.retryCount);
+    const timer = setTimeout(async () => {
+      this.retryTimers.delete(session.conversationKey);
+
+      const current = await this.load(session.conversationKey);
+      if (!current || this.isUsable(current)) return;
+
+      if (current.state === 'pending') {
+        const next = await this.save({ ...current, retryCount: current.retryCount + 1 });
+        await this.pollPendingExchange(next);
+      } else {
+        // establish() counts its own failures
+        await this.establish(current.conversationKey, current.recipientId);
+      }
+    }, delay);
+
+    this.retryTimers.set(session.conversationKey, timer);
+  }
+
+  private cancelRetry(conversationKey: string): void {
+    const timer = this.retryTimers.get(conversationKey);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(conversationKey);
+    }
+  }
+
+  // ==========================================================================
+  // STORAGE
+  // ==========================================================================
+
+  private emptySession(conversationKey: string, recipientId: string): E2ESession {
+    return {
+      conversationKey,
+      recipientId,
+      state: 'none',
+      sessionId: null,
+      created: Date.now(),
+      updated: Date.now(),
+      retryCount: 0,
+    };
+  }
+
+  private async load(conversationKey: string): Promise<E2ESession | null> {
+    try {
+      const stored = await AsyncStorage.getItem(`${this.META_PREFIX}${conversationKey}`);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        if (!parsed.state) {
+          return await this.migrateLegacyMeta(conversationKey, parsed);
+        }
+        // Stored before identityKeys: the keys of an x3dh agreement are the identity keys
+        if (!parsed.identityKeys && parsed.keyExchangeType === 'x3dh' && parsed.publicKeys) {
+          parsed.identityKeys = parsed.publicKeys;
+        }
+        return parsed;
+      }
+
+      return await this.migrateLegacyPending(conversationKey);
+    } catch (error) {
+      console.warn('Failed to load session:', error);
+      return null;
+    }
+  }
+
+  private async save(session: E2ESession): Promise<E2ESession> {
+    await AsyncStorage.setItem(`${this.META_PREFIX}${session.conversationKey}`, JSON.stringify(session));
+    this.emit(session);
+    return session;
+  }
+
+  /**
+   * `@chat_meta_*` written by ChatScreen before the session manager
+   */
+  private async migrateLegacyMeta(conversationKey: string, legacy: any): Promise<E2ESession> {
+    const session: E2ESession = {
+      ...this.emptySession(conversationKey, legacy.recipientId || ''),
+      state: legacy.sessionId ? 'established' : 'none',
+      sessionId: legacy.sessionId || null,
+      keyExchangeType: legacy.keyExchangeType,
+      publicKeys: legacy.publicKeys,
+      created: legacy.created || Date.now(),
+    };
+
+    await this.dropLegacyServerSession(conversationKey);
+    return await this.save(session);
+  }
+
+  /**
+   * `@pending_exchange_*` from ChatScreen: older versions also kept the
+   * private key there, move it to secure storage. `chat_*` kept a
+   * server-issued key in clear and is simply dropped.
+   */
+  private async migrateLegacyPending(conversationKey: string): Promise<E2ESession | null> {
+    await this.dropLegacyServerSession(conversationKey);
+
+    const legacyKey = `${this.LEGACY_PENDING_PREFIX}${conversationKey}`;
+    const stored = await AsyncStorage.getItem(legacyKey);
+    if (!stored) return null;
+
+    await AsyncStorage.removeItem(legacyKey);
+
+    const legacy = JSON.parse(stored);
+    const pendingKey = `${this.PENDING_KEY_PREFIX}${conversationKey}`;
+    if (legacy.privateKey) {
+      await secureKeyService.storeKey(pendingKey, legacy.privateKey);
+    }
+    if (!legacy.publicKey || !(await secureKeyService.getKey(pendingKey))) {
+      return null;
+    }
+
+    return await this.save({
+      ...this.emptySession(conversationKey, ''),
+      state: 'pending',
+      keyExchangeType: 'x25519-client',
+      pendingPublicKey: legacy.publicKey,
+      created: legacy.timestamp || Date.now(),
+    });
+  }
+
+  private async dropLegacyServerSession(conversationKey: string): Promise<void> {
+    await AsyncStorage.removeItem(`${this.LEGACY_SERVER_SESSION_PREFIX}${conversationKey}`);
+  }
+
+  /**
+   * Forget every session record (logout / wipe). Keys are removed by
+   * EncryptionService and SecureKeyService.
+   */
+  async clearAll(): Promise<void> {
+    for (const timer of this.retryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+    this.inFlight.clear();
+    this.opened.clear();
+
+    const keys = await AsyncStorage.getAllKeys();
+    const ours = keys.filter(k =>
+      k.startsWith(this.META_PREFIX) ||
+      k.startsWith(this.LEGACY_PENDING_PREFIX) ||
+      k.startsWith(this.VERIFIED_PREFIX)
+    );
+    if (ours.length > 0) {
+      await AsyncStorage.multiRemove(ours);
+    }
+  }
+
+  // ==========================================================================
+  // EVENT EMITTER
+  // ==========================================================================
+
+  /**
+   * Subscribe to session changes (any conversation)
+   */
+  on(callback: SessionListener): void {
+    this.listeners.push(callback);
+  }
+
+  off(callback: SessionListener): void {
+    this.listeners = this.listeners.filter(cb => cb !== callback);
+  }
+
+  private emit(session: E2ESession): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(session);
+      } catch (error) {
+        console.error('Error in session listener:', error);
+      }
+    });
+  }
+}
+
+// Create singleton instance
+const sessionManager = new SessionManager();
+
+export default sessionManager;
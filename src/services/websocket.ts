@@ -19,6 +19,8 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { store } from '@/store';
 import { addMessage, updateMessage } from '@/store/slices/chatSlice';
+import sessionManager from './sessionManager';
+import { CipherSuite, isAcceptableKeyExchange, cipherSuiteAlgorithm } from '@/utils/cipherSuites';
 import { addNotification } from '@/store/slices/notificationSlice';
 import { updateNearbyUsers } from '@/store/slices/usersSlice';
 // Import moments actions (da creare se non esistono)
@@ -274,7 +276,10 @@ class WebSocketService {
           recipient_id: data.recipient_id
         });
         
-        // Emit l'evento per ChatScreen che sta aspettando
+        // Il SessionManager completa lo scambio in attesa
+        await sessionManager.handleEncryptionReady(data, this.currentUserId);
+        
+        // Emit l'evento per i componenti interessati
         this.emit('encryption_ready', data);
         
         // Notifica visuale discreta (auto-dismiss dopo 3 secondi)
@@ -297,7 +302,7 @@ class WebSocketService {
 
       // Handler per richiesta di scambio chiavi
       case 'key_exchange':
-      case 'key_exchange_request':  // Supporta entrambi i nomi per compatibilità
+      case 'key_exchange_request': {  // Supporta entrambi i nomi per compatibilità
         console.log('🔑 Key exchange request:', {
           sender_id: data.sender_id,
           has_public_key: !!data.public_key,
@@ -305,29 +310,24 @@ class WebSocketService {
           key_type: data.key_type
         });
         
-        // Verifica che l'algoritmo sia supportato
-        const supportedAlgorithms = ['aes-256-gcm', 'x25519', 'ecdh-p256'];
-        if (data.algorithm && !supportedAlgorithms.includes(data.algorithm)) {
-          console.warn('⚠️ Unsupported algorithm:', data.algorithm);
+        // Serve almeno una suite in comune (o un client legacy con algoritmo noto)
+        if (!isAcceptableKeyExchange(data)) {
+          console.warn('⚠️ No common cipher suite:', data.metadata?.cipher_suites || data.algorithm);
           return;
         }
         
-        // Emit per notificare ChatScreen che qualcuno vuole scambiare chiavi
-        this.emit('key_exchange_request', data);
+        // Il SessionManager risponde subito, così il partner esce da "pending".
+        // A uno sconosciuto no: lo scambio si completa quando accettiamo la richiesta
+        // (import lazy: il servizio delle richieste dipende da questo)
+        const { default: messageRequestService } = await import('./messageRequestService');
+        if (await messageRequestService.canShareActivity(data.sender_id)) {
+          await sessionManager.handleKeyExchangeRequest(data, this.currentUserId);
+        }
         
-        // Salva la richiesta per reference futura
-        await AsyncStorage.setItem(
-          `pending_key_exchange_${data.sender_id}`,
-          JSON.stringify({
-            sessionId: data.session_id,
-            senderId: data.sender_id,
-            timestamp: data.timestamp,
-            algorithm: data.algorithm || 'x25519',
-            keyType: data.key_type || 'x25519',
-            publicKey: data.public_key // Se il server lo inoltra
-          })
-        );
+        // Emit per notificare i componenti interessati
+        this.emit('key_exchange_request', data);
         break;
+      }
 
       // Handler per notifica di rotazione chiavi
       case 'key_rotation':
@@ -362,7 +362,7 @@ class WebSocketService {
       
       // Handler principale per messaggi chat (supporta entrambi i tipi)
       case 'message':
-      case 'new_message':
+      case 'new_message': {
         console.log('📨 New chat message received:', data);
         
         // Log dell'algoritmo di crittografia se presente
@@ -373,8 +373,16 @@ class WebSocketService {
         // Emit specific new_message event per ChatScreen
         this.emit('new_message', data);
         
-        // Show notification only if it's not our own message
-        if (data.sender_id !== this.currentUserId) {
+        // Show notification only if it's not our own message. Control messages
+        // (timer, reactions, edits, unsends) change existing ones: not unread, no notification.
+        // Only the decrypted body says which is which: the message is opened here.
+        // Utenti bloccati: il messaggio resta sul server, ma nessun avviso
+        const { default: messageRequestService } = await import('./messageRequestService');
+        const blocked = messageRequestService.isBlocked(data.sender_id);
+        if (!this.currentUserId || data.sender_id === this.currentUserId || blocked) break;
+
+        const { default: incomingMessageService } = await import('./incomingMessageService');
+        if (await incomingMessageService.receive(this.currentUserId, data)) {
           // Notifica il ChatScreen se è aperto per questo sender
           store.dispatch({
             type: 'chat/messageReceived',
@@ -415,6 +423,7 @@ class WebSocketService {
           }
         }
         break;
+      }
 
       // Handler per indicatore di digitazione
       case 'typing_status':
@@ -422,6 +431,20 @@ class WebSocketService {
         this.emit('typing_status', data);
         break;
 
+      // Conferme di consegna e lettura dei nostri messaggi (singole o a gruppi)
+      case 'message_delivered':
+      case 'message_read': {
+        const messageIds: string[] = data.message_ids || (data.message_id ? [data.message_id] : []);
+        console.log(`✔️ Receipt received: ${data.type}`, { reader: data.reader_id, count: messageIds.length });
+        
+        this.emit('message_receipt', {
+          status: data.type === 'message_read' ? 'read' : 'delivered',
+          reader_id: data.reader_id || data.sender_id,
+          message_ids: messageIds,
+        });
+        break;
+      }
+
       // Handler per status online/offline utente
       case 'user_status':
         console.log('👤 User status received:', data);
@@ -1075,12 +1098,14 @@ class WebSocketService {
    * @param encryptedContent - Contenuto già crittografato (JSON string)
    * @param sessionId - ID della sessione di crittografia
    * @param keyType - Tipo di chiave usata (default: x25519)
+   * @param cipherSuite - Suite concordata per la sessione
    */
   sendEncryptedMessage(
     recipientId: string,
     encryptedContent: string,
     sessionId: string,
-    keyType: string = 'x25519'
+    keyType: string = 'x25519',
+    cipherSuite?: CipherSuite
   ): void {
     const message = {
       type: 'message',  // Usa 'message' per il nuovo formato
@@ -1089,7 +1114,8 @@ class WebSocketService {
       session_id: sessionId,
       key_type: keyType,
       metadata: {
-        custom_encryption: 'aes-256-gcm',
+        custom_encryption: cipherSuiteAlgorithm(cipherSuite),
+        ...(cipherSuite ? { cipher_suite: cipherSuite } : {}),
         encrypted: true,
         client_version: '1.0',
         timestamp: Date.now()
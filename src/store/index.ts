@@ -1,4 +1,4 @@
-import { configureStore } from '@reduxjs/toolkit';
+import { configureStore, combineReducers, createAction, UnknownAction } from '@reduxjs/toolkit';
 import { TypedUseSelectorHook, useDispatch, useSelector } from 'react-redux';
 import authReducer from './slices/authSlice';
 import chatReducer from './slices/chatSlice';
@@ -8,16 +8,24 @@ import usersReducer from './slices/usersSlice';
 import momentsReducer from './slices/momentsSlice';
 import profileReducer from './slices/profileSlice';
 
+const appReducer = combineReducers({
+  auth: authReducer,
+  chat: chatReducer,
+  notifications: notificationReducer,
+  ui: uiReducer,
+  users: usersReducer,
+  moments: momentsReducer,
+  profile: profileReducer,
+});
+
+// Panic wipe: every slice back to its initial state, except the signed-in account
+export const resetAppState = createAction('app/reset');
+
+const rootReducer = (state: ReturnType<typeof appReducer> | undefined, action: UnknownAction) =>
+  appReducer(resetAppState.match(action) && state ? { auth: state.auth } : state, action);
+
 export const store = configureStore({
-  reducer: {
-    auth: authReducer,
-    chat: chatReducer,
-    notifications: notificationReducer,
-    ui: uiReducer,
-    users: usersReducer,
-    moments: momentsReducer,
-    profile: profileReducer,
-  },
+  reducer: rootReducer,
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
       serializableCheck: {
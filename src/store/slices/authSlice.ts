@@ -1,6 +1,7 @@
 // src/store/slices/authSlice.ts
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ChatPreferences } from '@/types';
 
 interface AuthState {
   user: {
@@ -23,6 +24,12 @@ interface AuthState {
       mutuals: number;
       stars: number;
     };
+
+    // Chat
+    chat_preferences?: ChatPreferences;
+    notes?: {
+      mutual: string[]; // user_ids with mutual notes
+    };
   } | null;
   token: string | null;
   isAuthenticated: boolean;
@@ -84,6 +91,54 @@ export const signOutUser = createAsyncThunk(
     // Clear secure key storage
     const { default: secureKeyService } = await import('@/services/secureKeyService');
     await secureKeyService.clearAll();
+    
+    // Clear skipped message keys kept outside the secure store
+    const { default: ratchetService } = await import('@/services/ratchetService');
+    await ratchetService.clearAll();
+    
+    // Clear E2E session records
+    const { default: sessionManager } = await import('@/services/sessionManager');
+    await sessionManager.clearAll();
+    
+    // Clear known contact keys
+    const { default: identityKeyService } = await import('@/services/identityKeyService');
+    await identityKeyService.clearAll();
+    
+    // Drop messages, notes and stars still waiting to be sent
+    const { default: outboxService } = await import('@/services/outboxService');
+    await outboxService.clearAll();
+    
+    // Drop receipts not sent yet
+    const { default: receiptService } = await import('@/services/receiptService');
+    receiptService.reset();
+    
+    // Clear the local message store
+    const { default: messageStoreService } = await import('@/services/messageStoreService');
+    await messageStoreService.clearAll();
+    
+    // Clear the search index built from those messages
+    const { default: searchIndexService } = await import('@/services/searchIndexService');
+    await searchIndexService.clearAll();
+    
+    // Forget contacts, message requests and blocks
+    const { default: messageRequestService } = await import('@/services/messageRequestService');
+    await messageRequestService.clearAll();
+    
+    // Clear downloaded attachments and decrypted photos
+    const { default: attachmentService } = await import('@/services/attachmentService');
+    await attachmentService.clearCache();
+    
+    // Clear disappearing timers and pending expiries
+    const { default: disappearingMessagesService } = await import('@/services/disappearingMessagesService');
+    await disappearingMessagesService.clearAll();
+    
+    // Turn off the app lock and forget its PIN
+    const { default: appLockService } = await import('@/services/appLockService');
+    await appLockService.reset();
+    
+    // Forget panic settings and leave decoy mode
+    const { default: panicWipeService } = await import('@/services/panicWipeService');
+    await panicWipeService.reset();
   }
 );
 
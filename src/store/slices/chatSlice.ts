@@ -1,21 +1,21 @@
 // src/store/slices/chatSlice.ts
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import apiService from '@/services/api';
-import encryptionService from '@/services/encryptionService';
+import sessionManager, { E2ESession, SessionState } from '@/services/sessionManager';
+import { CipherSuite, cipherSuiteAlgorithm } from '@/utils/cipherSuites';
 import { 
   ChatMessage,
   Conversation,
   SendMessageRequest,
-  KeyExchangeResponse,
   ApiError 
 } from '@/types/api';
 
 // Client-side specific interfaces
+// Mirror of the SessionManager record: no key material in Redux
 interface ChatSession {
-  sessionId: string;
+  sessionId: string | null;
   recipientId: string;
-  encryptionKey: string;
+  state: SessionState;
   createdAt: number;
   lastMessageAt?: number;
 }
@@ -40,9 +40,18 @@ const initialState: ChatState = {
 
 // Helper to generate conversation key
 const getConversationKey = (userId: string, recipientId: string): string => {
-  return [userId, recipientId].sort().join('_');
+  return sessionManager.getConversationKey(userId, recipientId);
 };
 
+// Redux view of a SessionManager session
+export const toChatSession = (session: E2ESession, lastMessageAt?: number): ChatSession => ({
+  sessionId: session.sessionId,
+  recipientId: session.recipientId,
+  state: session.state,
+  createdAt: session.created,
+  lastMessageAt,
+});
+
 // Type guard for API errors
 const isApiError = (response: any): response is ApiError => {
   return response?.error === true;
@@ -58,59 +67,11 @@ export const initializeChatSession = createAsyncThunk(
     userId: string; 
     recipientId: string;
   }) => {
-    try {
-      const conversationKey = getConversationKey(userId, recipientId);
-      
-      // Check for existing session in storage
-      const storedSession = await AsyncStorage.getItem(`chat_${conversationKey}`);
-      if (storedSession) {
-        const session = JSON.parse(storedSession);
-        
-        // Validate session is not too old (30 days)
-        const age = Date.now() - session.createdAt;
-        if (age < 30 * 24 * 60 * 60 * 1000) {
-          return { userId, recipientId, session };
-        }
-      }
-      
-      // Create new session
-      const keyExchangeResponse = await apiService.exchangeKeys(recipientId);
-      
-      if (isApiError(keyExchangeResponse)) {
-        throw new Error(keyExchangeResponse.detail || 'Key exchange failed');
-      }
-
-      const { session_id, shared_key } = keyExchangeResponse as KeyExchangeResponse;
-      
-      if (!session_id || !shared_key) {
-        throw new Error('Invalid key exchange response');
-      }
-      
-      const session: ChatSession = {
-        sessionId: session_id,
-        recipientId,
-        encryptionKey: shared_key,
-        createdAt: Date.now(),
-      };
-      
-      // Store session
-      await AsyncStorage.setItem(`chat_${conversationKey}`, JSON.stringify(session));
-      
-      return { userId, recipientId, session };
-    } catch (error: any) {
-      console.error('Failed to initialize chat session:', error);
-      // Return a partial session without encryption
-      return {
-        userId,
-        recipientId,
-        session: {
-          sessionId: `fallback_${Date.now()}`,
-          recipientId,
-          encryptionKey: '',
-          createdAt: Date.now(),
-        }
-      };
-    }
+    // SessionManager picks the key agreement and never throws for
+    // network failures: it records the error and retries on its own
+    const session = await sessionManager.ensureSession(userId, recipientId);
+    
+    return { userId, recipientId, session: toChatSession(session) };
   }
 );
 
@@ -132,28 +93,35 @@ export const sendMessage = createAsyncThunk(
     const senderId = state.auth.user.user_id;
     const conversationKey = getConversationKey(senderId, recipientId);
     
-    // Get session from state
-    const session = state.chat.sessions[conversationKey];
+    let encrypted: {
+      sessionId: string;
+      encryptedContent: string;
+      frankingCommitment?: string;
+      cipherSuite?: CipherSuite;
+    } | null = null;
     
-    let encryptedContent = content;
-    let isEncrypted = false;
-    
-    // Try to encrypt if we have a key
-    if (session?.encryptionKey && encryptionService.isAvailable()) {
-      try {
-        encryptedContent = await encryptionService.encrypt(content, session.encryptionKey);
-        isEncrypted = true;
-      } catch (error) {
-        console.warn('Encryption failed, sending unencrypted');
-      }
+    // Try to encrypt if the conversation has a usable session
+    try {
+      encrypted = await sessionManager.encryptMessage(conversationKey, recipientId, content);
+    } catch (error) {
+      console.warn('Encryption failed, sending unencrypted');
     }
     
     // Send message
     const response = await apiService.sendMessage({
       recipient_id: recipientId,
       content,
-      encrypted_content: encryptedContent,
-      is_encrypted: isEncrypted,
+      encrypted_content: encrypted?.encryptedContent,
+      is_encrypted: !!encrypted,
+      session_id: encrypted?.sessionId,
+      metadata: encrypted
+        ? {
+            ...metadata,
+            custom_encryption: cipherSuiteAlgorithm(encrypted.cipherSuite),
+            ...(encrypted.cipherSuite ? { cipher_suite: encrypted.cipherSuite } : {}),
+            ...(encrypted.frankingCommitment ? { franking_commitment: encrypted.frankingCommitment } : {}),
+          }
+        : metadata,
     });
     
     if (response.error) {
@@ -166,7 +134,7 @@ export const sendMessage = createAsyncThunk(
       content,
       sender_id: senderId,
       recipient_id: recipientId,
-      is_encrypted: isEncrypted,
+      is_encrypted: !!encrypted,
     };
   }
 );
@@ -183,7 +151,8 @@ export const loadMessages = createAsyncThunk(
     limit?: number;
     beforeTimestamp?: number;
   }, { getState }) => {
-    const state = getState() as { chat: ChatState };
+    const state = getState() as { auth: { user: { user_id: string } }; chat: ChatState };
+    const userId = state.auth.user.user_id;
     
     // Get messages from API
     const response = await apiService.getConversationMessages(
@@ -198,48 +167,45 @@ export const loadMessages = createAsyncThunk(
     
     const { messages } = response;
     
-    // Get session for decryption
-    const session = state.chat.sessions[conversationId];
+    // Decrypt messages one at a time, oldest first: ratchet chains
+    // must advance in order
+    const decrypted = new Map<string, ChatMessage>();
+    const ordered = [...messages].sort(
+      (a: ChatMessage, b: ChatMessage) => a.timestamp - b.timestamp
+    );
     
-    // Decrypt messages
-    const decryptedMessages = await Promise.all(
-      messages.map(async (msg: ChatMessage) => {
-        // If already has content, return as is
-        if (msg.content) {
-          return msg;
-        }
-        
-        // Try to decrypt
-        if (msg.encrypted_content && session?.encryptionKey && encryptionService.isAvailable()) {
-          try {
-            const decryptedContent = await encryptionService.decrypt(
-              msg.encrypted_content,
-              session.encryptionKey
-            );
-            
-            return {
-              ...msg,
-              content: decryptedContent,
-              is_encrypted: true,
-            };
-          } catch (error) {
-            console.warn('Failed to decrypt message:', msg.id);
-            return {
-              ...msg,
-              content: '🔐 Unable to decrypt',
-              decryption_error: true,
-            };
-          }
-        }
+    for (const msg of ordered) {
+      // If already has content or is not encrypted, keep as is
+      if (msg.content || !msg.encrypted_content) {
+        continue;
+      }
+      
+      const partnerId = msg.sender_id === userId ? msg.recipient_id : msg.sender_id;
+      
+      try {
+        const { plaintext } = await sessionManager.decryptMessage(
+          conversationId,
+          partnerId,
+          msg
+        );
         
-        // No encryption key available
-        return {
+        decrypted.set(msg.id, {
           ...msg,
-          content: msg.encrypted_content ? '🔐 Unable to decrypt' : '',
-          decryption_error: !!msg.encrypted_content,
-        };
-      })
-    );
+          content: plaintext,
+          is_encrypted: true,
+        });
+      } catch (error) {
+        console.warn('Failed to decrypt message:', msg.id);
+        decrypted.set(msg.id, {
+          ...msg,
+          content: '🔐 Unable to decrypt',
+          decryption_error: true,
+        } as ChatMessage);
+      }
+    }
+    
+    // Keep the order returned by the server
+    const decryptedMessages = messages.map((msg: ChatMessage) => decrypted.get(msg.id) || msg);
     
     return {
       conversationId,
@@ -252,6 +218,13 @@ export const loadMessages = createAsyncThunk(
 export const loadConversations = createAsyncThunk(
   'chat/loadConversations',
   async (limit: number = 20) => {
+    // After a panic wipe with decoy, the list stays empty until the real PIN
+    // Imported lazily: the panic service depends on the store
+    const { default: panicWipeService } = await import('@/services/panicWipeService');
+    if (await panicWipeService.isDecoyActive()) {
+      return [];
+    }
+    
     const response = await apiService.getConversations(limit);
     
     if (isApiError(response)) {
@@ -263,50 +236,15 @@ export const loadConversations = createAsyncThunk(
 );
 
 // Background key rotation
+// Sessions due by age or message count negotiate a new key with the
+// partner; retired keys past their overlap window are deleted
 export const rotateOldSessions = createAsyncThunk(
   'chat/rotateOldSessions',
-  async (_, { getState, dispatch }) => {
-    const state = getState() as { 
-      auth: { user: { user_id: string } }; 
-      chat: ChatState 
-    };
-    const userId = state.auth.user.user_id;
-    
-    // Check all sessions
-    const rotatedSessions: string[] = [];
-    
-    for (const [conversationKey, session] of Object.entries(state.chat.sessions)) {
-      const age = Date.now() - session.createdAt;
-      
-      // Rotate if older than 7 days
-      if (age > 7 * 24 * 60 * 60 * 1000) {
-        try {
-          const response = await apiService.rotateSessionKey(session.sessionId);
-          
-          if (!isApiError(response) && response.new_session_id && response.shared_key) {
-            // Update session in storage
-            const newSession: ChatSession = {
-              sessionId: response.new_session_id,
-              recipientId: session.recipientId,
-              encryptionKey: response.shared_key,
-              createdAt: Date.now(),
-              lastMessageAt: session.lastMessageAt,
-            };
-            
-            await AsyncStorage.setItem(
-              `chat_${conversationKey}`, 
-              JSON.stringify(newSession)
-            );
-            
-            rotatedSessions.push(conversationKey);
-          }
-        } catch (error) {
-          console.warn(`Failed to rotate session for ${conversationKey}`);
-        }
-      }
-    }
-    
-    return rotatedSessions;
+  async () => {
+    // Imported lazily: the rotation service depends on the WebSocket
+    // service, which depends on the store
+    const { default: keyRotationService } = await import('@/services/keyRotationService');
+    return await keyRotationService.rotateDueSessions();
   }
 );
 
@@ -424,7 +362,10 @@ const chatSlice = createSlice({
       session: ChatSession;
     }>) => {
       const { conversationKey, session } = action.payload;
-      state.sessions[conversationKey] = session;
+      state.sessions[conversationKey] = {
+        ...session,
+        lastMessageAt: session.lastMessageAt ?? state.sessions[conversationKey]?.lastMessageAt,
+      };
     },
     
     // Clear error
@@ -510,8 +451,8 @@ const chatSlice = createSlice({
     // Rotate sessions
     builder
       .addCase(rotateOldSessions.fulfilled, (state, action) => {
-        // Sessions are updated individually in the thunk
-        console.log(`Rotated ${action.payload.length} sessions`);
+        // Sessions are updated through the SessionManager events
+        console.log(`Started rotation for ${action.payload.length} sessions`);
       });
   },
 });
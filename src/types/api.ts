@@ -42,6 +42,11 @@ export interface ApiError {
   status: number;
 }
 
+// Per-request options for writes that may be retried
+export interface RequestOptions {
+  idempotencyKey?: string;
+}
+
 export interface ApiResponse<T> {
   data?: T;
   error?: ApiError;
@@ -283,9 +288,72 @@ export interface KeyExchangeRequest {
 
 export interface KeyExchangeResponse {
   session_id: string;
+  status?: 'ready' | 'pending';
   recipient_public_key?: string;
   expires_at: number;
   algorithm: string;
+  metadata?: Record<string, string>; // Partner's exchange metadata (cipher_suites, identity_key)
+}
+
+export interface KeyStatusResponse {
+  session_id: string;
+  status: 'ready' | 'pending';
+  public_key?: string;
+  metadata?: Record<string, string>; // Partner's exchange metadata (cipher_suites, identity_key)
+}
+
+// Prekey bundles (X3DH): the server stores only public keys
+export interface SignedPrekey {
+  key_id: number;
+  public_key: string;
+  signature: string; // Ed25519 over identity_key || public_key
+}
+
+export interface OneTimePrekey {
+  key_id: number;
+  public_key: string;
+}
+
+export interface PrekeyUploadRequest {
+  identity_key: string;  // X25519
+  signing_key: string;   // Ed25519
+  signed_prekey?: SignedPrekey;
+  one_time_prekeys: OneTimePrekey[];
+  cipher_suites?: string[];
+}
+
+export interface PrekeyBundle {
+  user_id: string;
+  identity_key: string;
+  signing_key: string;
+  signed_prekey: SignedPrekey;
+  one_time_prekey?: OneTimePrekey; // Consumed by the server on fetch
+  cipher_suites?: string[]; // Absent for bundles uploaded before negotiation
+}
+
+export interface PrekeyCountResponse {
+  one_time_prekeys: number;
+  signed_prekey_id?: number;
+}
+
+// Encrypted attachments: the server only ever sees the ciphertext blob
+export interface AttachmentUploadResponse {
+  attachment_id: string;
+  size?: number;
+  expires_at?: number;
+}
+
+// Message franking: a reported message is revealed with its opening,
+// the server checks it against the tag it issued on delivery
+export interface FrankedMessageReport {
+  message_id: string;
+  sender_id: string;
+  recipient_id: string;
+  timestamp: number;
+  body: string;
+  franking_key: string;
+  commitment: string;
+  franking_tag: string;
 }
 
 export interface MarkReadRequest {
@@ -510,7 +578,8 @@ export interface WebSocketEvent {
   user_offline: { user_id: string };
   typing_status: { user_id: string; is_typing: boolean };
   new_message: ChatMessage;
-  message_read: { message_id: string; reader_id: string };
+  message_delivered: { message_id?: string; message_ids?: string[]; reader_id: string };
+  message_read: { message_id?: string; message_ids?: string[]; reader_id: string };
   reaction_received: ReactionNotification;
   note_received: NoteNotification;
   moment_starred: {
@@ -20,6 +20,14 @@ export type RootStackParamList = {
     recipientId: string;
     recipientDescriptor: string;
     conversationId: string;
+    messageId?: string; // Opened from search: scroll to this message
+  };
+  
+  // Verifica safety number di una conversazione
+  SafetyNumber: {
+    conversationKey: string;
+    recipientId: string;
+    recipientDescriptor: string;
   };
 };
 
@@ -67,6 +75,7 @@ export type IdentityScreenProps = RootStackScreenProps<'Identity'>;
 
 // Chat screen (stack)
 export type ChatScreenProps = RootStackScreenProps<'Chat'>;
+export type SafetyNumberScreenProps = RootStackScreenProps<'SafetyNumber'>;
 
 // Tab screens
 export type DiscoverScreenProps = MainTabScreenProps<'Discover'>;
@@ -0,0 +1,340 @@
+// src/utils/aesGcm.ts
+/**
+ * AES-256-GCM in puro JavaScript
+ *
+ * Implementa:
+ * - AES-256 (FIPS 197), solo cifratura del blocco: GCM non usa la decifratura
+ * - GCM (NIST SP 800-38D) con IV di qualsiasi lunghezza, AAD e tag da 128 bit
+ *
+ * Usato per gli envelope dei messaggi (il modulo nativo non accetta AAD) e
+ * quando react-native-aes-gcm-crypto non è disponibile (Expo Go, web):
+ * l'output è identico byte per byte a quello del modulo nativo, così i due
+ * client leggono i messaggi l'uno dell'altro. Pensato per testi brevi: i file
+ * passano dal modulo nativo (attachmentService).
+ */
+
+import { constantTimeEqual } from './cryptoPrimitives';
+
+const BLOCK_SIZE = 16;
+const KEY_SIZE = 32;
+const ROUNDS = 14;
+export const AES_GCM_TAG_SIZE = 16;
+
+// ============================================================================
+// AES TABLES
+// ============================================================================
+
+const SBOX = new Uint8Array(256);
+const T0 = new Uint32Array(256);
+const T1 = new Uint32Array(256);
+const T2 = new Uint32Array(256);
+const T3 = new Uint32Array(256);
+
+const xtime = (b: number): number => ((b << 1) ^ (b & 0x80 ? 0x1b : 0)) & 0xff;
+const rotl8 = (b: number, shift: number): number => ((b << shift) | (b >>> (8 - shift))) & 0xff;
+
+(function buildTables() {
+  // Walk GF(2^8) with generator 3: p runs forward, q is its inverse
+  let p = 1;
+  let q = 1;
+  do {
+    p = p ^ xtime(p);
+
+    q ^= q << 1;
+    q ^= q << 2;
+    q ^= q << 4;
+    q &= 0xff;
+    if (q & 0x80) q ^= 0x09;
+
+    SBOX[p] = q ^ rotl8(q, 1) ^ rotl8(q, 2) ^ rotl8(q, 3) ^ rotl8(q, 4) ^ 0x63;
+  } while (p !== 1);
+  SBOX[0] = 0x63;
+
+  // SubBytes + MixColumns for one byte, one table per row
+  for (let x = 0; x < 256; x++) {
+    const s = SBOX[x];
+    const s2 = xtime(s);
+    const t = ((s2 << 24) | (s << 16) | (s << 8) | (s2 ^ s)) >>> 0;
+    T0[x] = t;
+    T1[x] = ((t >>> 8) | (t << 24)) >>> 0;
+    T2[x] = ((t >>> 16) | (t << 16)) >>> 0;
+    T3[x] = ((t >>> 24) | (t << 8)) >>> 0;
+  }
+})();
+
+const subWord = (w: number): number =>
+  ((SBOX[w >>> 24] << 24) |
+    (SBOX[(w >>> 16) & 0xff] << 16) |
+    (SBOX[(w >>> 8) & 0xff] << 8) |
+    SBOX[w & 0xff]) >>> 0;
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function writeUint32(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = value >>> 24;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+}
+
+// ============================================================================
+// AES-256 BLOCK
+// ============================================================================
+
+function expandKey(key: Uint8Array): Uint32Array {
+  const words = new Uint32Array(4 * (ROUNDS + 1));
+  for (let i = 0; i < 8; i++) {
+    words[i] = readUint32(key, i * 4);
+  }
+
+  let rcon = 1;
+  for (let i = 8; i < words.length; i++) {
+    let t = words[i - 1];
+    if (i % 8 === 0) {
+      t = subWord(((t << 8) | (t >>> 24)) >>> 0) ^ (rcon << 24);
+      rcon = xtime(rcon);
+    } else if (i % 8 === 4) {
+      t = subWord(t);
+    }
+    words[i] = (words[i - 8] ^ t) >>> 0;
+  }
+
+  return words;
+}
+
+function encryptBlock(roundKeys: Uint32Array, input: Uint8Array, output: Uint8Array): void {
+  let s0 = readUint32(input, 0) ^ roundKeys[0];
+  let s1 = readUint32(input, 4) ^ roundKeys[1];
+  let s2 = readUint32(input, 8) ^ roundKeys[2];
+  let s3 = readUint32(input, 12) ^ roundKeys[3];
+
+  for (let round = 1; round < ROUNDS; round++) {
+    const k = round * 4;
+    const t0 = T0[s0 >>> 24] ^ T1[(s1 >>> 16) & 0xff] ^ T2[(s2 >>> 8) & 0xff] ^ T3[s3 & 0xff] ^ roundKeys[k];
+    const t1 = T0[s1 >>> 24] ^ T1[(s2 >>> 16) & 0xff] ^ T2[(s3 >>> 8) & 0xff] ^ T3[s0 & 0xff] ^ roundKeys[k + 1];
+    const t2 = T0[s2 >>> 24] ^ T1[(s3 >>> 16) & 0xff] ^ T2[(s0 >>> 8) & 0xff] ^ T3[s1 & 0xff] ^ roundKeys[k + 2];
+    const t3 = T0[s3 >>> 24] ^ T1[(s0 >>> 16) & 0xff] ^ T2[(s1 >>> 8) & 0xff] ^ T3[s2 & 0xff] ^ roundKeys[k + 3];
+    s0 = t0 >>> 0;
+    s1 = t1 >>> 0;
+    s2 = t2 >>> 0;
+    s3 = t3 >>> 0;
+  }
+
+  // Last round: no MixColumns
+  const k = ROUNDS * 4;
+  const lastRound = (a: number, b: number, c: number, d: number, roundKey: number): number =>
+    (((SBOX[a >>> 24] << 24) |
+      (SBOX[(b >>> 16) & 0xff] << 16) |
+      (SBOX[(c >>> 8) & 0xff] << 8) |
+      SBOX[d & 0xff]) ^ roundKey) >>> 0;
+
+  writeUint32(output, 0, lastRound(s0, s1, s2, s3, roundKeys[k]));
+  writeUint32(output, 4, lastRound(s1, s2, s3, s0, roundKeys[k + 1]));
+  writeUint32(output, 8, lastRound(s2, s3, s0, s1, roundKeys[k + 2]));
+  writeUint32(output, 12, lastRound(s3, s0, s1, s2, roundKeys[k + 3]));
+}
+
+// ============================================================================
+// GHASH
+// ============================================================================
+
+class GHash {
+  private readonly h: Uint32Array;
+  private readonly y = new Uint32Array(4);
+  private readonly block = new Uint8Array(BLOCK_SIZE);
+
+  constructor(hashKey: Uint8Array) {
+    this.h = new Uint32Array([
+      readUint32(hashKey, 0),
+      readUint32(hashKey, 4),
+      readUint32(hashKey, 8),
+      readUint32(hashKey, 12),
+    ]);
+  }
+
+  /**
+   * Absorb data, zero-padded to a whole number of blocks
+   */
+  update(data: Uint8Array): void {
+    for (let offset = 0; offset < data.length; offset += BLOCK_SIZE) {
+      const chunk = data.subarray(offset, offset + BLOCK_SIZE);
+      this.block.fill(0);
+      this.block.set(chunk);
+      this.absorbBlock(this.block);
+    }
+  }
+
+  /**
+   * Absorb the final length block and return the hash
+   */
+  finish(aadLength: number, dataLength: number): Uint8Array {
+    this.block.fill(0);
+    writeLengthBits(this.block, 0, aadLength);
+    writeLengthBits(this.block, 8, dataLength);
+    this.absorbBlock(this.block);
+
+    const out = new Uint8Array(BLOCK_SIZE);
+    for (let i = 0; i < 4; i++) {
+      writeUint32(out, i * 4, this.y[i]);
+    }
+    return out;
+  }
+
+  private absorbBlock(block: Uint8Array): void {
+    for (let i = 0; i < 4; i++) {
+      this.y[i] ^= readUint32(block, i * 4);
+    }
+    this.multiplyByH();
+  }
+
+  /**
+   * y = y · H in GF(2^128), bit-reflected as specified by GCM
+   */
+  private multiplyByH(): void {
+    let z0 = 0, z1 = 0, z2 = 0, z3 = 0;
+    let v0 = this.h[0], v1 = this.h[1], v2 = this.h[2], v3 = this.h[3];
+
+    for (let i = 0; i < 128; i++) {
+      if ((this.y[i >>> 5] >>> (31 - (i & 31))) & 1) {
+        z0 ^= v0;
+        z1 ^= v1;
+        z2 ^= v2;
+        z3 ^= v3;
+      }
+
+      const carry = v3 & 1;
+      v3 = (v3 >>> 1) | (v2 << 31);
+      v2 = (v2 >>> 1) | (v1 << 31);
+      v1 = (v1 >>> 1) | (v0 << 31);
+      v0 >>>= 1;
+      if (carry) v0 ^= 0xe1000000;
+    }
+
+    this.y[0] = z0;
+    this.y[1] = z1;
+    this.y[2] = z2;
+    this.y[3] = z3;
+  }
+}
+
+function writeLengthBits(out: Uint8Array, offset: number, byteLength: number): void {
+  const bits = byteLength * 8;
+  writeUint32(out, offset, Math.floor(bits / 0x100000000));
+  writeUint32(out, offset + 4, bits >>> 0);
+}
+
+// ============================================================================
+// GCM
+// ============================================================================
+
+export interface AesGcmResult {
+  ciphertext: Uint8Array;
+  tag: Uint8Array;
+}
+
+interface GcmContext {
+  roundKeys: Uint32Array;
+  hashKey: Uint8Array;
+  counter0: Uint8Array;
+}
+
+function setup(key: Uint8Array, iv: Uint8Array): GcmContext {
+  if (key.length !== KEY_SIZE) {
+    throw new Error('AES-256-GCM requires a 32-byte key');
+  }
+  if (iv.length === 0) {
+    throw new Error('AES-GCM requires a non-empty IV');
+  }
+
+  const roundKeys = expandKey(key);
+  const hashKey = new Uint8Array(BLOCK_SIZE);
+  encryptBlock(roundKeys, new Uint8Array(BLOCK_SIZE), hashKey);
+
+  // 96-bit IVs are used as is, any other length goes through GHASH
+  let counter0: Uint8Array;
+  if (iv.length === 12) {
+    counter0 = new Uint8Array(BLOCK_SIZE);
+    counter0.set(iv);
+    counter0[15] = 1;
+  } else {
+    const ghash = new GHash(hashKey);
+    ghash.update(iv);
+    counter0 = ghash.finish(0, iv.length);
+  }
+
+  return { roundKeys, hashKey, counter0 };
+}
+
+/**
+ * CTR mode starting at inc32(J0); encryption and decryption are the same
+ */
+function ctr(context: GcmContext, input: Uint8Array): Uint8Array {
+  const output = new Uint8Array(input.length);
+  const counter = context.counter0.slice();
+  const keystream = new Uint8Array(BLOCK_SIZE);
+  let count = readUint32(counter, 12);
+
+  for (let offset = 0; offset < input.length; offset += BLOCK_SIZE) {
+    count = (count + 1) >>> 0;
+    writeUint32(counter, 12, count);
+    encryptBlock(context.roundKeys, counter, keystream);
+
+    const end = Math.min(offset + BLOCK_SIZE, input.length);
+    for (let i = offset; i < end; i++) {
+      output[i] = input[i] ^ keystream[i - offset];
+    }
+  }
+
+  return output;
+}
+
+function computeTag(context: GcmContext, aad: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+  const ghash = new GHash(context.hashKey);
+  ghash.update(aad);
+  ghash.update(ciphertext);
+  const s = ghash.finish(aad.length, ciphertext.length);
+
+  const tag = new Uint8Array(BLOCK_SIZE);
+  encryptBlock(context.roundKeys, context.counter0, tag);
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    tag[i] ^= s[i];
+  }
+  return tag;
+}
+
+/**
+ * AES-256-GCM encryption
+ */
+export function aesGcmEncrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  plaintext: Uint8Array,
+  aad: Uint8Array = new Uint8Array(0)
+): AesGcmResult {
+  const context = setup(key, iv);
+  const ciphertext = ctr(context, plaintext);
+  return { ciphertext, tag: computeTag(context, aad, ciphertext) };
+}
+
+/**
+ * AES-256-GCM decryption
+ * @returns the plaintext, or null if the tag does not verify
+ */
+export function aesGcmDecrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  ciphertext: Uint8Array,
+  tag: Uint8Array,
+  aad: Uint8Array = new Uint8Array(0)
+): Uint8Array | null {
+  if (tag.length !== AES_GCM_TAG_SIZE) return null;
+
+  const context = setup(key, iv);
+  const expected = computeTag(context, aad, ciphertext);
+
+  if (!constantTimeEqual(expected, tag)) return null;
+
+  return ctr(context, ciphertext);
+}
@@ -0,0 +1,100 @@
+// src/utils/cipherSuites.ts
+/**
+ * Suite crittografiche negoziate nello scambio chiavi
+ *
+ * - Ogni client annuncia le suite che supporta, vince la più forte in comune
+ * - Ordine globale fisso: entrambi i lati scelgono la stessa suite senza round trip
+ * - Client che non annunciano nulla parlano implicitamente la suite legacy
+ * - Una suite più debole di quella già concordata è un downgrade
+ */
+
+export type CipherSuite =
+  | 'x25519-aes256gcm-dr1'  // X25519 + AES-256-GCM + Double Ratchet (HKDF-SHA256)
+  | 'x25519-aes256gcm';     // X25519 + AES-256-GCM, static session key
+
+export const CIPHER_SUITE_DOUBLE_RATCHET: CipherSuite = 'x25519-aes256gcm-dr1';
+export const CIPHER_SUITE_STATIC: CipherSuite = 'x25519-aes256gcm';
+
+// Strongest first
+export const SUPPORTED_CIPHER_SUITES: CipherSuite[] = [
+  CIPHER_SUITE_DOUBLE_RATCHET,
+  CIPHER_SUITE_STATIC,
+];
+
+// What clients from before negotiation speak
+const LEGACY_CIPHER_SUITES: CipherSuite[] = [CIPHER_SUITE_STATIC];
+
+// `algorithm` values sent by those clients in their key exchange
+const LEGACY_ALGORITHMS = ['aes-256-gcm', 'x25519', 'ecdh-p256'];
+
+const isCipherSuite = (value: string): value is CipherSuite =>
+  (SUPPORTED_CIPHER_SUITES as string[]).includes(value);
+
+/**
+ * Suites advertised by the partner (array or comma-separated string)
+ * @returns known suites, or null if the partner advertised nothing
+ */
+export function parseCipherSuites(value: unknown): CipherSuite[] | null {
+  const list = Array.isArray(value)
+    ? value
+    : typeof value === 'string' && value.trim()
+      ? value.split(',')
+      : null;
+  if (!list) return null;
+
+  return list
+    .filter((suite): suite is string => typeof suite === 'string')
+    .map(suite => suite.trim())
+    .filter(isCipherSuite);
+}
+
+export function serializeCipherSuites(suites: CipherSuite[] = SUPPORTED_CIPHER_SUITES): string {
+  return suites.join(',');
+}
+
+/**
+ * Strongest suite both sides support
+ * @param theirs the partner's advertisement, null for clients without negotiation
+ */
+export function negotiateCipherSuite(theirs: CipherSuite[] | null): CipherSuite | null {
+  const offered = theirs ?? LEGACY_CIPHER_SUITES;
+  return SUPPORTED_CIPHER_SUITES.find(suite => offered.includes(suite)) || null;
+}
+
+/**
+ * Whether an incoming key exchange can lead to a session we can use
+ */
+export function isAcceptableKeyExchange(data: Record<string, any>): boolean {
+  const advertised = parseCipherSuites(data.metadata?.cipher_suites ?? data.cipher_suites);
+  if (advertised) {
+    return negotiateCipherSuite(advertised) !== null;
+  }
+  return !data.algorithm || LEGACY_ALGORITHMS.includes(data.algorithm);
+}
+
+export function cipherSuiteStrength(suite: CipherSuite | undefined): number {
+  const index = suite ? SUPPORTED_CIPHER_SUITES.indexOf(suite) : -1;
+  return index < 0 ? 0 : SUPPORTED_CIPHER_SUITES.length - index;
+}
+
+/**
+ * A suite weaker than the one previously agreed with the same partner
+ */
+export function isDowngrade(previous: CipherSuite | undefined, next: CipherSuite): boolean {
+  return !!previous && cipherSuiteStrength(next) < cipherSuiteStrength(previous);
+}
+
+/**
+ * Sessions from before negotiation always ran the ratchet
+ */
+export function usesDoubleRatchet(suite: CipherSuite | undefined): boolean {
+  return !suite || suite === CIPHER_SUITE_DOUBLE_RATCHET;
+}
+
+/**
+ * Message cipher, as stamped in `custom_encryption`
+ */
+export function cipherSuiteAlgorithm(_suite: CipherSuite | undefined): string {
+  // Every suite we speak encrypts messages with AES-256-GCM
+  return 'aes-256-gcm';
+}
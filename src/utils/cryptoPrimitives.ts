@@ -0,0 +1,182 @@
+// src/utils/cryptoPrimitives.ts
+/**
+ * Primitive crittografiche sincrone in puro JavaScript
+ *
+ * Implementa:
+ * - SHA-256 (FIPS 180-4)
+ * - HMAC-SHA256 (RFC 2104)
+ * - HKDF-SHA256 (RFC 5869)
+ * - Helper per byte array (concat, confronto a tempo costante)
+ *
+ * expo-crypto espone solo digest asincroni su stringhe: le catene di chiavi
+ * del ratchet richiedono invece derivazioni sincrone su byte.
+ */
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const SHA256_BLOCK_SIZE = 64;
+const SHA256_OUTPUT_SIZE = 32;
+
+/**
+ * SHA-256 digest of a byte array
+ */
+export function sha256(data: Uint8Array): Uint8Array {
+  const h = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a,
+    0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+
+  // Padding: 0x80, zeros, 64-bit big-endian bit length
+  const bitLength = data.length * 8;
+  const paddedLength = Math.ceil((data.length + 9) / SHA256_BLOCK_SIZE) * SHA256_BLOCK_SIZE;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < paddedLength; offset += SHA256_BLOCK_SIZE) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const x = w[i - 15];
+      const y = w[i - 2];
+      const s0 = ((x >>> 7) | (x << 25)) ^ ((x >>> 18) | (x << 14)) ^ (x >>> 3);
+      const s1 = ((y >>> 17) | (y << 15)) ^ ((y >>> 19) | (y << 13)) ^ (y >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let a = h[0], b = h[1], c = h[2], d = h[3];
+    let e = h[4], f = h[5], g = h[6], hh = h[7];
+
+    for (let i = 0; i < 64; i++) {
+      const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (hh + S1 + ch + K[i] + w[i]) | 0;
+      const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) | 0;
+
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    h[0] = (h[0] + a) | 0;
+    h[1] = (h[1] + b) | 0;
+    h[2] = (h[2] + c) | 0;
+    h[3] = (h[3] + d) | 0;
+    h[4] = (h[4] + e) | 0;
+    h[5] = (h[5] + f) | 0;
+    h[6] = (h[6] + g) | 0;
+    h[7] = (h[7] + hh) | 0;
+  }
+
+  const out = new Uint8Array(SHA256_OUTPUT_SIZE);
+  const outView = new DataView(out.buffer);
+  for (let i = 0; i < 8; i++) {
+    outView.setUint32(i * 4, h[i]);
+  }
+  return out;
+}
+
+/**
+ * HMAC-SHA256
+ */
+export function hmacSha256(key: Uint8Array, data: Uint8Array): Uint8Array {
+  let blockKey = key.length > SHA256_BLOCK_SIZE ? sha256(key) : key;
+  const padded = new Uint8Array(SHA256_BLOCK_SIZE);
+  padded.set(blockKey);
+  blockKey = padded;
+
+  const inner = new Uint8Array(SHA256_BLOCK_SIZE);
+  const outer = new Uint8Array(SHA256_BLOCK_SIZE);
+  for (let i = 0; i < SHA256_BLOCK_SIZE; i++) {
+    inner[i] = blockKey[i] ^ 0x36;
+    outer[i] = blockKey[i] ^ 0x5c;
+  }
+
+  return sha256(concatBytes(outer, sha256(concatBytes(inner, data))));
+}
+
+/**
+ * HKDF-SHA256: extract + expand
+ * @param ikm - input key material
+ * @param salt - optional salt (defaults to 32 zero bytes)
+ * @param info - context string binding the output to its purpose
+ * @param length - output length in bytes (max 255 * 32)
+ */
+export function hkdf(
+  ikm: Uint8Array,
+  salt: Uint8Array | null,
+  info: Uint8Array,
+  length: number
+): Uint8Array {
+  if (length > 255 * SHA256_OUTPUT_SIZE) {
+    throw new Error('HKDF output length too large');
+  }
+
+  const prk = hmacSha256(salt && salt.length > 0 ? salt : new Uint8Array(SHA256_OUTPUT_SIZE), ikm);
+
+  const okm = new Uint8Array(length);
+  let previous: Uint8Array = new Uint8Array(0);
+  let written = 0;
+  for (let counter = 1; written < length; counter++) {
+    previous = hmacSha256(prk, concatBytes(previous, info, new Uint8Array([counter])));
+    const take = Math.min(previous.length, length - written);
+    okm.set(previous.subarray(0, take), written);
+    written += take;
+  }
+
+  return okm;
+}
+
+/**
+ * Concatenate byte arrays
+ */
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * Compare two byte arrays without leaking the position of the first mismatch
+ */
+export function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+/**
+ * Overwrite sensitive key material in place
+ */
+export function wipeBytes(bytes: Uint8Array): void {
+  bytes.fill(0);
+}
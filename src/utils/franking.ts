@@ -0,0 +1,85 @@
+// src/utils/franking.ts
+/**
+ * Message franking per segnalazioni verificabili nelle chat E2E
+ *
+ * - Il mittente sceglie una chiave di franking casuale per ogni messaggio
+ * - Commitment = HMAC-SHA256(chiave, corpo): viaggia in chiaro, il server lo controfirma
+ * - La chiave viaggia cifrata insieme al corpo: solo il destinatario la conosce
+ * - Segnalare = rivelare corpo e chiave di quel messaggio, nient'altro
+ */
+import util from 'tweetnacl-util';
+import { hmacSha256, constantTimeEqual } from './cryptoPrimitives';
+
+export const FRANKING_KEY_SIZE = 32;
+
+// Base64 of a 32-byte key: the fixed-size prefix of a franked plaintext
+const FRAMED_KEY_LENGTH = 44;
+
+export interface FrankingOpening {
+  key: string;         // Franking key (base64), revealed only when reporting
+  commitment: string;  // HMAC-SHA256(key, body) (base64), countersigned by the server
+}
+
+// What the recipient keeps to report a message later
+export interface FrankingReceipt extends FrankingOpening {
+  tag: string;  // Server countersignature over commitment, parties and timestamp
+}
+
+export function computeFrankingCommitment(keyBase64: string, body: string): string {
+  return util.encodeBase64(hmacSha256(util.decodeBase64(keyBase64), util.decodeUTF8(body)));
+}
+
+export function verifyFrankingCommitment(opening: FrankingOpening, body: string): boolean {
+  try {
+    return constantTimeEqual(
+      util.decodeBase64(computeFrankingCommitment(opening.key, body)),
+      util.decodeBase64(opening.commitment)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Plaintext actually encrypted: franking key, then the message body
+ */
+export function frameFrankedPlaintext(keyBase64: string, body: string): string {
+  if (keyBase64.length !== FRAMED_KEY_LENGTH) {
+    throw new Error('Invalid franking key');
+  }
+  return keyBase64 + body;
+}
+
+/**
+ * Split a franked plaintext and check it against the commitment the sender shipped
+ * @returns null if the frame is malformed or the commitment does not open
+ */
+export function openFrankedPlaintext(
+  framed: string,
+  commitment: string
+): { body: string; franking: FrankingOpening } | null {
+  if (framed.length < FRAMED_KEY_LENGTH) return null;
+
+  const franking = { key: framed.slice(0, FRAMED_KEY_LENGTH), commitment };
+  const body = framed.slice(FRAMED_KEY_LENGTH);
+  try {
+    if (util.decodeBase64(franking.key).length !== FRANKING_KEY_SIZE) return null;
+  } catch {
+    return null;
+  }
+
+  return verifyFrankingCommitment(franking, body) ? { body, franking } : null;
+}
+
+/**
+ * Receipt for a delivered message, if the server countersigned the same
+ * commitment the sender put in the envelope
+ */
+export function frankingReceipt(
+  opening: FrankingOpening | undefined,
+  metadata?: Record<string, any>
+): FrankingReceipt | undefined {
+  if (!opening || typeof metadata?.franking_tag !== 'string') return undefined;
+  if (metadata.franking_commitment !== opening.commitment) return undefined;
+  return { ...opening, tag: metadata.franking_tag };
+}
@@ -0,0 +1,152 @@
+// src/utils/messageBody.ts
+/**
+ * Corpo dei messaggi di chat (il plaintext dentro la cifratura)
+ *
+ * - Il testo semplice resta una stringa: i client precedenti lo leggono com'è
+ * - Il testo che inizia con `{` viaggia comunque come JSON: digitato, non può passare per un controllo
+ * - I contenuti strutturati (foto, timer, ...) sono JSON con il marcatore `notamy`
+ * - Con i messaggi a scomparsa anche il testo diventa JSON, per portare il proprio timer
+ * - I messaggi di controllo (es. cambio timer, reazioni) viaggiano cifrati come gli altri
+ * - Una risposta porta id e breve estratto del messaggio citato, cifrati nel corpo
+ * - Modifica e annullamento dell'invio sono controlli che puntano all'id del messaggio
+ * - Tutto ciò che non si riconosce è trattato come testo
+ */
+
+const BODY_MARKER = 'notamy';
+const BODY_VERSION = 1;
+const MAX_EMOJI_LENGTH = 16; // Flags and skin tones take several code units
+const MAX_EXCERPT_LENGTH = 100;
+const MAX_THUMBNAIL_LENGTH = 4096;
+
+export interface ImageAttachment {
+  id: string;       // Server id of the encrypted blob
+  key: string;      // Fresh AES-256 key for this file (base64)
+  digest: string;   // SHA-256 of the encrypted blob (hex), checked before decrypting
+  size: number;     // Encrypted blob size in bytes
+  mime: string;
+  width: number;
+  height: number;
+  thumbnail?: string; // Tiny JPEG (base64), shown while the photo downloads
+}
+
+// Reply: the excerpt is the sender's word, shown (as unverified) only when the original isn't on this device
+export interface MessageQuote {
+  id: string;       // Quoted message id
+  sender: string;   // Its sender id
+  excerpt: string;
+}
+
+// expiresIn: disappearing timer (seconds) the message was sent with
+export type MessageBody =
+  | { type: 'text'; text: string; expiresIn?: number; replyTo?: MessageQuote }
+  | { type: 'image'; image: ImageAttachment; expiresIn?: number; replyTo?: MessageQuote }
+  | { type: 'timer'; seconds: number } // Control: disappearing timer changed
+  | { type: 'reaction'; target: string; emoji: string | null; expiresIn?: number } // Control: null removes ours
+  | { type: 'edit'; target: string; text: string }  // Control: new text of one of our messages
+  | { type: 'unsend'; target: string };             // Control: one of our messages, deleted for everyone
+
+export function encodeMessageBody(body: MessageBody): string {
+  if (body.type === 'text' && !body.expiresIn && !body.replyTo && !body.text.startsWith('{')) {
+    return body.text;
+  }
+  return JSON.stringify({ [BODY_MARKER]: BODY_VERSION, ...body });
+}
+
+const isImageAttachment = (value: any): value is ImageAttachment =>
+  !!value &&
+  typeof value.id === 'string' &&
+  typeof value.key === 'string' &&
+  typeof value.digest === 'string' &&
+  typeof value.mime === 'string' &&
+  Number.isFinite(value.size) &&
+  Number.isFinite(value.width) && value.width > 0 &&
+  Number.isFinite(value.height) && value.height > 0 &&
+  (value.thumbnail === undefined ||
+    (typeof value.thumbnail === 'string' && value.thumbnail.length <= MAX_THUMBNAIL_LENGTH));
+
+const isMessageQuote = (value: any): value is MessageQuote =>
+  !!value &&
+  typeof value.id === 'string' && value.id.length > 0 &&
+  typeof value.sender === 'string' &&
+  typeof value.excerpt === 'string' && value.excerpt.length <= MAX_EXCERPT_LENGTH + 1;
+
+export function parseMessageBody(content: string): MessageBody {
+  const text: MessageBody = { type: 'text', text: content };
+  if (!content.startsWith(`{"${BODY_MARKER}":`)) return text;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return text;
+  }
+  if (parsed?.[BODY_MARKER] !== BODY_VERSION) return text;
+
+  const expiresIn = Number.isFinite(parsed.expiresIn) && parsed.expiresIn > 0
+    ? { expiresIn: parsed.expiresIn as number }
+    : {};
+
+  const replyTo = isMessageQuote(parsed.replyTo)
+    ? { replyTo: { id: parsed.replyTo.id, sender: parsed.replyTo.sender, excerpt: parsed.replyTo.excerpt } }
+    : {};
+
+  if (parsed.type === 'text' && typeof parsed.text === 'string') {
+    return { type: 'text', text: parsed.text, ...expiresIn, ...replyTo };
+  }
+  if (parsed.type === 'image' && isImageAttachment(parsed.image)) {
+    return { type: 'image', image: parsed.image, ...expiresIn, ...replyTo };
+  }
+  if (parsed.type === 'timer' && Number.isFinite(parsed.seconds) && parsed.seconds >= 0) {
+    return { type: 'timer', seconds: parsed.seconds };
+  }
+  if (
+    parsed.type === 'reaction' &&
+    typeof parsed.target === 'string' && parsed.target.length > 0 &&
+    (parsed.emoji === null || (typeof parsed.emoji === 'string' && parsed.emoji.length > 0 && parsed.emoji.length <= MAX_EMOJI_LENGTH))
+  ) {
+    return { type: 'reaction', target: parsed.target, emoji: parsed.emoji, ...expiresIn };
+  }
+  if (parsed.type === 'edit' && typeof parsed.target === 'string' && typeof parsed.text === 'string') {
+    return { type: 'edit', target: parsed.target, text: parsed.text };
+  }
+  if (parsed.type === 'unsend' && typeof parsed.target === 'string') {
+    return { type: 'unsend', target: parsed.target };
+  }
+  return text;
+}
+
+/**
+ * Disappearing timer a message was sent with, if any
+ */
+export function messageExpiresIn(body: MessageBody): number | undefined {
+  return 'expiresIn' in body ? body.expiresIn : undefined;
+}
+
+/**
+ * Control messages that act on another message and have no bubble of their own
+ */
+export function isSilentControl(body: MessageBody): boolean {
+  return body.type === 'reaction' || body.type === 'edit' || body.type === 'unsend';
+}
+
+/**
+ * Control messages change the conversation instead of saying something:
+ * they are not unread and never notified
+ */
+export function isControlMessage(body: MessageBody): boolean {
+  return body.type === 'timer' || isSilentControl(body);
+}
+
+/**
+ * Quote for a reply: the message id, its sender and a short excerpt
+ */
+export function quoteMessage(message: { id: string; sender_id: string; content: string }): MessageQuote {
+  const body = parseMessageBody(message.content);
+  const text = body.type === 'text' ? body.text.replace(/\s+/g, ' ').trim() : '📷 Photo';
+
+  return {
+    id: message.id,
+    sender: message.sender_id,
+    excerpt: text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH)}…` : text,
+  };
+}
@@ -0,0 +1,121 @@
+// src/utils/messageEdits.ts
+/**
+ * Modifica e annullamento dell'invio dei messaggi di chat
+ *
+ * - Solo i propri messaggi, entro EDIT_WINDOW_SECONDS dall'invio
+ * - Il destinatario ricontrolla mittente e finestra: un controllo fuori regola è ignorato
+ * - La modifica sostituisce il testo e tiene in locale le versioni precedenti
+ * - Una segnalazione riporta il corpo originale: è quello coperto dal franking
+ * - L'annullamento lascia una lapide con id e orario: ordine e conteggi restano giusti
+ */
+import { encodeMessageBody, parseMessageBody, MessageBody } from './messageBody';
+
+// Configurable per build; receivers allow some clock skew on top
+export const EDIT_WINDOW_SECONDS = Number(process.env.EXPO_PUBLIC_MESSAGE_EDIT_WINDOW) || 15 * 60;
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface EditHistoryEntry {
+  text: string;
+  timestamp: number; // When this version was written (seconds)
+  body?: string;     // Full message body of this version, absent on older entries
+}
+
+interface EditableMessage {
+  id: string;
+  sender_id: string;
+  content: string;
+  timestamp: number;
+  status?: string;
+  deleted?: boolean;
+  edited_at?: number;
+  edit_history?: EditHistoryEntry[];
+}
+
+type EditChanges = Pick<EditableMessage, 'content' | 'deleted' | 'edited_at' | 'edit_history'>;
+
+/**
+ * Whether we may still edit or unsend one of our messages
+ */
+export function canModifyMessage(
+  message: EditableMessage,
+  currentUserId?: string,
+  now: number = Date.now() / 1000
+): boolean {
+  return (
+    !!currentUserId &&
+    message.sender_id === currentUserId &&
+    !message.deleted &&
+    message.status !== 'sending' &&
+    message.status !== 'failed' &&
+    now - message.timestamp <= EDIT_WINDOW_SECONDS
+  );
+}
+
+/**
+ * What an edit or unsend does to its target, or null when it is not allowed
+ * (someone else's message, outside the window, already unsent, stale edit)
+ */
+export function controlChanges(
+  target: EditableMessage,
+  control: { sender_id: string; timestamp: number },
+  body: Extract<MessageBody, { type: 'edit' | 'unsend' }>
+): EditChanges | null {
+  if (target.deleted || control.sender_id !== target.sender_id) return null;
+  if (control.timestamp - target.timestamp > EDIT_WINDOW_SECONDS + CLOCK_SKEW_SECONDS) return null;
+
+  if (body.type === 'unsend') {
+    return { content: '', deleted: true, edited_at: undefined, edit_history: undefined };
+  }
+
+  const current = parseMessageBody(target.content);
+  if (current.type !== 'text') return null;
+  // Edits can arrive out of order: the latest one wins
+  if (target.edited_at && control.timestamp <= target.edited_at) return null;
+
+  return {
+    content: encodeMessageBody({ ...current, text: body.text }),
+    edited_at: control.timestamp,
+    edit_history: [
+      ...(target.edit_history || []),
+      { text: current.text, timestamp: target.edited_at ?? target.timestamp, body: target.content },
+    ],
+  };
+}
+
+/**
+ * The body the sender committed to when franking the message: the first
+ * version of an edited message. Null if an older history did not keep it.
+ */
+export function frankedBody(message: Pick<EditableMessage, 'content' | 'edit_history'>): string | null {
+  const original = message.edit_history?.[0];
+  if (!original) return message.content;
+  return original.body ?? null;
+}
+
+/**
+ * Apply the edits and unsends among `controls` to `messages`, in time order.
+ * Returns the same array when nothing changed.
+ */
+export function applyControlMessages<T extends EditableMessage>(
+  messages: T[],
+  controls: { sender_id: string; timestamp: number; content: string }[]
+): T[] {
+  let result = messages;
+
+  const ordered = [...controls].sort((a, b) => a.timestamp - b.timestamp);
+  for (const control of ordered) {
+    const body = parseMessageBody(control.content);
+    if (body.type !== 'edit' && body.type !== 'unsend') continue;
+
+    const index = result.findIndex(msg => msg.id === body.target);
+    if (index === -1) continue;
+
+    const changes = controlChanges(result[index], control, body);
+    if (!changes) continue;
+
+    result = [...result];
+    result[index] = { ...result[index], ...changes };
+  }
+
+  return result;
+}
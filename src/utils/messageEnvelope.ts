@@ -0,0 +1,139 @@
+// src/utils/messageEnvelope.ts
+/**
+ * Envelope versionato dei messaggi cifrati
+ *
+ * - Lega ogni ciphertext a mittente, destinatario, sessione e contatore (AAD)
+ * - Il contatore è monotono per mittente e sessione
+ * - La finestra anti-replay rifiuta duplicati e contatori troppo vecchi
+ * - v3 aggiunge il padding del plaintext a taglie fisse (bucket)
+ * - v4 aggiunge il commitment di franking, autenticato nell'AAD
+ * - Messaggi senza versione (client precedenti) non hanno AAD né contatore
+ */
+import util from 'tweetnacl-util';
+
+// Version 1 is the unversioned format: no `v` field, no AAD
+export const ENVELOPE_VERSION_AAD = 2;     // AAD + counter
+export const ENVELOPE_VERSION_PADDED = 3;  // AAD + counter + bucketed padding
+export const ENVELOPE_VERSION_FRANKED = 4; // v3 + franking commitment
+export const ENVELOPE_VERSION = ENVELOPE_VERSION_FRANKED;
+
+export const SUPPORTED_ENVELOPE_VERSIONS = [
+  ENVELOPE_VERSION_AAD,
+  ENVELOPE_VERSION_PADDED,
+  ENVELOPE_VERSION_FRANKED,
+];
+
+// Smallest bucket: every short chat line looks the same
+const MIN_PADDED_SIZE = 64;
+// Power-of-two buckets up to here, then multiples of it
+const MAX_BUCKET_STEP = 4096;
+const PADDING_MARKER = 0x80;
+
+// How far behind the highest counter a late message is still accepted
+export const REPLAY_WINDOW_SIZE = 128;
+
+export interface EnvelopeContext {
+  senderId: string;
+  recipientId: string;
+}
+
+export interface ReplayWindow {
+  highest: number;  // Highest counter accepted so far
+  seen: number[];   // Accepted counters within the window
+}
+
+const AAD_LABEL = 'notamy-msg';
+
+/**
+ * Associated data authenticated alongside the ciphertext.
+ * A JSON array keeps field boundaries unambiguous.
+ * The franking commitment is appended only when present, so v2/v3 AAD is unchanged.
+ */
+export function buildEnvelopeAad(
+  version: number,
+  context: EnvelopeContext,
+  sessionId: string,
+  counter: number,
+  franking?: string
+): Uint8Array {
+  const fields: (string | number)[] = [
+    AAD_LABEL,
+    version,
+    context.senderId,
+    context.recipientId,
+    sessionId,
+    counter,
+  ];
+  if (franking !== undefined) fields.push(franking);
+  return util.decodeUTF8(JSON.stringify(fields));
+}
+
+export function isValidCounter(counter: unknown): counter is number {
+  return typeof counter === 'number' && Number.isSafeInteger(counter) && counter > 0;
+}
+
+export function emptyReplayWindow(): ReplayWindow {
+  return { highest: 0, seen: [] };
+}
+
+/**
+ * Whether a counter may still be accepted: not seen and not older than the window
+ */
+export function isFreshCounter(window: ReplayWindow, counter: number): boolean {
+  if (!isValidCounter(counter)) return false;
+  if (counter > window.highest) return true;
+  if (counter <= window.highest - REPLAY_WINDOW_SIZE) return false;
+  return !window.seen.includes(counter);
+}
+
+/**
+ * Window after accepting a counter. Call only once the message has decrypted.
+ */
+export function acceptCounter(window: ReplayWindow, counter: number): ReplayWindow {
+  const highest = Math.max(window.highest, counter);
+  const seen = [...window.seen, counter]
+    .filter(value => value > highest - REPLAY_WINDOW_SIZE)
+    .sort((a, b) => a - b);
+  return { highest, seen };
+}
+
+export function isPaddedEnvelope(version: number | undefined): boolean {
+  return version === ENVELOPE_VERSION_PADDED || version === ENVELOPE_VERSION_FRANKED;
+}
+
+export function isFrankedEnvelope(version: number | undefined): boolean {
+  return version === ENVELOPE_VERSION_FRANKED;
+}
+
+/**
+ * Padded size for a plaintext of this length (marker byte included)
+ */
+export function paddedLength(length: number): number {
+  const needed = length + 1;
+  if (needed > MAX_BUCKET_STEP) {
+    return Math.ceil(needed / MAX_BUCKET_STEP) * MAX_BUCKET_STEP;
+  }
+  let bucket = MIN_PADDED_SIZE;
+  while (bucket < needed) bucket *= 2;
+  return bucket;
+}
+
+/**
+ * ISO/IEC 7816-4 padding: 0x80, then zeros up to the bucket size
+ */
+export function padPlaintext(plaintext: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(paddedLength(plaintext.length));
+  padded.set(plaintext);
+  padded[plaintext.length] = PADDING_MARKER;
+  return padded;
+}
+
+/**
+ * @returns the original plaintext, or null if the padding is malformed
+ */
+export function unpadPlaintext(padded: Uint8Array): Uint8Array | null {
+  let end = padded.length - 1;
+  while (end >= 0 && padded[end] === 0) end--;
+  if (end < 0 || padded[end] !== PADDING_MARKER) return null;
+  return padded.slice(0, end);
+}
@@ -0,0 +1,69 @@
+// src/utils/reactions.ts
+/**
+ * Reazioni ai singoli messaggi di chat
+ *
+ * - Ogni reazione è un messaggio di controllo cifrato che punta all'id del messaggio
+ * - Una reazione per persona e messaggio: l'ultima vince, emoji null la toglie
+ * - I chip si ricavano dai messaggi della chat, quindi restano uguali sui due dispositivi
+ */
+import { parseMessageBody } from './messageBody';
+
+export const CHAT_REACTIONS = ['❤️', '😂', '😮', '😢', '👍', '🔥'];
+
+export interface ReactionChip {
+  emoji: string;
+  count: number;
+  mine: boolean;
+}
+
+interface ReactionSource {
+  id: string;
+  sender_id: string;
+  content: string;
+  timestamp: number;
+  status?: string;
+}
+
+/**
+ * Reaction chips per target message id, most used first
+ */
+export function aggregateReactions(
+  messages: ReactionSource[],
+  currentUserId?: string
+): Map<string, ReactionChip[]> {
+  // target → sender → emoji, applied in time order
+  const latest = new Map<string, Map<string, string>>();
+
+  const reactions = messages
+    .filter(msg => msg.status !== 'failed')
+    .map(msg => ({ msg, body: parseMessageBody(msg.content) }))
+    .sort((a, b) => a.msg.timestamp - b.msg.timestamp);
+
+  for (const { msg, body } of reactions) {
+    if (body.type !== 'reaction') continue;
+
+    const bySender = latest.get(body.target) || new Map<string, string>();
+    if (body.emoji) {
+      bySender.set(msg.sender_id, body.emoji);
+    } else {
+      bySender.delete(msg.sender_id);
+    }
+    latest.set(body.target, bySender);
+  }
+
+  const chips = new Map<string, ReactionChip[]>();
+  latest.forEach((bySender, target) => {
+    const byEmoji = new Map<string, ReactionChip>();
+    bySender.forEach((emoji, senderId) => {
+      const chip = byEmoji.get(emoji) || { emoji, count: 0, mine: false };
+      chip.count += 1;
+      chip.mine = chip.mine || senderId === currentUserId;
+      byEmoji.set(emoji, chip);
+    });
+    if (byEmoji.size > 0) {
+      chips.set(target, [...byEmoji.values()].sort((a, b) => b.count - a.count));
+    }
+  });
+
+  return chips;
+}